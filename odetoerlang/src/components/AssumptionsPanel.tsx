@@ -13,11 +13,15 @@ import {
   DialogTitle,
   DialogFooter,
 } from './ui/Dialog';
-import type { Assumption } from '../lib/database/dataAccess';
+import type { Assumption, AssumptionSchedule } from '../lib/database/dataAccess';
 import { useEntityForm } from '../hooks/useEntityForm';
+import { SHRINKAGE_CATEGORY_KINDS } from '../utils/constants';
+import { isServiceTargetAssumption, parseDaysOfWeek } from '../lib/forecasting/serviceTargetProfile';
 
-const ASSUMPTION_TYPES = ['AHT', 'Shrinkage', 'Occupancy', 'SLA', 'AveragePatience'];
+const ASSUMPTION_TYPES = ['AHT', 'Shrinkage', 'Occupancy', 'SLA', 'SLThreshold', 'AveragePatience', 'TargetASA', 'TargetAbandonRate', 'TargetWaitPercentile'];
 const UNITS = ['seconds', 'percent', 'ratio', 'count'];
+const SHRINKAGE_CATEGORIES = Object.keys(SHRINKAGE_CATEGORY_KINDS);
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 interface AssumptionFormValues extends Record<string, unknown> {
   assumption_type: string;
@@ -26,6 +30,13 @@ interface AssumptionFormValues extends Record<string, unknown> {
   valid_from: string;
   valid_to: string;
   campaign_id: number | null;
+  /** Shrinkage only; '' = total shrinkage */
+  shrinkage_category: string;
+  /** SLA / SLThreshold only; empty = every day */
+  days_of_week: number[];
+  /** SLA / SLThreshold only; '' = whole day */
+  time_from: string;
+  time_to: string;
 }
 
 const EMPTY_DEFAULTS: AssumptionFormValues = {
@@ -35,6 +46,32 @@ const EMPTY_DEFAULTS: AssumptionFormValues = {
   valid_from: '',
   valid_to: '',
   campaign_id: null,
+  shrinkage_category: '',
+  days_of_week: [],
+  time_from: '',
+  time_to: '',
+};
+
+const shrinkageCategoryOf = (v: AssumptionFormValues): string | null =>
+  v.assumption_type === 'Shrinkage' && v.shrinkage_category ? v.shrinkage_category : null;
+
+const scheduleOf = (v: AssumptionFormValues): AssumptionSchedule | null => {
+  if (!isServiceTargetAssumption(v.assumption_type)) return null;
+  if (v.days_of_week.length === 0 && !v.time_from && !v.time_to) return null;
+  return {
+    days_of_week: v.days_of_week.length > 0 ? [...v.days_of_week].sort((a, b) => a - b).join(',') : null,
+    time_from: v.time_from || null,
+    time_to: v.time_to || null,
+  };
+};
+
+const formatSchedule = (a: Assumption): string | null => {
+  const days = parseDaysOfWeek(a.days_of_week);
+  const parts = [
+    days ? [...days].sort((a, b) => a - b).map(d => DAY_LABELS[d]).join(' ') : null,
+    a.time_from || a.time_to ? `${a.time_from ?? '00:00'}–${a.time_to ?? '24:00'}` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
 };
 
 const AssumptionsPanel: React.FC = () => {
@@ -55,11 +92,18 @@ const AssumptionsPanel: React.FC = () => {
       valid_from: a.valid_from,
       valid_to: a.valid_to ?? '',
       campaign_id: a.campaign_id,
+      shrinkage_category: a.shrinkage_category ?? '',
+      days_of_week: [...(parseDaysOfWeek(a.days_of_week) ?? [])],
+      time_from: a.time_from ?? '',
+      time_to: a.time_to ?? '',
     }),
     validate: (v) => {
       if (!v.assumption_type || v.value === '' || !v.valid_from) {
         return 'Please fill all required fields.';
       }
+      if (isServiceTargetAssumption(v.assumption_type) && Boolean(v.time_from) !== Boolean(v.time_to)) {
+        return 'Set both ends of the time window, or neither.';
+      }
       return null;
     },
     // saveAssumption is an upsert; we call it from both create and update paths.
@@ -70,6 +114,8 @@ const AssumptionsPanel: React.FC = () => {
       v.valid_from,
       v.campaign_id,
       v.valid_to || null,
+      shrinkageCategoryOf(v),
+      scheduleOf(v),
     ),
     updateFn: (_id, v) => saveAssumption(
       v.assumption_type,
@@ -78,6 +124,8 @@ const AssumptionsPanel: React.FC = () => {
       v.valid_from,
       v.campaign_id,
       v.valid_to || null,
+      shrinkageCategoryOf(v),
+      scheduleOf(v),
     ),
     onSuccess: () => addToast('Assumption saved successfully!', 'success'),
     onError: (_mode, err) => {
@@ -119,7 +167,15 @@ const AssumptionsPanel: React.FC = () => {
             <tbody className="divide-y divide-border-subtle">
               {assumptions.map((assumption) => (
                 <tr key={assumption.id}>
-                  <td className="px-3 py-2 whitespace-nowrap text-sm text-text-primary">{assumption.assumption_type}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-sm text-text-primary">
+                    {assumption.assumption_type}
+                    {assumption.shrinkage_category && (
+                      <span className="text-text-muted"> · {assumption.shrinkage_category}</span>
+                    )}
+                    {formatSchedule(assumption) && (
+                      <span className="text-text-muted"> · {formatSchedule(assumption)}</span>
+                    )}
+                  </td>
                   <td className="px-3 py-2 whitespace-nowrap text-sm text-text-primary">{assumption.value}</td>
                   <td className="px-3 py-2 whitespace-nowrap text-sm text-text-primary">{assumption.unit}</td>
                   <td className="px-3 py-2 whitespace-nowrap text-sm text-text-primary">{assumption.valid_from}</td>
@@ -158,6 +214,66 @@ const AssumptionsPanel: React.FC = () => {
                 {ASSUMPTION_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
               </select>
             </FormField>
+            {form.values.assumption_type === 'Shrinkage' && (
+              <FormField label="Shrinkage Category" id="shrinkage-category">
+                <select
+                  id="shrinkage-category"
+                  value={form.values.shrinkage_category}
+                  onChange={(e) => form.setField('shrinkage_category', e.target.value)}
+                  className="block w-full rounded-md bg-bg-surface border border-border-subtle text-text-primary text-sm px-3 py-2"
+                >
+                  <option value="">Total (all categories)</option>
+                  {SHRINKAGE_CATEGORIES.map(category => (
+                    <option key={category} value={category}>
+                      {category} ({SHRINKAGE_CATEGORY_KINDS[category]})
+                    </option>
+                  ))}
+                </select>
+              </FormField>
+            )}
+            {isServiceTargetAssumption(form.values.assumption_type) && (
+              <>
+                <FormField label="Days (none = every day)" id="assumption-days">
+                  <div id="assumption-days" className="flex flex-wrap gap-3">
+                    {DAY_LABELS.map((label, day) => (
+                      <label key={label} className="flex items-center gap-1 text-sm text-text-primary">
+                        <input
+                          type="checkbox"
+                          checked={form.values.days_of_week.includes(day)}
+                          onChange={(e) => form.setField(
+                            'days_of_week',
+                            e.target.checked
+                              ? [...form.values.days_of_week, day]
+                              : form.values.days_of_week.filter(d => d !== day)
+                          )}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </FormField>
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField label="From (blank = whole day)" id="assumption-time-from">
+                    <input
+                      id="assumption-time-from"
+                      type="time"
+                      value={form.values.time_from}
+                      onChange={(e) => form.setField('time_from', e.target.value)}
+                      className="block w-full rounded-md bg-bg-surface border border-border-subtle text-text-primary text-sm px-3 py-2"
+                    />
+                  </FormField>
+                  <FormField label="To" id="assumption-time-to">
+                    <input
+                      id="assumption-time-to"
+                      type="time"
+                      value={form.values.time_to}
+                      onChange={(e) => form.setField('time_to', e.target.value)}
+                      className="block w-full rounded-md bg-bg-surface border border-border-subtle text-text-primary text-sm px-3 py-2"
+                    />
+                  </FormField>
+                </div>
+              </>
+            )}
             <FormField label="Value" id="assumption-value">
               <NumberInput
                 id="assumption-value"
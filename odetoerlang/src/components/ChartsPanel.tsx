@@ -2,7 +2,9 @@ import { useMemo, memo } from 'react';
 import { LineChart, Line, BarChart, Bar, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { useCalculatorStore } from '../store/calculatorStore';
 import { calculateServiceLevel, calculateOccupancy, calculateASA } from '../lib/calculations/erlangC';
+import { calculateWaitDistribution } from '../lib/calculations/erlangEngine';
 import { useChartTheme } from '../hooks/useChartTheme';
+import { INTRADAY_VOLUME_PATTERN } from '../utils/constants';
 
 interface ServiceLevelDataPoint {
   agents: number;
@@ -12,6 +14,11 @@ interface ServiceLevelDataPoint {
   fte: number;
 }
 
+interface ServiceLevelCurvePoint {
+  agents: number;
+  serviceLevel: number;
+}
+
 interface CostDataPoint {
   agents: number;
   serviceLevel: number;
@@ -32,7 +39,6 @@ interface IntervalDataPoint {
 // not solved against.
 const HOURLY_RATE = 25;
 const ANNUAL_PAID_HOURS = 2080;
-const INTRADAY_VOLUME_PATTERN = [0.7, 1.0, 1.2, 1.1, 0.8, 0.7, 0.9, 1.0, 0.8, 0.6];
 const INTRADAY_LABELS = ['08:00', '09:00', '10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00', '17:00'];
 
 function trafficIntensityOf(volume: number, aht: number, intervalMinutes: number): number {
@@ -46,12 +52,22 @@ function agentRange(trafficIntensity: number): { min: number; max: number } {
   };
 }
 
+// Points on the service level curve. Erlang C is evaluated at fractional
+// agent counts between whole agents so small pools draw a smooth curve.
+const SERVICE_LEVEL_CURVE_POINTS = 120;
+
 function fteFromAgents(agents: number, shrinkagePercent: number): number {
   return agents / (1 - shrinkagePercent / 100);
 }
 
+interface WaitCurveDataPoint {
+  seconds: number;
+  answered: number;
+  waitAtMost: number;
+}
+
 export default memo(function ChartsPanel() {
-  const { inputs } = useCalculatorStore();
+  const { inputs, results } = useCalculatorStore();
   const theme = useChartTheme();
 
   const tooltipStyle = {
@@ -82,6 +98,21 @@ export default memo(function ChartsPanel() {
     return data;
   }, [inputs]);
 
+  const serviceLevelCurve = useMemo(() => {
+    const trafficIntensity = trafficIntensityOf(inputs.volume, inputs.aht, inputs.intervalMinutes);
+    const { min, max } = agentRange(trafficIntensity);
+    const data: ServiceLevelCurvePoint[] = [];
+    if (max <= min) return data;
+
+    const step = (max - min) / SERVICE_LEVEL_CURVE_POINTS;
+    for (let i = 0; i <= SERVICE_LEVEL_CURVE_POINTS; i++) {
+      const agents = min + i * step;
+      const sl = calculateServiceLevel(agents, trafficIntensity, inputs.aht, inputs.thresholdSeconds);
+      data.push({ agents: Number(agents.toFixed(2)), serviceLevel: sl * 100 });
+    }
+    return data;
+  }, [inputs]);
+
   const costData = useMemo(() => {
     const trafficIntensity = trafficIntensityOf(inputs.volume, inputs.aht, inputs.intervalMinutes);
     const { min, max } = agentRange(trafficIntensity);
@@ -134,22 +165,88 @@ export default memo(function ChartsPanel() {
     return data;
   }, [inputs]);
 
+  const waitCurve = useMemo(() => {
+    if (!results || results.requiredAgents <= 0) return null;
+    const distribution = calculateWaitDistribution({
+      model: inputs.model,
+      fixedAgents: results.requiredAgents,
+      workload: { volume: inputs.volume, aht: inputs.aht, intervalMinutes: inputs.intervalMinutes },
+      constraints: { thresholdSeconds: inputs.thresholdSeconds, maxOccupancy: inputs.maxOccupancy },
+      behavior: {
+        shrinkagePercent: inputs.shrinkagePercent,
+        averagePatience: inputs.averagePatience,
+        concurrency: inputs.concurrency,
+        ahtCV: inputs.ahtCV,
+        arrivalCV: inputs.arrivalCV,
+      },
+    });
+    if (!distribution) return null;
+
+    const data: WaitCurveDataPoint[] = distribution.curve.map(point => ({
+      seconds: point.seconds,
+      answered: Number((point.answeredWithin * 100).toFixed(1)),
+      waitAtMost: Number((point.probabilityWaitAtMost * 100).toFixed(1)),
+    }));
+    return { data, distribution };
+  }, [inputs, results]);
+
   return (
     <div className="space-y-8">
+      {waitCurve && (
+        <div className="bg-bg-surface border border-border-subtle rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold text-text-primary mb-4">How Long Do Customers Really Wait?</h3>
+          <p className="text-sm text-text-secondary mb-4">
+            Share of contacts answered within each wait time at {results?.requiredAgents} agents.
+            P50 {waitCurve.distribution.percentiles.p50.toFixed(0)}s · P90 {waitCurve.distribution.percentiles.p90.toFixed(0)}s · P99 {waitCurve.distribution.percentiles.p99.toFixed(0)}s.
+          </p>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={waitCurve.data}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme.grid} />
+              <XAxis
+                dataKey="seconds"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                stroke={theme.axis}
+                label={{ value: 'Wait (seconds)', position: 'insideBottom', offset: -5, fill: theme.axis }}
+              />
+              <YAxis stroke={theme.axis} domain={[0, 100]} label={{ value: 'Contacts (%)', angle: -90, position: 'insideLeft', fill: theme.axis }} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                formatter={(value) => `${Number(value).toFixed(1)}%`}
+                labelFormatter={(label) => `Within ${label}s`}
+              />
+              <Legend />
+              <Line type="monotone" dataKey="answered" stroke={theme.primary} strokeWidth={2} dot={false} name="Answered within" />
+              {inputs.model === 'A' && (
+                <Line type="monotone" dataKey="waitAtMost" stroke={theme.warn} strokeDasharray="5 5" dot={false} name="Left queue within" />
+              )}
+              <Line
+                type="monotone"
+                dataKey={() => inputs.targetSLPercent}
+                stroke={theme.target}
+                strokeDasharray="5 5"
+                name="Target SL"
+                dot={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
       <div className="bg-bg-surface border border-border-subtle rounded-lg shadow p-6">
         <h3 className="text-lg font-semibold text-text-primary mb-4">Service Level vs Staffing</h3>
         <p className="text-sm text-text-secondary mb-4">
           Shows how service level improves with additional agents. The dashed line marks your target {inputs.targetSLPercent}%.
         </p>
         <ResponsiveContainer width="100%" height={300}>
-          <AreaChart data={serviceLevelData}>
+          <AreaChart data={serviceLevelCurve}>
             <CartesianGrid strokeDasharray="3 3" stroke={theme.grid} />
-            <XAxis dataKey="agents" stroke={theme.axis} label={{ value: 'Number of Agents', position: 'insideBottom', offset: -5, fill: theme.axis }} />
+            <XAxis dataKey="agents" type="number" domain={['dataMin', 'dataMax']} allowDecimals={false} stroke={theme.axis} label={{ value: 'Number of Agents', position: 'insideBottom', offset: -5, fill: theme.axis }} />
             <YAxis stroke={theme.axis} label={{ value: 'Service Level (%)', angle: -90, position: 'insideLeft', fill: theme.axis }} />
             <Tooltip
               contentStyle={tooltipStyle}
               formatter={(value) => `${Number(value).toFixed(1)}%`}
-              labelFormatter={(label) => `${label} agents`}
+              labelFormatter={(label) => `${Number(label).toFixed(1)} agents`}
             />
             <Legend />
             <Area
@@ -1,8 +1,96 @@
 import { useState, useEffect } from 'react';
-import { type ScenarioConfig } from '../simulation/types';
-import { PRESET_SCENARIOS, validateConfig, calculateUtilisation } from '../simulation/presets';
+import { type ArrivalProfile, type DurationDistribution, type PatienceDistribution, type ScenarioConfig } from '../simulation/types';
+import {
+  PRESET_SCENARIOS,
+  calculateUtilisation,
+  scenarioInSeconds,
+  secondsPerTimeUnit,
+  serviceLevelThreshold,
+  validateConfig,
+} from '../simulation/presets';
+import { empiricalMean } from '../simulation/distributions';
+import { profileDuration, profileMeanRate, profilePeakRate } from '../simulation/arrivalProfile';
 import { NumberInput } from './ui/NumberInput';
 
+type DistributionField = 'arrivalDistribution' | 'serviceDistribution';
+
+/** Arrivals per minute shown for the scenario's arrival rate */
+const arrivalsPerMinute = (config: ScenarioConfig) => (config.arrivalRate * 60) / secondsPerTimeUnit(config);
+
+/** AHT in seconds shown for the scenario's service rate */
+const ahtSeconds = (config: ScenarioConfig) =>
+  config.serviceRate > 0 ? secondsPerTimeUnit(config) / config.serviceRate : 0;
+
+/** Default parameters when a distribution is first picked */
+function defaultDistribution(type: string, historical?: DurationDistribution): DurationDistribution | undefined {
+  switch (type) {
+    case 'lognormal': return { type, cv: 1.2 };
+    case 'gamma': return { type, shape: 2 };
+    case 'erlang': return { type, k: 3 };
+    case 'deterministic': return { type };
+    case 'empirical': return historical;
+    default: return undefined;
+  }
+}
+
+interface DistributionFieldsProps {
+  id: string;
+  label: string;
+  distribution: DurationDistribution | undefined;
+  historical?: DurationDistribution | undefined;
+  onChange: (distribution: DurationDistribution | undefined) => void;
+}
+
+function DistributionFields({ id, label, distribution, historical, onChange }: DistributionFieldsProps) {
+  const parameter = distribution?.type === 'lognormal'
+    ? { label: 'CV', step: '0.1', value: distribution.cv, apply: (v: number) => onChange({ type: 'lognormal', cv: v }) }
+    : distribution?.type === 'gamma'
+      ? { label: 'Shape k', step: '0.5', value: distribution.shape, apply: (v: number) => onChange({ type: 'gamma', shape: v }) }
+      : distribution?.type === 'erlang'
+        ? { label: 'Phases k', step: '1', value: distribution.k, apply: (v: number) => onChange({ type: 'erlang', k: Math.round(v) }) }
+        : null;
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div>
+        <label htmlFor={id} className="block text-text-muted mb-1">{label}</label>
+        <select
+          id={id}
+          value={distribution?.type ?? 'exponential'}
+          onChange={(e) => onChange(defaultDistribution(e.target.value, historical))}
+          className="w-full bg-bg-surface border border-border-subtle rounded px-2 py-1"
+        >
+          <option value="exponential">Exponential (M)</option>
+          <option value="lognormal">Lognormal</option>
+          <option value="gamma">Gamma</option>
+          <option value="erlang">Erlang-k</option>
+          <option value="deterministic">Deterministic (D)</option>
+          {(historical || distribution?.type === 'empirical') && <option value="empirical">Historical AHT (interval averages)</option>}
+        </select>
+      </div>
+      {parameter && (
+        <div>
+          <label htmlFor={`${id}-parameter`} className="block text-text-muted mb-1">{parameter.label}</label>
+          <NumberInput
+            id={`${id}-parameter`}
+            step={parameter.step}
+            min="0"
+            value={parameter.value}
+            onChange={(e) => parameter.apply(parseFloat(e.target.value) || 0)}
+            className="w-full bg-bg-surface border border-border-subtle rounded px-2 py-1 font-mono"
+          />
+        </div>
+      )}
+      {distribution?.type === 'empirical' && (
+        <p className="self-end text-text-muted">
+          {distribution.samples.length.toLocaleString()} interval averages{distribution.weights ? ', volume-weighted' : ''}.
+          {' '}Far less spread than individual calls.
+        </p>
+      )}
+    </div>
+  );
+}
+
 interface ControlsPanelProps {
   config: ScenarioConfig;
   onConfigChange: (config: ScenarioConfig) => void;
@@ -13,6 +101,11 @@ interface ControlsPanelProps {
   onReset: () => void;
   speed: number;
   onSpeedChange: (speed: number) => void;
+  onRunToEnd: () => void;
+  /** Interval-average handle times from HistoricalData, when there are any */
+  historicalAHT?: DurationDistribution | undefined;
+  /** Average day's arrival profile from HistoricalData, when there is any */
+  historicalProfile?: ArrivalProfile | undefined;
 }
 
 export default function ControlsPanel({
@@ -25,25 +118,30 @@ export default function ControlsPanel({
   onReset,
   speed,
   onSpeedChange,
+  onRunToEnd,
+  historicalAHT,
+  historicalProfile,
 }: ControlsPanelProps) {
   const [localConfig, setLocalConfig] = useState(config);
   const [errors, setErrors] = useState<string[]>([]);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
   // Friendlier UI units: simulation stores arrivalRate per tick and serviceRate
-  // as 1/AHT; we surface "arrivals per minute" and "AHT in seconds" instead.
-  const [displayVolume, setDisplayVolume] = useState(localConfig.arrivalRate * 60);
-  const [displayAHT, setDisplayAHT] = useState(1 / localConfig.serviceRate);
+  // as 1/AHT, in the scenario's time unit; we surface "arrivals per minute"
+  // and "AHT in seconds" instead.
+  const [displayVolume, setDisplayVolume] = useState(arrivalsPerMinute(localConfig));
+  const [displayAHT, setDisplayAHT] = useState(ahtSeconds(localConfig));
+  const unitSeconds = secondsPerTimeUnit(localConfig);
 
   useEffect(() => {
     setLocalConfig(config);
-    setDisplayVolume(config.arrivalRate * 60);
-    setDisplayAHT(1 / config.serviceRate);
+    setDisplayVolume(arrivalsPerMinute(config));
+    setDisplayAHT(ahtSeconds(config));
   }, [config]);
 
   const updateConfigFromDisplay = (volPerMin: number, aht: number) => {
-    const arrivalRate = volPerMin / 60;
-    const serviceRate = aht > 0 ? 1 / aht : 0.1;
+    const arrivalRate = (volPerMin * unitSeconds) / 60;
+    const serviceRate = aht > 0 ? unitSeconds / aht : 0.1;
     
     handleFieldChange('arrivalRate', arrivalRate);
     handleFieldChange('serviceRate', serviceRate);
@@ -52,8 +150,8 @@ export default function ControlsPanel({
   const handleFieldChange = (field: keyof ScenarioConfig, value: number) => {
     const newConfig = { ...localConfig, [field]: value };
     // If updating underlying rates directly, sync display
-    if (field === 'arrivalRate') setDisplayVolume(value * 60);
-    if (field === 'serviceRate') setDisplayAHT(value > 0 ? 1 / value : 0);
+    if (field === 'arrivalRate') setDisplayVolume(arrivalsPerMinute(newConfig));
+    if (field === 'serviceRate') setDisplayAHT(ahtSeconds(newConfig));
     
     setLocalConfig(newConfig);
 
@@ -67,12 +165,79 @@ export default function ControlsPanel({
     }
   };
 
+  const handlePatienceChange = (patience: PatienceDistribution | undefined) => {
+    const newConfig: ScenarioConfig = { ...localConfig };
+    if (patience) newConfig.patience = patience;
+    else delete newConfig.patience;
+    setLocalConfig(newConfig);
+
+    const validationErrors = validateConfig(newConfig);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      onConfigChange(newConfig);
+    }
+  };
+
+  const handleDistributionChange = (field: DistributionField, distribution: DurationDistribution | undefined) => {
+    // Historical handle times are in seconds
+    const newConfig: ScenarioConfig = distribution?.type === 'empirical' ? scenarioInSeconds(localConfig) : { ...localConfig };
+    if (distribution) newConfig[field] = distribution;
+    else delete newConfig[field];
+
+    // Bootstrapped handle times carry their own mean; keep the rate (and the
+    // utilisation shown) in line with it.
+    const historicalMean = field === 'serviceDistribution' && distribution?.type === 'empirical'
+      ? empiricalMean(distribution.samples, distribution.weights)
+      : undefined;
+    if (historicalMean) {
+      newConfig.serviceRate = 1 / historicalMean;
+      setDisplayVolume(arrivalsPerMinute(newConfig));
+      setDisplayAHT(historicalMean);
+    }
+    setLocalConfig(newConfig);
+
+    const validationErrors = validateConfig(newConfig);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      onConfigChange(newConfig);
+    }
+  };
+
+  const handleProfileChange = (profile: ArrivalProfile | undefined) => {
+    // Historical profiles are in seconds
+    const newConfig: ScenarioConfig = profile ? scenarioInSeconds(localConfig) : { ...localConfig };
+    if (profile) {
+      // Keep the average rate (and the utilisation shown) in line with the
+      // profile, and run for the whole day
+      newConfig.arrivalProfile = profile;
+      newConfig.arrivalRate = profileMeanRate(profile);
+      newConfig.maxTime = profileDuration(profile);
+      setDisplayVolume(arrivalsPerMinute(newConfig));
+      setDisplayAHT(ahtSeconds(newConfig));
+    } else {
+      delete newConfig.arrivalProfile;
+    }
+    setLocalConfig(newConfig);
+
+    const validationErrors = validateConfig(newConfig);
+    setErrors(validationErrors);
+    if (validationErrors.length === 0) {
+      onConfigChange(newConfig);
+    }
+  };
+
+  const patienceSeconds = localConfig.patience?.type === 'exponential'
+    ? localConfig.patience.mean * unitSeconds
+    : localConfig.patience?.type === 'fixed'
+      ? localConfig.patience.value * unitSeconds
+      : 120;
+
   const handlePresetSelect = (presetName: string) => {
     const preset = PRESET_SCENARIOS.find(p => p.name === presetName);
     if (preset) {
       setLocalConfig(preset.config);
-      setDisplayVolume(preset.config.arrivalRate * 60);
-      setDisplayAHT(1 / preset.config.serviceRate);
+      setDisplayVolume(arrivalsPerMinute(preset.config));
+      setDisplayAHT(ahtSeconds(preset.config));
       onConfigChange(preset.config);
       setErrors([]);
     }
@@ -86,6 +251,10 @@ export default function ControlsPanel({
 
   const isUnstable = utilisation >= 1.0;
 
+  const peakUtilisation = localConfig.arrivalProfile
+    ? calculateUtilisation(profilePeakRate(localConfig.arrivalProfile), localConfig.serviceRate, localConfig.servers)
+    : null;
+
   return (
     <div className="bg-bg-surface border border-border-subtle rounded-xl p-6 shadow-sm h-full flex flex-col">
       <h3 className="text-lg font-bold text-text-primary mb-6 tracking-wide">Controls</h3>
@@ -122,6 +291,8 @@ export default function ControlsPanel({
                 id="controls-arrivals-per-min"
                 min="1"
                 step="1"
+                disabled={!!localConfig.arrivalProfile}
+                title={localConfig.arrivalProfile ? 'Set by the intraday arrival profile' : undefined}
                 value={Math.round(displayVolume)}
                 onChange={(e) => {
                   const val = parseFloat(e.target.value);
@@ -183,6 +354,11 @@ export default function ControlsPanel({
           {isUnstable && (
             <p className="text-xs text-red mt-1">⚠️ Unstable: Arrivals exceed capacity!</p>
           )}
+          {peakUtilisation !== null && (
+            <p className={`text-xs mt-1 ${peakUtilisation >= 1 ? 'text-amber' : 'text-text-muted'}`}>
+              Daily average shown; peak interval load {(peakUtilisation * 100).toFixed(1)}%
+            </p>
+          )}
         </div>
 
         {/* Advanced Toggle */}
@@ -197,7 +373,7 @@ export default function ControlsPanel({
           {showAdvanced && (
             <div className="mt-3 space-y-3 p-3 bg-bg-elevated/50 rounded-lg border border-border-muted text-xs">
               <div>
-                <label htmlFor="controls-sim-horizon" className="block text-text-muted mb-1">Sim Horizon (ticks)</label>
+                <label htmlFor="controls-sim-horizon" className="block text-text-muted mb-1">Sim Horizon ({localConfig.timeUnit ?? 'seconds'})</label>
                 <NumberInput
                   id="controls-sim-horizon"
                   step="100"
@@ -216,6 +392,90 @@ export default function ControlsPanel({
                   className="w-full bg-bg-surface border border-border-subtle rounded px-2 py-1 font-mono"
                 />
               </div>
+              <div>
+                <label htmlFor="controls-arrival-pattern" className="block text-text-muted mb-1">Arrival Pattern</label>
+                <select
+                  id="controls-arrival-pattern"
+                  value={localConfig.arrivalProfile
+                    ? (localConfig.arrivalProfile === historicalProfile ? 'historical' : 'profile')
+                    : 'flat'}
+                  onChange={(e) => handleProfileChange(e.target.value === 'historical' ? historicalProfile : undefined)}
+                  className="w-full bg-bg-surface border border-border-subtle rounded px-2 py-1"
+                >
+                  <option value="flat">Flat rate (λ)</option>
+                  {historicalProfile && <option value="historical">Historical average day ({historicalProfile.volumes.length} intervals)</option>}
+                  {localConfig.arrivalProfile && localConfig.arrivalProfile !== historicalProfile && (
+                    <option value="profile">Scenario profile ({localConfig.arrivalProfile.volumes.length} intervals)</option>
+                  )}
+                </select>
+              </div>
+              {!localConfig.arrivalProfile && (
+                <DistributionFields
+                  id="controls-arrival-distribution"
+                  label="Inter-arrival Times"
+                  distribution={localConfig.arrivalDistribution}
+                  onChange={(d) => handleDistributionChange('arrivalDistribution', d)}
+                />
+              )}
+              <DistributionFields
+                id="controls-service-distribution"
+                label="Handle Times"
+                distribution={localConfig.serviceDistribution}
+                historical={historicalAHT}
+                onChange={(d) => handleDistributionChange('serviceDistribution', d)}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label htmlFor="controls-patience" className="block text-text-muted mb-1">Abandonment</label>
+                  <select
+                    id="controls-patience"
+                    value={localConfig.patience?.type ?? 'none'}
+                    onChange={(e) => {
+                      const type = e.target.value;
+                      if (type === 'exponential') handlePatienceChange({ type, mean: patienceSeconds / unitSeconds });
+                      else if (type === 'fixed') handlePatienceChange({ type, value: patienceSeconds / unitSeconds });
+                      else handlePatienceChange(undefined);
+                    }}
+                    className="w-full bg-bg-surface border border-border-subtle rounded px-2 py-1"
+                  >
+                    <option value="none">None (Erlang C)</option>
+                    <option value="exponential">Exponential (Erlang A)</option>
+                    <option value="fixed">Fixed</option>
+                    {localConfig.patience?.type === 'empirical' && <option value="empirical">Empirical</option>}
+                  </select>
+                </div>
+                {(localConfig.patience?.type === 'exponential' || localConfig.patience?.type === 'fixed') && (
+                  <div>
+                    <label htmlFor="controls-patience-seconds" className="block text-text-muted mb-1">
+                      {localConfig.patience.type === 'exponential' ? 'Mean Patience (sec)' : 'Patience (sec)'}
+                    </label>
+                    <NumberInput
+                      id="controls-patience-seconds"
+                      step="10"
+                      min="0"
+                      value={patienceSeconds}
+                      onChange={(e) => {
+                        const val = (parseFloat(e.target.value) || 0) / unitSeconds;
+                        handlePatienceChange(localConfig.patience?.type === 'exponential'
+                          ? { type: 'exponential', mean: val }
+                          : { type: 'fixed', value: val });
+                      }}
+                      className="w-full bg-bg-surface border border-border-subtle rounded px-2 py-1 font-mono"
+                    />
+                  </div>
+                )}
+              </div>
+              <div>
+                <label htmlFor="controls-sl-threshold" className="block text-text-muted mb-1">SL Threshold (sec)</label>
+                <NumberInput
+                  id="controls-sl-threshold"
+                  step="5"
+                  min="0"
+                  value={Number((serviceLevelThreshold(localConfig) * unitSeconds).toFixed(1))}
+                  onChange={(e) => handleFieldChange('serviceLevelThreshold', (parseFloat(e.target.value) || 0) / unitSeconds)}
+                  className="w-full bg-bg-surface border border-border-subtle rounded px-2 py-1 font-mono"
+                />
+              </div>
             </div>
           )}
         </div>
@@ -261,6 +521,20 @@ export default function ControlsPanel({
           >
             RESET
           </button>
+          <button
+            onClick={onRunToEnd}
+            disabled={isFinished || errors.length > 0}
+            title="Run the rest of the simulation at once"
+            className={`
+              px-4 py-3 rounded-lg font-bold text-sm transition-all border
+              ${isFinished || errors.length > 0
+                ? 'border-transparent text-text-muted cursor-not-allowed'
+                : 'bg-bg-elevated border-border-subtle text-text-secondary hover:text-text-primary hover:border-text-secondary'
+              }
+            `}
+          >
+            END
+          </button>
         </div>
 
         {/* Speed Slider */}
@@ -12,7 +12,7 @@ export default function ExportPanel() {
   const [tableCounts, setTableCounts] = useState<Record<string, number>>({});
   const [importing, setImporting] = useState(false);
 
-  const MODEL_NAMES: Record<string, string> = { B: 'Erlang B', A: 'Erlang A', C: 'Erlang C' };
+  const MODEL_NAMES: Record<string, string> = { B: 'Erlang B', A: 'Erlang A', C: 'Erlang C', X: 'Erlang X', EB: 'Engset B', EC: 'Engset C' };
   const modelName = MODEL_NAMES[inputs.model] ?? 'Erlang C';
 
   useEffect(() => {
@@ -105,6 +105,13 @@ export default function ExportPanel() {
     } else if (inputs.model === 'A') {
       methodology = `Formula Used: Erlang A (abandonment model)\n\nStep 2: Apply Erlang A\n  Uses abandonment (patience) to estimate answer probability within threshold`;
       notes = `• Erlang A accounts for customer abandonment (patience)\n• Use for operational staffing when abandonment is non-trivial`;
+    } else if (inputs.model === 'X') {
+      methodology = `Formula Used: Erlang X (abandonment, redials, finite lines)\n\nStep 2: Apply Erlang X\n  Solves the M/M/c/N+M queue exactly, iterating redials (${inputs.retrialPercent ?? 40}%) to equilibrium with ${inputs.lines ? `${inputs.lines} lines` : 'unlimited lines'}`;
+      notes = `• Erlang X counts busy tones and abandons against service level\n• Redials inflate offered traffic (virtual traffic) above first-attempt volume`;
+    } else if (inputs.model === 'EB' || inputs.model === 'EC') {
+      const variant = inputs.model === 'EB' ? 'blocking (M/M/c/c/N)' : 'delay (M/M/c//N)';
+      methodology = `Formula Used: Engset ${variant}\n\nStep 2: Apply Engset\n  Solves the finite-source model exactly for a population of ${inputs.population ?? '-'} sources`;
+      notes = `• Sources already waiting or in service cannot raise another contact\n• Converges to Erlang ${inputs.model === 'EB' ? 'B' : 'C'} as the population grows`;
     } else {
       methodology = `Formula Used: Erlang C (infinite patience model)\n\nStep 2: Apply Erlang C\n  Uses iterative Erlang C calculation to find minimum agents`;
       notes = `• Erlang C assumes infinite customer patience (no abandonment)\n• Erlang C can overestimate service level compared to real-world data`;
@@ -7,6 +7,8 @@
  * - Monthly seasonality
  * - Statistical summaries
  * - Volume forecasting with multiple algorithms
+ * - Confidence staffing against each forecast's prediction interval
+ * - AHT-versus-occupancy curve fitting
  */
 
 import { useState, useEffect, useMemo } from 'react';
@@ -17,7 +19,8 @@ import {
   type HistoricalData
 } from '../lib/database/dataAccess';
 import {
-  analyzeHistoricalData
+  analyzeHistoricalData,
+  fitAHTOccupancyCurve
 } from '../lib/forecasting/historicalAnalysis';
 import {
   forecastWithMovingAverage,
@@ -26,6 +29,11 @@ import {
   autoSelectMethod,
   type ForecastResult
 } from '../lib/forecasting/advancedForecasting';
+import {
+  calculateStochasticStaffing,
+  volumeDistributionFromForecastHorizon,
+} from '../lib/calculations/stochasticStaffing';
+import { CalculationService } from '../lib/services/CalculationService';
 import { useDatabaseStore } from '../store/databaseStore';
 import { useCalculatorStore } from '../store/calculatorStore';
 import { toLocalDateString } from '../lib/dateUtils';
@@ -55,6 +63,9 @@ type CustomTooltipProps = {
 // HELPERS
 // ============================================================================
 
+/** Share of days the forecast staffing line must meet the target on. */
+const STAFFING_CONFIDENCE = 0.9;
+
 const CHART_THEME = {
   bg: 'transparent',
   grid: 'rgba(255,255,255,0.1)',
@@ -105,6 +116,8 @@ export default function HistoricalAnalysis() {
   const { addToast } = useToast();
   const { campaigns, selectedCampaignId, selectCampaign, refreshCampaigns } = useDatabaseStore();
   const setInput = useCalculatorStore(state => state.setInput);
+  const calculatorInputs = useCalculatorStore(state => state.inputs);
+  const intervalMinutes = calculatorInputs.intervalMinutes;
 
   const [dbDateRange, setDbDateRange] = useState<{ start: string; end: string } | null>(null);
   const [rangeFilter, setRangeFilter] = useState<number>(30); // Days to look back, 0 = All
@@ -177,6 +190,19 @@ export default function HistoricalAnalysis() {
     return analyzeHistoricalData(historicalData);
   }, [historicalData]);
 
+  // Fit AHT against occupancy where records carry agent counts
+  const ahtFit = useMemo(
+    () => fitAHTOccupancyCurve(historicalData, intervalMinutes),
+    [historicalData, intervalMinutes]
+  );
+
+  const handleApplyAHTCurve = () => {
+    if (!ahtFit) return;
+    setInput('aht', Math.round(ahtFit.referenceAHT));
+    setInput('ahtOccupancyCurve', ahtFit.curve);
+    addToast(`Applied AHT curve: ${Math.round(ahtFit.referenceAHT)}s at ${ahtFit.referenceOccupancy.toFixed(0)}% occupancy`, 'success');
+  };
+
   // Generate forecasts
   const forecasts = useMemo(() => {
     if (!insights || insights.dailyAggregates.length < 7) return null;
@@ -201,6 +227,18 @@ export default function HistoricalAnalysis() {
     return results;
   }, [insights, forecastDays]);
 
+  // Calculator interval volume with each forecast's relative uncertainty
+  const forecastStaffing = useMemo(() => {
+    if (!forecasts) return null;
+    const { workload, ...engineInput } = CalculationService.toEngineInput(calculatorInputs);
+    return forecasts.map(forecast => calculateStochasticStaffing({
+      ...engineInput,
+      workload: { aht: workload.aht, intervalMinutes: workload.intervalMinutes },
+      volume: volumeDistributionFromForecastHorizon(forecast.forecasts, calculatorInputs.volume),
+      confidence: STAFFING_CONFIDENCE,
+    }));
+  }, [forecasts, calculatorInputs]);
+
   const handleCampaignChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const val = e.target.value ? Number(e.target.value) : null;
     selectCampaign(val);
@@ -417,6 +455,37 @@ export default function HistoricalAnalysis() {
         </div>
       )}
 
+      {ahtFit && !loading && activeTab === 'analysis' && (
+        <div className="bg-bg-surface border border-border-subtle rounded-xl p-5 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-base font-bold text-text-primary">AHT vs Occupancy</h3>
+              <p className="text-xs text-text-muted mt-1">
+                {ahtFit.sampleSize} intervals, R² {ahtFit.rSquared.toFixed(2)}
+              </p>
+            </div>
+            <button
+              onClick={handleApplyAHTCurve}
+              className="px-3 py-1.5 bg-bg-elevated hover:bg-bg-hover text-text-secondary hover:text-cyan border border-border-subtle hover:border-cyan/30 rounded-lg text-xs font-medium transition-all"
+            >
+              Apply to Calculator
+            </button>
+          </div>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <MetricCard label="AHT at Mean Occupancy" value={ahtFit.referenceAHT} unit="sec" decimals={0} status="neutral" />
+            <MetricCard label="Mean Occupancy" value={ahtFit.referenceOccupancy} unit="%" decimals={1} status="neutral" />
+            <MetricCard label="AHT per Occupancy Point" value={ahtFit.slope} unit="sec" decimals={2} status="info" />
+            <MetricCard
+              label="AHT Range"
+              value={(ahtFit.curve[ahtFit.curve.length - 1]!.ahtMultiplier - ahtFit.curve[0]!.ahtMultiplier) * 100}
+              unit="%"
+              decimals={1}
+              description={`${ahtFit.curve[0]!.occupancy.toFixed(0)}%-${ahtFit.curve[ahtFit.curve.length - 1]!.occupancy.toFixed(0)}% occupancy`}
+            />
+          </div>
+        </div>
+      )}
+
       {/* FORECAST CONTENT */}
       {insights && !loading && activeTab === 'forecast' && forecasts && (
         <div className="space-y-6 animate-fade-in">
@@ -439,6 +508,7 @@ export default function HistoricalAnalysis() {
 
           {forecasts.map((forecast, index) => {
             const mape = forecast.accuracy?.mape;
+            const staffing = forecastStaffing?.[index];
             return (
               <div key={index} className="bg-bg-surface border border-border-subtle rounded-xl p-5 shadow-sm">
                 <div className="flex items-center justify-between mb-4">
@@ -452,6 +522,13 @@ export default function HistoricalAnalysis() {
                         <span className="text-text-muted">n/a</span>
                       )}
                     </p>
+                    {staffing && (
+                      <p className="text-xs text-text-muted mt-1">
+                        {(STAFFING_CONFIDENCE * 100).toFixed(0)}% confidence at {Math.round(staffing.meanVolume)} calls/interval:{' '}
+                        <span className="text-text-primary font-semibold">{staffing.confidenceStaffing.requiredAgents} agents</span>
+                        {' '}(+{staffing.bufferAgents} for forecast error, expected SL {staffing.expectedServiceLevel.toFixed(1)}%)
+                      </p>
+                    )}
                   </div>
                   {index === 0 && (
                     <span className="text-xs font-bold text-cyan bg-cyan/10 border border-cyan/30 rounded px-2 py-1 uppercase tracking-wide mr-2">
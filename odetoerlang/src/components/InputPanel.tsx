@@ -7,6 +7,7 @@ import { mergeCalculationInputs } from '../lib/forecasting/inputMerger';
 import { getCampaignById, type Campaign } from '../lib/database/dataAccess';
 import { validateCalculationInputs, getFieldError } from '../lib/validation/inputValidation';
 import { NumberInput } from './ui/NumberInput';
+import { DEFAULT_ENGSET_POPULATION } from '../utils/constants';
 
 const InputPanel: React.FC = () => {
   const { inputs, setInput, reset, date, setDate, useAssumptions, setUseAssumptions } = useCalculatorStore();
@@ -27,6 +28,7 @@ const InputPanel: React.FC = () => {
         campaign_name: 'Global Defaults',
         client_id: -1,
         channel_type: 'Voice',
+        channel_behavior: 'inbound',
         start_date: '1970-01-01',
         end_date: null,
         sla_target_percent: 80,
@@ -67,6 +69,10 @@ const InputPanel: React.FC = () => {
     } else {
       // Handle string values for select elements (like model type)
       setInput(key, rawValue as ErlangVariant);
+      // Seed the population so the Engset field is never blank.
+      if (key === 'model' && (rawValue === 'EB' || rawValue === 'EC') && inputs.population === undefined) {
+        setInput('population', DEFAULT_ENGSET_POPULATION);
+      }
     }
   };
 
@@ -205,6 +211,9 @@ const InputPanel: React.FC = () => {
               <option value="B">Erlang B (blocking/loss)</option>
               <option value="C">Erlang C (queuing)</option>
               <option value="A">Erlang A (abandonment)</option>
+              <option value="X">Erlang X (redials + lines)</option>
+              <option value="EB">Engset B (finite-source blocking)</option>
+              <option value="EC">Engset C (finite-source queuing)</option>
             </select>
             <div className="mt-4 p-4 bg-bg-elevated/40 border border-border-muted/30 rounded-lg backdrop-blur-sm">
               <p className="text-sm text-text-secondary leading-relaxed">
@@ -223,12 +232,22 @@ const InputPanel: React.FC = () => {
                     <span className="text-green font-semibold">Erlang A:</span> Queue with abandonment. Requires patience setting. Most realistic for contact centres.
                   </>
                 )}
+                {inputs.model === 'X' && (
+                  <>
+                    <span className="text-green font-semibold">Erlang X:</span> Erlang A plus redials and a finite number of lines. Busy tones and abandons count against SL.
+                  </>
+                )}
+                {(inputs.model === 'EB' || inputs.model === 'EC') && (
+                  <>
+                    <span className="text-amber font-semibold">Engset:</span> Known population of callers (e.g. internal helpdesk). Sources already waiting or in service cannot call again, so peak load is lower than Erlang {inputs.model === 'EB' ? 'B' : 'C'}.
+                  </>
+                )}
               </p>
             </div>
           </div>
 
-          {/* Average Patience - Only show for Erlang A */}
-          {inputs.model === 'A' && (
+          {/* Average Patience - Only show for Erlang A/X */}
+          {(inputs.model === 'A' || inputs.model === 'X') && (
             <div className="animate-fade-in">
               <label htmlFor="averagePatience" className={labelClass}>
                 Patience
@@ -247,6 +266,65 @@ const InputPanel: React.FC = () => {
             </div>
           )}
 
+          {/* Redials and lines - Only show for Erlang X */}
+          {inputs.model === 'X' && (
+            <div className="grid grid-cols-2 gap-4 animate-fade-in">
+              <div>
+                <label htmlFor="retrialPercent" className={labelClass}>
+                  Redials
+                  <span className="text-text-muted ml-2 lowercase font-normal">%</span>
+                </label>
+                <NumberInput
+                  id="retrialPercent"
+                  min="0"
+                  max="99"
+                  step="1"
+                  value={inputs.retrialPercent ?? 40}
+                  onChange={(e) => updateInput('retrialPercent', e.target.value)}
+                  className={getInputClass(getError('retrialPercent'))}
+                  placeholder="40"
+                />
+                {getError('retrialPercent') ? <p className={errorClass}>{getError('retrialPercent')}</p> : <p className={hintClass}>Blocked/abandoned callers who try again</p>}
+              </div>
+              <div>
+                <label htmlFor="lines" className={labelClass}>
+                  Lines
+                  <span className="text-text-muted ml-2 lowercase font-normal">trunks</span>
+                </label>
+                <NumberInput
+                  id="lines"
+                  min="0"
+                  step="1"
+                  value={inputs.lines ?? 0}
+                  onChange={(e) => updateInput('lines', e.target.value)}
+                  className={getInputClass(getError('lines'))}
+                  placeholder="0"
+                />
+                {getError('lines') ? <p className={errorClass}>{getError('lines')}</p> : <p className={hintClass}>Agents + queue slots. 0 = unlimited</p>}
+              </div>
+            </div>
+          )}
+
+          {/* Population - Only show for Engset */}
+          {(inputs.model === 'EB' || inputs.model === 'EC') && (
+            <div className="animate-fade-in">
+              <label htmlFor="population" className={labelClass}>
+                Population
+                <span className="text-text-muted ml-2 lowercase font-normal">sources</span>
+              </label>
+              <NumberInput
+                id="population"
+                min="1"
+                step="1"
+                value={inputs.population ?? DEFAULT_ENGSET_POPULATION}
+                onChange={(e) => updateInput('population', e.target.value)}
+                className={getInputClass(getError('population'))}
+                placeholder={String(DEFAULT_ENGSET_POPULATION)}
+              />
+              {getError('population') ? <p className={errorClass}>{getError('population')}</p> : <p className={hintClass}>Employees or customers who can raise contacts</p>}
+            </div>
+          )}
+
           {/* Solve For Mode Selection */}
           <div className="pt-4 border-t border-border-muted/30">
             <div id="solve-for-label" className={labelClass}>Calculate Requirement Based On</div>
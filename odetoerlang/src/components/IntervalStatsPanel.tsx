@@ -0,0 +1,71 @@
+/**
+ * Interval Stats Panel - service level, ASA and queue per arrival-profile interval
+ */
+
+import { type IntervalStats } from '../simulation/types';
+
+interface IntervalStatsPanelProps {
+  intervals: IntervalStats[];
+  /** Service-level threshold in seconds */
+  thresholdSeconds: number;
+  /** Seconds per simulation time unit */
+  secondsPerUnit: number;
+  now: number;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export default function IntervalStatsPanel({ intervals, thresholdSeconds, secondsPerUnit, now }: IntervalStatsPanelProps) {
+  const started = intervals.filter(i => i.start <= now);
+
+  return (
+    <div className="bg-bg-surface border border-border-subtle rounded-xl p-6 shadow-sm">
+      <div className="flex justify-between items-baseline mb-4">
+        <h3 className="text-lg font-bold text-text-primary tracking-wide">Interval Performance</h3>
+        <p className="text-xs text-text-muted">
+          Contacts count in the interval they arrived in. SL = answered within {thresholdSeconds}s / (answered + abandoned).
+        </p>
+      </div>
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="min-w-full divide-y divide-border-subtle">
+          <thead className="bg-bg-elevated sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs font-medium text-text-secondary uppercase">Interval</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">Offered</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">Answered</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">Abandoned</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">SL</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">ASA</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">Avg Queue</th>
+              <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">Max Queue</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-subtle">
+            {started.map(interval => (
+              <tr key={interval.index} className="hover:bg-bg-hover transition-colors">
+                <td className="px-3 py-2 text-sm text-text-primary font-mono">{interval.label ?? `#${interval.index + 1}`}</td>
+                <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">{interval.offered}</td>
+                <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">{interval.answered}</td>
+                <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">{interval.abandoned}</td>
+                <td className="px-3 py-2 text-sm text-right text-cyan font-semibold tabular-nums">
+                  {interval.answered + interval.abandoned > 0 ? formatPercent(interval.serviceLevel) : '-'}
+                </td>
+                <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">{(interval.asa * secondsPerUnit).toFixed(1)}s</td>
+                <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">{interval.avgQueueLength.toFixed(1)}</td>
+                <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">{interval.maxQueueLength}</td>
+              </tr>
+            ))}
+            {started.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-3 py-8 text-center text-text-muted text-sm">
+                  Start the simulation to fill in the day.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
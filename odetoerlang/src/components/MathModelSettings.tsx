@@ -1,7 +1,8 @@
 import { useMemo, useState } from 'react';
 import { useCalculatorStore } from '../store/calculatorStore';
 import { validateCalculationInputs, getFieldError } from '../lib/validation/inputValidation';
-import type { CalculationInputs, ErlangVariant } from '../types';
+import type { AHTOccupancyPoint, CalculationInputs, CallbackSettings, ChannelBehavior, ErlangVariant, OutboundSettings, ServiceTargetType } from '../types';
+import { combineShrinkage } from '../lib/calculations/shrinkage';
 import { Button } from './ui/Button';
 import {
   Dialog,
@@ -12,6 +13,15 @@ import {
   DialogTitle,
 } from './ui/Dialog';
 import { FormField } from './ui/FormField';
+import {
+  DEFAULT_AHT_OCCUPANCY_CURVE,
+  DEFAULT_CALLBACK_SETTINGS,
+  DEFAULT_ENGSET_POPULATION,
+  DEFAULT_OUTBOUND_SETTINGS,
+  DEFAULT_SHRINKAGE_CATEGORIES,
+  DEFAULT_TARGET_ABANDON_PERCENT,
+  DEFAULT_TARGET_ASA_SECONDS,
+} from '../utils/constants';
 
 const selectClass =
   'mt-1 block w-full rounded-md bg-bg-surface border border-border-subtle text-text-primary text-sm px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan/30 focus:border-cyan';
@@ -30,10 +40,38 @@ export default function MathModelSettings() {
 
   const validation = useMemo(() => validateCalculationInputs(inputs), [inputs]);
   const getError = (field: keyof CalculationInputs) => getFieldError(validation, field);
+  const targetType = inputs.targetType ?? 'serviceLevel';
+  const channelBehavior = inputs.channelBehavior ?? 'inbound';
+  const outbound = inputs.outbound ?? DEFAULT_OUTBOUND_SETTINGS;
+  const callback = inputs.callback ?? DEFAULT_CALLBACK_SETTINGS;
+  const ahtCurve = inputs.ahtOccupancyCurve ?? DEFAULT_AHT_OCCUPANCY_CURVE;
+  const shrinkageCategories = inputs.shrinkageCategories ?? DEFAULT_SHRINKAGE_CATEGORIES;
+  const shrinkageSummary = combineShrinkage(shrinkageCategories);
 
   const updateInput = (key: keyof CalculationInputs, rawValue: string) => {
     if (key === 'model') {
       setInput(key, rawValue as ErlangVariant);
+      if ((rawValue === 'EB' || rawValue === 'EC') && inputs.population === undefined) {
+        setInput('population', DEFAULT_ENGSET_POPULATION);
+      }
+      return;
+    }
+    if (key === 'channelBehavior') {
+      setInput(key, rawValue as ChannelBehavior);
+      if (rawValue === 'outbound' && inputs.outbound === undefined) {
+        setInput('outbound', DEFAULT_OUTBOUND_SETTINGS);
+      }
+      return;
+    }
+    if (key === 'targetType') {
+      setInput(key, rawValue as ServiceTargetType);
+      // Seed the limit so the newly shown field is never blank.
+      if (rawValue === 'asa' && inputs.targetASASeconds === undefined) {
+        setInput('targetASASeconds', DEFAULT_TARGET_ASA_SECONDS);
+      }
+      if (rawValue === 'abandonRate' && inputs.targetAbandonPercent === undefined) {
+        setInput('targetAbandonPercent', DEFAULT_TARGET_ABANDON_PERCENT);
+      }
       return;
     }
 
@@ -43,6 +81,34 @@ export default function MathModelSettings() {
     }
   };
 
+  const updateOutbound = (key: keyof OutboundSettings, rawValue: string) => {
+    const value = parseFloat(rawValue);
+    if (!Number.isNaN(value)) {
+      setInput('outbound', { ...outbound, [key]: value });
+    }
+  };
+
+  const updateCallback = (key: keyof CallbackSettings, rawValue: string) => {
+    const value = parseFloat(rawValue);
+    if (!Number.isNaN(value)) {
+      setInput('callback', { ...callback, [key]: value });
+    }
+  };
+
+  const updateCurvePoint = (index: number, key: keyof AHTOccupancyPoint, rawValue: string) => {
+    const value = parseFloat(rawValue);
+    if (!Number.isNaN(value)) {
+      setInput('ahtOccupancyCurve', ahtCurve.map((point, i) => (i === index ? { ...point, [key]: value } : point)));
+    }
+  };
+
+  const updateShrinkageCategory = (index: number, rawValue: string) => {
+    const value = parseFloat(rawValue);
+    if (!Number.isNaN(value)) {
+      setInput('shrinkageCategories', shrinkageCategories.map((c, i) => (i === index ? { ...c, percent: value } : c)));
+    }
+  };
+
   return (
     <>
       <Button variant="secondary" size="sm" onClick={() => setOpen(true)}>
@@ -127,6 +193,18 @@ export default function MathModelSettings() {
                     <option value={60}>60</option>
                   </select>
                 </div>
+                <div>
+                  <label htmlFor="math-channel-behavior" className={labelClass}>Channel</label>
+                  <select
+                    id="math-channel-behavior"
+                    value={channelBehavior}
+                    onChange={(e) => updateInput('channelBehavior', e.target.value)}
+                    className={selectClass}
+                  >
+                    <option value="inbound">Inbound queue</option>
+                    <option value="outbound">Outbound predictive dialer</option>
+                  </select>
+                </div>
                 <div>
                   <label htmlFor="math-model" className={labelClass}>Model</label>
                   <select
@@ -138,10 +216,51 @@ export default function MathModelSettings() {
                     <option value="B">Erlang B</option>
                     <option value="C">Erlang C</option>
                     <option value="A">Erlang A</option>
+                    <option value="X">Erlang X</option>
+                    <option value="EB">Engset B (finite source)</option>
+                    <option value="EC">Engset C (finite source)</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="math-target-type" className={labelClass}>Target</label>
+                  <select
+                    id="math-target-type"
+                    value={targetType}
+                    onChange={(e) => updateInput('targetType', e.target.value)}
+                    className={selectClass}
+                  >
+                    <option value="serviceLevel">Service level (X% in Y sec)</option>
+                    <option value="asa">Maximum ASA</option>
+                    <option value="abandonRate">Maximum abandon rate</option>
+                    <option value="waitPercentile">Wait percentile (Nth % ≤ T)</option>
                   </select>
+                  {getError('targetType') && <p className="mt-1 text-2xs text-red">{getError('targetType')}</p>}
                 </div>
+                {targetType === 'asa' && (
+                  <FormField
+                    label="Max ASA (sec)"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={inputs.targetASASeconds ?? DEFAULT_TARGET_ASA_SECONDS}
+                    onChange={(e) => updateInput('targetASASeconds', e.target.value)}
+                    error={getError('targetASASeconds')}
+                  />
+                )}
+                {targetType === 'abandonRate' && (
+                  <FormField
+                    label="Max Abandon Rate (%)"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={inputs.targetAbandonPercent ?? DEFAULT_TARGET_ABANDON_PERCENT}
+                    onChange={(e) => updateInput('targetAbandonPercent', e.target.value)}
+                    error={getError('targetAbandonPercent')}
+                  />
+                )}
                 <FormField
-                  label="SL Target (%)"
+                  label={targetType === 'waitPercentile' ? 'Percentile (%)' : 'SL Target (%)'}
                   type="number"
                   min="0"
                   max="100"
@@ -151,7 +270,7 @@ export default function MathModelSettings() {
                   error={getError('targetSLPercent')}
                 />
                 <FormField
-                  label="Threshold (sec)"
+                  label={targetType === 'waitPercentile' ? 'Max Wait (sec)' : 'Threshold (sec)'}
                   type="number"
                   min="0"
                   step="1"
@@ -168,6 +287,7 @@ export default function MathModelSettings() {
                   value={inputs.shrinkagePercent}
                   onChange={(e) => updateInput('shrinkagePercent', e.target.value)}
                   error={getError('shrinkagePercent')}
+                  hint={inputs.shrinkageCategories ? 'Combined from the categories below; editing clears them' : undefined}
                 />
                 <FormField
                   label="Max Occupancy (%)"
@@ -179,7 +299,7 @@ export default function MathModelSettings() {
                   onChange={(e) => updateInput('maxOccupancy', e.target.value)}
                   error={getError('maxOccupancy')}
                 />
-                {inputs.model === 'A' && (
+                {(inputs.model === 'A' || inputs.model === 'X') && (
                   <FormField
                     label="Average Patience (sec)"
                     type="number"
@@ -190,6 +310,64 @@ export default function MathModelSettings() {
                     error={getError('averagePatience')}
                   />
                 )}
+                {(inputs.model === 'EB' || inputs.model === 'EC') && (
+                  <FormField
+                    label="Population (sources)"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={inputs.population ?? DEFAULT_ENGSET_POPULATION}
+                    onChange={(e) => updateInput('population', e.target.value)}
+                    error={getError('population')}
+                  />
+                )}
+                {inputs.model === 'C' && (
+                  <>
+                    <FormField
+                      label="AHT CV (1 = exponential)"
+                      type="number"
+                      min="0"
+                      max="5"
+                      step="0.05"
+                      value={inputs.ahtCV ?? 1}
+                      onChange={(e) => updateInput('ahtCV', e.target.value)}
+                      error={getError('ahtCV')}
+                    />
+                    <FormField
+                      label="Arrival CV (1 = Poisson)"
+                      type="number"
+                      min="0"
+                      max="5"
+                      step="0.05"
+                      value={inputs.arrivalCV ?? 1}
+                      onChange={(e) => updateInput('arrivalCV', e.target.value)}
+                      error={getError('arrivalCV')}
+                    />
+                  </>
+                )}
+                {inputs.model === 'X' && (
+                  <>
+                    <FormField
+                      label="Redial Probability (%)"
+                      type="number"
+                      min="0"
+                      max="99"
+                      step="1"
+                      value={inputs.retrialPercent ?? 40}
+                      onChange={(e) => updateInput('retrialPercent', e.target.value)}
+                      error={getError('retrialPercent')}
+                    />
+                    <FormField
+                      label="Lines (0 = unlimited)"
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={inputs.lines ?? 0}
+                      onChange={(e) => updateInput('lines', e.target.value)}
+                      error={getError('lines')}
+                    />
+                  </>
+                )}
                 <FormField
                   label="Concurrency"
                   type="number"
@@ -201,6 +379,229 @@ export default function MathModelSettings() {
                 />
               </div>
             </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xs font-semibold text-text-primary uppercase tracking-wide">
+                  AHT vs Occupancy
+                </h3>
+                <label className="flex items-center gap-2 text-2xs text-text-secondary">
+                  <input
+                    type="checkbox"
+                    checked={inputs.ahtOccupancyCurve !== undefined}
+                    onChange={(e) => setInput('ahtOccupancyCurve', e.target.checked ? ahtCurve : undefined)}
+                    className="h-3.5 w-3.5 rounded border-border-subtle bg-bg-surface text-cyan focus:ring-cyan/30 focus:ring-2"
+                  />
+                  Vary AHT with occupancy
+                </label>
+              </div>
+              {inputs.ahtOccupancyCurve && (
+                <>
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    {ahtCurve.map((point, index) => (
+                      <div key={index} className="contents">
+                        <FormField
+                          label={`Point ${index + 1} Occupancy (%)`}
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="1"
+                          value={point.occupancy}
+                          onChange={(e) => updateCurvePoint(index, 'occupancy', e.target.value)}
+                        />
+                        <FormField
+                          label={`Point ${index + 1} AHT Multiplier`}
+                          type="number"
+                          min="0.25"
+                          max="4"
+                          step="0.01"
+                          value={point.ahtMultiplier}
+                          onChange={(e) => updateCurvePoint(index, 'ahtMultiplier', e.target.value)}
+                          error={index === ahtCurve.length - 1 ? getError('ahtOccupancyCurve') : undefined}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-2xs text-text-muted">
+                    Staffing is solved at the AHT its own occupancy implies. Fit a curve from history under Historical Analysis.
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xs font-semibold text-text-primary uppercase tracking-wide">
+                  Shrinkage Categories
+                </h3>
+                <label className="flex items-center gap-2 text-2xs text-text-secondary">
+                  <input
+                    type="checkbox"
+                    checked={inputs.shrinkageCategories !== undefined}
+                    onChange={(e) => setInput('shrinkageCategories', e.target.checked ? shrinkageCategories : undefined)}
+                    className="h-3.5 w-3.5 rounded border-border-subtle bg-bg-surface text-cyan focus:ring-cyan/30 focus:ring-2"
+                  />
+                  Build shrinkage from categories
+                </label>
+              </div>
+              {inputs.shrinkageCategories && (
+                <>
+                  <div className="grid gap-4 sm:grid-cols-3">
+                    {shrinkageCategories.map((c, index) => (
+                      <FormField
+                        key={`${c.category}-${c.source ?? 'assumption'}`}
+                        label={`${c.category}${c.source !== 'calendar' ? '' : c.replaced ? ` (calendar, replaces ${c.replaced.percent}%)` : ' (calendar)'} · ${c.kind} (%)`}
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.1"
+                        value={Number(c.percent.toFixed(2))}
+                        disabled={c.source === 'calendar'}
+                        onChange={(e) => updateShrinkageCategory(index, e.target.value)}
+                      />
+                    ))}
+                  </div>
+                  {getError('shrinkageCategories') && (
+                    <p className="mt-2 text-2xs text-red">{getError('shrinkageCategories')}</p>
+                  )}
+                  <p className="mt-2 text-2xs text-text-muted">
+                    Planned {shrinkageSummary.plannedPercent.toFixed(1)}% + unplanned {shrinkageSummary.unplannedPercent.toFixed(1)}% = {shrinkageSummary.totalPercent.toFixed(1)}% shrinkage. Time-bound categories come from Shrinkage assumptions; Training and Holiday calendar events are added as planned shrinkage.
+                  </p>
+                </>
+              )}
+            </div>
+
+            {channelBehavior === 'inbound' && (
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-xs font-semibold text-text-primary uppercase tracking-wide">
+                    Virtual Hold / Callback
+                  </h3>
+                  <label className="flex items-center gap-2 text-2xs text-text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={inputs.callback !== undefined}
+                      onChange={(e) => setInput('callback', e.target.checked ? callback : undefined)}
+                      className="h-3.5 w-3.5 rounded border-border-subtle bg-bg-surface text-cyan focus:ring-cyan/30 focus:ring-2"
+                    />
+                    Offer callbacks
+                  </label>
+                </div>
+                {inputs.callback && (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <FormField
+                      label="Offer When Wait Exceeds (sec)"
+                      type="number"
+                      min="0"
+                      step="5"
+                      value={callback.offerThresholdSeconds}
+                      onChange={(e) => updateCallback('offerThresholdSeconds', e.target.value)}
+                    />
+                    <FormField
+                      label="Take-Up Rate (%)"
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      value={callback.takeUpPercent}
+                      onChange={(e) => updateCallback('takeUpPercent', e.target.value)}
+                    />
+                    <FormField
+                      label="Call Back Within (min)"
+                      type="number"
+                      min="1"
+                      step="5"
+                      value={callback.deadlineMinutes}
+                      onChange={(e) => updateCallback('deadlineMinutes', e.target.value)}
+                    />
+                    <FormField
+                      label="Callbacks On Time (%)"
+                      type="number"
+                      min="1"
+                      max="100"
+                      step="1"
+                      value={callback.completionTargetPercent}
+                      onChange={(e) => updateCallback('completionTargetPercent', e.target.value)}
+                      error={getError('callback')}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {channelBehavior === 'outbound' && (
+              <div>
+                <h3 className="text-xs font-semibold text-text-primary uppercase tracking-wide mb-3">
+                  Outbound Dialer
+                </h3>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    label="Records to Dial"
+                    type="number"
+                    min="0"
+                    step="100"
+                    value={outbound.records}
+                    onChange={(e) => updateOutbound('records', e.target.value)}
+                  />
+                  <FormField
+                    label="Dialling Hours"
+                    type="number"
+                    min="0.25"
+                    max="24"
+                    step="0.25"
+                    value={outbound.dialingHours}
+                    onChange={(e) => updateOutbound('dialingHours', e.target.value)}
+                  />
+                  <FormField
+                    label="Contact Rate (%)"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={outbound.contactRatePercent}
+                    onChange={(e) => updateOutbound('contactRatePercent', e.target.value)}
+                  />
+                  <FormField
+                    label="Right-Party Rate (%)"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={outbound.rightPartyPercent}
+                    onChange={(e) => updateOutbound('rightPartyPercent', e.target.value)}
+                  />
+                  <FormField
+                    label="Talk Time (sec)"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={outbound.talkSeconds}
+                    onChange={(e) => updateOutbound('talkSeconds', e.target.value)}
+                  />
+                  <FormField
+                    label="Wrap Time (sec)"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={outbound.wrapSeconds}
+                    onChange={(e) => updateOutbound('wrapSeconds', e.target.value)}
+                  />
+                  <FormField
+                    label="Max Nuisance Rate (%)"
+                    type="number"
+                    min="0.1"
+                    max="50"
+                    step="0.5"
+                    value={outbound.maxNuisancePercent}
+                    onChange={(e) => updateOutbound('maxNuisancePercent', e.target.value)}
+                    error={getError('outbound')}
+                  />
+                </div>
+                <p className="mt-2 text-2xs text-text-muted">
+                  Shrinkage and max occupancy above also apply to the dialer.
+                </p>
+              </div>
+            )}
           </div>
 
           <DialogFooter>
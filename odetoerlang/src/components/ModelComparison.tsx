@@ -2,9 +2,11 @@ import { useMemo } from 'react';
 import { calculateStaffingMetrics, calculateTrafficIntensity, calculateFTE, calculateOccupancy } from '../lib/calculations/erlangC';
 import { calculateErlangAMetrics } from '../lib/calculations/erlangA';
 import { calculateErlangB, calculateRequiredLinesB } from '../lib/calculations/erlangB';
+import { calculateStaffing } from '../lib/calculations/erlangEngine';
 import { useCalculatorStore } from '../store/calculatorStore';
 import type { CalculationInputs } from '../types';
 import { NumberInput } from './ui/NumberInput';
+import { DEFAULT_ENGSET_POPULATION } from '../utils/constants';
 
 interface ModelResults {
   modelName: string;
@@ -19,6 +21,7 @@ interface ModelResults {
 
 export default function ModelComparison() {
   const { inputs, setInput } = useCalculatorStore();
+  const population = inputs.population ?? DEFAULT_ENGSET_POPULATION;
 
   const results = useMemo(() => {
     const intervalSeconds = inputs.intervalMinutes * 60;
@@ -91,8 +94,34 @@ export default function ModelComparison() {
       occupancy: occupancyB
     });
 
+    // Engset finite-source counterparts of B and C, through the shared engine.
+    for (const [model, modelName] of [['EB', 'Engset B'], ['EC', 'Engset C']] as const) {
+      const engset = calculateStaffing({
+        model,
+        workload: { volume: inputs.volume, aht: inputs.aht, intervalMinutes: inputs.intervalMinutes },
+        constraints: {
+          targetSLPercent: inputs.targetSLPercent,
+          thresholdSeconds: inputs.thresholdSeconds,
+          maxOccupancy: inputs.maxOccupancy,
+          population,
+        },
+        behavior: { shrinkagePercent: inputs.shrinkagePercent },
+      });
+
+      if (engset) {
+        comparisonResults.push({
+          modelName,
+          requiredAgents: engset.requiredAgents,
+          totalFTE: engset.totalFTE,
+          serviceLevel: engset.serviceLevel,
+          asa: engset.asa,
+          occupancy: engset.occupancy
+        });
+      }
+    }
+
     return comparisonResults;
-  }, [inputs]);
+  }, [inputs, population]);
 
   const handleInputChange = (key: keyof CalculationInputs, value: number) => {
     setInput(key, value);
@@ -120,10 +149,11 @@ export default function ModelComparison() {
   return (
     <div className="space-y-6">
       <div className="bg-white p-6 rounded-lg shadow-md">
-        <h2 className="text-2xl font-bold text-gray-900 mb-4">Model Comparison: Erlang B vs C vs A</h2>
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Model Comparison: Erlang B vs C vs A vs Engset</h2>
         <p className="text-sm text-gray-600 mb-6">
           Compare staffing requirements across the three Erlang models: B (blocking/loss),
-          C (infinite patience queue), and A (queue with abandonment).
+          C (infinite patience queue), and A (queue with abandonment), plus their Engset
+          finite-source counterparts for a known population of callers.
         </p>
 
         {/* Input Parameters */}
@@ -191,6 +221,17 @@ export default function ModelComparison() {
               className={inputClass}
             />
           </div>
+          <div>
+            <label htmlFor="mc-population" className={labelClass}>Population (Engset)</label>
+            <NumberInput
+              id="mc-population"
+              value={population}
+              min="1"
+              step="1"
+              onChange={(e) => handleInputChange('population', Math.max(1, Math.round(parseFloat(e.target.value) || 0)))}
+              className={inputClass}
+            />
+          </div>
           <div>
             <label htmlFor="mc-interval-minutes" className={labelClass}>Interval (min)</label>
             <select
@@ -342,7 +383,7 @@ export default function ModelComparison() {
       </div>
 
       {/* Key Insights */}
-      {results.length === 3 && (
+      {results.length >= 3 && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
           <h3 className="text-lg font-semibold text-blue-900 mb-3">Key Insights</h3>
           <ul className="space-y-2 text-sm text-blue-800">
@@ -358,9 +399,17 @@ export default function ModelComparison() {
               <strong>Erlang A (Abandonment):</strong> Most realistic - models customer patience.
               Predicts {formatNumber((results.find(r => r.modelName === 'Erlang A')?.abandonmentRate || 0) * 100, 1)}% abandonment rate.
             </li>
+            {results.some(r => r.modelName === 'Engset C') && (
+              <li>
+                <strong>Engset (Finite Source):</strong> With {population} possible callers, anyone already waiting
+                or being served cannot call again, so peak load is lower. Shows {results.find(r => r.modelName === 'Engset C')?.requiredAgents} agents
+                vs {results.find(r => r.modelName === 'Erlang C')?.requiredAgents} for Erlang C.
+              </li>
+            )}
             <li className="mt-3 pt-3 border-t border-blue-300">
               <strong>Recommendation:</strong> Use <span className="font-bold">Erlang A</span> for contact centre staffing
-              (accounts for real customer behavior). Use <span className="font-bold">Erlang B</span> for trunk/line planning.
+              (accounts for real customer behavior). Use <span className="font-bold">Erlang B</span> for trunk/line planning
+              and <span className="font-bold">Engset</span> for small, known populations such as internal helpdesks.
             </li>
           </ul>
         </div>
@@ -1,8 +1,16 @@
 import { useState } from 'react';
-import { calculateStaffingMetrics } from '../lib/calculations/erlangC';
-import { effectiveAHTForConcurrency } from '../lib/calculations/erlangEngine';
+import { calculateFTE, calculateStaffingMetrics } from '../lib/calculations/erlangC';
+import { DEFAULT_CONCURRENCY_OVERHEAD, effectiveAHTForConcurrency } from '../lib/calculations/erlangEngine';
+import { solveChatSlotAgents } from '../lib/calculations/chatSlots';
+import {
+  buildOpeningMask,
+  calculateDeferredStaffing,
+  type DeferredStaffingMode,
+} from '../lib/calculations/deferredWork';
+import { calculatePriorityStaffing } from '../lib/calculations/priorityQueue';
 import { useCalculatorStore } from '../store/calculatorStore';
 import { NumberInput } from './ui/NumberInput';
+import { InboundOutboundBlendView } from './MultiChannelPanel/InboundOutboundBlendView';
 
 interface Channel {
   id: string;
@@ -13,15 +21,119 @@ interface Channel {
   targetSL: number;
   threshold: number;
   concurrent: number; // For chat/email - number of contacts agent can handle simultaneously
+  priority: number; // Priority mode only - 1 is answered first
+  handling: 'queue' | 'deferred'; // Deferred work is worked off a backlog, not answered live
+  responseHours: number; // Deferred only - respond within this many business hours
   icon: string;
 }
 
+type StaffingMode = 'blended' | 'priority' | 'inboundOutbound';
+
+// How concurrent channels are staffed: scale AHT down by concurrency
+// (legacy), or model each agent's slots with per-session handle time that
+// grows as more sessions are open.
+type ConcurrencyMethod = 'effectiveAHT' | 'slots';
+
 const DEFAULT_CHANNELS: Channel[] = [
-  { id: '1', name: 'Voice Calls', type: 'voice', volume: 100, aht: 240, targetSL: 80, threshold: 20,   concurrent: 1, icon: '📞' },
-  { id: '2', name: 'Live Chat',   type: 'chat',  volume: 50,  aht: 180, targetSL: 85, threshold: 60,   concurrent: 3, icon: '💬' },
-  { id: '3', name: 'Email',       type: 'email', volume: 30,  aht: 300, targetSL: 90, threshold: 3600, concurrent: 5, icon: '📧' },
+  { id: '1', name: 'Voice Calls', type: 'voice', volume: 100, aht: 240, targetSL: 80, threshold: 20,   concurrent: 1, priority: 1, handling: 'queue',    responseHours: 4, icon: '📞' },
+  { id: '2', name: 'Live Chat',   type: 'chat',  volume: 50,  aht: 180, targetSL: 85, threshold: 60,   concurrent: 3, priority: 2, handling: 'queue',    responseHours: 4, icon: '💬' },
+  { id: '3', name: 'Email',       type: 'email', volume: 30,  aht: 300, targetSL: 90, threshold: 3600, concurrent: 5, priority: 3, handling: 'deferred', responseHours: 4, icon: '📧' },
 ];
 
+// Deferred channels are planned over a few identical days so the overnight
+// backlog reaches steady state; the last day is reported.
+const DEFERRED_PLANNING_DAYS = 3;
+
+interface DeferredChannelPlan {
+  agents: number;
+  totalFTE: number;
+  averageResponseHours: number;
+  backlogAtClose: number;
+  canAchieveTarget: boolean;
+}
+
+/**
+ * Plan a deferred channel whose interval volume arrives around the clock and
+ * is worked during opening hours only.
+ */
+function planDeferredChannel(
+  channel: Channel,
+  intervalMinutes: number,
+  openHour: number,
+  closeHour: number,
+  planMode: DeferredStaffingMode,
+  shrinkagePercent: number,
+  maxOccupancy: number
+): DeferredChannelPlan | null {
+  if (intervalMinutes <= 0 || closeHour <= openHour) return null;
+  const open = buildOpeningMask(DEFERRED_PLANNING_DAYS, intervalMinutes, openHour * 60, closeHour * 60);
+  const plan = calculateDeferredStaffing({
+    arrivals: open.map(() => channel.volume),
+    open,
+    intervalMinutes,
+    aht: channel.aht,
+    responseBusinessHours: channel.responseHours,
+    mode: planMode,
+    shrinkagePercent,
+    maxOccupancy,
+  });
+  if (!plan) return null;
+
+  const perDay = open.length / DEFERRED_PLANNING_DAYS;
+  const lastDay = plan.intervals.slice(-perDay);
+  const agents = plan.dailyAgents[DEFERRED_PLANNING_DAYS - 1] ?? 0;
+  const lastOpen = lastDay.filter(i => i.open).pop();
+  return {
+    agents,
+    totalFTE: calculateFTE(agents, shrinkagePercent / 100),
+    averageResponseHours: plan.averageResponseBusinessHours,
+    backlogAtClose: lastOpen?.backlog ?? 0,
+    canAchieveTarget: plan.canAchieveTarget,
+  };
+}
+
+interface QueueChannelResult {
+  requiredAgents: number;
+  totalFTE: number;
+  serviceLevel: number;
+  occupancy: number;
+  /** Slot method only: mean open sessions per agent */
+  averageSessions?: number | undefined;
+}
+
+/** Staff a live channel; concurrent channels use the slot model when selected. */
+function staffQueueChannel(
+  channel: Channel,
+  method: ConcurrencyMethod,
+  intervalMinutes: number,
+  shrinkagePercent: number,
+  maxOccupancy: number
+): QueueChannelResult {
+  if (method === 'slots' && channel.concurrent > 1) {
+    const slotResult = solveChatSlotAgents({
+      volume: channel.volume,
+      aht: channel.aht,
+      intervalSeconds: intervalMinutes * 60,
+      slots: Math.min(10, Math.round(channel.concurrent)),
+      sessionOverhead: DEFAULT_CONCURRENCY_OVERHEAD,
+      thresholdSeconds: channel.threshold,
+      targetSL: channel.targetSL / 100,
+      shrinkagePercent: shrinkagePercent / 100,
+      maxOccupancy: maxOccupancy / 100,
+    });
+    if (slotResult) return slotResult;
+  }
+  return calculateStaffingMetrics({
+    volume: channel.volume,
+    aht: effectiveAHTForConcurrency(channel.aht, channel.concurrent),
+    intervalSeconds: intervalMinutes * 60,
+    targetSL: channel.targetSL / 100,
+    thresholdSeconds: channel.threshold,
+    shrinkagePercent: shrinkagePercent / 100,
+    maxOccupancy: maxOccupancy / 100,
+  });
+}
+
 // Pooling efficiency multiplier — at 100% blending, dedicated FTE drops by
 // ~15% in line with typical observed savings (10–20%) when agents handle
 // multiple channels.
@@ -31,7 +143,12 @@ export default function MultiChannelPanel() {
   const { inputs, setInput } = useCalculatorStore();
   const [channels, setChannels] = useState<Channel[]>(DEFAULT_CHANNELS);
 
+  const [mode, setMode] = useState<StaffingMode>('blended');
+  const [concurrencyMethod, setConcurrencyMethod] = useState<ConcurrencyMethod>('effectiveAHT');
   const [blendingPercent, setBlendingPercent] = useState(60);
+  const [openHour, setOpenHour] = useState(8);
+  const [closeHour, setCloseHour] = useState(18);
+  const [deferredPlanMode, setDeferredPlanMode] = useState<DeferredStaffingMode>('day');
   const intervalMinutes = inputs.intervalMinutes;
   const shrinkage = inputs.shrinkagePercent;
   const maxOccupancy = inputs.maxOccupancy;
@@ -46,6 +163,9 @@ export default function MultiChannelPanel() {
       targetSL: inputs.targetSLPercent,
       threshold: inputs.thresholdSeconds,
       concurrent: 1,
+      priority: Math.max(0, ...channels.map(ch => ch.priority)) + 1,
+      handling: 'queue',
+      responseHours: 4,
       icon: '📱'
     };
     setChannels([...channels, newChannel]);
@@ -59,34 +179,89 @@ export default function MultiChannelPanel() {
     setChannels(channels.filter(ch => ch.id !== id));
   };
 
-  // Adjust each channel's AHT for concurrency using the engine's overhead
-  // curve (chat/email at c > 1 pays a context-switching cost). The old
-  // behaviour was a linear divide (channel.aht / channel.concurrent).
-  const channelResults = channels.map(channel => {
-    const effectiveAHT = effectiveAHTForConcurrency(channel.aht, channel.concurrent);
-    const result = calculateStaffingMetrics({
-      volume: channel.volume,
-      aht: effectiveAHT,
-      intervalSeconds: intervalMinutes * 60,
-      targetSL: channel.targetSL / 100,
-      thresholdSeconds: channel.threshold,
-      shrinkagePercent: shrinkage / 100,
-      maxOccupancy: maxOccupancy / 100,
-    });
-    return { channel, ...result };
-  });
+  // Concurrent channels (chat/email at c > 1) pay a context-switching cost
+  // per extra session, either folded into an effective AHT or modelled per
+  // slot. The old behaviour was a linear divide (channel.aht / channel.concurrent).
+  const queueChannels = channels.filter(channel => channel.handling === 'queue');
+  const channelResults = queueChannels.map(channel => ({
+    channel,
+    ...staffQueueChannel(channel, concurrencyMethod, intervalMinutes, shrinkage, maxOccupancy),
+  }));
+
+  // Deferred channels are staffed from the backlog simulation, not Erlang C.
+  const deferredResults = channels
+    .filter(channel => channel.handling === 'deferred')
+    .map(channel => ({
+      channel,
+      plan: planDeferredChannel(channel, intervalMinutes, openHour, closeHour, deferredPlanMode, shrinkage, maxOccupancy),
+    }));
+  const hasDeferred = deferredResults.length > 0;
+  const deferredFTE = deferredResults.reduce((sum, r) => sum + (r.plan?.totalFTE ?? 0), 0);
 
-  const totalFTEDedicated = channelResults.reduce((sum, r) => sum + r.totalFTE, 0);
+  const totalFTEDedicated = channelResults.reduce((sum, r) => sum + r.totalFTE, 0) + deferredFTE;
   const blendingFraction = blendingPercent / 100;
   const totalFTEBlended = totalFTEDedicated * (1 - blendingFraction * POOLING_EFFICIENCY_FACTOR);
 
+  // Priority mode: one shared agent group answers the live channels in
+  // priority order; deferred work keeps its own backlog plan.
+  const priorityResult = mode === 'priority' && queueChannels.length > 0
+    ? calculatePriorityStaffing({
+        classes: queueChannels.map(channel => ({
+          id: channel.id,
+          volume: channel.volume,
+          aht: effectiveAHTForConcurrency(channel.aht, channel.concurrent),
+          targetSL: channel.targetSL / 100,
+          thresholdSeconds: channel.threshold,
+          priority: channel.priority,
+        })),
+        intervalSeconds: intervalMinutes * 60,
+        shrinkagePercent: shrinkage / 100,
+        maxOccupancy: maxOccupancy / 100,
+      })
+    : null;
+  const totalFTEShared = priorityResult ? priorityResult.totalFTE + deferredFTE : totalFTEBlended;
+
+  // Inbound/outbound blending plans the first live voice channel (or the
+  // first live channel) as the inbound side of the pool.
+  const inboundChannel = queueChannels.find(channel => channel.type === 'voice') ?? queueChannels[0];
+  const showOpeningHours = hasDeferred || mode === 'inboundOutbound';
+
   return (
     <div className="space-y-6">
       {/* Global Settings */}
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Multi-Channel Configuration</h3>
 
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-4">
+          <div>
+            <label htmlFor="mc-mode" className="block text-sm font-medium text-gray-700 mb-1">
+              Staffing Mode
+            </label>
+            <select
+              id="mc-mode"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as StaffingMode)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="blended">Dedicated vs blended</option>
+              <option value="priority">Shared queue with priorities</option>
+              <option value="inboundOutbound">Inbound/outbound blended pool</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="mc-concurrency-method" className="block text-sm font-medium text-gray-700 mb-1">
+              Concurrency
+            </label>
+            <select
+              id="mc-concurrency-method"
+              value={concurrencyMethod}
+              onChange={(e) => setConcurrencyMethod(e.target.value as ConcurrencyMethod)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="effectiveAHT">Effective AHT (legacy)</option>
+              <option value="slots">Agent slots</option>
+            </select>
+          </div>
           <div>
             <label htmlFor="mc-interval-min" className="block text-sm font-medium text-gray-700 mb-1">
               Interval (min)
@@ -120,21 +295,70 @@ export default function MultiChannelPanel() {
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
             />
           </div>
-          <div>
-            <label htmlFor="mc-blending" className="block text-sm font-medium text-gray-700 mb-1">
-              Blending (%)
-            </label>
-            <NumberInput
-              id="mc-blending"
-              value={blendingPercent}
-              onChange={(e) => setBlendingPercent(Number(e.target.value))}
-              min="0"
-              max="100"
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
-            />
-          </div>
+          {mode === 'blended' && (
+            <div>
+              <label htmlFor="mc-blending" className="block text-sm font-medium text-gray-700 mb-1">
+                Blending (%)
+              </label>
+              <NumberInput
+                id="mc-blending"
+                value={blendingPercent}
+                onChange={(e) => setBlendingPercent(Number(e.target.value))}
+                min="0"
+                max="100"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          )}
         </div>
 
+        {showOpeningHours && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label htmlFor="mc-open-hour" className="block text-sm font-medium text-gray-700 mb-1">
+                Opens (hour)
+              </label>
+              <NumberInput
+                id="mc-open-hour"
+                value={openHour}
+                onChange={(e) => setOpenHour(Number(e.target.value))}
+                min="0"
+                max="24"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="mc-close-hour" className="block text-sm font-medium text-gray-700 mb-1">
+                Closes (hour)
+              </label>
+              <NumberInput
+                id="mc-close-hour"
+                value={closeHour}
+                onChange={(e) => setCloseHour(Number(e.target.value))}
+                min="0"
+                max="24"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            {hasDeferred && (
+              <div>
+                <label htmlFor="mc-deferred-plan" className="block text-sm font-medium text-gray-700 mb-1">
+                  Deferred Staffing
+                </label>
+                <select
+                  id="mc-deferred-plan"
+                  value={deferredPlanMode}
+                  onChange={(e) => setDeferredPlanMode(e.target.value as DeferredStaffingMode)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value="day">Flat agents per day</option>
+                  <option value="interval">Agents per interval (peak shown)</option>
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
         <button
           onClick={addChannel}
           className="w-full md:w-auto px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
@@ -143,10 +367,26 @@ export default function MultiChannelPanel() {
         </button>
       </div>
 
+      {mode === 'inboundOutbound' && inboundChannel && (
+        <InboundOutboundBlendView
+          volume={inboundChannel.volume}
+          aht={effectiveAHTForConcurrency(inboundChannel.aht, inboundChannel.concurrent)}
+          targetSL={inboundChannel.targetSL}
+          threshold={inboundChannel.threshold}
+          intervalMinutes={intervalMinutes}
+          openHour={openHour}
+          closeHour={closeHour}
+          shrinkagePercent={shrinkage}
+          maxOccupancy={maxOccupancy}
+        />
+      )}
+
       {/* Channel Cards */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {channels.map(channel => {
           const result = channelResults.find(r => r.channel.id === channel.id);
+          const deferred = deferredResults.find(r => r.channel.id === channel.id);
+          const priorityClass = priorityResult?.classes.find(c => c.id === channel.id);
 
           return (
             <div key={channel.id} className="bg-white rounded-lg shadow p-6">
@@ -189,43 +429,143 @@ export default function MultiChannelPanel() {
                     className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
                   />
                 </div>
-                <div>
-                  <label htmlFor={`channel-${channel.id}-sl`} className="block text-xs font-medium text-gray-600 mb-1">Target SL (%)</label>
-                  <NumberInput
-                    id={`channel-${channel.id}-sl`}
-                    value={channel.targetSL}
-                    onChange={(e) => updateChannel(channel.id, { targetSL: Number(e.target.value) })}
-                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
-                  />
-                </div>
-                <div>
-                  <label htmlFor={`channel-${channel.id}-threshold`} className="block text-xs font-medium text-gray-600 mb-1">Threshold (sec)</label>
-                  <NumberInput
-                    id={`channel-${channel.id}-threshold`}
-                    value={channel.threshold}
-                    onChange={(e) => updateChannel(channel.id, { threshold: Number(e.target.value) })}
-                    className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
-                  />
-                </div>
                 <div className="col-span-2">
-                  <label htmlFor={`channel-${channel.id}-concurrent`} className="block text-xs font-medium text-gray-600 mb-1">
-                    Concurrent Contacts (chat/email)
-                  </label>
-                  <NumberInput
-                    id={`channel-${channel.id}-concurrent`}
-                    value={channel.concurrent}
-                    onChange={(e) => updateChannel(channel.id, { concurrent: Number(e.target.value) })}
-                    min="1"
-                    max="10"
+                  <label htmlFor={`channel-${channel.id}-handling`} className="block text-xs font-medium text-gray-600 mb-1">Handling</label>
+                  <select
+                    id={`channel-${channel.id}-handling`}
+                    value={channel.handling}
+                    onChange={(e) => updateChannel(channel.id, { handling: e.target.value as Channel['handling'] })}
                     className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Number of {channel.name} contacts an agent can handle simultaneously
-                  </p>
+                  >
+                    <option value="queue">Live queue (service level)</option>
+                    <option value="deferred">Deferred backlog (response time)</option>
+                  </select>
                 </div>
+                {channel.handling === 'deferred' ? (
+                  <div className="col-span-2">
+                    <label htmlFor={`channel-${channel.id}-response`} className="block text-xs font-medium text-gray-600 mb-1">
+                      Respond Within (business hours)
+                    </label>
+                    <NumberInput
+                      id={`channel-${channel.id}-response`}
+                      value={channel.responseHours}
+                      onChange={(e) => updateChannel(channel.id, { responseHours: Number(e.target.value) })}
+                      min="0"
+                      step="0.5"
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Volume arrives every interval around the clock and is worked during opening hours
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <label htmlFor={`channel-${channel.id}-sl`} className="block text-xs font-medium text-gray-600 mb-1">Target SL (%)</label>
+                      <NumberInput
+                        id={`channel-${channel.id}-sl`}
+                        value={channel.targetSL}
+                        onChange={(e) => updateChannel(channel.id, { targetSL: Number(e.target.value) })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`channel-${channel.id}-threshold`} className="block text-xs font-medium text-gray-600 mb-1">Threshold (sec)</label>
+                      <NumberInput
+                        id={`channel-${channel.id}-threshold`}
+                        value={channel.threshold}
+                        onChange={(e) => updateChannel(channel.id, { threshold: Number(e.target.value) })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <label htmlFor={`channel-${channel.id}-concurrent`} className="block text-xs font-medium text-gray-600 mb-1">
+                        Concurrent Contacts (chat/email)
+                      </label>
+                      <NumberInput
+                        id={`channel-${channel.id}-concurrent`}
+                        value={channel.concurrent}
+                        onChange={(e) => updateChannel(channel.id, { concurrent: Number(e.target.value) })}
+                        min="1"
+                        max="10"
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Number of {channel.name} contacts an agent can handle simultaneously
+                      </p>
+                    </div>
+                  </>
+                )}
+                {mode === 'priority' && channel.handling === 'queue' && (
+                  <div className="col-span-2">
+                    <label htmlFor={`channel-${channel.id}-priority`} className="block text-xs font-medium text-gray-600 mb-1">
+                      Priority (1 = answered first)
+                    </label>
+                    <NumberInput
+                      id={`channel-${channel.id}-priority`}
+                      value={channel.priority}
+                      onChange={(e) => updateChannel(channel.id, { priority: Math.max(1, Math.round(Number(e.target.value))) })}
+                      min="1"
+                      step="1"
+                      className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary-500"
+                    />
+                  </div>
+                )}
               </div>
 
-              {result && (
+              {priorityClass && (
+                <div className="border-t pt-4 space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Workload (Erlangs):</span>
+                    <span className="font-semibold">{priorityClass.trafficIntensity.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">Service Level:</span>
+                    <span className={`font-semibold ${priorityClass.meetsTarget ? 'text-green-600' : 'text-red-600'}`}>
+                      {(priorityClass.serviceLevel * 100).toFixed(1)}%
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-600">ASA:</span>
+                    <span className="font-semibold">
+                      {Number.isFinite(priorityClass.asa) ? `${priorityClass.asa.toFixed(1)}s` : '∞'}
+                    </span>
+                  </div>
+                </div>
+              )}
+
+              {deferred && (
+                <div className="border-t pt-4 space-y-2">
+                  {deferred.plan ? (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">
+                          {deferredPlanMode === 'day' ? 'Agents (flat, per day):' : 'Peak Agents:'}
+                        </span>
+                        <span className="font-semibold">{deferred.plan.agents}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Total FTE:</span>
+                        <span className="font-semibold">{deferred.plan.totalFTE.toFixed(1)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Avg Response (business h):</span>
+                        <span className={`font-semibold ${deferred.plan.canAchieveTarget ? 'text-green-600' : 'text-red-600'}`}>
+                          {deferred.plan.averageResponseHours.toFixed(1)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Backlog at Close:</span>
+                        <span className="font-semibold">{deferred.plan.backlogAtClose.toFixed(0)}</span>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-sm text-red-600">Check opening hours, AHT and response target.</p>
+                  )}
+                </div>
+              )}
+
+              {result && !priorityClass && (
                 <div className="border-t pt-4 space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Required Agents:</span>
@@ -245,6 +585,14 @@ export default function MultiChannelPanel() {
                     <span className="text-gray-600">Occupancy:</span>
                     <span className="font-semibold">{(result.occupancy * 100).toFixed(1)}%</span>
                   </div>
+                  {result.averageSessions !== undefined && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Open Sessions / Agent:</span>
+                      <span className="font-semibold">
+                        {result.averageSessions.toFixed(2)} of {Math.round(channel.concurrent)}
+                      </span>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -263,29 +611,49 @@ export default function MultiChannelPanel() {
             <p className="text-xs text-gray-500 mt-1">FTE (separate teams per channel)</p>
           </div>
 
-          <div>
-            <p className="text-sm text-gray-600 mb-1">Blended Model ({blendingPercent}%)</p>
-            <p className="text-3xl font-bold text-primary-600">{totalFTEBlended.toFixed(1)}</p>
-            <p className="text-xs text-gray-500 mt-1">FTE (multi-skilled agents)</p>
-          </div>
+          {priorityResult ? (
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Shared Priority Queue</p>
+              <p className="text-3xl font-bold text-primary-600">{priorityResult.totalFTE.toFixed(1)}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                FTE ({priorityResult.requiredAgents} agents so every channel meets its target
+                {hasDeferred && ', plus deferred backlog staff'})
+              </p>
+            </div>
+          ) : (
+            <div>
+              <p className="text-sm text-gray-600 mb-1">Blended Model ({blendingPercent}%)</p>
+              <p className="text-3xl font-bold text-primary-600">{totalFTEBlended.toFixed(1)}</p>
+              <p className="text-xs text-gray-500 mt-1">FTE (multi-skilled agents)</p>
+            </div>
+          )}
 
           <div>
             <p className="text-sm text-gray-600 mb-1">Efficiency Gain</p>
             <p className="text-3xl font-bold text-green-600">
-              {((totalFTEDedicated - totalFTEBlended) / totalFTEDedicated * 100).toFixed(1)}%
+              {((totalFTEDedicated - totalFTEShared) / totalFTEDedicated * 100).toFixed(1)}%
             </p>
             <p className="text-xs text-gray-500 mt-1">
-              Save {(totalFTEDedicated - totalFTEBlended).toFixed(1)} FTE
+              Save {(totalFTEDedicated - totalFTEShared).toFixed(1)} FTE
             </p>
           </div>
         </div>
 
         <div className="mt-4 p-4 bg-white rounded-lg">
-          <p className="text-sm text-gray-700">
-            <strong>Blending Explanation:</strong> Multi-skilled agents can handle {blendingPercent}% of all channel types.
-            This creates pooling efficiency - when one channel is quiet, agents help on busier channels.
-            Typical efficiency gains: 10-20% FTE reduction vs dedicated teams.
-          </p>
+          {priorityResult ? (
+            <p className="text-sm text-gray-700">
+              <strong>Priority Explanation:</strong> One agent group serves every channel. Free agents take the
+              highest-priority waiting contact, but never interrupt a contact in progress. All channels share the same
+              chance of waiting ({(priorityResult.probabilityOfWaiting * 100).toFixed(1)}%); lower priorities wait longer.
+              {!priorityResult.canAchieveTarget && ' No agent count in range meets every target - relax the lowest-priority SL.'}
+            </p>
+          ) : (
+            <p className="text-sm text-gray-700">
+              <strong>Blending Explanation:</strong> Multi-skilled agents can handle {blendingPercent}% of all channel types.
+              This creates pooling efficiency - when one channel is quiet, agents help on busier channels.
+              Typical efficiency gains: 10-20% FTE reduction vs dedicated teams.
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import { calculateBlendedPool, type BlendedPoolInterval } from '../../lib/calculations/blendedPool';
+import { NumberInput } from '../ui/NumberInput';
+import { INTRADAY_VOLUME_PATTERN } from '../../utils/constants';
+
+const RESERVE_OPTIONS = [0, 1, 2, 3, 4, 6, 8];
+
+interface InboundOutboundBlendViewProps {
+  /** Inbound calls per interval at the 1.0 point of the pattern */
+  volume: number;
+  aht: number;
+  targetSL: number;
+  threshold: number;
+  intervalMinutes: number;
+  openHour: number;
+  closeHour: number;
+  shrinkagePercent: number;
+  maxOccupancy: number;
+}
+
+function formatClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export function InboundOutboundBlendView(props: InboundOutboundBlendViewProps) {
+  const { volume, aht, targetSL, threshold, intervalMinutes, openHour, closeHour, shrinkagePercent, maxOccupancy } = props;
+  const [poolAgents, setPoolAgents] = useState(25);
+  const [reserve, setReserve] = useState<number | 'auto'>('auto');
+
+  const intervals = useMemo<BlendedPoolInterval[]>(() => {
+    if (intervalMinutes <= 0 || closeHour <= openHour) return [];
+    const rows: BlendedPoolInterval[] = [];
+    for (let minute = openHour * 60; minute + intervalMinutes <= closeHour * 60; minute += intervalMinutes) {
+      const hour = Math.floor((minute - openHour * 60) / 60);
+      // Typical shape applied by hour after opening.
+      const weight = INTRADAY_VOLUME_PATTERN[hour % INTRADAY_VOLUME_PATTERN.length]!;
+      rows.push({ volume: Math.round(volume * weight), poolAgents, label: formatClock(minute) });
+    }
+    return rows;
+  }, [volume, intervalMinutes, openHour, closeHour, poolAgents]);
+
+  const poolInput = useMemo(() => ({
+    intervals,
+    aht,
+    intervalMinutes,
+    targetSLPercent: targetSL,
+    thresholdSeconds: threshold,
+    maxOccupancy,
+    shrinkagePercent,
+  }), [intervals, aht, intervalMinutes, targetSL, threshold, maxOccupancy, shrinkagePercent]);
+  const plan = useMemo(() => calculateBlendedPool({ ...poolInput, reserve }), [poolInput, reserve]);
+  const reserveCurve = useMemo(
+    () => RESERVE_OPTIONS.filter(r => r <= poolAgents).map(r => ({ reserve: r, plan: calculateBlendedPool({ ...poolInput, reserve: r }) })),
+    [poolInput, poolAgents]
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Inbound/Outbound Blended Pool</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Agents answer inbound calls and start outbound work when more than the reserve are idle. Outbound tasks are never interrupted.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="mc-pool-agents" className="block text-sm font-medium text-gray-700 mb-1">
+            Pool Agents (per interval)
+          </label>
+          <NumberInput
+            id="mc-pool-agents"
+            value={poolAgents}
+            onChange={(e) => setPoolAgents(Math.max(1, Math.round(Number(e.target.value))))}
+            min="1"
+            step="1"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="mc-pool-reserve" className="block text-sm font-medium text-gray-700 mb-1">
+            Inbound Reserve (idle agents)
+          </label>
+          <select
+            id="mc-pool-reserve"
+            value={reserve}
+            onChange={(e) => setReserve(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="auto">Auto (smallest meeting {targetSL}/{threshold})</option>
+            {RESERVE_OPTIONS.filter(r => r <= poolAgents).map(r => (
+              <option key={r} value={r}>{r}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {plan ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div className="p-4 bg-primary-50 rounded-lg">
+              <p className="text-sm text-gray-600">Outbound Agent-Hours</p>
+              <p className="text-2xl font-bold text-primary-600">{plan.outboundAgentHours.toFixed(1)}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Inbound SL (volume-weighted)</p>
+              <p className={`text-2xl font-bold ${plan.meetsTarget ? 'text-green-600' : 'text-red-600'}`}>
+                {plan.serviceLevel.toFixed(1)}%
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Interval</th>
+                  <th className="py-2 pr-4">Inbound</th>
+                  <th className="py-2 pr-4">Dedicated Agents</th>
+                  <th className="py-2 pr-4">Reserve</th>
+                  <th className="py-2 pr-4">Inbound SL</th>
+                  <th className="py-2 pr-4">ASA (s)</th>
+                  <th className="py-2">Outbound Hours</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.intervals.map(row => (
+                  <tr key={row.index} className="border-b border-gray-100">
+                    <td className="py-1 pr-4">{row.label}</td>
+                    <td className="py-1 pr-4">{row.volume}</td>
+                    <td className="py-1 pr-4">{row.dedicatedAgents ?? '-'}</td>
+                    <td className="py-1 pr-4">{row.reserve}</td>
+                    <td className={`py-1 pr-4 font-semibold ${row.meetsTarget ? 'text-green-600' : 'text-red-600'}`}>
+                      {row.serviceLevel.toFixed(1)}%
+                    </td>
+                    <td className="py-1 pr-4">{Number.isFinite(row.asa) ? row.asa.toFixed(1) : '∞'}</td>
+                    <td className="py-1">{row.outboundAgentHours.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-red-600 mb-4">Check opening hours, AHT and pool size.</p>
+      )}
+
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">Reserve Thresholds (whole day)</h4>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-4">Reserve</th>
+              <th className="py-2 pr-4">Inbound SL</th>
+              <th className="py-2">Outbound Hours</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reserveCurve.map(({ reserve: r, plan: curvePlan }) => curvePlan && (
+              <tr key={r} className="border-b border-gray-100">
+                <td className="py-1 pr-4">{r}</td>
+                <td className={`py-1 pr-4 font-semibold ${curvePlan.meetsTarget ? 'text-green-600' : 'text-red-600'}`}>
+                  {curvePlan.serviceLevel.toFixed(1)}%
+                </td>
+                <td className="py-1">{curvePlan.outboundAgentHours.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ReplicationPanel from './ReplicationPanel';
+import type { ScenarioConfig } from '../simulation/types';
+
+/**
+ * ReplicationPanel - runs are spread over timer ticks
+ *
+ * The button shows progress and stays disabled while a run is going, and the
+ * table appears once the last tick finishes.
+ */
+
+const config: ScenarioConfig = {
+  arrivalRate: 4,
+  serviceRate: 1,
+  servers: 5,
+  maxTime: 3000,
+  seed: 100,
+  channel: 'voice',
+  serviceLevelThreshold: 0.2,
+};
+
+describe('ReplicationPanel', () => {
+  test('shows a running state, then the intervals next to Erlang C', async () => {
+    render(<ReplicationPanel config={config} />);
+    fireEvent.click(screen.getByRole('button', { name: 'RUN' }));
+
+    const running = screen.getByRole('button', { name: /RUNNING 0\/10/ });
+    expect(running).toBeDisabled();
+    expect(screen.queryByText('Simulated Mean')).not.toBeInTheDocument();
+
+    expect(await screen.findByText('Simulated Mean', {}, { timeout: 10000 })).toBeInTheDocument();
+    expect(screen.getByText('Erlang C')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'RUN' })).toBeEnabled();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Replication Panel - simulated 95% intervals next to the Erlang C/A answer
+ *
+ * Runs are spread over timer ticks so a long horizon does not freeze the tab.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { type ScenarioConfig } from '../simulation/types';
+import { secondsPerTimeUnit } from '../simulation/presets';
+import {
+  METRIC_KEYS,
+  analyticMetrics,
+  replicationSteps,
+  type AnalyticMetrics,
+  type ReplicationMethod,
+  type ReplicationMetrics,
+  type ReplicationProgress,
+  type ReplicationResult,
+} from '../simulation/replications';
+import { NumberInput } from './ui/NumberInput';
+
+interface ReplicationPanelProps {
+  config: ScenarioConfig;
+}
+
+const METRIC_LABELS: Record<keyof ReplicationMetrics, string> = {
+  serviceLevel: 'Service Level',
+  asa: 'ASA (sec)',
+  abandonRate: 'Abandon Rate',
+  occupancy: 'Occupancy',
+  avgQueueLength: 'Avg Queue Length',
+};
+
+// Simulation work per tick, ms, before yielding to the browser
+const TICK_BUDGET_MS = 16;
+
+const PERCENT_METRICS = new Set<keyof ReplicationMetrics>(['serviceLevel', 'abandonRate', 'occupancy']);
+
+/** ASA is shown in seconds whatever the scenario's time unit */
+const formatMetric = (key: keyof ReplicationMetrics, value: number, unitSeconds: number) =>
+  PERCENT_METRICS.has(key)
+    ? `${(value * 100).toFixed(1)}%`
+    : (key === 'asa' ? value * unitSeconds : value).toFixed(2);
+
+export default function ReplicationPanel({ config }: ReplicationPanelProps) {
+  const [method, setMethod] = useState<ReplicationMethod>('replications');
+  const [count, setCount] = useState(10);
+  const [warmUpPercent, setWarmUpPercent] = useState(config.arrivalProfile ? 0 : 10);
+  const [result, setResult] = useState<{
+    run: ReplicationResult | null;
+    analytic: AnalyticMetrics | null;
+    unitSeconds: number;
+  } | null>(null);
+  const [progress, setProgress] = useState<ReplicationProgress | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  // Stop a run in progress when the panel unmounts
+  useEffect(() => () => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+  }, []);
+
+  /**
+   * Start a run: each tick advances it for about a frame, then yields
+   */
+  const handleRun = () => {
+    const warmUp = (config.maxTime * warmUpPercent) / 100;
+    const steps = replicationSteps(config, method === 'replications'
+      ? { method, replications: count, warmUp }
+      : { method, batches: count, warmUp });
+    const analytic = analyticMetrics(config);
+    const unitSeconds = secondsPerTimeUnit(config);
+
+    const tick = () => {
+      const deadline = performance.now() + TICK_BUDGET_MS;
+      let step = steps.next();
+      while (!step.done && performance.now() < deadline) step = steps.next();
+
+      if (step.done) {
+        timerRef.current = null;
+        setProgress(null);
+        setResult({ run: step.value, analytic, unitSeconds });
+        return;
+      }
+      setProgress(step.value);
+      timerRef.current = window.setTimeout(tick, 0);
+    };
+
+    setResult(null);
+    setProgress({ completed: 0, total: count });
+    timerRef.current = window.setTimeout(tick, 0);
+  };
+
+  return (
+    <div className="bg-bg-surface border border-border-subtle rounded-xl p-6 shadow-sm space-y-4">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-text-primary tracking-wide">Replications</h3>
+          <p className="text-xs text-text-muted max-w-xl">
+            95% confidence intervals from several seeded runs (or batches of one long run) after deleting the warm-up,
+            next to the closed-form answer for the same scenario.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-xs">
+          <div>
+            <label htmlFor="replication-method" className="block text-text-muted mb-1">Method</label>
+            <select
+              id="replication-method"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as ReplicationMethod)}
+              className="bg-bg-elevated border border-border-subtle rounded px-2 py-1 text-text-primary"
+            >
+              <option value="replications">Independent runs</option>
+              <option value="batchMeans">Batch means</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="replication-count" className="block text-text-muted mb-1">
+              {method === 'replications' ? 'Runs' : 'Batches'}
+            </label>
+            <NumberInput
+              id="replication-count"
+              min="2"
+              step="1"
+              value={count}
+              onChange={(e) => setCount(Math.max(2, parseInt(e.target.value) || 2))}
+              className="w-20 bg-bg-elevated border border-border-subtle rounded px-2 py-1 font-mono"
+            />
+          </div>
+          <div>
+            <label htmlFor="replication-warm-up" className="block text-text-muted mb-1">Warm-up (% of horizon)</label>
+            <NumberInput
+              id="replication-warm-up"
+              min="0"
+              step="5"
+              value={warmUpPercent}
+              onChange={(e) => setWarmUpPercent(Math.min(90, Math.max(0, parseFloat(e.target.value) || 0)))}
+              className="w-20 bg-bg-elevated border border-border-subtle rounded px-2 py-1 font-mono"
+            />
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={progress !== null}
+            className="px-4 py-2 bg-cyan text-bg-base hover:bg-cyan/90 rounded-lg font-bold text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {progress ? `RUNNING ${progress.completed}/${progress.total}` : 'RUN'}
+          </button>
+        </div>
+      </div>
+
+      {result && !result.run && (
+        <p className="text-sm text-red">Cannot run replications for this scenario. Check the configuration.</p>
+      )}
+
+      {result?.run && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border-subtle">
+            <thead className="bg-bg-elevated">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-text-secondary uppercase">Metric</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">Simulated Mean</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">95% CI</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-text-secondary uppercase">
+                  {result.analytic?.model ?? 'Analytic'}
+                </th>
+                <th className="px-3 py-2 text-center text-xs font-medium text-text-secondary uppercase">In Band</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border-subtle">
+              {METRIC_KEYS.map(key => {
+                const estimate = result.run!.estimates[key];
+                const analytic = result.analytic?.metrics[key];
+                const inBand = analytic !== undefined && analytic >= estimate.lower && analytic <= estimate.upper;
+                return (
+                  <tr key={key} className="hover:bg-bg-hover transition-colors">
+                    <td className="px-3 py-2 text-sm text-text-primary">
+                      {METRIC_LABELS[key]}
+                      {key === 'serviceLevel' && ` (${Number((result.run!.serviceLevelThreshold * result.unitSeconds).toFixed(1))}s)`}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-cyan font-semibold tabular-nums">
+                      {formatMetric(key, estimate.mean, result.unitSeconds)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">
+                      {formatMetric(key, estimate.lower, result.unitSeconds)} – {formatMetric(key, estimate.upper, result.unitSeconds)}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-text-secondary tabular-nums">
+                      {analytic !== undefined ? formatMetric(key, analytic, result.unitSeconds) : '-'}
+                    </td>
+                    <td className={`px-3 py-2 text-sm text-center font-semibold ${inBand ? 'text-green' : 'text-amber'}`}>
+                      {analytic === undefined ? '' : inBand ? 'Yes' : 'No'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-text-muted mt-2">
+            {result.run.observations.length} {result.run.method === 'replications' ? 'runs' : 'batches'},
+            {' '}warm-up of {(result.run.warmUp * result.unitSeconds).toFixed(0)}s deleted.
+            {!result.analytic && ' No closed form for this scenario (arrival profile, non-exponential times, chat slots, or non-exponential patience), or it is unstable under Erlang C.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,11 @@ import { RequiredVsActualSection } from './ResultsDisplay/RequiredVsActualSectio
 import { KeyMetricsGrid } from './ResultsDisplay/KeyMetricsGrid';
 import { PerformanceMetrics } from './ResultsDisplay/PerformanceMetrics';
 import { AbandonmentSection } from './ResultsDisplay/AbandonmentSection';
+import { CallbackSection } from './ResultsDisplay/CallbackSection';
+import { ShrinkageWaterfallSection } from './ResultsDisplay/ShrinkageWaterfallSection';
+import { WaitDistributionSection } from './ResultsDisplay/WaitDistributionSection';
+import { TimeVaryingSection } from './ResultsDisplay/TimeVaryingSection';
+import { OutboundDialerSection } from './ResultsDisplay/OutboundDialerSection';
 import { SensitivityChart } from './ResultsDisplay/SensitivityChart';
 import { StickyKPIBar } from './ResultsDisplay/StickyKPIBar';
 
@@ -108,7 +113,12 @@ const ResultsDisplay = memo(() => {
 
         <KeyMetricsGrid />
         <PerformanceMetrics />
+        <ShrinkageWaterfallSection />
         <AbandonmentSection />
+        <CallbackSection />
+        <WaitDistributionSection />
+        <TimeVaryingSection />
+        <OutboundDialerSection />
 
         {activeProductivityModifier !== undefined && activeProductivityModifier < 1.0 && (
           <div className="mt-6 p-4 bg-amber/10 border border-amber/30 rounded-xl">
@@ -133,7 +143,7 @@ const ResultsDisplay = memo(() => {
           </div>
           {results.assumesStationary === true && (
             <p className="mt-3 text-xs text-amber-DEFAULT/80 font-mono">
-              ⚠ Steady-state assumption: result accuracy degrades for intervals with bursty / non-stationary arrivals.
+              ⚠ Steady-state assumption: result accuracy degrades for intervals with bursty / non-stationary arrivals. See Time-Varying Demand for the corrected requirement.
             </p>
           )}
         </div>
@@ -3,8 +3,8 @@ import { useCalculatorStore } from '../../store/calculatorStore';
 import { formatNumber } from './resultsFormat';
 
 export const AbandonmentSection = memo(() => {
-  const { abandonmentMetrics, inputs } = useCalculatorStore();
-  if (!abandonmentMetrics || inputs.model !== 'A') return null;
+  const { abandonmentMetrics, callbackMetrics, inputs } = useCalculatorStore();
+  if (!abandonmentMetrics || (inputs.model !== 'A' && inputs.model !== 'X')) return null;
 
   return (
     <div className="mt-6 pt-5 border-t border-border-muted/30">
@@ -32,12 +32,26 @@ export const AbandonmentSection = memo(() => {
           </p>
         </div>
 
+        {callbackMetrics?.expectedAbandonments !== undefined && (
+          <div className="flex justify-between items-center p-4 bg-cyan/5 border border-cyan/20 rounded-lg">
+            <div>
+              <p className="text-base text-text-primary font-medium">With Callbacks</p>
+              <p className="text-sm text-text-muted">
+                {formatNumber(abandonmentMetrics.expectedAbandonments - callbackMetrics.expectedAbandonments, 0)} fewer abandons
+              </p>
+            </div>
+            <p className="text-2xl font-bold text-cyan tabular-nums">
+              {formatNumber((callbackMetrics.expectedAbandonments / inputs.volume) * 100, 1)}%
+            </p>
+          </div>
+        )}
+
         {abandonmentMetrics.retrialProbability !== undefined && (
           <>
             <div className="flex justify-between items-center p-4 bg-magenta/5 border border-magenta/20 rounded-lg">
               <div>
                 <p className="text-base text-text-primary font-medium">Retrial Prob</p>
-                <p className="text-sm text-text-muted">Callbacks</p>
+                <p className="text-sm text-text-muted">Redials share of attempts</p>
               </div>
               <p className="text-2xl font-bold text-magenta tabular-nums">
                 {formatNumber(abandonmentMetrics.retrialProbability * 100, 1)}%
@@ -0,0 +1,44 @@
+import { memo } from 'react';
+import { useCalculatorStore } from '../../store/calculatorStore';
+import { formatNumber } from './resultsFormat';
+
+export const CallbackSection = memo(() => {
+  const { callbackMetrics, inputs } = useCalculatorStore();
+  if (!callbackMetrics || !inputs.callback) return null;
+
+  return (
+    <div className="mt-6 pt-5 border-t border-border-muted/30">
+      <h3 className="text-sm font-semibold text-text-secondary uppercase tracking-wider mb-4">
+        Virtual Hold
+      </h3>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-4 bg-cyan/5 border border-cyan/20 rounded-lg">
+          <p className="text-sm text-text-muted">Live SL</p>
+          <p className="text-2xl font-bold text-cyan tabular-nums">{formatNumber(callbackMetrics.liveServiceLevel, 1)}%</p>
+          <p className="text-sm text-text-muted">ASA {formatNumber(callbackMetrics.liveAsa, 1)}s</p>
+        </div>
+        <div className="p-4 bg-magenta/5 border border-magenta/20 rounded-lg">
+          <p className="text-sm text-text-muted">Callbacks</p>
+          <p className="text-2xl font-bold text-magenta tabular-nums">{formatNumber(callbackMetrics.callbackVolume, 0)}</p>
+          <p className="text-sm text-text-muted">
+            {formatNumber(callbackMetrics.callbackRate * 100, 1)}% of callers ({formatNumber(callbackMetrics.offerRate * 100, 1)}% offered)
+          </p>
+        </div>
+        <div className={`p-4 rounded-lg border ${callbackMetrics.canAchieveTarget ? 'bg-green/5 border-green/20' : 'bg-red/5 border-red/20'}`}>
+          <p className="text-sm text-text-muted">Called Back Within {inputs.callback.deadlineMinutes} min</p>
+          <p className={`text-2xl font-bold tabular-nums ${callbackMetrics.canAchieveTarget ? 'text-green' : 'text-red'}`}>
+            {formatNumber(callbackMetrics.callbackCompletionRate * 100, 1)}%
+          </p>
+          <p className="text-sm text-text-muted">Avg wait {formatNumber(callbackMetrics.callbackAverageWait / 60, 1)} min</p>
+        </div>
+        <div className="p-4 bg-amber/5 border border-amber/20 rounded-lg">
+          <p className="text-sm text-text-muted">Total Agents</p>
+          <p className="text-2xl font-bold text-amber tabular-nums">{callbackMetrics.requiredAgents}</p>
+          <p className="text-sm text-text-muted">
+            {callbackMetrics.liveAgents} live, {formatNumber(callbackMetrics.totalFTE, 1)} FTE
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+});
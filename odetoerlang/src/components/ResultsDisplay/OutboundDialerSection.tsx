@@ -0,0 +1,56 @@
+import { memo, useMemo } from 'react';
+import { useCalculatorStore } from '../../store/calculatorStore';
+import { calculateOutboundDialer } from '../../lib/calculations/outboundDialer';
+import { formatNumber } from './resultsFormat';
+
+export const OutboundDialerSection = memo(() => {
+  const { inputs } = useCalculatorStore();
+
+  const plan = useMemo(() => {
+    const { outbound } = inputs;
+    if (inputs.channelBehavior !== 'outbound' || !outbound) return null;
+    return calculateOutboundDialer({
+      records: outbound.records,
+      dialingHours: outbound.dialingHours,
+      contactRate: outbound.contactRatePercent / 100,
+      rightPartyRate: outbound.rightPartyPercent / 100,
+      talkSeconds: outbound.talkSeconds,
+      wrapSeconds: outbound.wrapSeconds,
+      maxNuisanceRate: outbound.maxNuisancePercent / 100,
+      shrinkagePercent: inputs.shrinkagePercent,
+      maxOccupancy: inputs.maxOccupancy,
+    });
+  }, [inputs]);
+
+  if (!plan) return null;
+
+  return (
+    <div className="mt-6 pt-5 border-t border-border-muted/30">
+      <h3 className="text-sm font-semibold text-text-secondary uppercase tracking-wider mb-4">
+        Outbound Dialer
+      </h3>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-4 bg-cyan/5 border border-cyan/20 rounded-lg">
+          <p className="text-sm text-text-muted">Agents</p>
+          <p className="text-2xl font-bold text-cyan tabular-nums">{plan.requiredAgents}</p>
+          <p className="text-sm text-text-muted">{formatNumber(plan.totalFTE, 1)} FTE</p>
+        </div>
+        <div className="p-4 bg-magenta/5 border border-magenta/20 rounded-lg">
+          <p className="text-sm text-text-muted">Dial Ratio</p>
+          <p className="text-2xl font-bold text-magenta tabular-nums">{formatNumber(plan.dialRatio, 2)}</p>
+          <p className="text-sm text-text-muted">{formatNumber(plan.dialsPerHour, 0)} dials/hour</p>
+        </div>
+        <div className="p-4 bg-green/5 border border-green/20 rounded-lg">
+          <p className="text-sm text-text-muted">Completions</p>
+          <p className="text-2xl font-bold text-green tabular-nums">{formatNumber(plan.expectedCompletions, 0)}</p>
+          <p className="text-sm text-text-muted">{formatNumber(plan.completionsPerHour, 1)}/hour</p>
+        </div>
+        <div className="p-4 bg-amber/5 border border-amber/20 rounded-lg">
+          <p className="text-sm text-text-muted">Nuisance Rate</p>
+          <p className="text-2xl font-bold text-amber tabular-nums">{formatNumber(plan.nuisanceRate * 100, 2)}%</p>
+          <p className="text-sm text-text-muted">Occupancy {formatNumber(plan.occupancy * 100, 1)}%</p>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -84,6 +84,18 @@ export const PerformanceMetrics = memo(() => {
           {formatNumber(results.trafficIntensity, 2)}
         </p>
       </div>
+
+      {results.occupancyAdjustedAHT !== undefined && (
+        <div className="flex justify-between items-center p-4 bg-bg-elevated/40 border border-border-muted/30 rounded-lg backdrop-blur-sm">
+          <div>
+            <p className="text-base text-text-primary font-medium">AHT at Occupancy</p>
+            <p className="text-sm text-text-muted">Entered: {inputs.aht}s</p>
+          </div>
+          <p className="text-2xl font-bold text-text-primary tabular-nums">
+            {formatNumber(results.occupancyAdjustedAHT, 0)}s
+          </p>
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,54 @@
+import { memo } from 'react';
+import { useCalculatorStore } from '../../store/calculatorStore';
+import { shrinkageWaterfall } from '../../lib/calculations/shrinkage';
+import { formatNumber } from './resultsFormat';
+
+export const ShrinkageWaterfallSection = memo(() => {
+  const { results, inputs } = useCalculatorStore();
+  if (!results || !inputs.shrinkageCategories || inputs.shrinkageCategories.length === 0) return null;
+
+  const waterfall = shrinkageWaterfall(results.requiredAgents, inputs.shrinkageCategories);
+  const gross = waterfall.grossFTE;
+  const share = (fte: number) => (gross > 0 ? (fte / gross) * 100 : 0);
+
+  return (
+    <div className="mt-6 pt-5 border-t border-border-muted/30">
+      <h3 className="text-sm font-semibold text-text-secondary uppercase tracking-wider mb-4">
+        Gross to Productive FTE
+      </h3>
+      <div className="space-y-2">
+        <div className="flex items-center gap-3">
+          <span className="w-36 text-sm text-text-primary font-medium">Gross FTE</span>
+          <div className="flex-1 h-4 bg-bg-surface border border-border-subtle/30 rounded overflow-hidden">
+            <div className="h-full bg-magenta rounded" style={{ width: '100%' }}></div>
+          </div>
+          <span className="w-20 text-right text-sm font-semibold text-magenta tabular-nums">{formatNumber(gross, 1)}</span>
+        </div>
+        {waterfall.steps.map(step => (
+          <div key={`${step.category}-${step.kind}`} className="flex items-center gap-3">
+            <span className="w-36 text-sm text-text-muted">
+              {step.category}
+              <span className="text-2xs uppercase tracking-wide"> · {step.kind}</span>
+            </span>
+            <div className="relative flex-1 h-4 bg-bg-surface border border-border-subtle/30 rounded overflow-hidden">
+              <div
+                className={`absolute h-full rounded ${step.kind === 'planned' ? 'bg-amber/70' : 'bg-red/70'}`}
+                style={{ left: `${share(step.remainingFTE)}%`, width: `${share(step.fte)}%` }}
+              ></div>
+            </div>
+            <span className="w-20 text-right text-sm text-text-secondary tabular-nums">-{formatNumber(step.fte, 1)}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-3">
+          <span className="w-36 text-sm text-text-primary font-medium">Productive FTE</span>
+          <div className="flex-1 h-4 bg-bg-surface border border-border-subtle/30 rounded overflow-hidden">
+            <div className="h-full bg-cyan rounded" style={{ width: `${share(waterfall.productiveFTE)}%` }}></div>
+          </div>
+          <span className="w-20 text-right text-sm font-semibold text-cyan tabular-nums">{formatNumber(waterfall.productiveFTE, 1)}</span>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+ShrinkageWaterfallSection.displayName = 'ShrinkageWaterfallSection';
@@ -0,0 +1,114 @@
+import { memo, useMemo, useState } from 'react';
+import { useCalculatorStore } from '../../store/calculatorStore';
+import { calculateTimeVaryingStaffing, type TimeVaryingMethod } from '../../lib/calculations/timeVaryingStaffing';
+import { INTRADAY_VOLUME_PATTERN } from '../../utils/constants';
+import { formatNumber } from './resultsFormat';
+
+const DAY_START_MINUTES = 8 * 60;
+
+function formatClock(minutes: number): string {
+  return `${String(Math.floor(minutes / 60) % 24).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+export const TimeVaryingSection = memo(() => {
+  const { results, inputs } = useCalculatorStore();
+  const [method, setMethod] = useState<TimeVaryingMethod>('mol');
+
+  const plan = useMemo(() => {
+    if (!results || inputs.intervalMinutes <= 0) return null;
+    return calculateTimeVaryingStaffing({
+      model: inputs.model,
+      intervalMinutes: inputs.intervalMinutes,
+      method,
+      intervals: INTRADAY_VOLUME_PATTERN.map((weight, i) => ({
+        volume: Math.round(inputs.volume * weight),
+        aht: inputs.aht,
+        label: formatClock(DAY_START_MINUTES + i * inputs.intervalMinutes),
+      })),
+      constraints: {
+        targetSLPercent: inputs.targetSLPercent,
+        thresholdSeconds: inputs.thresholdSeconds,
+        maxOccupancy: inputs.maxOccupancy,
+        lines: inputs.lines || undefined,
+        population: inputs.population,
+        targetType: inputs.targetType,
+        targetASASeconds: inputs.targetASASeconds,
+        targetAbandonPercent: inputs.targetAbandonPercent,
+      },
+      behavior: {
+        shrinkagePercent: inputs.shrinkagePercent,
+        averagePatience: inputs.averagePatience,
+        concurrency: inputs.concurrency,
+        retrialPercent: inputs.retrialPercent,
+        ahtCV: inputs.ahtCV,
+        arrivalCV: inputs.arrivalCV,
+      },
+    });
+  }, [results, inputs, method]);
+
+  if (!plan) return null;
+
+  const hoursDelta = plan.correctedTotals.agentHours - plan.stationaryTotals.agentHours;
+
+  return (
+    <div className="mt-6 pt-5 border-t border-border-muted/30">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-text-secondary uppercase tracking-wider">
+          Time-Varying Demand
+        </h3>
+        <select
+          aria-label="Time-varying correction"
+          value={method}
+          onChange={(e) => setMethod(e.target.value as TimeVaryingMethod)}
+          className="text-sm bg-bg-surface border border-border-subtle rounded-md px-2 py-1 text-text-primary"
+        >
+          <option value="mol">Modified offered load</option>
+          <option value="lagged">Lagged (one AHT)</option>
+        </select>
+      </div>
+      <p className="text-sm text-text-muted mb-3">
+        Typical intraday shape around the current volume. Corrected staffing carries calls still in service into the next interval.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <div className="p-4 bg-bg-elevated/40 border border-border-muted/30 rounded-lg">
+          <p className="text-sm text-text-muted">Stationary</p>
+          <p className="text-2xl font-bold text-text-primary tabular-nums">{formatNumber(plan.stationaryTotals.agentHours, 1)}</p>
+          <p className="text-sm text-text-muted">agent-hours</p>
+        </div>
+        <div className="p-4 bg-cyan/5 border border-cyan/20 rounded-lg">
+          <p className="text-sm text-text-muted">Corrected</p>
+          <p className="text-2xl font-bold text-cyan tabular-nums">{formatNumber(plan.correctedTotals.agentHours, 1)}</p>
+          <p className="text-sm text-text-muted">{hoursDelta >= 0 ? '+' : ''}{formatNumber(hoursDelta, 1)} agent-hours</p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm tabular-nums">
+          <thead>
+            <tr className="text-left text-text-muted border-b border-border-muted/30">
+              <th className="py-2 pr-4 font-medium">Interval</th>
+              <th className="py-2 pr-4 font-medium">Volume</th>
+              <th className="py-2 pr-4 font-medium">Stationary</th>
+              <th className="py-2 pr-4 font-medium">Corrected</th>
+              <th className="py-2 font-medium">Δ Agents</th>
+            </tr>
+          </thead>
+          <tbody>
+            {plan.intervals.map(row => (
+              <tr key={row.index} className="border-b border-border-muted/20 text-text-secondary">
+                <td className="py-1 pr-4">{row.label}</td>
+                <td className="py-1 pr-4">{row.volume}</td>
+                <td className="py-1 pr-4">{row.stationary.requiredAgents}</td>
+                <td className="py-1 pr-4">{row.corrected.requiredAgents}</td>
+                <td className={`py-1 font-semibold ${row.agentDelta > 0 ? 'text-amber' : row.agentDelta < 0 ? 'text-green' : ''}`}>
+                  {row.agentDelta > 0 ? '+' : ''}{row.agentDelta}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,81 @@
+import { memo, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useCalculatorStore } from '../../store/calculatorStore';
+import { calculateWaitDistribution } from '../../lib/calculations/erlangEngine';
+import { WAIT_PERCENTILES } from '../../lib/calculations/waitDistribution';
+import { formatNumber } from './resultsFormat';
+
+export const WaitDistributionSection = memo(() => {
+  const { results, inputs } = useCalculatorStore();
+
+  const distribution = useMemo(() => {
+    if (!results || results.requiredAgents <= 0) return null;
+    return calculateWaitDistribution({
+      model: inputs.model,
+      fixedAgents: results.requiredAgents,
+      workload: {
+        volume: inputs.volume,
+        aht: inputs.aht,
+        intervalMinutes: inputs.intervalMinutes,
+      },
+      constraints: {
+        thresholdSeconds: inputs.thresholdSeconds,
+        maxOccupancy: inputs.maxOccupancy,
+      },
+      behavior: {
+        shrinkagePercent: inputs.shrinkagePercent,
+        averagePatience: inputs.averagePatience,
+        concurrency: inputs.concurrency,
+        ahtCV: inputs.ahtCV,
+        arrivalCV: inputs.arrivalCV,
+      },
+    });
+  }, [results, inputs]);
+
+  if (!distribution) return null;
+
+  const chartData = distribution.curve.map(point => ({
+    seconds: point.seconds,
+    answered: parseFloat((point.answeredWithin * 100).toFixed(1)),
+  }));
+
+  return (
+    <div className="mt-6 pt-5 border-t border-border-muted/30">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-text-secondary uppercase tracking-wider">
+          How Long Customers Wait
+        </h3>
+        <p className="text-sm text-text-muted">
+          {formatNumber(distribution.probabilityOfWaiting * 100, 1)}% wait at all
+        </p>
+      </div>
+      <div className="grid grid-cols-5 gap-2 mb-4">
+        {WAIT_PERCENTILES.map(p => (
+          <div key={p} className="p-3 bg-bg-elevated/40 border border-border-muted/30 rounded-lg text-center">
+            <p className="text-xs text-text-muted uppercase tracking-wide">P{p}</p>
+            <p className="text-lg font-bold text-text-primary tabular-nums">
+              {formatNumber(distribution.percentiles[`p${p}`], 0)}s
+            </p>
+          </div>
+        ))}
+      </div>
+      <div className="h-48">
+        <ResponsiveContainer>
+          <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+            <XAxis dataKey="seconds" type="number" domain={['dataMin', 'dataMax']} stroke="var(--text-muted)" fontSize={12} />
+            <YAxis stroke="var(--text-muted)" fontSize={12} domain={[0, 100]} />
+            <Tooltip
+              contentStyle={{ fontSize: '12px', background: '#0b1322', border: '1px solid #1f2937', borderRadius: '8px' }}
+              labelFormatter={(label) => `Within ${label}s`}
+              formatter={(value) => [`${value}%`, 'Answered']}
+            />
+            <ReferenceLine x={inputs.thresholdSeconds} stroke="#06b6d4" strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="answered" stroke="#22d3ee" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+});
+
+WaitDistributionSection.displayName = 'WaitDistributionSection';
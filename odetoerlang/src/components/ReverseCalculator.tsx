@@ -1,10 +1,21 @@
 import { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { useCalculatorStore } from '../store/calculatorStore';
 import { calculateServiceLevel, calculateASA, calculateOccupancy, calculateTrafficIntensity } from '../lib/calculations/erlangC';
 import { calculateServiceLevelWithAbandonment, calculateASAWithAbandonment, calculateAbandonmentProbability } from '../lib/calculations/erlangA';
+import { calculateErlangXPerformance } from '../lib/calculations/erlangX';
+import {
+  calculateVolumeHeadroom,
+  solveMaxAHT,
+  solveMaxVolume,
+  type CapacityInput,
+} from '../lib/calculations/capacitySolver';
 import type { ErlangVariant } from '../types';
 import { NumberInput } from './ui/NumberInput';
 
+// Points on the headroom-vs-volume chart.
+const HEADROOM_CHART_POINTS = 24;
+
 export default function ReverseCalculator() {
   const { inputs } = useCalculatorStore();
 
@@ -29,7 +40,7 @@ export default function ReverseCalculator() {
         inputs.thresholdSeconds
       );
       asa = calculateASA(availableAgents, trafficIntensity, inputs.aht);
-    } else if (model === 'A') { // Now covers both Erlang A and former X
+    } else if (model === 'A') {
       serviceLevel = calculateServiceLevelWithAbandonment(
         availableAgents,
         trafficIntensity,
@@ -46,6 +57,20 @@ export default function ReverseCalculator() {
       const theta = inputs.averagePatience / inputs.aht;
       abandonmentRate = calculateAbandonmentProbability(availableAgents, trafficIntensity, theta);
       expectedAbandonments = inputs.volume * abandonmentRate;
+    } else if (model === 'X') {
+      const performance = calculateErlangXPerformance(
+        availableAgents,
+        trafficIntensity,
+        inputs.aht,
+        inputs.thresholdSeconds,
+        inputs.averagePatience,
+        inputs.lines || undefined,
+        (inputs.retrialPercent ?? 40) / 100
+      );
+      serviceLevel = performance.serviceLevel;
+      asa = performance.asa;
+      abandonmentRate = performance.abandonmentProbability;
+      expectedAbandonments = inputs.volume * (performance.virtualTraffic / (trafficIntensity || 1)) * abandonmentRate;
     }
 
     const occupancy = calculateOccupancy(trafficIntensity, availableAgents);
@@ -67,6 +92,59 @@ export default function ReverseCalculator() {
     };
   }, [availableAgents, availableSeats, model, inputs]);
 
+  // Inverse question: how much work can these agents take at the target?
+  const capacity = useMemo(() => {
+    const capacityInput: CapacityInput = {
+      model,
+      agents: availableAgents,
+      workload: {
+        volume: inputs.volume,
+        aht: inputs.aht,
+        intervalMinutes: inputs.intervalMinutes,
+      },
+      constraints: {
+        targetSLPercent: inputs.targetSLPercent,
+        thresholdSeconds: inputs.thresholdSeconds,
+        maxOccupancy: inputs.maxOccupancy,
+        lines: model === 'X' ? inputs.lines || undefined : undefined,
+        targetType: inputs.targetType,
+        targetASASeconds: inputs.targetASASeconds,
+        targetAbandonPercent: inputs.targetAbandonPercent,
+      },
+      behavior: {
+        shrinkagePercent: inputs.shrinkagePercent,
+        averagePatience: inputs.averagePatience,
+        retrialPercent: inputs.retrialPercent,
+      },
+    };
+
+    const maxVolume = solveMaxVolume(capacityInput);
+    const maxAHT = solveMaxAHT(capacityInput);
+    if (!maxVolume || !maxAHT || !Number.isFinite(maxVolume.limit)) return null;
+
+    const chartMax = Math.max(maxVolume.limit, inputs.volume) * 1.5;
+    const volumes = Array.from({ length: HEADROOM_CHART_POINTS + 1 }, (_, i) => (chartMax * i) / HEADROOM_CHART_POINTS);
+    const headroom = calculateVolumeHeadroom(capacityInput, volumes).map(point => ({
+      volume: Math.round(point.volume),
+      spareAgents: point.spareAgents,
+    }));
+
+    return { maxVolume, maxAHT, headroom };
+  }, [availableAgents, model, inputs]);
+
+  const targetLabel = (() => {
+    switch (inputs.targetType) {
+      case 'asa':
+        return `ASA ≤ ${inputs.targetASASeconds ?? '-'}s`;
+      case 'abandonRate':
+        return `abandon rate ≤ ${inputs.targetAbandonPercent ?? '-'}%`;
+      case 'waitPercentile':
+        return `${inputs.targetSLPercent}% of waits ≤ ${inputs.thresholdSeconds}s`;
+      default:
+        return `${inputs.targetSLPercent}/${inputs.thresholdSeconds}`;
+    }
+  })();
+
   const formatNumber = (num: number, decimals: number = 2): string => {
     if (num === Infinity) return '∞';
     if (isNaN(num)) return '-';
@@ -156,10 +234,12 @@ export default function ReverseCalculator() {
             >
               <option value="C">Erlang C</option>
               <option value="A">Erlang A</option>
+              <option value="X">Erlang X</option>
             </select>
             <p className="mt-2 text-xs text-gray-600">
               {model === 'C' && 'Infinite patience (classic)'}
-              {model === 'A' && 'With abandonment (includes retrials)'}
+              {model === 'A' && 'With abandonment'}
+              {model === 'X' && 'Abandonment, redials and line limit'}
             </p>
           </div>
         </div>
@@ -266,6 +346,55 @@ export default function ReverseCalculator() {
             </div>
           </div>
 
+          {/* Maximum Supportable Workload */}
+          {capacity && (
+            <div className="mt-6 p-4 border-2 border-teal-200 bg-teal-50 rounded-lg">
+              <h4 className="text-sm font-semibold text-teal-900 mb-3">
+                Maximum Supportable Workload ({availableAgents} agents at {targetLabel})
+              </h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div>
+                  <p className="text-xs text-teal-700">Max Volume ({inputs.aht}s AHT)</p>
+                  <p className="text-2xl font-bold text-teal-900">
+                    {Math.floor(capacity.maxVolume.limit)} <span className="text-sm font-normal">calls/interval</span>
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-teal-700">Max AHT ({inputs.volume} calls)</p>
+                  <p className="text-2xl font-bold text-teal-900">{formatTime(Math.floor(capacity.maxAHT.limit))}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-teal-700">Volume Headroom</p>
+                  <p className={`text-2xl font-bold ${capacity.maxVolume.limit >= inputs.volume ? 'text-green-600' : 'text-red-600'}`}>
+                    {inputs.volume > 0
+                      ? `${capacity.maxVolume.limit >= inputs.volume ? '+' : ''}${formatNumber((capacity.maxVolume.limit / inputs.volume - 1) * 100, 0)}%`
+                      : '-'}
+                  </p>
+                </div>
+              </div>
+
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={capacity.headroom} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#d1d5db" />
+                    <XAxis dataKey="volume" stroke="#4b5563" fontSize={12} />
+                    <YAxis stroke="#4b5563" fontSize={12} allowDecimals={false} />
+                    <Tooltip
+                      labelFormatter={(label) => `Volume: ${label}`}
+                      formatter={(value) => [value, 'Spare agents']}
+                    />
+                    <ReferenceLine y={0} stroke="#dc2626" />
+                    <ReferenceLine x={Math.round(inputs.volume)} stroke="#6b7280" strokeDasharray="3 3" label={{ value: 'Current', fontSize: 11, fill: '#4b5563' }} />
+                    <Line type="stepAfter" dataKey="spareAgents" stroke="#0d9488" strokeWidth={2} dot={false} connectNulls={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-teal-700 mt-2">
+                Spare agents (available minus required) as volume grows. Below zero the target is missed.
+              </p>
+            </div>
+          )}
+
           {/* Insights */}
           <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <h4 className="text-sm font-semibold text-blue-900 mb-2">💡 Capacity Insights</h4>
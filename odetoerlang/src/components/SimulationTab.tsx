@@ -2,16 +2,38 @@
  * Main simulation tab component with animation loop
  */
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { SimulationEngine } from '../simulation/SimulationEngine';
-import { type ScenarioConfig, type Snapshot, type ContactRecord } from '../simulation/types';
-import { PRESET_SCENARIOS } from '../simulation/presets';
+import { type DurationDistribution, type ScenarioConfig, type Snapshot, type ContactRecord } from '../simulation/types';
+import { PRESET_SCENARIOS, secondsPerTimeUnit, serviceLevelThreshold } from '../simulation/presets';
+import { distributionCV, empiricalFromHistoricalAHT } from '../simulation/distributions';
+import { arrivalProfileFromHistorical } from '../simulation/arrivalProfile';
+import { getHistoricalData, getHistoricalDateRange } from '../lib/database/dataAccess';
+import { useDatabaseStore } from '../store/databaseStore';
 import ControlsPanel from './ControlsPanel';
 import QueueVisual from './QueueVisual';
 import StatsPanel from './StatsPanel';
 import ContactRecordsPanel from './ContactRecordsPanel';
+import IntervalStatsPanel from './IntervalStatsPanel';
+import ReplicationPanel from './ReplicationPanel';
+
+const DISTRIBUTION_LABELS: Record<DurationDistribution['type'], string> = {
+  exponential: 'Exponential',
+  lognormal: 'Lognormal',
+  gamma: 'Gamma',
+  erlang: 'Erlang-k',
+  deterministic: 'Deterministic',
+  empirical: 'Historical interval-average AHT (bootstrap)',
+};
+
+function describeDistribution(distribution: DurationDistribution | undefined): string {
+  const label = DISTRIBUTION_LABELS[distribution?.type ?? 'exponential'];
+  return `${label} distribution (CV ${distributionCV(distribution).toFixed(2)})`;
+}
 
 export default function SimulationTab() {
+  const { selectedCampaignId } = useDatabaseStore();
+
   // Configuration state
   const [config, setConfig] = useState<ScenarioConfig>(PRESET_SCENARIOS[1]!.config); // Start with "Balanced"
 
@@ -23,12 +45,30 @@ export default function SimulationTab() {
     servicedCount: 0,
     avgWaitTime: 0,
     maxQueueLength: 0,
+    abandonedCount: 0,
+    abandonRate: 0,
+    avgAbandonWaitTime: 0,
+    intervals: [],
     timeSeries: [],
   });
 
   const [contactRecords, setContactRecords] = useState<ContactRecord[]>([]);
   const [recordStats, setRecordStats] = useState({ currentRecords: 0, maxRecords: 10000, recordsDropped: 0, isAtLimit: false });
 
+  // HistoricalData: interval-average handle times for bootstrapped service
+  // times and the average day's volumes for an intraday arrival profile
+  const historical = useMemo(() => {
+    try {
+      const range = getHistoricalDateRange(selectedCampaignId);
+      if (!range.minDate || !range.maxDate) return {};
+      const rows = getHistoricalData(selectedCampaignId, range.minDate, range.maxDate);
+      return { aht: empiricalFromHistoricalAHT(rows), profile: arrivalProfileFromHistorical(rows) };
+    } catch (error) {
+      console.error('Failed to load historical data:', error);
+      return {};
+    }
+  }, [selectedCampaignId]);
+
   // Playback state
   const [isRunning, setIsRunning] = useState(false);
   const [isFinished, setIsFinished] = useState(false);
@@ -122,6 +162,19 @@ export default function SimulationTab() {
     initEngine();
   }, [initEngine]);
 
+  /**
+   * Run the rest of the simulation at once
+   */
+  const handleRunToEnd = useCallback(() => {
+    if (!engineRef.current) return;
+    setIsRunning(false);
+    engineRef.current.processUntil(config.maxTime);
+    setSnapshot(engineRef.current.getSnapshot());
+    setContactRecords(engineRef.current.getContactRecords());
+    setRecordStats(engineRef.current.getRecordStats());
+    setIsFinished(true);
+  }, [config.maxTime]);
+
   /**
    * Handle config changes (will apply on next reset/start)
    */
@@ -206,6 +259,9 @@ export default function SimulationTab() {
             onReset={handleReset}
             speed={speed}
             onSpeedChange={setSpeed}
+            onRunToEnd={handleRunToEnd}
+            historicalAHT={historical.aht}
+            historicalProfile={historical.profile}
           />
         </div>
 
@@ -224,6 +280,17 @@ export default function SimulationTab() {
         </div>
       </div>
 
+      {snapshot.intervals.length > 0 && (
+        <IntervalStatsPanel
+          intervals={snapshot.intervals}
+          thresholdSeconds={serviceLevelThreshold(config) * secondsPerTimeUnit(config)}
+          secondsPerUnit={secondsPerTimeUnit(config)}
+          now={snapshot.now}
+        />
+      )}
+
+      <ReplicationPanel config={config} />
+
       {/* Contact Records Section */}
       <div className="mt-2">
         {recordStats.recordsDropped > 0 && (
@@ -246,12 +313,21 @@ export default function SimulationTab() {
         <h3 className="text-lg font-semibold text-text-primary mb-3">Simulation Mechanics</h3>
         <div className="space-y-3 text-sm text-text-secondary">
           <p>
-            This engine uses a <strong>M/M/c</strong> queueing model:
+            This engine uses a <strong>{config.arrivalDistribution || config.serviceDistribution ? 'G/G/c' : 'M/M/c'}</strong> queueing model:
           </p>
           <ul className="list-disc list-inside space-y-1 ml-4 text-text-muted">
-            <li><strong>Arrivals:</strong> Poisson process (random arrivals averaging λ calls/hour)</li>
-            <li><strong>Service:</strong> Exponential distribution (random duration averaging μ minutes)</li>
+            <li><strong>Arrivals:</strong> {config.arrivalProfile
+              ? `non-homogeneous Poisson process following a ${config.arrivalProfile.volumes.length}-interval intraday profile`
+              : config.arrivalDistribution
+                ? `${describeDistribution(config.arrivalDistribution)} between arrivals`
+                : 'Poisson process (random arrivals averaging λ calls/hour)'}</li>
+            <li><strong>Service:</strong> {config.serviceDistribution
+              ? describeDistribution(config.serviceDistribution)
+              : 'Exponential distribution (random duration averaging μ minutes)'}</li>
             <li><strong>Servers:</strong> {config.servers} parallel agents</li>
+            <li><strong>Abandonment:</strong> {config.patience
+              ? 'queued customers leave when their patience runs out (M/M/c+M, as in Erlang A)'
+              : 'off - customers wait as long as it takes (Erlang C)'}</li>
           </ul>
           <div className="mt-4 p-3 bg-bg-elevated rounded border border-border-muted">
             <p className="font-semibold text-text-primary text-xs uppercase tracking-wide mb-1">Stability Check</p>
@@ -259,6 +335,10 @@ export default function SimulationTab() {
               Traffic Intensity (ρ) = λ / (c × μ). If this exceeds 1.0, the queue will grow infinitely.
               Target 0.7 - 0.85 for optimal balance.
             </p>
+            <p className="mt-2">
+              Erlang C assumes exponential handle times. Waits scale roughly with (1 + CV²) / 2, so
+              long-tailed handle times (CV above 1) queue longer than the M/M/c answer and steady ones queue less.
+            </p>
           </div>
         </div>
       </div>
@@ -253,6 +253,7 @@ export default function SmartCSVImport() {
           campaign_name: 'Imported Campaign 1',
           client_id: clientId,
           channel_type: 'Voice',
+          channel_behavior: 'inbound',
           start_date: toLocalDateString(),
           end_date: null,
           sla_target_percent: 80,
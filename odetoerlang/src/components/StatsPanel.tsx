@@ -51,6 +51,22 @@ export default function StatsPanel({ snapshot }: StatsPanelProps) {
             unit="peak"
             color="red"
           />
+          {snapshot.abandonedCount > 0 && (
+            <>
+              <MetricCard
+                label="Abandon Rate"
+                value={`${(snapshot.abandonRate * 100).toFixed(1)}%`}
+                unit={`${snapshot.abandonedCount} abandoned`}
+                color="red"
+              />
+              <MetricCard
+                label="Avg Wait (Abandoned)"
+                value={snapshot.avgAbandonWaitTime.toFixed(2)}
+                unit="units"
+                color="orange"
+              />
+            </>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,166 @@
+import { useMemo, useState } from 'react';
+import { getSkills, getStaffSkills } from '../../lib/database/dataAccess';
+import { compareCrossSkilling, type SkillDemand } from '../../lib/calculations/multiSkill';
+import { useCalculatorStore } from '../../store/calculatorStore';
+
+interface DemandValues {
+  volume: number;
+  aht: number;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export default function SkillCoverage() {
+  const { inputs } = useCalculatorStore();
+  const [demand, setDemand] = useState<Record<number, DemandValues>>({});
+  const [minProficiency, setMinProficiency] = useState(1);
+
+  const skills = useMemo(() => getSkills(), []);
+  const staffSkills = useMemo(() => getStaffSkills(), []);
+
+  const demandFor = (skillId: number): DemandValues => demand[skillId] ?? { volume: inputs.volume, aht: inputs.aht };
+  const setDemandField = (skillId: number, field: keyof DemandValues, value: number) => {
+    setDemand(prev => ({ ...prev, [skillId]: { ...demandFor(skillId), [field]: value } }));
+  };
+
+  const skillDemand: SkillDemand[] = skills.map(skill => ({
+    skillId: skill.id,
+    label: skill.skill_name,
+    ...demandFor(skill.id),
+    thresholdSeconds: inputs.thresholdSeconds,
+  }));
+
+  const comparison = skillDemand.length > 0
+    ? compareCrossSkilling(inputs.intervalMinutes * 60, skillDemand, staffSkills, {
+        minProficiency,
+        agentsPerStaff: 1 - inputs.shrinkagePercent / 100,
+      })
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">Skill Coverage</h3>
+          <p className="text-xs text-text-muted">
+            Per-skill service level from StaffSkills, {inputs.intervalMinutes}-minute interval, {inputs.thresholdSeconds}s threshold,
+            {' '}{inputs.shrinkagePercent}% shrinkage. Loss-and-overflow approximation.
+          </p>
+        </div>
+        <label className="text-sm text-text-secondary">
+          Min proficiency{' '}
+          <select
+            value={minProficiency}
+            onChange={(e) => setMinProficiency(Number(e.target.value))}
+            className="ml-2 rounded-md bg-bg-surface border border-border-subtle px-2 py-1 text-sm text-text-primary focus:border-cyan focus:ring-1 focus:ring-cyan"
+          >
+            {[1, 2, 3, 4, 5].map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="bg-bg-surface border border-border-subtle rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-border-subtle">
+          <thead className="bg-bg-elevated">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase">Skill</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Volume</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">AHT (s)</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Eligible Agents</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Specialist SL</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Cross-Skilled SL</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Pooled SL</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border-subtle">
+            {skillDemand.map((skill, i) => (
+              <tr key={skill.skillId} className="hover:bg-bg-hover transition-colors">
+                <td className="px-4 py-3 text-sm text-text-primary font-medium">{skill.label}</td>
+                <td className="px-4 py-3 text-right">
+                  <input
+                    type="number"
+                    min={0}
+                    aria-label={`${skill.label} volume`}
+                    value={skill.volume}
+                    onChange={(e) => setDemandField(skill.skillId, 'volume', Math.max(0, Number(e.target.value)))}
+                    className="w-24 rounded-md bg-bg-surface border border-border-subtle px-2 py-1 text-sm text-right text-text-primary focus:border-cyan focus:ring-1 focus:ring-cyan"
+                  />
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <input
+                    type="number"
+                    min={1}
+                    aria-label={`${skill.label} AHT`}
+                    value={skill.aht}
+                    onChange={(e) => setDemandField(skill.skillId, 'aht', Math.max(1, Number(e.target.value)))}
+                    className="w-24 rounded-md bg-bg-surface border border-border-subtle px-2 py-1 text-sm text-right text-text-primary focus:border-cyan focus:ring-1 focus:ring-cyan"
+                  />
+                </td>
+                <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">
+                  {comparison ? comparison.crossSkilled.skills[i]!.eligibleAgents.toFixed(1) : '-'}
+                </td>
+                <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">
+                  {comparison ? formatPercent(comparison.specialist.skills[i]!.serviceLevel) : '-'}
+                </td>
+                <td className="px-4 py-3 text-sm text-right text-cyan font-semibold tabular-nums">
+                  {comparison ? formatPercent(comparison.crossSkilled.skills[i]!.serviceLevel) : '-'}
+                </td>
+                <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">
+                  {comparison ? formatPercent(comparison.pooled.skills[i]!.serviceLevel) : '-'}
+                </td>
+              </tr>
+            ))}
+            {comparison && (
+              <tr className="bg-bg-elevated">
+                <td colSpan={4} className="px-4 py-3 text-sm text-text-primary font-medium">
+                  All skills (volume-weighted)
+                </td>
+                <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">{formatPercent(comparison.specialist.serviceLevel)}</td>
+                <td className="px-4 py-3 text-sm text-right text-cyan font-semibold tabular-nums">{formatPercent(comparison.crossSkilled.serviceLevel)}</td>
+                <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">{formatPercent(comparison.pooled.serviceLevel)}</td>
+              </tr>
+            )}
+            {skillDemand.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-text-muted text-sm">
+                  No skills defined yet.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {comparison && comparison.crossSkilled.groups.length > 0 && (
+        <div className="bg-bg-surface border border-border-subtle rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-border-subtle">
+            <thead className="bg-bg-elevated">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase">Skill Set (routing order)</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Agents</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Offered (Erl)</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Overflow (Erl)</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-text-secondary uppercase">Occupancy</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border-subtle">
+              {comparison.crossSkilled.groups.map(group => (
+                <tr key={group.skills.join('+')} className="hover:bg-bg-hover transition-colors">
+                  <td className="px-4 py-3 text-sm text-text-primary">
+                    {group.skills.map(id => skills.find(s => s.id === id)?.skill_name ?? id).join(' + ')}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">{group.agents.toFixed(1)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">{group.offeredLoad.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">{group.overflowLoad.toFixed(2)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-text-secondary tabular-nums">{formatPercent(group.occupancy)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
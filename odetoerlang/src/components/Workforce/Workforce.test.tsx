@@ -9,7 +9,7 @@ import RecruitmentTab from './RecruitmentTab';
 /**
  * Workforce Components Tests
  *
- * Tests for WorkforceTab, StaffManager, RolesConfiguration, RecruitmentTab
+ * Tests for WorkforceTab, StaffManager, RolesConfiguration, SkillCoverage, RecruitmentTab
  */
 
 // Mock the data access layer
@@ -25,6 +25,7 @@ vi.mock('../../lib/database/dataAccess', () => ({
   getSkills: vi.fn(() => []),
   createSkill: vi.fn(() => 1),
   deleteSkill: vi.fn(),
+  getStaffSkills: vi.fn(() => []),
   getRecruitmentStages: vi.fn(() => []),
   createRecruitmentStage: vi.fn(() => 1),
   updateRecruitmentStage: vi.fn(),
@@ -59,10 +60,11 @@ describe('WorkforceTab - Smoke Tests', () => {
     expect(screen.getAllByText('Staff Directory').length).toBeGreaterThan(0);
   });
 
-  test('displays all three tab buttons', () => {
+  test('displays all tab buttons', () => {
     render(<WorkforceTab />);
     expect(screen.getByRole('button', { name: /Staff Directory/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /Roles & Configuration/i })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Skill Coverage/i })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: /Recruitment/i })).toBeInTheDocument();
   });
 
@@ -81,6 +83,16 @@ describe('WorkforceTab - Smoke Tests', () => {
     expect(rolesButton).toHaveClass('border-cyan');
   });
 
+  test('switches to Skill Coverage tab when clicked', () => {
+    render(<WorkforceTab />);
+
+    const skillsButton = screen.getByRole('button', { name: /Skill Coverage/i });
+    fireEvent.click(skillsButton);
+
+    expect(skillsButton).toHaveClass('border-cyan');
+    expect(screen.getByText('No skills defined yet.')).toBeInTheDocument();
+  });
+
   test('switches to Recruitment tab when clicked', () => {
     render(<WorkforceTab />);
 
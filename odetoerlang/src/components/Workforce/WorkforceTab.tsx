@@ -2,9 +2,10 @@ import { useState } from 'react';
 import StaffManager from './StaffManager';
 import RolesConfiguration from './RolesConfiguration';
 import RecruitmentTab from './RecruitmentTab';
+import SkillCoverage from './SkillCoverage';
 
 export default function WorkforceTab() {
-  const [activeSubTab, setActiveSubTab] = useState<'staff' | 'roles' | 'recruitment'>('staff');
+  const [activeSubTab, setActiveSubTab] = useState<'staff' | 'roles' | 'skills' | 'recruitment'>('staff');
 
   return (
     <div className="space-y-6">
@@ -29,6 +30,16 @@ export default function WorkforceTab() {
         >
           Roles & Configuration
         </button>
+        <button
+          onClick={() => setActiveSubTab('skills')}
+          className={`px-4 py-2 text-sm font-medium transition-colors border-b-2 ${
+            activeSubTab === 'skills'
+              ? 'border-cyan text-cyan'
+              : 'border-transparent text-text-secondary hover:text-text-primary hover:border-border-active'
+          }`}
+        >
+          Skill Coverage
+        </button>
         <button
           onClick={() => setActiveSubTab('recruitment')}
           className={`px-4 py-2 text-sm font-medium transition-colors border-b-2 ${
@@ -44,6 +55,7 @@ export default function WorkforceTab() {
       <div className="animate-fade-in">
         {activeSubTab === 'staff' && <StaffManager />}
         {activeSubTab === 'roles' && <RolesConfiguration />}
+        {activeSubTab === 'skills' && <SkillCoverage />}
         {activeSubTab === 'recruitment' && <RecruitmentTab />}
       </div>
     </div>
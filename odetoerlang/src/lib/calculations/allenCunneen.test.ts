@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest'
+import {
+  allenCunneenFactor,
+  calculateServiceLevelMGc,
+  calculateASAMGc,
+} from './allenCunneen'
+import { calculateServiceLevel, calculateASA } from './erlangC'
+import { calculateStaffing, calculateAchievableMetrics } from './erlangEngine'
+
+/**
+ * Allen-Cunneen M/G/c Test Suite
+ *
+ * With CV = 1 for both arrivals and service the approximation must reproduce
+ * Erlang C exactly; lower handle-time variability must need fewer agents.
+ */
+
+const AHT = 240
+const THRESHOLD = 20
+
+describe('Allen-Cunneen - variability factor', () => {
+  test('exponential service and Poisson arrivals give factor 1', () => {
+    expect(allenCunneenFactor(1, 1)).toBe(1)
+  })
+
+  test('deterministic service halves the factor', () => {
+    expect(allenCunneenFactor(0)).toBe(0.5)
+  })
+
+  test('clamps out-of-range coefficients', () => {
+    expect(allenCunneenFactor(-1, 1)).toBe(0.5)
+    expect(allenCunneenFactor(100, 0)).toBe(12.5)
+    expect(allenCunneenFactor(0, 0)).toBeGreaterThan(0)
+  })
+})
+
+describe('Allen-Cunneen - M/G/c metrics', () => {
+  test('reduces to Erlang C when CV = 1', () => {
+    expect(calculateServiceLevelMGc(14, 10, AHT, THRESHOLD, 1)).toBeCloseTo(calculateServiceLevel(14, 10, AHT, THRESHOLD), 10)
+    expect(calculateASAMGc(14, 10, AHT, 1)).toBeCloseTo(calculateASA(14, 10, AHT), 10)
+  })
+
+  test('low-variance handle times improve SL and ASA', () => {
+    expect(calculateServiceLevelMGc(12, 10, AHT, THRESHOLD, 0.3)).toBeGreaterThan(calculateServiceLevel(12, 10, AHT, THRESHOLD))
+    expect(calculateASAMGc(12, 10, AHT, 0.3)).toBeLessThan(calculateASA(12, 10, AHT))
+  })
+
+  test('bursty arrivals degrade service level', () => {
+    const poisson = calculateServiceLevelMGc(22, 20, AHT, THRESHOLD, 1, 1)
+    const bursty = calculateServiceLevelMGc(22, 20, AHT, THRESHOLD, 1, 2)
+    expect(bursty).toBeLessThan(poisson)
+  })
+})
+
+describe('Allen-Cunneen - engine integration', () => {
+  const baseInput = {
+    model: 'C',
+    workload: { volume: 750, aht: AHT, intervalMinutes: 30 },
+    constraints: { targetSLPercent: 80, thresholdSeconds: THRESHOLD, maxOccupancy: 95 },
+    behavior: { shrinkagePercent: 25 },
+  }
+
+  test('CV = 1 solves to the same agents as plain Erlang C', () => {
+    const exponential = calculateStaffing(baseInput)!
+    const explicit = calculateStaffing({ ...baseInput, behavior: { ...baseInput.behavior, ahtCV: 1, arrivalCV: 1 } })!
+    expect(explicit.requiredAgents).toBe(exponential.requiredAgents)
+  })
+
+  test('ahtCV switches the C path to M/G/c', () => {
+    const exponential = calculateStaffing(baseInput)!
+    const scripted = calculateStaffing({ ...baseInput, behavior: { ...baseInput.behavior, ahtCV: 0.3 } })!
+    expect(scripted.requiredAgents).toBeLessThan(exponential.requiredAgents)
+    expect(scripted.canAchieveTarget).toBe(true)
+  })
+
+  test('achievable metrics honour ahtCV', () => {
+    const fixed = { ...baseInput, fixedAgents: 104 }
+    const exponential = calculateAchievableMetrics(fixed)!
+    const scripted = calculateAchievableMetrics({ ...fixed, behavior: { ...fixed.behavior, ahtCV: 0.3 } })!
+    expect(scripted.serviceLevel).toBeGreaterThan(exponential.serviceLevel)
+    expect(scripted.asa).toBeLessThan(exponential.asa)
+  })
+})
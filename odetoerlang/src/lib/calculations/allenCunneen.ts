@@ -0,0 +1,91 @@
+/**
+ * Allen-Cunneen M/G/c Approximation
+ *
+ * Erlang C assumes exponentially distributed handle times (CV = 1). Scripted,
+ * low-variance calls violate this badly and Erlang C over-staffs them. The
+ * Allen-Cunneen approximation keeps the Erlang C probability of waiting but
+ * scales the waiting time by the combined variability of arrivals and service:
+ *
+ *   Wq(G/G/c) ≈ Wq(M/M/c) × (Ca² + Cs²) / 2
+ *
+ * Where:
+ * - Ca = coefficient of variation of inter-arrival times (1 for Poisson)
+ * - Cs = coefficient of variation of handle times (1 for exponential)
+ *
+ * The conditional wait (given the caller waits) is kept exponential with its
+ * mean scaled by the same factor k = (Ca² + Cs²) / 2, so:
+ *
+ *   P(wait > t) ≈ C(c, A) × e^(-(c-A) × t / (AHT × k))
+ *   ASA         ≈ C(c, A) × AHT × k / (c - A)
+ *
+ * With Ca = Cs = 1 the factor is 1 and every function reduces to Erlang C.
+ * Staffing is solved by `calculateStaffingMetrics` in `erlangC.ts`, which
+ * takes k as its `variabilityFactor` and supports every service target.
+ * Reference: Allen, A.O. (1990) - "Probability, Statistics, and Queueing
+ * Theory", 2nd ed., §6.
+ */
+
+import { calculateASA, calculateServiceLevel } from './erlangC';
+
+/** Coefficients of variation above this are treated as data errors. */
+const MAX_COEFFICIENT_OF_VARIATION = 5;
+
+/**
+ * Floor on k. A fully deterministic D/D/c queue (k = 0) never waits, but a
+ * zero factor would collapse the scaled AHT to 0, which the Erlang C helpers
+ * treat as "no workload".
+ */
+const MIN_VARIABILITY_FACTOR = 0.01;
+
+/**
+ * Allen-Cunneen variability factor k = (Ca² + Cs²) / 2.
+ *
+ * @param ahtCV - Coefficient of variation of handle time (stdev / mean)
+ * @param arrivalCV - Coefficient of variation of inter-arrival times (default 1 = Poisson)
+ * @returns Variability factor (1 = M/M/c)
+ */
+export function allenCunneenFactor(ahtCV: number, arrivalCV: number = 1): number {
+  const cs = Math.min(MAX_COEFFICIENT_OF_VARIATION, Math.max(0, ahtCV));
+  const ca = Math.min(MAX_COEFFICIENT_OF_VARIATION, Math.max(0, arrivalCV));
+  return Math.max(MIN_VARIABILITY_FACTOR, (ca * ca + cs * cs) / 2);
+}
+
+/**
+ * Calculate service level for an M/G/c queue.
+ *
+ * @param agents - Number of agents
+ * @param trafficIntensity - Traffic intensity in Erlangs
+ * @param aht - Average Handle Time in seconds
+ * @param targetSeconds - Service level threshold in seconds
+ * @param ahtCV - Coefficient of variation of handle time
+ * @param arrivalCV - Coefficient of variation of inter-arrival times (default 1)
+ * @returns Service level as a decimal (0-1)
+ */
+export function calculateServiceLevelMGc(
+  agents: number,
+  trafficIntensity: number,
+  aht: number,
+  targetSeconds: number,
+  ahtCV: number,
+  arrivalCV: number = 1
+): number {
+  const k = allenCunneenFactor(ahtCV, arrivalCV);
+  return calculateServiceLevel(agents, trafficIntensity, aht * k, targetSeconds);
+}
+
+/**
+ * Calculate Average Speed of Answer for an M/G/c queue.
+ *
+ * @returns ASA in seconds (Infinity if unstable)
+ */
+export function calculateASAMGc(
+  agents: number,
+  trafficIntensity: number,
+  aht: number,
+  ahtCV: number,
+  arrivalCV: number = 1
+): number {
+  const k = allenCunneenFactor(ahtCV, arrivalCV);
+  return calculateASA(agents, trafficIntensity, aht * k);
+}
+
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { calculateBlendedPool, calculateBlendedReserveMetrics, type BlendedPoolInput } from './blendedPool';
+import { calculateASA, calculateServiceLevel, erlangC } from './erlangC';
+import { calculateStaffing } from './erlangEngine';
+
+// 100 calls per 30 minutes at 240 s: A = 13.33 Erlangs.
+const base = { volume: 100, aht: 240, intervalMinutes: 30, poolAgents: 20, thresholdSeconds: 20 };
+const traffic = (100 * 240) / 1800;
+
+const poolInput: BlendedPoolInput = {
+  intervals: [60, 100, 140, 80].map(volume => ({ volume, poolAgents: 24 })),
+  aht: 240,
+  intervalMinutes: 30,
+  targetSLPercent: 80,
+  thresholdSeconds: 20,
+  maxOccupancy: 100,
+  shrinkagePercent: 30,
+  reserve: 'auto',
+};
+
+describe('Blended pool - reserve metrics', () => {
+  it('a reserve of the whole pool is plain Erlang C', () => {
+    const m = calculateBlendedReserveMetrics({ ...base, reserve: 20 })!;
+    expect(m.serviceLevel).toBeCloseTo(calculateServiceLevel(20, traffic, 240, 20) * 100, 8);
+    expect(m.asa).toBeCloseTo(calculateASA(20, traffic, 240), 8);
+    expect(m.waitProbability).toBeCloseTo(erlangC(20, traffic), 10);
+    expect(m.outboundAgents).toBeCloseTo(0, 10);
+  });
+
+  it('no reserve keeps every agent busy and every call waits', () => {
+    const m = calculateBlendedReserveMetrics({ ...base, reserve: 0 })!;
+    expect(m.waitProbability).toBeCloseTo(1, 12);
+    expect(m.idleAgents).toBeCloseTo(0, 10);
+    expect(m.outboundAgents).toBeCloseTo(20 - traffic, 8);
+  });
+
+  it('a larger reserve raises inbound SL and frees fewer outbound hours', () => {
+    const points = [0, 1, 2, 4, 8].map(reserve => calculateBlendedReserveMetrics({ ...base, reserve })!);
+    for (let i = 1; i < points.length; i++) {
+      expect(points[i]!.serviceLevel).toBeGreaterThan(points[i - 1]!.serviceLevel);
+      expect(points[i]!.outboundAgents).toBeLessThan(points[i - 1]!.outboundAgents);
+    }
+  });
+
+  it('busy time adds up to inbound plus outbound load', () => {
+    const m = calculateBlendedReserveMetrics({ ...base, reserve: 3 })!;
+    expect(m.occupancy / 100 * 20).toBeCloseTo(traffic + m.outboundAgents, 8);
+    expect(m.idleAgents).toBeLessThanOrEqual(3);
+  });
+
+  it('reports zero SL when inbound alone saturates the pool', () => {
+    const m = calculateBlendedReserveMetrics({ ...base, poolAgents: 13, reserve: 13 })!;
+    expect(m.serviceLevel).toBe(0);
+    expect(m.outboundAgents).toBe(0);
+  });
+
+  it('returns null for invalid input', () => {
+    expect(calculateBlendedReserveMetrics({ ...base, reserve: 21 })).toBeNull();
+    expect(calculateBlendedReserveMetrics({ ...base, reserve: 1.5 })).toBeNull();
+    expect(calculateBlendedReserveMetrics({ ...base, aht: 0, reserve: 2 })).toBeNull();
+  });
+});
+
+describe('Blended pool - interval plan', () => {
+  it('auto picks the smallest reserve that meets the target', () => {
+    const result = calculateBlendedPool(poolInput)!;
+    expect(result.meetsTarget).toBe(true);
+    for (const interval of result.intervals) {
+      expect(interval.serviceLevel).toBeGreaterThanOrEqual(80);
+      if (interval.reserve > 0) {
+        const tighter = calculateBlendedReserveMetrics({
+          volume: interval.volume, aht: 240, intervalMinutes: 30, poolAgents: 24,
+          reserve: interval.reserve - 1, thresholdSeconds: 20,
+        })!;
+        expect(tighter.serviceLevel).toBeLessThan(80);
+      }
+    }
+  });
+
+  it('quiet intervals free more outbound hours', () => {
+    const result = calculateBlendedPool(poolInput)!;
+    const [quiet, , busy] = result.intervals;
+    expect(quiet!.outboundAgentHours).toBeGreaterThan(busy!.outboundAgentHours);
+    expect(result.outboundAgentHours).toBeCloseTo(result.intervals.reduce((s, i) => s + i.outboundAgents * 0.5, 0), 10);
+  });
+
+  it('reports the dedicated inbound requirement from the forward engine', () => {
+    const result = calculateBlendedPool(poolInput)!;
+    const peak = calculateStaffing({
+      model: 'C',
+      workload: { volume: 140, aht: 240, intervalMinutes: 30 },
+      constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 100 },
+      behavior: { shrinkagePercent: 30 },
+    })!;
+    expect(result.intervals[2]!.dedicatedAgents).toBe(peak.requiredAgents);
+  });
+
+  it('a fixed reserve applies to every interval', () => {
+    const result = calculateBlendedPool({ ...poolInput, reserve: 0 })!;
+    expect(result.intervals.every(i => i.reserve === 0)).toBe(true);
+    expect(result.meetsTarget).toBe(false);
+  });
+});
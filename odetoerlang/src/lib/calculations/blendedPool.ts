@@ -0,0 +1,229 @@
+/**
+ * Blended inbound/outbound agent pool.
+ *
+ * One pool of N agents answers inbound calls and works outbound tasks when
+ * idle. The pool keeps a reserve of R idle agents for inbound: an agent who
+ * becomes free with no call waiting starts an outbound task only when more
+ * than R agents would otherwise be idle. Outbound tasks are never
+ * interrupted, so a larger reserve protects inbound SL at the cost of
+ * outbound hours.
+ *
+ * With outbound tasks taking as long as inbound calls on average, every busy
+ * agent completes work at rate μ whatever they are doing, and the number of
+ * busy agents plus waiting calls s is a birth-death chain on s ≥ N - R:
+ *
+ *   λ π(s) = μ min(s + 1, N) π(s + 1)
+ *
+ * A completion at s = N - R starts another outbound task, so s never drops
+ * below N - R. R = N is plain Erlang C; R = 0 keeps every agent busy and
+ * every call waits. Arrivals see the stationary state (PASTA):
+ *
+ *   P(wait) = P(s ≥ N)
+ *   SL(t) = 1 - P(wait) × e^{-(Nμ - λ) t}
+ *   ASA = P(wait) / (Nμ - λ)
+ *   outbound agents = E[min(s, N)] - A
+ *
+ * Reference: Bhulai, S. and Koole, G. (2003). "A queueing model for call
+ * blending in call centers". IEEE Transactions on Automatic Control 48(8),
+ * 1434-1438.
+ */
+
+import { calculateStaffing } from './erlangEngine';
+
+export interface BlendedReserveInput {
+  /** Inbound calls per interval */
+  volume: number;
+  /** Inbound AHT in seconds (outbound tasks are assumed to average the same) */
+  aht: number;
+  intervalMinutes: number;
+  /** Agents in the blended pool */
+  poolAgents: number;
+  /** Idle agents kept back for inbound before outbound work starts */
+  reserve: number;
+  thresholdSeconds: number;
+}
+
+export interface BlendedReserveMetrics {
+  reserve: number;
+  /** Inbound service level, percentage (0-100) */
+  serviceLevel: number;
+  /** Inbound average speed of answer, seconds */
+  asa: number;
+  /** Share of inbound calls that wait, 0-1 */
+  waitProbability: number;
+  /** Mean agents working outbound tasks */
+  outboundAgents: number;
+  /** Mean idle agents */
+  idleAgents: number;
+  /** Inbound plus outbound busy time, percentage of the pool (0-100) */
+  occupancy: number;
+}
+
+export interface BlendedPoolInterval {
+  volume: number;
+  poolAgents: number;
+  /** Free-form label carried through to the result (e.g. "09:30") */
+  label?: string | undefined;
+}
+
+export interface BlendedPoolInput {
+  intervals: BlendedPoolInterval[];
+  aht: number;
+  intervalMinutes: number;
+  /** Inbound SL target, percentage */
+  targetSLPercent: number;
+  thresholdSeconds: number;
+  /** Occupancy cap for the dedicated-inbound comparison, percentage */
+  maxOccupancy: number;
+  shrinkagePercent: number;
+  /**
+   * Reserve applied in every interval, or 'auto' for the smallest reserve
+   * that meets the inbound target in each interval.
+   */
+  reserve: number | 'auto';
+}
+
+export interface BlendedPoolIntervalResult extends BlendedReserveMetrics {
+  index: number;
+  label?: string | undefined;
+  volume: number;
+  poolAgents: number;
+  /** Agents a dedicated inbound team would need (null when unachievable) */
+  dedicatedAgents: number | null;
+  /** Outbound agents × interval hours */
+  outboundAgentHours: number;
+  meetsTarget: boolean;
+}
+
+export interface BlendedPoolResult {
+  intervals: BlendedPoolIntervalResult[];
+  /** Σ outbound agent-hours over the intervals */
+  outboundAgentHours: number;
+  /** Volume-weighted inbound service level, percentage (0-100) */
+  serviceLevel: number;
+  /** True when every interval meets the inbound target */
+  meetsTarget: boolean;
+}
+
+/**
+ * Inbound performance and outbound capacity of a blended pool at a fixed
+ * reserve.
+ *
+ * @returns null for invalid input (non-positive AHT or interval, non-integer
+ *   pool or reserve, reserve above the pool)
+ *
+ * @example
+ * const m = calculateBlendedReserveMetrics({
+ *   volume: 100, aht: 240, intervalMinutes: 30, poolAgents: 20, reserve: 2, thresholdSeconds: 20,
+ * });
+ * m?.outboundAgents; // agents' worth of outbound work freed up
+ */
+export function calculateBlendedReserveMetrics(input: BlendedReserveInput): BlendedReserveMetrics | null {
+  const { volume, aht, intervalMinutes, poolAgents: n, reserve, thresholdSeconds } = input;
+  if (volume < 0 || aht <= 0 || intervalMinutes <= 0 || thresholdSeconds < 0) return null;
+  if (!Number.isInteger(n) || n < 1 || !Number.isInteger(reserve) || reserve < 0 || reserve > n) return null;
+
+  const mu = 1 / aht;
+  const lambda = volume / (intervalMinutes * 60);
+  const a = lambda / mu;
+
+  // Unstable: inbound alone saturates the pool.
+  if (a >= n) {
+    return { reserve, serviceLevel: 0, asa: Infinity, waitProbability: 1, outboundAgents: 0, idleAgents: 0, occupancy: 100 };
+  }
+
+  // Unnormalised log π(s) for s = floor..N, relative to π(floor) = 1.
+  const floor = n - reserve;
+  const logTerms: number[] = [0];
+  for (let s = floor + 1; s <= n; s++) {
+    logTerms.push(a > 0 ? logTerms[logTerms.length - 1]! + Math.log(a / s) : -Infinity);
+  }
+  const maxLog = Math.max(...logTerms);
+  const terms = logTerms.map(t => Math.exp(t - maxLog));
+
+  // States N, N+1, ... form a geometric tail with ratio A/N.
+  const rho = a / n;
+  const tail = terms[terms.length - 1]! / (1 - rho);
+  let mass = tail;
+  let busy = n * tail;
+  for (let i = 0; i < terms.length - 1; i++) {
+    mass += terms[i]!;
+    busy += (floor + i) * terms[i]!;
+  }
+
+  const waitProbability = tail / mass;
+  const meanBusy = busy / mass;
+  const drainRate = n * mu - lambda;
+
+  return {
+    reserve,
+    serviceLevel: volume > 0 ? (1 - waitProbability * Math.exp(-drainRate * thresholdSeconds)) * 100 : 100,
+    asa: volume > 0 ? waitProbability / drainRate : 0,
+    waitProbability,
+    outboundAgents: Math.max(0, meanBusy - a),
+    idleAgents: n - meanBusy,
+    occupancy: (meanBusy / n) * 100,
+  };
+}
+
+/**
+ * Plan a blended pool over a sequence of intervals: outbound agent-hours
+ * freed up and the inbound SL that results.
+ *
+ * @returns null for invalid input
+ */
+export function calculateBlendedPool(input: BlendedPoolInput): BlendedPoolResult | null {
+  const { intervals, aht, intervalMinutes, targetSLPercent, thresholdSeconds, maxOccupancy, shrinkagePercent, reserve } = input;
+  if (reserve !== 'auto' && (!Number.isInteger(reserve) || reserve < 0)) return null;
+  if (aht <= 0 || intervalMinutes <= 0) return null;
+
+  const intervalHours = intervalMinutes / 60;
+  const results: BlendedPoolIntervalResult[] = [];
+
+  for (const [index, interval] of intervals.entries()) {
+    const base = { volume: interval.volume, aht, intervalMinutes, poolAgents: interval.poolAgents, thresholdSeconds };
+    if (!Number.isInteger(interval.poolAgents) || interval.poolAgents < 1) return null;
+
+    let metrics: BlendedReserveMetrics | null;
+    if (reserve === 'auto') {
+      // SL rises with the reserve, so the first reserve that meets the
+      // target frees the most outbound time. Fall back to the full pool.
+      metrics = null;
+      for (let r = 0; r <= interval.poolAgents; r++) {
+        metrics = calculateBlendedReserveMetrics({ ...base, reserve: r });
+        if (!metrics || metrics.serviceLevel >= targetSLPercent) break;
+      }
+    } else {
+      metrics = calculateBlendedReserveMetrics({ ...base, reserve: Math.min(reserve, interval.poolAgents) });
+    }
+    if (!metrics) return null;
+
+    const dedicated = interval.volume > 0
+      ? calculateStaffing({
+          model: 'C',
+          workload: { volume: interval.volume, aht, intervalMinutes },
+          constraints: { targetSLPercent, thresholdSeconds, maxOccupancy },
+          behavior: { shrinkagePercent },
+        })
+      : null;
+
+    results.push({
+      ...metrics,
+      index,
+      label: interval.label,
+      volume: interval.volume,
+      poolAgents: interval.poolAgents,
+      dedicatedAgents: interval.volume <= 0 ? 0 : dedicated?.canAchieveTarget ? dedicated.requiredAgents : null,
+      outboundAgentHours: metrics.outboundAgents * intervalHours,
+      meetsTarget: metrics.serviceLevel >= targetSLPercent,
+    });
+  }
+
+  const totalVolume = results.reduce((sum, r) => sum + r.volume, 0);
+  return {
+    intervals: results,
+    outboundAgentHours: results.reduce((sum, r) => sum + r.outboundAgentHours, 0),
+    serviceLevel: totalVolume > 0 ? results.reduce((sum, r) => sum + r.serviceLevel * r.volume, 0) / totalVolume : 100,
+    meetsTarget: results.every(r => r.meetsTarget),
+  };
+}
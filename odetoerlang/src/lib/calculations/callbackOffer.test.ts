@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCallbackOffer, type CallbackOfferInput } from './callbackOffer';
+import { calculateAchievableMetrics, calculateStaffing } from './erlangEngine';
+
+const baseInput: CallbackOfferInput = {
+  model: 'A',
+  workload: { volume: 200, aht: 300, intervalMinutes: 30 },
+  constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 90 },
+  behavior: { shrinkagePercent: 30, averagePatience: 120 },
+  callback: { offerThresholdSeconds: 30, takeUpPercent: 40, deadlineMinutes: 30, completionTargetPercent: 95 },
+};
+
+describe('Callback offer', () => {
+  it('no take-up reproduces the forward engine', () => {
+    const result = calculateCallbackOffer({ ...baseInput, callback: { ...baseInput.callback, takeUpPercent: 0 } })!;
+    const forward = calculateStaffing(baseInput)!;
+    expect(result.callbackVolume).toBe(0);
+    expect(result.liveAgents).toBe(forward.requiredAgents);
+    expect(result.requiredAgents).toBe(forward.requiredAgents);
+    expect(result.live.serviceLevel).toBeCloseTo(forward.serviceLevel, 6);
+  });
+
+  it('splits volume into live and callback parts', () => {
+    const result = calculateCallbackOffer(baseInput)!;
+    expect(result.callbackVolume).toBeGreaterThan(0);
+    expect(result.liveVolume + result.callbackVolume).toBeCloseTo(200, 9);
+    expect(result.callbackRate).toBeCloseTo(0.4 * result.offerRate, 9);
+  });
+
+  it('the offered share is a fixed point of the live queue', () => {
+    const result = calculateCallbackOffer(baseInput)!;
+    const atOffer = calculateAchievableMetrics({
+      ...baseInput,
+      fixedAgents: result.liveAgents,
+      workload: { ...baseInput.workload, volume: result.liveVolume },
+      constraints: { thresholdSeconds: 30, maxOccupancy: 100 },
+    })!;
+    expect(result.offerRate).toBeCloseTo(1 - atOffer.serviceLevel / 100, 6);
+  });
+
+  it('staffs the live queue with the fewest agents', () => {
+    const result = calculateCallbackOffer(baseInput)!;
+    const live = calculateStaffing({ ...baseInput, workload: { ...baseInput.workload, volume: result.liveVolume } })!;
+    expect(live.requiredAgents).toBe(result.liveAgents);
+  });
+
+  it('needs fewer live agents and cuts abandonment', () => {
+    const result = calculateCallbackOffer(baseInput)!;
+    expect(result.liveAgents).toBeLessThanOrEqual(result.baseline.requiredAgents);
+    expect(result.live.expectedAbandonments!).toBeLessThan(result.baseline.expectedAbandonments!);
+    expect(result.live.serviceLevel).toBeGreaterThanOrEqual(80);
+  });
+
+  it('meets the callback deadline target', () => {
+    const result = calculateCallbackOffer(baseInput)!;
+    expect(result.canAchieveTarget).toBe(true);
+    expect(result.callbackCompletionRate).toBeGreaterThanOrEqual(0.95);
+    expect(result.requiredAgents).toBeGreaterThanOrEqual(result.liveAgents);
+  });
+
+  it('a tighter deadline needs at least as many agents', () => {
+    const relaxed = calculateCallbackOffer(baseInput)!;
+    const tight = calculateCallbackOffer({ ...baseInput, callback: { ...baseInput.callback, deadlineMinutes: 1 } })!;
+    expect(tight.requiredAgents).toBeGreaterThanOrEqual(relaxed.requiredAgents);
+  });
+
+  it('works for Erlang C', () => {
+    const result = calculateCallbackOffer({ ...baseInput, model: 'C' })!;
+    expect(result.live.serviceLevel).toBeGreaterThanOrEqual(80);
+    expect(result.live.abandonmentRate).toBeUndefined();
+  });
+
+  it('returns null for loss models and invalid settings', () => {
+    expect(calculateCallbackOffer({ ...baseInput, model: 'B' })).toBeNull();
+    expect(calculateCallbackOffer({ ...baseInput, callback: { ...baseInput.callback, takeUpPercent: 120 } })).toBeNull();
+    expect(calculateCallbackOffer({ ...baseInput, callback: { ...baseInput.callback, deadlineMinutes: 0 } })).toBeNull();
+  });
+});
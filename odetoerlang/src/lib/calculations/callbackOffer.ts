@@ -0,0 +1,188 @@
+/**
+ * Virtual hold (callback offer) staffing.
+ *
+ * Callers whose wait would exceed the offer threshold T_o are offered a
+ * callback; a share p accept and leave the live queue. The agents call them
+ * back later, answering live callers first. The forward engine staffs the
+ * live part and a two-level non-preemptive priority queue (live first,
+ * callbacks second) checks that callbacks start within the deadline D.
+ *
+ * The offered share f depends on the live queue, which depends on f:
+ *
+ *   f = P_N(W > T_o | live volume = V × (1 - p f))
+ *
+ * The right-hand side falls as f rises, so for each agent count N there is
+ * one fixed point, found by bisection. Then:
+ *
+ *   live agents   = smallest N whose live volume V(1 - p f) needs ≤ N agents
+ *   callbacks     = V p f per interval, worked at the live AHT
+ *   total agents  = smallest N ≥ live agents with P(callback wait ≤ D) ≥ target
+ *
+ * Live metrics are reported at the live agent count, which ignores the small
+ * extra capacity the callback agents give live callers (safe).
+ */
+
+import type { CallbackSettings } from '../../types';
+import { calculateFTE } from './erlangC';
+import {
+  calculateAchievableMetrics,
+  calculateStaffing,
+  effectiveAHTForConcurrency,
+  normalizeModel,
+  type ErlangEngineInput,
+  type ErlangEngineOutput,
+} from './erlangEngine';
+import { calculatePriorityQueuePerformance } from './priorityQueue';
+
+/** Bisection steps for the offered share (2^-40 ≈ 1e-12). */
+const OFFER_BISECTION_STEPS = 40;
+/** Agents added on top of the live requirement before callbacks are deemed unachievable. */
+const MAX_CALLBACK_AGENTS = 1000;
+
+export interface CallbackOfferInput extends ErlangEngineInput {
+  callback: CallbackSettings;
+}
+
+export interface CallbackOfferResult {
+  /** Staffing with no callbacks offered */
+  baseline: ErlangEngineOutput;
+  /** Live calls at `liveAgents` (SL, ASA and abandonment on live calls only) */
+  live: ErlangEngineOutput;
+  /** Share of callers offered a callback, 0-1 */
+  offerRate: number;
+  /** Share of callers who take a callback, 0-1 */
+  callbackRate: number;
+  liveVolume: number;
+  callbackVolume: number;
+  /** Agents the live queue needs */
+  liveAgents: number;
+  /** Live plus callback agents */
+  requiredAgents: number;
+  totalFTE: number;
+  /** Callbacks started within the deadline, 0-1 */
+  callbackCompletionRate: number;
+  /** Mean time from acceptance to callback, seconds */
+  callbackAverageWait: number;
+  canAchieveTarget: boolean;
+}
+
+function isValidCallback(callback: CallbackSettings): boolean {
+  return callback.offerThresholdSeconds >= 0
+    && callback.takeUpPercent >= 0 && callback.takeUpPercent <= 100
+    && callback.deadlineMinutes > 0
+    && callback.completionTargetPercent > 0 && callback.completionTargetPercent <= 100;
+}
+
+/** Probability a live caller's wait exceeds `seconds` with `agents` staffed. */
+function waitExceeds(input: ErlangEngineInput, agents: number, volume: number, seconds: number): number {
+  if (volume <= 0) return 0;
+  const metrics = calculateAchievableMetrics({
+    ...input,
+    fixedAgents: agents,
+    workload: { ...input.workload, volume },
+    // No occupancy penalty: this is the raw queue, not a staffing decision.
+    constraints: { ...input.constraints, thresholdSeconds: seconds, maxOccupancy: 100 },
+  });
+  return metrics ? Math.min(1, Math.max(0, 1 - metrics.serviceLevel / 100)) : 1;
+}
+
+/** Offered share f solving f = P_N(W > T_o | V(1 - p f)). */
+function solveOfferRate(input: ErlangEngineInput, agents: number, callback: CallbackSettings): number {
+  const { volume } = input.workload;
+  const takeUp = callback.takeUpPercent / 100;
+  const excess = (f: number): number =>
+    waitExceeds(input, agents, volume * (1 - takeUp * f), callback.offerThresholdSeconds) - f;
+
+  let low = 0;
+  let high = 1;
+  if (excess(high) >= 0) return 1;
+  for (let step = 0; step < OFFER_BISECTION_STEPS; step++) {
+    const mid = (low + high) / 2;
+    if (excess(mid) > 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Staff a queue that offers callbacks.
+ *
+ * @returns null for invalid input, models without a queue (B, EB), or when
+ *   the forward engine rejects the input
+ *
+ * @example
+ * const plan = calculateCallbackOffer({
+ *   model: 'A',
+ *   workload: { volume: 200, aht: 300, intervalMinutes: 30 },
+ *   constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 90 },
+ *   behavior: { shrinkagePercent: 30, averagePatience: 120 },
+ *   callback: { offerThresholdSeconds: 60, takeUpPercent: 40, deadlineMinutes: 30, completionTargetPercent: 95 },
+ * });
+ * plan?.live.abandonmentRate; // below plan.baseline.abandonmentRate
+ */
+export function calculateCallbackOffer(input: CallbackOfferInput): CallbackOfferResult | null {
+  const { callback, ...engineInput } = input;
+  const model = normalizeModel(input.model);
+  if (model === 'B' || model === 'EB' || !isValidCallback(callback)) return null;
+
+  const baseline = calculateStaffing(engineInput);
+  if (!baseline) return null;
+
+  const { volume, aht, intervalMinutes } = input.workload;
+  const takeUp = callback.takeUpPercent / 100;
+  const liveVolumeAt = (offerRate: number): number => volume * (1 - takeUp * offerRate);
+
+  // Bracket: every caller offered and nobody offered.
+  const floor = calculateStaffing({ ...engineInput, workload: { ...input.workload, volume: liveVolumeAt(1) } });
+  let liveAgents = Math.max(1, floor?.requiredAgents ?? 1);
+  const ceiling = Math.max(liveAgents, baseline.requiredAgents);
+  let offerRate = solveOfferRate(engineInput, liveAgents, callback);
+  while (liveAgents < ceiling) {
+    const needed = calculateStaffing({ ...engineInput, workload: { ...input.workload, volume: liveVolumeAt(offerRate) } });
+    if (needed && needed.requiredAgents <= liveAgents) break;
+    liveAgents++;
+    offerRate = solveOfferRate(engineInput, liveAgents, callback);
+  }
+
+  const liveVolume = liveVolumeAt(offerRate);
+  const callbackVolume = volume - liveVolume;
+  const live = calculateAchievableMetrics({
+    ...engineInput,
+    fixedAgents: liveAgents,
+    workload: { ...input.workload, volume: liveVolume },
+    constraints: input.constraints,
+  });
+  if (!live) return null;
+
+  // Callbacks wait behind live callers for a free agent.
+  const effectiveAHT = effectiveAHTForConcurrency(aht, input.behavior.concurrency ?? 1, input.behavior.concurrencyOverhead);
+  const deadlineSeconds = callback.deadlineMinutes * 60;
+  const completionTarget = callback.completionTargetPercent / 100;
+  const classes = [
+    { id: 'live', volume: liveVolume, aht: effectiveAHT, targetSL: input.constraints.targetSLPercent / 100, thresholdSeconds: input.constraints.thresholdSeconds, priority: 1 },
+    { id: 'callback', volume: callbackVolume, aht: effectiveAHT, targetSL: completionTarget, thresholdSeconds: deadlineSeconds, priority: 2 },
+  ];
+
+  let requiredAgents = liveAgents;
+  let callbackClass = calculatePriorityQueuePerformance(requiredAgents, classes, intervalMinutes * 60).classes[1]!;
+  while (callbackVolume > 0 && callbackClass.serviceLevel < completionTarget && requiredAgents < liveAgents + MAX_CALLBACK_AGENTS) {
+    requiredAgents++;
+    callbackClass = calculatePriorityQueuePerformance(requiredAgents, classes, intervalMinutes * 60).classes[1]!;
+  }
+  const callbackCompletionRate = callbackVolume > 0 ? callbackClass.serviceLevel : 1;
+
+  return {
+    baseline,
+    live,
+    offerRate,
+    callbackRate: volume > 0 ? callbackVolume / volume : 0,
+    liveVolume,
+    callbackVolume,
+    liveAgents,
+    requiredAgents,
+    totalFTE: calculateFTE(requiredAgents, input.behavior.shrinkagePercent / 100),
+    callbackCompletionRate,
+    callbackAverageWait: callbackVolume > 0 ? callbackClass.asa : 0,
+    canAchieveTarget: callbackCompletionRate >= completionTarget,
+  };
+}
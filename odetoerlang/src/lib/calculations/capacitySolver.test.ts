@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { calculateVolumeHeadroom, solveMaxAHT, solveMaxVolume, type CapacityInput } from './capacitySolver';
+import { calculateStaffing } from './erlangEngine';
+
+const baseInput: CapacityInput = {
+  model: 'C',
+  agents: 25,
+  workload: { volume: 100, aht: 240, intervalMinutes: 30 },
+  constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 90 },
+  behavior: { shrinkagePercent: 30, averagePatience: 90 },
+};
+
+const staffFor = (input: CapacityInput, volume: number, aht = input.workload.aht) =>
+  calculateStaffing({ ...input, workload: { ...input.workload, volume, aht } })!;
+
+describe('Capacity solver - maximum volume', () => {
+  it('round-trips with the forward engine', () => {
+    const { limit } = solveMaxVolume(baseInput)!;
+    expect(staffFor(baseInput, limit).requiredAgents).toBeLessThanOrEqual(25);
+    expect(staffFor(baseInput, limit * 1.001).requiredAgents).toBeGreaterThan(25);
+  });
+
+  it('meets the target at the limit with the fixed team', () => {
+    const { limit, metrics } = solveMaxVolume(baseInput)!;
+    expect(limit).toBeGreaterThan(100);
+    expect(metrics!.serviceLevel).toBeGreaterThanOrEqual(80);
+    expect(metrics!.occupancy).toBeLessThanOrEqual(90 + 1e-6);
+  });
+
+  it('more agents support more volume', () => {
+    const small = solveMaxVolume(baseInput)!.limit;
+    const large = solveMaxVolume({ ...baseInput, agents: 50 })!.limit;
+    expect(large).toBeGreaterThan(2 * small);
+  });
+
+  it('respects an ASA target', () => {
+    const input: CapacityInput = { ...baseInput, constraints: { ...baseInput.constraints, targetType: 'asa', targetASASeconds: 10 } };
+    const { limit, metrics } = solveMaxVolume(input)!;
+    expect(metrics!.asa).toBeLessThanOrEqual(10);
+    expect(staffFor(input, limit * 1.001).requiredAgents).toBeGreaterThan(25);
+  });
+
+  it('respects an abandon-rate target for Erlang A', () => {
+    const input: CapacityInput = {
+      ...baseInput,
+      model: 'A',
+      constraints: { ...baseInput.constraints, targetType: 'abandonRate', targetAbandonPercent: 3 },
+    };
+    const { metrics } = solveMaxVolume(input)!;
+    expect(metrics!.abandonmentRate).toBeLessThanOrEqual(0.03);
+  });
+
+  it('returns null for invalid input', () => {
+    expect(solveMaxVolume({ ...baseInput, agents: 0 })).toBeNull();
+    expect(solveMaxVolume({ ...baseInput, agents: 2.5 })).toBeNull();
+    expect(solveMaxVolume({ ...baseInput, model: 'A', behavior: { shrinkagePercent: 30 } })).toBeNull();
+  });
+});
+
+describe('Capacity solver - maximum AHT', () => {
+  it('round-trips with the forward engine', () => {
+    const { limit } = solveMaxAHT(baseInput)!;
+    expect(limit).toBeGreaterThan(240);
+    expect(staffFor(baseInput, 100, limit).requiredAgents).toBeLessThanOrEqual(25);
+    expect(staffFor(baseInput, 100, limit * 1.001).requiredAgents).toBeGreaterThan(25);
+  });
+
+  it('is unbounded with no volume', () => {
+    expect(solveMaxAHT({ ...baseInput, workload: { ...baseInput.workload, volume: 0 } })!.limit).toBe(Infinity);
+  });
+});
+
+describe('Capacity solver - headroom', () => {
+  it('spare agents fall as volume rises and cross zero at the limit', () => {
+    const { limit } = solveMaxVolume(baseInput)!;
+    const points = calculateVolumeHeadroom(baseInput, [0, 50, limit, limit * 1.2]);
+    expect(points[0]!.spareAgents).toBe(25);
+    expect(points[1]!.spareAgents!).toBeGreaterThan(points[2]!.spareAgents!);
+    expect(points[2]!.meetsTarget).toBe(true);
+    expect(points[3]!.meetsTarget).toBe(false);
+    expect(points[3]!.spareAgents!).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Inverse capacity solver: how much work can a fixed team take?
+ *
+ * `calculateAchievableMetrics` answers "what SL do 25 agents give at this
+ * volume?". Planners usually ask the inverse: "how many calls can 25 agents
+ * take at 80/20?". For a fixed agent count c we solve
+ *
+ *   V_max = sup { V : requiredAgents(V, AHT) ≤ c }
+ *   AHT_max = sup { AHT : requiredAgents(V, AHT) ≤ c }
+ *
+ * where requiredAgents is the forward engine (`calculateStaffing`) with the
+ * same model, target (SL, ASA or abandon rate) and occupancy cap. Required
+ * agents are non-decreasing in both volume and AHT, so the feasible set is an
+ * interval [0, limit] and bisection finds its end. Using the forward engine
+ * as the oracle keeps the answer consistent with the staffing screens: at
+ * V_max the forward solver returns exactly c (or fewer) agents.
+ */
+
+import {
+  calculateAchievableMetrics,
+  calculateStaffing,
+  type ErlangEngineInput,
+  type ErlangEngineOutput,
+} from './erlangEngine';
+
+/** Relative precision of the bisection. */
+const CAPACITY_TOLERANCE = 1e-6;
+/** Bracket doublings before the limit is treated as unbounded. */
+const MAX_BRACKET_DOUBLINGS = 40;
+
+export interface CapacityInput extends ErlangEngineInput {
+  /** Productive agents available */
+  agents: number;
+}
+
+export interface CapacityLimit {
+  /** Largest volume per interval (or AHT in seconds) that still meets the target */
+  limit: number;
+  /** Performance at the limit with `agents` staffed. Null when the limit is 0. */
+  metrics: ErlangEngineOutput | null;
+}
+
+export interface HeadroomPoint {
+  volume: number;
+  /** Agents the forward engine needs at this volume (null when unachievable) */
+  requiredAgents: number | null;
+  /** agents - requiredAgents; negative when short */
+  spareAgents: number | null;
+  /** Achieved with `agents` staffed, percentage (0-100) */
+  serviceLevel: number;
+  asa: number;
+  abandonmentRate?: number | undefined;
+  meetsTarget: boolean;
+}
+
+/**
+ * True when `agents` is enough for the workload under the input's target.
+ * Zero workload is always supportable.
+ */
+function isSupportable(input: CapacityInput, volume: number, aht: number): boolean {
+  if (volume === 0) return true;
+  const result = calculateStaffing({ ...input, workload: { ...input.workload, volume, aht } });
+  return result !== null && result.canAchieveTarget && result.requiredAgents <= input.agents;
+}
+
+/**
+ * Largest x in (0, ∞) with `supports(x)`, assuming supports is monotone
+ * (true up to the limit, false beyond). `start` is a first guess.
+ */
+function bisectLimit(supports: (x: number) => boolean, start: number): number {
+  let low = 0;
+  let high = Math.max(start, CAPACITY_TOLERANCE);
+  let doublings = 0;
+  while (supports(high)) {
+    low = high;
+    high *= 2;
+    if (++doublings > MAX_BRACKET_DOUBLINGS) return Infinity;
+  }
+  while (high - low > CAPACITY_TOLERANCE * Math.max(1, high)) {
+    const mid = (low + high) / 2;
+    if (supports(mid)) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+function isValidCapacityInput(input: CapacityInput): boolean {
+  if (!Number.isInteger(input.agents) || input.agents < 1) return false;
+  // Let the forward engine validate everything else on a representative workload.
+  return calculateStaffing({ ...input, workload: { ...input.workload, volume: Math.max(1, input.workload.volume) } }) !== null;
+}
+
+function metricsAt(input: CapacityInput, volume: number, aht: number): ErlangEngineOutput | null {
+  if (volume <= 0 || aht <= 0 || !Number.isFinite(volume) || !Number.isFinite(aht)) return null;
+  const { constraints, agents, ...rest } = input;
+  return calculateAchievableMetrics({
+    ...rest,
+    fixedAgents: agents,
+    workload: { ...input.workload, volume, aht },
+    constraints: {
+      thresholdSeconds: constraints.thresholdSeconds,
+      maxOccupancy: constraints.maxOccupancy,
+      lines: constraints.lines,
+      population: constraints.population,
+    },
+  });
+}
+
+/**
+ * Maximum volume per interval that `agents` can handle at the input's AHT
+ * while meeting the target. The input's own volume is only a starting guess.
+ *
+ * @returns null for invalid input (non-integer agents, or input the forward
+ *   engine rejects)
+ *
+ * @example
+ * const cap = solveMaxVolume({
+ *   model: 'C', agents: 25,
+ *   workload: { volume: 100, aht: 240, intervalMinutes: 30 },
+ *   constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 90 },
+ *   behavior: { shrinkagePercent: 30 },
+ * });
+ * cap?.limit; // ≈ 155 calls per 30 minutes
+ */
+export function solveMaxVolume(input: CapacityInput): CapacityLimit | null {
+  if (!isValidCapacityInput(input)) return null;
+  const { aht, intervalMinutes } = input.workload;
+  // First guess: the volume that would keep every agent busy.
+  const saturation = (input.agents * intervalMinutes * 60) / aht;
+  const limit = bisectLimit(volume => isSupportable(input, volume, aht), saturation / 2);
+  return { limit, metrics: metricsAt(input, limit, aht) };
+}
+
+/**
+ * Maximum AHT (seconds) at which `agents` still meet the target for the
+ * input's volume.
+ *
+ * @returns null for invalid input; limit is Infinity when volume is 0
+ */
+export function solveMaxAHT(input: CapacityInput): CapacityLimit | null {
+  if (!isValidCapacityInput(input)) return null;
+  const { volume, intervalMinutes } = input.workload;
+  if (volume <= 0) return { limit: Infinity, metrics: null };
+  const saturation = (input.agents * intervalMinutes * 60) / volume;
+  const limit = bisectLimit(aht => isSupportable(input, volume, aht), saturation / 2);
+  return { limit, metrics: metricsAt(input, volume, limit) };
+}
+
+/**
+ * Spare agents and achieved performance across a range of volumes, for a
+ * headroom-versus-volume chart.
+ *
+ * @param volumes - Volumes per interval to evaluate
+ */
+export function calculateVolumeHeadroom(input: CapacityInput, volumes: number[]): HeadroomPoint[] {
+  if (!isValidCapacityInput(input)) return [];
+  const { aht } = input.workload;
+
+  return volumes.map(volume => {
+    const staffing = volume > 0 ? calculateStaffing({ ...input, workload: { ...input.workload, volume } }) : null;
+    const requiredAgents = volume <= 0 ? 0 : staffing?.canAchieveTarget ? staffing.requiredAgents : null;
+    const metrics = metricsAt(input, volume, aht);
+    return {
+      volume,
+      requiredAgents,
+      spareAgents: requiredAgents === null ? null : input.agents - requiredAgents,
+      serviceLevel: metrics?.serviceLevel ?? 100,
+      asa: metrics?.asa ?? 0,
+      abandonmentRate: metrics?.abandonmentRate,
+      meetsTarget: requiredAgents !== null && requiredAgents <= input.agents,
+    };
+  });
+}
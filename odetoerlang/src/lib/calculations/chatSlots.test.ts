@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateChatSlotMetrics,
+  sessionHandleTime,
+  solveChatSlotAgents,
+  type ChatSlotInput,
+  type ChatSlotStaffingInput,
+} from './chatSlots';
+import { calculateASA, calculateServiceLevel, erlangC } from './erlangC';
+import { effectiveAHTForConcurrency } from './erlangEngine';
+
+// 180 chats per 30 minutes, 6-minute sessions, 3 slots per agent.
+const baseInput: ChatSlotInput = {
+  volume: 180,
+  aht: 360,
+  intervalSeconds: 1800,
+  agents: 18,
+  slots: 3,
+  sessionOverhead: 0.15,
+  thresholdSeconds: 30,
+};
+
+const staffingInput: ChatSlotStaffingInput = {
+  volume: 180,
+  aht: 360,
+  intervalSeconds: 1800,
+  slots: 3,
+  sessionOverhead: 0.15,
+  thresholdSeconds: 30,
+  targetSL: 0.8,
+  shrinkagePercent: 0.3,
+  maxOccupancy: 0.9,
+};
+
+describe('Chat slots - metrics', () => {
+  it('zero overhead is Erlang C with one server per slot', () => {
+    const m = calculateChatSlotMetrics({ ...baseInput, sessionOverhead: 0 })!;
+    const traffic = (180 * 360) / 1800;
+    expect(m.waitProbability).toBeCloseTo(erlangC(54, traffic), 10);
+    expect(m.serviceLevel).toBeCloseTo(calculateServiceLevel(54, traffic, 360, 30), 10);
+    expect(m.asa).toBeCloseTo(calculateASA(54, traffic, 360), 10);
+    expect(m.averageHandleTime).toBeCloseTo(360, 8);
+  });
+
+  it('one slot is Erlang C whatever the overhead', () => {
+    const m = calculateChatSlotMetrics({ ...baseInput, agents: 40, slots: 1 })!;
+    const traffic = (180 * 360) / 1800;
+    expect(m.serviceLevel).toBeCloseTo(calculateServiceLevel(40, traffic, 360, 30), 10);
+  });
+
+  it('full-concurrency load matches the effective-AHT approximation', () => {
+    const m = calculateChatSlotMetrics(baseInput)!;
+    const legacyTraffic = (180 * effectiveAHTForConcurrency(360, 3, 0.15)) / 1800;
+    expect(m.trafficIntensity).toBeCloseTo(legacyTraffic, 10);
+    expect(m.occupancy).toBeCloseTo(legacyTraffic / 18, 10);
+  });
+
+  it('sessions last longer as agents get busier', () => {
+    const light = calculateChatSlotMetrics({ ...baseInput, agents: 30 })!;
+    const busy = calculateChatSlotMetrics(baseInput)!;
+    expect(busy.averageSessions).toBeGreaterThan(light.averageSessions);
+    expect(busy.averageHandleTime).toBeGreaterThan(light.averageHandleTime);
+    expect(busy.averageHandleTime).toBeLessThan(sessionHandleTime(360, 3, 0.15));
+    expect(busy.slotOccupancy).toBeLessThanOrEqual(1);
+  });
+
+  it('reports an unstable queue as zero SL', () => {
+    const m = calculateChatSlotMetrics({ ...baseInput, agents: 5 })!;
+    expect(m.serviceLevel).toBe(0);
+    expect(m.asa).toBe(Infinity);
+  });
+
+  it('returns null for invalid input', () => {
+    expect(calculateChatSlotMetrics({ ...baseInput, agents: 2.5 })).toBeNull();
+    expect(calculateChatSlotMetrics({ ...baseInput, slots: 0 })).toBeNull();
+    expect(calculateChatSlotMetrics({ ...baseInput, aht: 0 })).toBeNull();
+  });
+});
+
+describe('Chat slots - staffing', () => {
+  it('finds the fewest agents meeting the target', () => {
+    const result = solveChatSlotAgents(staffingInput)!;
+    expect(result.canAchieveTarget).toBe(true);
+    expect(result.serviceLevel).toBeGreaterThanOrEqual(0.8);
+    const fewer = calculateChatSlotMetrics({ ...baseInput, agents: result.requiredAgents - 1 })!;
+    expect(fewer.serviceLevel < 0.8 || fewer.occupancy > 0.9).toBe(true);
+    expect(result.totalFTE).toBeCloseTo(result.requiredAgents / 0.7, 10);
+  });
+
+  it('more overhead needs more agents', () => {
+    const lean = solveChatSlotAgents({ ...staffingInput, sessionOverhead: 0 })!;
+    const heavy = solveChatSlotAgents({ ...staffingInput, sessionOverhead: 0.3 })!;
+    expect(heavy.requiredAgents).toBeGreaterThan(lean.requiredAgents);
+  });
+});
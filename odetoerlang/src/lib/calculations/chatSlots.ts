@@ -0,0 +1,196 @@
+/**
+ * Slot-based chat concurrency.
+ *
+ * `effectiveAHTForConcurrency` treats a chat agent as one fast voice agent:
+ * it assumes every slot is always in use. Here each of the c agents has N
+ * slots, and a session's handle time grows with the sessions its agent has
+ * open:
+ *
+ *   h(k) = AHT × (1 + (k - 1) × overhead)      k = 1..N
+ *
+ * so an agent with k sessions completes k / h(k) per second. New chats go
+ * to the least-loaded agent and wait FIFO only when all c × N slots are
+ * full. Taking the open sessions as spread evenly across agents, the total
+ * n in progress is a birth-death chain with arrival rate λ and
+ *
+ *   μ(n) = r (q + 1) / h(q + 1) + (c - r) q / h(q)      q = ⌊n/c⌋, r = n - qc
+ *
+ * for n ≤ cN, and μ_full = cN / h(N) once every slot is full. Beyond cN the
+ * chain is geometric with ratio λ / μ_full, so as in Erlang C
+ *
+ *   P(W > 0) = P(n ≥ cN)
+ *   P(W > t) = P(W > 0) × e^{-(μ_full - λ) t}
+ *   ASA      = P(W > 0) / (μ_full - λ)
+ *
+ * With zero overhead this is exactly Erlang C with cN servers. With
+ * overhead, an even spread gives the most throughput, so the model is
+ * slightly optimistic next to least-loaded routing in practice (see the
+ * SimulationEngine chat mode).
+ */
+
+import { calculateFTE } from './erlangC';
+
+export interface ChatSlotInput {
+  volume: number;
+  /** Handle time of a session worked on its own, seconds */
+  aht: number;
+  intervalSeconds: number;
+  agents: number;
+  /** Maximum concurrent sessions per agent */
+  slots: number;
+  /** Extra handle time per additional open session (0.15 = 15%) */
+  sessionOverhead: number;
+  thresholdSeconds: number;
+}
+
+export interface ChatSlotMetrics {
+  /** Agent-Erlangs at full concurrency: λ × h(N) / N */
+  trafficIntensity: number;
+  /** Service level as decimal (0-1) */
+  serviceLevel: number;
+  /** Average Speed of Answer in seconds (Infinity if unstable) */
+  asa: number;
+  /** P(wait > 0) */
+  waitProbability: number;
+  /** Share of full-concurrency capacity used, λ / μ_full (0-1) */
+  occupancy: number;
+  /** Share of slots in use (0-1) */
+  slotOccupancy: number;
+  /** Mean open sessions per agent */
+  averageSessions: number;
+  /** Mean time a session is open, seconds (Little's law) */
+  averageHandleTime: number;
+}
+
+export interface ChatSlotStaffingInput extends Omit<ChatSlotInput, 'agents'> {
+  /** Target service level as decimal (0-1) */
+  targetSL: number;
+  /** Shrinkage as decimal (0-1) */
+  shrinkagePercent: number;
+  /** Maximum occupancy as decimal (0-1), applied to `occupancy` */
+  maxOccupancy: number;
+}
+
+export interface ChatSlotStaffing extends ChatSlotMetrics {
+  requiredAgents: number;
+  totalFTE: number;
+  canAchieveTarget: boolean;
+}
+
+/** Handle time of each session when an agent has `sessions` open. */
+export function sessionHandleTime(aht: number, sessions: number, overhead: number): number {
+  return aht * (1 + (Math.max(1, sessions) - 1) * Math.max(0, overhead));
+}
+
+/** Completions per second of `agents` sharing `sessions` evenly. */
+function completionRate(sessions: number, agents: number, aht: number, overhead: number): number {
+  const perAgent = (k: number): number => (k > 0 ? k / sessionHandleTime(aht, k, overhead) : 0);
+  const q = Math.floor(sessions / agents);
+  const r = sessions - q * agents;
+  return r * perAgent(q + 1) + (agents - r) * perAgent(q);
+}
+
+function isValidInput(input: Omit<ChatSlotInput, 'agents'>): boolean {
+  return input.volume >= 0 && input.aht > 0 && input.intervalSeconds > 0
+    && Number.isInteger(input.slots) && input.slots >= 1
+    && input.sessionOverhead >= 0 && input.thresholdSeconds >= 0;
+}
+
+/**
+ * Service level, ASA and slot use for a fixed number of chat agents.
+ *
+ * @returns null for invalid input (non-integer agents or slots, AHT ≤ 0)
+ *
+ * @example
+ * const m = calculateChatSlotMetrics({
+ *   volume: 120, aht: 600, intervalSeconds: 1800, agents: 20,
+ *   slots: 3, sessionOverhead: 0.15, thresholdSeconds: 60,
+ * });
+ * m?.averageSessions; // open chats per agent
+ */
+export function calculateChatSlotMetrics(input: ChatSlotInput): ChatSlotMetrics | null {
+  const { volume, aht, intervalSeconds, agents, slots, sessionOverhead, thresholdSeconds } = input;
+  if (!isValidInput(input) || !Number.isInteger(agents) || agents < 1) return null;
+
+  const lambda = volume / intervalSeconds;
+  const capacity = agents * slots;
+  const fullRate = completionRate(capacity, agents, aht, sessionOverhead);
+  const trafficIntensity = lambda * sessionHandleTime(aht, slots, sessionOverhead) / slots;
+  const occupancy = lambda / fullRate;
+
+  if (lambda <= 0) {
+    return {
+      trafficIntensity: 0, serviceLevel: 1, asa: 0, waitProbability: 0,
+      occupancy: 0, slotOccupancy: 0, averageSessions: 0, averageHandleTime: aht,
+    };
+  }
+  if (occupancy >= 1) {
+    return {
+      trafficIntensity, serviceLevel: 0, asa: Infinity, waitProbability: 1,
+      occupancy: 1, slotOccupancy: 1, averageSessions: slots, averageHandleTime: sessionHandleTime(aht, slots, sessionOverhead),
+    };
+  }
+
+  // Unnormalised log π_n for n = 0..cN; the tail beyond cN is geometric.
+  const logTerms: number[] = [0];
+  for (let n = 1; n <= capacity; n++) {
+    logTerms.push(logTerms[n - 1]! + Math.log(lambda / completionRate(n, agents, aht, sessionOverhead)));
+  }
+  const maxLog = Math.max(...logTerms);
+  const weights = logTerms.map(l => Math.exp(l - maxLog));
+  const tailWeight = weights[capacity]! / (1 - occupancy);
+  const total = weights.slice(0, capacity).reduce((s, w) => s + w, 0) + tailWeight;
+
+  const waitProbability = tailWeight / total;
+  // Busy slots: n below capacity, cN at or above it.
+  const busySlots = (weights.slice(0, capacity).reduce((s, w, n) => s + n * w, 0) + capacity * tailWeight) / total;
+  const drain = fullRate - lambda;
+
+  return {
+    trafficIntensity,
+    serviceLevel: Math.max(0, Math.min(1, 1 - waitProbability * Math.exp(-drain * thresholdSeconds))),
+    asa: waitProbability / drain,
+    waitProbability,
+    occupancy,
+    slotOccupancy: busySlots / capacity,
+    averageSessions: busySlots / agents,
+    averageHandleTime: busySlots / lambda,
+  };
+}
+
+/**
+ * Fewest chat agents meeting the service-level target and occupancy cap.
+ *
+ * @returns null for invalid input; canAchieveTarget is false when no agent
+ *   count in the search range meets the target
+ */
+export function solveChatSlotAgents(input: ChatSlotStaffingInput): ChatSlotStaffing | null {
+  if (!isValidInput(input) || input.targetSL <= 0 || input.targetSL > 1 || input.maxOccupancy <= 0 || input.maxOccupancy > 1) return null;
+
+  const metricsAt = (agents: number): ChatSlotMetrics => calculateChatSlotMetrics({ ...input, agents })!;
+  const traffic = (input.volume / input.intervalSeconds) * sessionHandleTime(input.aht, input.slots, input.sessionOverhead) / input.slots;
+  const meets = (m: ChatSlotMetrics): boolean => m.serviceLevel >= input.targetSL && m.occupancy <= input.maxOccupancy;
+
+  // Same search window as the Erlang C solver.
+  let low = Math.max(1, Math.ceil(traffic / input.maxOccupancy));
+  const ceiling = Math.max(Math.ceil(traffic * 5), low + 50);
+  let high = ceiling;
+  let found: number | null = null;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (meets(metricsAt(mid))) {
+      found = mid;
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  const requiredAgents = found ?? ceiling;
+  return {
+    ...metricsAt(requiredAgents),
+    requiredAgents,
+    totalFTE: calculateFTE(requiredAgents, input.shrinkagePercent),
+    canAchieveTarget: found !== null,
+  };
+}
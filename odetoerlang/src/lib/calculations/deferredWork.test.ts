@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { buildOpeningMask, calculateDeferredStaffing, type DeferredWorkInput } from './deferredWork';
+
+// 30-minute intervals, open 08:00-18:00 (20 open intervals a day).
+const open = buildOpeningMask(3, 30, 8 * 60, 18 * 60);
+
+// 300 s AHT at 100% occupancy: one agent clears 6 items per interval.
+const baseInput: DeferredWorkInput = {
+  arrivals: open.map(() => 10),
+  open,
+  intervalMinutes: 30,
+  aht: 300,
+  responseBusinessHours: 4,
+  mode: 'day',
+  shrinkagePercent: 30,
+  maxOccupancy: 100,
+};
+
+describe('Deferred work - opening mask', () => {
+  it('opens the expected intervals', () => {
+    const day = buildOpeningMask(1, 30, 8 * 60, 18 * 60);
+    expect(day).toHaveLength(48);
+    expect(day.filter(Boolean)).toHaveLength(20);
+    expect(day[15]).toBe(false);
+    expect(day[16]).toBe(true);
+    expect(day[35]).toBe(true);
+    expect(day[36]).toBe(false);
+  });
+
+  it('closes whole days', () => {
+    expect(buildOpeningMask(2, 60, 0, 1440, [1]).slice(24).some(Boolean)).toBe(false);
+  });
+});
+
+describe('Deferred work - staffing', () => {
+  it('meets every deadline in day mode', () => {
+    const result = calculateDeferredStaffing(baseInput)!;
+    expect(result.canAchieveTarget).toBe(true);
+    expect(result.intervals.every(i => i.overdue === 0)).toBe(true);
+  });
+
+  it('day mode uses the smallest flat count', () => {
+    const day = buildOpeningMask(1, 30, 8 * 60, 18 * 60);
+    const input = { ...baseInput, arrivals: day.map(() => 10), open: day };
+    const flat = calculateDeferredStaffing(input)!.dailyAgents[0]!;
+
+    // Brute-force FIFO with one agent fewer: some item misses its deadline.
+    const itemsPerAgent = 6;
+    const window = 8; // 4 business hours of 30-minute intervals
+    const openIndices = day.flatMap((isOpen, i) => (isOpen ? [i] : []));
+    const queue: { due: number; left: number }[] = [];
+    let breached = false;
+    day.forEach((isOpen, t) => {
+      const first = openIndices.findIndex(i => i >= t);
+      const due = first < 0 ? Infinity : openIndices[first + window - 1] ?? Infinity;
+      queue.push({ due, left: 10 });
+      let capacity = isOpen ? (flat - 1) * itemsPerAgent : 0;
+      while (capacity > 0 && queue.length > 0) {
+        const take = Math.min(capacity, queue[0]!.left);
+        queue[0]!.left -= take;
+        capacity -= take;
+        if (queue[0]!.left <= 0) queue.shift();
+      }
+      if (queue.some(c => c.due <= t)) breached = true;
+    });
+    expect(breached).toBe(true);
+  });
+
+  it('clears the overnight backlog within the response window', () => {
+    const result = calculateDeferredStaffing(baseInput)!;
+    // Work received 18:00-08:00 is due 4 business hours after opening.
+    const dayTwoOpen = 48 + 16;
+    const dueBy = dayTwoOpen + 7;
+    const overnight = result.intervals[dueBy]!;
+    expect(overnight.overdue).toBe(0);
+    expect(result.intervals[dayTwoOpen - 1]!.backlog).toBeGreaterThan(0);
+  });
+
+  it('interval mode meets every deadline', () => {
+    const result = calculateDeferredStaffing({ ...baseInput, mode: 'interval' })!;
+    expect(result.canAchieveTarget).toBe(true);
+    expect(result.intervals.filter(i => !i.open).every(i => i.agents === 0)).toBe(true);
+  });
+
+  it('interval mode front-loads agents after the overnight backlog', () => {
+    const result = calculateDeferredStaffing({ ...baseInput, mode: 'interval' })!;
+    const opening = result.intervals[48 + 16]!.agents;
+    const afternoon = result.intervals[48 + 30]!.agents;
+    expect(opening).toBeGreaterThanOrEqual(afternoon);
+  });
+
+  it('a longer response window needs no more agents', () => {
+    const fast = calculateDeferredStaffing({ ...baseInput, responseBusinessHours: 2 })!;
+    const slow = calculateDeferredStaffing({ ...baseInput, responseBusinessHours: 8 })!;
+    expect(slow.dailyAgents[2]!).toBeLessThanOrEqual(fast.dailyAgents[2]!);
+    expect(slow.averageResponseBusinessHours).toBeGreaterThanOrEqual(fast.averageResponseBusinessHours);
+  });
+
+  it('grosses the peak up for shrinkage', () => {
+    const result = calculateDeferredStaffing(baseInput)!;
+    expect(result.peakFTE).toBeCloseTo(result.peakAgents / 0.7, 8);
+  });
+
+  it('returns null for invalid input', () => {
+    expect(calculateDeferredStaffing({ ...baseInput, open: open.slice(1) })).toBeNull();
+    expect(calculateDeferredStaffing({ ...baseInput, aht: 0 })).toBeNull();
+    expect(calculateDeferredStaffing({ ...baseInput, responseBusinessHours: 0 })).toBeNull();
+    expect(calculateDeferredStaffing({ ...baseInput, shrinkagePercent: 100 })).toBeNull();
+  });
+});
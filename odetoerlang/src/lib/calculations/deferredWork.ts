@@ -0,0 +1,297 @@
+/**
+ * Deferred-work (backlog) staffing.
+ *
+ * Email, case management and back-office work is not a queue in the Erlang
+ * sense: nobody hangs up, and the target is "respond within N business
+ * hours" rather than "answer within 20 seconds". Staffing it with Erlang C
+ * and a one-hour threshold ignores the fact that work arriving overnight is
+ * simply worked off the next morning.
+ *
+ * This planner simulates the backlog interval by interval:
+ *
+ * - Items arrive in every interval, open or closed.
+ * - Each item is due by the end of the K-th open interval counted from its
+ *   arrival interval (inclusive when open), K = N × 60 / intervalMinutes.
+ *   The business-hours clock only runs while the centre is open.
+ * - Open intervals clear work first-in-first-out. Deadlines are monotone in
+ *   arrival time, so FIFO is also earliest-deadline-first.
+ * - Each agent clears intervalSeconds × maxOccupancy / AHT items per interval.
+ *
+ * Two staffing policies:
+ *
+ * - 'interval': each open interval is staffed with the smallest flat agent
+ *   count that, held from now on, would clear every item already received
+ *   by its deadline:
+ *     agents_t = ⌈ max_{u ≥ t} Work(due ≤ u) / (Open(t..u) × capacity) ⌉
+ * - 'day': one flat agent count per day, the smallest that meets every
+ *   deadline falling within that day. Backlog not yet due carries over.
+ */
+
+import { DEFAULT_MAX_OCCUPANCY_PERCENT } from '../../utils/constants';
+import { calculateFTE } from './erlangC';
+
+export type DeferredStaffingMode = 'interval' | 'day';
+
+export interface DeferredWorkInput {
+  /** Items received per interval, across one or more consecutive days */
+  arrivals: number[];
+  /** Whether the centre is working each interval (same length as arrivals) */
+  open: boolean[];
+  intervalMinutes: number;
+  /** Average handle time per item, seconds */
+  aht: number;
+  /** Target: respond within this many business (open) hours */
+  responseBusinessHours: number;
+  mode: DeferredStaffingMode;
+  shrinkagePercent: number;
+  /** Maximum occupancy percentage (default: DEFAULT_MAX_OCCUPANCY_PERCENT) */
+  maxOccupancy?: number | undefined;
+}
+
+export interface DeferredIntervalResult {
+  index: number;
+  open: boolean;
+  arrivals: number;
+  agents: number;
+  handled: number;
+  /** Items waiting at the end of the interval */
+  backlog: number;
+  /** Items past their deadline at the end of the interval */
+  overdue: number;
+}
+
+export interface DeferredWorkResult {
+  intervals: DeferredIntervalResult[];
+  /** Flat agent count per day ('day' mode), otherwise the daily peak */
+  dailyAgents: number[];
+  peakAgents: number;
+  /** Σ agents × interval hours */
+  agentHours: number;
+  /** Peak agents grossed up for shrinkage */
+  peakFTE: number;
+  /** Mean business hours from arrival to handling, over handled items */
+  averageResponseBusinessHours: number;
+  /** Items still waiting (not yet due) after the last interval */
+  endingBacklog: number;
+  /** True when every deadline inside the horizon is met */
+  canAchieveTarget: boolean;
+}
+
+interface Cohort {
+  /** Open-interval ordinal at arrival (business clock) */
+  arrivalClock: number;
+  /** Interval index by whose end the cohort must be cleared */
+  deadline: number;
+  remaining: number;
+}
+
+// Work below this is treated as cleared (floating-point residue).
+const EPSILON_ITEMS = 1e-9;
+
+/**
+ * Opening-hours mask for whole days of intervals.
+ *
+ * @param days - Number of days
+ * @param intervalMinutes - Interval length
+ * @param openMinute - Opening time, minutes after midnight
+ * @param closeMinute - Closing time, minutes after midnight
+ * @param closedDays - Day indices (0-based) that are closed all day
+ */
+export function buildOpeningMask(
+  days: number,
+  intervalMinutes: number,
+  openMinute: number,
+  closeMinute: number,
+  closedDays: number[] = []
+): boolean[] {
+  const perDay = Math.round(1440 / intervalMinutes);
+  const mask: boolean[] = [];
+  for (let d = 0; d < days; d++) {
+    for (let i = 0; i < perDay; i++) {
+      const start = i * intervalMinutes;
+      mask.push(!closedDays.includes(d) && start >= openMinute && start + intervalMinutes <= closeMinute);
+    }
+  }
+  return mask;
+}
+
+/**
+ * Deadline interval for items arriving at each index. Infinity when the
+ * horizon ends before K open intervals have elapsed.
+ */
+function resolveDeadlines(open: boolean[], openIntervalsAllowed: number): number[] {
+  const openIndices: number[] = [];
+  open.forEach((isOpen, i) => { if (isOpen) openIndices.push(i); });
+
+  const deadlines: number[] = [];
+  let nextOpen = 0; // position in openIndices of the first open interval ≥ i
+  for (let i = 0; i < open.length; i++) {
+    while (nextOpen < openIndices.length && openIndices[nextOpen]! < i) nextOpen++;
+    const target = openIndices[nextOpen + openIntervalsAllowed - 1];
+    deadlines.push(target ?? Infinity);
+  }
+  return deadlines;
+}
+
+/**
+ * Plan staffing for deferred work.
+ *
+ * @returns null for invalid input (length mismatch, non-positive AHT,
+ *   interval or response target)
+ *
+ * @example
+ * const open = buildOpeningMask(5, 30, 8 * 60, 18 * 60);
+ * const plan = calculateDeferredStaffing({
+ *   arrivals: open.map(() => 20), open, intervalMinutes: 30, aht: 300,
+ *   responseBusinessHours: 4, mode: 'day', shrinkagePercent: 30,
+ * });
+ * plan?.dailyAgents; // flat agents per day
+ */
+export function calculateDeferredStaffing(input: DeferredWorkInput): DeferredWorkResult | null {
+  const { arrivals, open, intervalMinutes, aht, responseBusinessHours, mode } = input;
+  const maxOccupancy = (input.maxOccupancy ?? DEFAULT_MAX_OCCUPANCY_PERCENT) / 100;
+  if (arrivals.length !== open.length || aht <= 0 || intervalMinutes <= 0 || responseBusinessHours <= 0) return null;
+  if (maxOccupancy <= 0 || maxOccupancy > 1 || input.shrinkagePercent < 0 || input.shrinkagePercent >= 100) return null;
+  if (arrivals.some(a => a < 0)) return null;
+
+  const intervalHours = intervalMinutes / 60;
+  const itemsPerAgent = (intervalMinutes * 60 * maxOccupancy) / aht;
+  const openIntervalsAllowed = Math.max(1, Math.floor(responseBusinessHours / intervalHours + EPSILON_ITEMS));
+  const deadlines = resolveDeadlines(open, openIntervalsAllowed);
+  const perDay = Math.round(1440 / intervalMinutes);
+
+  // Open intervals up to and including each index (the business clock).
+  const openThrough: number[] = [];
+  let openCount = 0;
+  for (const isOpen of open) {
+    if (isOpen) openCount++;
+    openThrough.push(openCount);
+  }
+
+  const agentsByInterval = new Array<number>(arrivals.length).fill(0);
+  if (mode === 'day') {
+    for (let start = 0; start < arrivals.length; start += perDay) {
+      const end = Math.min(arrivals.length, start + perDay);
+      const flat = solveFlatAgents(arrivals, open, deadlines, start, end, itemsPerAgent, agentsByInterval);
+      for (let i = start; i < end; i++) agentsByInterval[i] = open[i] ? flat : 0;
+    }
+  }
+
+  const queue: Cohort[] = [];
+  const intervals: DeferredIntervalResult[] = [];
+  let handledTotal = 0;
+  let responseSum = 0;
+  let breached = false;
+
+  for (let t = 0; t < arrivals.length; t++) {
+    const arriving = arrivals[t] ?? 0;
+    if (arriving > 0) {
+      // Business clock starts at the first open interval at or after arrival.
+      const clock = open[t] ? openThrough[t]! - 1 : openThrough[t]!;
+      queue.push({ arrivalClock: clock, deadline: deadlines[t]!, remaining: arriving });
+    }
+
+    if (mode === 'interval' && open[t]) {
+      agentsByInterval[t] = levelAgents(queue, openThrough, t, itemsPerAgent);
+    }
+    const agents = open[t] ? agentsByInterval[t]! : 0;
+
+    let capacity = agents * itemsPerAgent;
+    let handled = 0;
+    while (capacity > EPSILON_ITEMS && queue.length > 0) {
+      const head = queue[0]!;
+      const take = Math.min(capacity, head.remaining);
+      head.remaining -= take;
+      capacity -= take;
+      handled += take;
+      // Handled mid-interval on average.
+      responseSum += take * (openThrough[t]! - head.arrivalClock - 0.5) * intervalHours;
+      if (head.remaining <= EPSILON_ITEMS) queue.shift();
+    }
+    handledTotal += handled;
+
+    const backlog = queue.reduce((sum, c) => sum + c.remaining, 0);
+    const overdue = queue.reduce((sum, c) => sum + (c.deadline <= t ? c.remaining : 0), 0);
+    if (overdue > EPSILON_ITEMS) breached = true;
+
+    intervals.push({ index: t, open: open[t] ?? false, arrivals: arriving, agents, handled, backlog, overdue });
+  }
+
+  const dailyAgents: number[] = [];
+  for (let start = 0; start < arrivals.length; start += perDay) {
+    dailyAgents.push(Math.max(0, ...agentsByInterval.slice(start, start + perDay)));
+  }
+  const peakAgents = Math.max(0, ...agentsByInterval);
+
+  return {
+    intervals,
+    dailyAgents,
+    peakAgents,
+    agentHours: agentsByInterval.reduce((sum, a) => sum + a * intervalHours, 0),
+    peakFTE: calculateFTE(peakAgents, input.shrinkagePercent / 100),
+    averageResponseBusinessHours: handledTotal > 0 ? responseSum / handledTotal : 0,
+    endingBacklog: queue.reduce((sum, c) => sum + c.remaining, 0),
+    canAchieveTarget: !breached,
+  };
+}
+
+/**
+ * Smallest flat agent count from interval t onward that clears every queued
+ * cohort by its deadline.
+ */
+function levelAgents(queue: Cohort[], openThrough: number[], t: number, itemsPerAgent: number): number {
+  const openBefore = t > 0 ? openThrough[t - 1]! : 0;
+  let required = 0;
+  let cumulativeWork = 0;
+  for (const cohort of queue) {
+    cumulativeWork += cohort.remaining;
+    if (!Number.isFinite(cohort.deadline)) continue;
+    const openIntervals = cohort.deadline >= t ? openThrough[cohort.deadline]! - openBefore : 0;
+    if (openIntervals === 0) continue; // already overdue; cannot be rescued
+    required = Math.max(required, cumulativeWork / (openIntervals * itemsPerAgent));
+  }
+  return Math.ceil(required - EPSILON_ITEMS);
+}
+
+/**
+ * Smallest flat agent count for [start, end) that meets every deadline inside
+ * the day, given the staffing already fixed for earlier days.
+ */
+function solveFlatAgents(
+  arrivals: number[],
+  open: boolean[],
+  deadlines: number[],
+  start: number,
+  end: number,
+  itemsPerAgent: number,
+  fixedAgents: number[]
+): number {
+  const meetsDay = (flat: number): boolean => {
+    const queue: { deadline: number; remaining: number }[] = [];
+    for (let t = 0; t < end; t++) {
+      if ((arrivals[t] ?? 0) > 0) queue.push({ deadline: deadlines[t]!, remaining: arrivals[t]! });
+      const agents = open[t] ? (t >= start ? flat : fixedAgents[t]!) : 0;
+      let capacity = agents * itemsPerAgent;
+      while (capacity > EPSILON_ITEMS && queue.length > 0) {
+        const head = queue[0]!;
+        const take = Math.min(capacity, head.remaining);
+        head.remaining -= take;
+        capacity -= take;
+        if (head.remaining <= EPSILON_ITEMS) queue.shift();
+      }
+      // Only this day's deadlines decide this day's staffing.
+      if (t >= start && queue.some(c => c.deadline >= start && c.deadline <= t && c.remaining > EPSILON_ITEMS)) return false;
+    }
+    return true;
+  };
+
+  const workToDate = arrivals.slice(0, end).reduce((sum, a) => sum + a, 0);
+  let high = Math.max(1, Math.ceil(workToDate / itemsPerAgent));
+  let low = 0;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (meetsDay(mid)) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
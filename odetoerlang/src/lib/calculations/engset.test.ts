@@ -0,0 +1,140 @@
+import { describe, test, expect } from 'vitest'
+import {
+  sourceTraffic,
+  engsetBlocking,
+  engsetCarriedTraffic,
+  calculateRequiredLinesEngset,
+  calculateEngsetDelayPerformance,
+  solveAgentsEngsetDelay,
+} from './engset'
+import { calculateErlangB } from './erlangB'
+import { calculateServiceLevel, calculateASA, solveAgents } from './erlangC'
+import { calculateStaffing, calculateAchievableMetrics, normalizeModel, type ErlangEngineInput } from './erlangEngine'
+
+/**
+ * Engset Test Suite
+ *
+ * Small populations are checked against hand-solved chains; large populations
+ * must converge to Erlang B / Erlang C.
+ */
+
+const AHT = 240
+
+describe('Engset - blocking', () => {
+  test('two sources and one line match the hand-solved chain', () => {
+    // An arrival sees the other source: blocked with probability α / (1 + α).
+    expect(engsetBlocking(1, 2, 0.5)).toBeCloseTo(0.5 / 1.5, 12)
+  })
+
+  test('no blocking once every other source has a line', () => {
+    expect(engsetBlocking(10, 10, 2)).toBe(0)
+    expect(engsetBlocking(9, 10, 2)).toBeGreaterThan(0)
+  })
+
+  test('converges to Erlang B for a large population', () => {
+    const N = 100000
+    expect(engsetBlocking(12, N, sourceTraffic(10, N))).toBeCloseTo(calculateErlangB(10, 12), 3)
+  })
+
+  test('finite population blocks less than Erlang B', () => {
+    expect(engsetBlocking(12, 40, sourceTraffic(10, 40))).toBeLessThan(calculateErlangB(10, 12))
+  })
+
+  test('required lines meet the blocking target', () => {
+    const alpha = sourceTraffic(10, 60)
+    const lines = calculateRequiredLinesEngset(60, alpha, 0.01)
+    expect(engsetBlocking(lines, 60, alpha)).toBeLessThanOrEqual(0.01)
+    expect(engsetBlocking(lines - 1, 60, alpha)).toBeGreaterThan(0.01)
+  })
+
+  test('carried traffic is below offered and bounded by lines', () => {
+    const carried = engsetCarriedTraffic(8, 40, sourceTraffic(10, 40))
+    expect(carried).toBeLessThan(8)
+    expect(carried).toBeLessThan(10)
+  })
+})
+
+describe('Engset - delay', () => {
+  test('two sources and one agent match the hand-solved chain', () => {
+    const alpha = 0.5
+    const perf = calculateEngsetDelayPerformance(1, 2, alpha, AHT, 20)
+    const pWait = alpha / (1 + alpha)
+    expect(perf.probabilityOfWaiting).toBeCloseTo(pWait, 12)
+    expect(perf.asa).toBeCloseTo(pWait * AHT, 10)
+    expect(perf.serviceLevel).toBeCloseTo(1 - pWait * Math.exp(-20 / AHT), 12)
+  })
+
+  test('converges to Erlang C for a large population', () => {
+    const N = 50000
+    const perf = calculateEngsetDelayPerformance(14, N, sourceTraffic(10, N), AHT, 20)
+    expect(perf.serviceLevel).toBeCloseTo(calculateServiceLevel(14, 10, AHT, 20), 3)
+    expect(perf.asa).toBeCloseTo(calculateASA(14, 10, AHT), 0)
+  })
+
+  test('a small population needs fewer agents than Erlang C', () => {
+    const N = 40
+    const engset = solveAgentsEngsetDelay(N, sourceTraffic(10, N), AHT, 0.8, 20, 0.95)!
+    expect(engset).toBeLessThan(solveAgents(10, AHT, 0.8, 20, 0.95)!)
+  })
+
+  test('stays stable even when offered traffic exceeds the agents', () => {
+    const perf = calculateEngsetDelayPerformance(5, 20, sourceTraffic(10, 20), AHT, 20)
+    expect(Number.isFinite(perf.asa)).toBe(true)
+    expect(perf.carriedTraffic).toBeLessThanOrEqual(5)
+  })
+
+  test('never needs more agents than sources', () => {
+    expect(solveAgentsEngsetDelay(3, 5, AHT, 0.99, 1, 1)).toBeLessThanOrEqual(3)
+  })
+
+  test('cannot target abandonment', () => {
+    expect(solveAgentsEngsetDelay(40, 0.25, AHT, 0.8, 20, 0.9, { type: 'abandonRate', maxAbandonRate: 0.05 })).toBeNull()
+  })
+})
+
+describe('Engset - engine', () => {
+  const baseInput: ErlangEngineInput = {
+    model: 'EC',
+    workload: { volume: 75, aht: AHT, intervalMinutes: 30 },
+    constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 95, population: 40 },
+    behavior: { shrinkagePercent: 25 },
+  }
+
+  test('normalizeModel recognises Engset names', () => {
+    expect(normalizeModel('EB')).toBe('EB')
+    expect(normalizeModel('engset')).toBe('EB')
+    expect(normalizeModel('EC')).toBe('EC')
+    expect(normalizeModel('engsetC')).toBe('EC')
+  })
+
+  test('requires a whole-number population', () => {
+    expect(calculateStaffing({ ...baseInput, constraints: { ...baseInput.constraints, population: undefined } })).toBeNull()
+    expect(calculateStaffing({ ...baseInput, constraints: { ...baseInput.constraints, population: 40.5 } })).toBeNull()
+  })
+
+  test('Engset C staffs below Erlang C for a small population', () => {
+    const engset = calculateStaffing(baseInput)!
+    const erlang = calculateStaffing({ ...baseInput, model: 'C' })!
+    expect(engset.model).toBe('EC')
+    expect(engset.canAchieveTarget).toBe(true)
+    expect(engset.requiredAgents).toBeLessThan(erlang.requiredAgents)
+  })
+
+  test('Engset B reports blocking like Erlang B', () => {
+    const result = calculateStaffing({ ...baseInput, model: 'EB', constraints: { ...baseInput.constraints, targetSLPercent: 99 } })!
+    expect(result.blockingProbability).toBeLessThanOrEqual(0.01)
+    expect(result.asa).toBe(0)
+  })
+
+  test('achievable metrics match the delay model', () => {
+    const result = calculateAchievableMetrics({
+      model: 'EC',
+      fixedAgents: 12,
+      workload: baseInput.workload,
+      constraints: { thresholdSeconds: 20, maxOccupancy: 95, population: 40 },
+      behavior: baseInput.behavior,
+    })!
+    const perf = calculateEngsetDelayPerformance(12, 40, sourceTraffic(10, 40), AHT, 20)
+    expect(result.serviceLevel).toBeCloseTo(perf.serviceLevel * 100, 8)
+  })
+})
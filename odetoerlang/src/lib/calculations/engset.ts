@@ -0,0 +1,245 @@
+/**
+ * Engset Finite-Source Models
+ *
+ * Erlang B and C assume an infinite pool of callers: the arrival rate is the
+ * same however many contacts are already in the system. For a small, known
+ * population (an internal helpdesk serving 400 employees) that overstates the
+ * load at peak - a user who is already waiting or being helped cannot raise
+ * another ticket.
+ *
+ * Each of the N sources, while it has no contact in the system, generates
+ * contacts at rate γ. We calibrate γ from the interval volume as if every
+ * source were idle:
+ *
+ *   α = γ × AHT = A / N          (offered traffic per idle source)
+ *
+ * so the same volume and AHT feed both the Erlang and the Engset models. With
+ * n sources in the system the arrival rate is (N - n)γ.
+ *
+ * Engset blocking (M/M/c/c/N, finite-source Erlang B):
+ *   p_k ∝ C(N, k) × α^k,  k = 0..c
+ * An arriving contact sees the system as if it were one source smaller, so
+ * the blocking probability (call congestion) is the time congestion of a
+ * population of N - 1:
+ *   B(0) = 1,  B(k) = (N - k)α B(k-1) / (k + (N - k)α B(k-1))
+ *
+ * Engset delay (M/M/c//N, finite-source Erlang C, "machine repair"):
+ *   p_n ∝ Π_{j=1..n} (N - j + 1)α / min(j, c),  n = 0..N
+ * An arrival sees π*_n ∝ (N - n) p_n. Finding n ≥ c in the system it waits
+ * for n - c + 1 completions at rate c/AHT, i.e. an Erlang(n - c + 1, c/AHT)
+ * time, so SL and ASA are exact:
+ *   P(W > t) = Σ_{n≥c} π*_n × Σ_{j=0}^{n-c} e^(-x) x^j / j!,  x = c t / AHT
+ *   ASA      = Σ_{n≥c} π*_n × (n - c + 1) × AHT / c
+ *
+ * As N → ∞ with A fixed both models converge to Erlang B and Erlang C.
+ * Reference: Engset, T.O. (1918) - "Die Wahrscheinlichkeitsrechnung zur
+ * Bestimmung der Wählerzahl in automatischen Fernsprechämtern".
+ */
+
+import type { ServiceTarget } from '../../types';
+
+/**
+ * Steady-state performance of an Engset delay queue for a fixed agent count.
+ */
+export interface EngsetDelayPerformance {
+  serviceLevel: number;         // P(answered within threshold), 0-1
+  asa: number;                  // Mean wait over all contacts, seconds
+  probabilityOfWaiting: number; // P(arrival finds all agents busy), 0-1
+  carriedTraffic: number;       // Mean busy agents, Erlangs
+  /** Contacts actually raised per second once busy sources are excluded */
+  effectiveArrivalRate: number;
+}
+
+/**
+ * Offered traffic per idle source, α = A / N.
+ *
+ * @param trafficIntensity - Offered traffic in Erlangs (volume × AHT / interval)
+ * @param population - Number of sources N
+ */
+export function sourceTraffic(trafficIntensity: number, population: number): number {
+  if (population <= 0) return 0;
+  return Math.max(0, trafficIntensity) / population;
+}
+
+/**
+ * Engset blocking probability (call congestion) for a fixed number of lines.
+ *
+ * @param lines - Number of servers/lines c
+ * @param population - Number of sources N
+ * @param alpha - Offered traffic per idle source (see `sourceTraffic`)
+ * @returns Probability an arriving contact is blocked (0-1)
+ */
+export function engsetBlocking(lines: number, population: number, alpha: number): number {
+  if (alpha <= 0) return 0;
+  if (lines <= 0) return 1;
+  // Every other source is already being served; no contact can arrive blocked.
+  if (lines >= population) return 0;
+
+  let blocking = 1.0;
+  for (let k = 1; k <= lines; k++) {
+    const r = (population - k) * alpha * blocking;
+    blocking = r / (k + r);
+  }
+  return blocking;
+}
+
+/**
+ * Carried traffic (mean busy lines) of an Engset loss system.
+ */
+export function engsetCarriedTraffic(lines: number, population: number, alpha: number): number {
+  if (alpha <= 0 || lines <= 0) return 0;
+  const c = Math.min(lines, population);
+
+  // p_k ∝ C(N, k) α^k, in log-space to avoid overflow for large N.
+  const logP: number[] = [0];
+  for (let k = 1; k <= c; k++) {
+    logP.push(logP[k - 1]! + Math.log((population - k + 1) * alpha / k));
+  }
+  const maxLog = Math.max(...logP);
+  const weights = logP.map(l => Math.exp(l - maxLog));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.reduce((sum, w, k) => sum + k * w, 0) / total;
+}
+
+/**
+ * Solve for the minimum lines that keep Engset blocking at or below target.
+ *
+ * @returns Lines required (never more than the population)
+ */
+export function calculateRequiredLinesEngset(population: number, alpha: number, targetBlocking: number): number {
+  if (alpha <= 0) return 0;
+  // Same recursion as engsetBlocking, stopping at the first c that meets target.
+  let blocking = 1.0;
+  for (let k = 1; k < population; k++) {
+    const r = (population - k) * alpha * blocking;
+    blocking = r / (k + r);
+    if (blocking <= targetBlocking) return k;
+  }
+  return population;
+}
+
+/**
+ * Stationary distribution of the number of sources in system (0..N).
+ */
+function delayStateProbabilities(agents: number, population: number, alpha: number): number[] {
+  const logP: number[] = [0];
+  let maxLog = 0;
+  for (let n = 1; n <= population; n++) {
+    const next = logP[n - 1]! + Math.log((population - n + 1) * alpha / Math.min(n, agents));
+    logP.push(next);
+    if (next > maxLog) maxLog = next;
+  }
+  const weights = logP.map(l => Math.exp(l - maxLog));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => w / total);
+}
+
+/**
+ * Calculate Engset delay (finite-source queue) performance.
+ *
+ * @param agents - Number of agents c
+ * @param population - Number of sources N
+ * @param alpha - Offered traffic per idle source (see `sourceTraffic`)
+ * @param aht - Average Handle Time in seconds
+ * @param thresholdSeconds - Service level threshold in seconds
+ */
+export function calculateEngsetDelayPerformance(
+  agents: number,
+  population: number,
+  alpha: number,
+  aht: number,
+  thresholdSeconds: number
+): EngsetDelayPerformance {
+  if (alpha <= 0 || population <= 0 || aht <= 0) {
+    return { serviceLevel: 1, asa: 0, probabilityOfWaiting: 0, carriedTraffic: 0, effectiveArrivalRate: 0 };
+  }
+  if (agents <= 0) {
+    return { serviceLevel: 0, asa: Infinity, probabilityOfWaiting: 1, carriedTraffic: 0, effectiveArrivalRate: 0 };
+  }
+
+  const c = Math.min(agents, population);
+  const p = delayStateProbabilities(c, population, alpha);
+
+  let carriedTraffic = 0;
+  let idleSources = 0;
+  for (let n = 0; n <= population; n++) {
+    carriedTraffic += Math.min(n, c) * p[n]!;
+    idleSources += (population - n) * p[n]!;
+  }
+
+  // Arrival-epoch distribution π*_n ∝ (N - n) p_n.
+  const serviceRate = c / aht;
+  const x = serviceRate * thresholdSeconds;
+  const logX = Math.log(x);
+  let probabilityOfWaiting = 0;
+  let waitExceeds = 0;
+  let asa = 0;
+  // Running Erlang tail Σ_{j=0}^{k-1} e^(-x) x^j / j! for k = n - c + 1.
+  let logTerm = -x;
+  let tail = 0;
+  for (let n = c; n < population; n++) {
+    const k = n - c + 1;
+    if (k > 1) logTerm += logX - Math.log(k - 1);
+    tail += x > 0 ? Math.exp(logTerm) : (k === 1 ? 1 : 0);
+
+    const arrival = (population - n) * p[n]! / idleSources;
+    probabilityOfWaiting += arrival;
+    waitExceeds += arrival * Math.min(1, tail);
+    asa += arrival * k / serviceRate;
+  }
+
+  return {
+    serviceLevel: Math.max(0, Math.min(1, 1 - waitExceeds)),
+    asa,
+    probabilityOfWaiting,
+    carriedTraffic,
+    effectiveArrivalRate: idleSources * alpha / aht,
+  };
+}
+
+/**
+ * Solve for minimum agents to meet a target in an Engset delay queue.
+ * Never returns more agents than sources: with c = N nobody waits.
+ *
+ * @param target - Target to search against (default: service level). An
+ *   abandonment target returns null; the model has no abandonment.
+ * @returns Minimum number of agents, or null if the occupancy cap cannot be met
+ */
+export function solveAgentsEngsetDelay(
+  population: number,
+  alpha: number,
+  aht: number,
+  targetSL: number,
+  thresholdSeconds: number,
+  maxOccupancy: number = 0.90,
+  target: ServiceTarget = { type: 'serviceLevel' }
+): number | null {
+  if (target.type === 'abandonRate') return null;
+  if (alpha <= 0 || aht <= 0 || population <= 0) return 0;
+
+  const meetsTarget = (agents: number): boolean => {
+    const perf = calculateEngsetDelayPerformance(agents, population, alpha, aht, thresholdSeconds);
+    if (perf.carriedTraffic / agents > maxOccupancy) return false;
+    return target.type === 'asa'
+      ? perf.asa <= target.maxASASeconds
+      : perf.serviceLevel >= targetSL;
+  };
+
+  // Binary search — SL rises and occupancy falls with agents.
+  let left = 1;
+  let right = population;
+  let result: number | null = null;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+
+    if (meetsTarget(mid)) {
+      result = mid;
+      right = mid - 1;
+    } else {
+      left = mid + 1;
+    }
+  }
+
+  return result;
+}
@@ -25,6 +25,7 @@
  * where E_C = Erlang C probability, A = traffic intensity, c = agents, θ = 1/patience
  */
 
+import type { ServiceTarget } from '../../types';
 import { erlangC } from './erlangC';
 
 /**
@@ -203,6 +204,7 @@ export function calculateASAWithAbandonment(
  * @param thresholdSeconds - Service level threshold in seconds
  * @param maxOccupancy - Maximum allowed occupancy (0-1)
  * @param averagePatience - Average customer patience in seconds
+ * @param target - Target to search against (default: service level)
  * @returns Required number of agents, or null if cannot achieve
  */
 export function solveAgentsErlangA(
@@ -211,7 +213,8 @@ export function solveAgentsErlangA(
   targetSL: number,
   thresholdSeconds: number,
   maxOccupancy: number,
-  averagePatience: number
+  averagePatience: number,
+  target: ServiceTarget = { type: 'serviceLevel' }
 ): number | null {
   // Zero traffic = no agents needed
   if (trafficIntensity <= 0 || aht <= 0) {
@@ -241,15 +244,7 @@ export function solveAgentsErlangA(
       continue;
     }
 
-    const sl = calculateServiceLevelWithAbandonment(
-      mid,
-      trafficIntensity,
-      aht,
-      thresholdSeconds,
-      averagePatience
-    );
-
-    if (sl >= targetSL) {
+    if (meetsTargetErlangA(mid, trafficIntensity, aht, targetSL, thresholdSeconds, averagePatience, target)) {
       result = mid; // Found a valid solution, but try to find smaller
       right = mid - 1;
     } else {
@@ -260,6 +255,31 @@ export function solveAgentsErlangA(
   return result;
 }
 
+/**
+ * Check whether an agent count meets the selected target under Erlang A.
+ * Abandonment, ASA and SL are all monotone in agents, so this is safe to
+ * binary-search on.
+ */
+function meetsTargetErlangA(
+  agents: number,
+  trafficIntensity: number,
+  aht: number,
+  targetSL: number,
+  thresholdSeconds: number,
+  averagePatience: number,
+  target: ServiceTarget
+): boolean {
+  switch (target.type) {
+    case 'asa':
+      return calculateASAWithAbandonment(agents, trafficIntensity, aht, averagePatience) <= target.maxASASeconds;
+    case 'abandonRate':
+      return calculateAbandonmentProbability(agents, trafficIntensity, averagePatience / aht) <= target.maxAbandonRate;
+    case 'serviceLevel':
+    case 'waitPercentile':
+      return calculateServiceLevelWithAbandonment(agents, trafficIntensity, aht, thresholdSeconds, averagePatience) >= targetSL;
+  }
+}
+
 /**
  * Complete staffing metrics result from Erlang A calculation (with abandonment)
  */
@@ -290,6 +310,7 @@ export interface ErlangAMetrics {
  * @param params.shrinkagePercent - Shrinkage as percentage (0-100, e.g., 25)
  * @param params.maxOccupancy - Maximum occupancy as percentage (0-100, e.g., 90)
  * @param params.averagePatience - Average customer patience in seconds before abandoning
+ * @param params.target - Target to solve against (default: service level)
  * @returns ErlangAMetrics with agents, abandonment rate, and theta parameter, or null if target unachievable
  *
  * @example
@@ -314,6 +335,7 @@ export function calculateErlangAMetrics(params: {
   shrinkagePercent: number;
   maxOccupancy: number;
   averagePatience: number;
+  target?: ServiceTarget | undefined;
 }): ErlangAMetrics | null {
   const intervalSeconds = params.intervalMinutes * 60;
   const trafficIntensity = (params.volume * params.aht) / intervalSeconds;
@@ -339,7 +361,8 @@ export function calculateErlangAMetrics(params: {
     params.targetSLPercent / 100,
     params.thresholdSeconds,
     params.maxOccupancy / 100,
-    params.averagePatience
+    params.averagePatience,
+    params.target
   );
 
   if (requiredAgents === null) {
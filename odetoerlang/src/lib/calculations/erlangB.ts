@@ -1,5 +1,8 @@
+import { erlangB } from './erlangC';
+
 /**
  * Calculates the Erlang B probability of blocking (GoS).
+ * Delegates to `erlangB`, which stays stable for thousands of lines.
  *
  * @param traffic The offered traffic load in Erlangs (A).
  * @param lines The number of lines/circuits/agents (N).
@@ -7,12 +10,7 @@
  */
 export function calculateErlangB(traffic: number, lines: number): number {
   if (traffic < 0 || lines < 0) return 0;
-  
-  let invB = 1.0;
-  for (let k = 1; k <= lines; k++) {
-    invB = 1.0 + (k / traffic) * invB;
-  }
-  return 1.0 / invB;
+  return erlangB(lines, traffic);
 }
 
 /**
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { calculateStaffingBatch, StaffingCache, type BatchStaffingInput } from './erlangBatch';
+import { calculateStaffing } from './erlangEngine';
+
+const shared: Omit<BatchStaffingInput, 'intervals'> = {
+  model: 'C',
+  intervalMinutes: 30,
+  constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 90 },
+  behavior: { shrinkagePercent: 25 },
+};
+
+describe('calculateStaffingBatch', () => {
+  it('matches single-interval calculateStaffing for every row', () => {
+    const intervals = [{ volume: 50, aht: 240 }, { volume: 100, aht: 240 }, { volume: 150, aht: 300 }];
+    const batch = calculateStaffingBatch({ ...shared, intervals });
+
+    intervals.forEach((interval, i) => {
+      const single = calculateStaffing({
+        model: 'C',
+        workload: { ...interval, intervalMinutes: 30 },
+        constraints: shared.constraints,
+        behavior: shared.behavior,
+      })!;
+      expect(batch.intervals[i]!.requiredAgents).toBe(single.requiredAgents);
+      expect(batch.intervals[i]!.serviceLevel).toBeCloseTo(single.serviceLevel, 10);
+    });
+  });
+
+  it('rolls up daily totals', () => {
+    const batch = calculateStaffingBatch({
+      ...shared,
+      intervals: [{ volume: 100, aht: 240 }, { volume: 300, aht: 240 }],
+    });
+    const [a, b] = batch.intervals;
+
+    expect(batch.totals.volume).toBe(400);
+    expect(batch.totals.agentHours).toBeCloseTo((a!.requiredAgents + b!.requiredAgents) * 0.5, 10);
+    expect(batch.totals.fteHours).toBeCloseTo((a!.totalFTE + b!.totalFTE) * 0.5, 10);
+    expect(batch.totals.fte).toBeCloseTo(batch.totals.fteHours / 8, 10);
+    expect(batch.totals.peakAgents).toBe(b!.requiredAgents);
+    expect(batch.totals.weightedServiceLevel).toBeCloseTo((a!.serviceLevel * 100 + b!.serviceLevel * 300) / 400, 10);
+    expect(batch.totals.unachievableIntervals).toBe(0);
+  });
+
+  it('applies per-interval SL targets', () => {
+    const batch = calculateStaffingBatch({
+      ...shared,
+      intervals: [{ volume: 200, aht: 240 }, { volume: 200, aht: 240, targetSLPercent: 95 }],
+    });
+    expect(batch.intervals[1]!.targetSLPercent).toBe(95);
+    expect(batch.intervals[1]!.requiredAgents).toBeGreaterThan(batch.intervals[0]!.requiredAgents);
+  });
+
+  it('reuses cached results for repeated intervals and across calls', () => {
+    const cache = new StaffingCache();
+    const day = Array.from({ length: 48 }, (_, i) => ({ volume: i < 16 ? 10 : 120, aht: 240 }));
+
+    const first = calculateStaffingBatch({ ...shared, intervals: day }, cache);
+    expect(first.cacheHits).toBe(46);
+    expect(cache.size).toBe(2);
+
+    const second = calculateStaffingBatch({ ...shared, intervals: day }, cache);
+    expect(second.cacheHits).toBe(48);
+    expect(second.totals).toEqual(first.totals);
+  });
+
+  it('reports intervals the engine rejects as unachievable', () => {
+    const batch = calculateStaffingBatch({
+      ...shared,
+      model: 'A',
+      behavior: { shrinkagePercent: 25 },
+      intervals: [{ volume: 100, aht: 240 }],
+    });
+    expect(batch.intervals[0]!.canAchieveTarget).toBe(false);
+    expect(batch.totals.unachievableIntervals).toBe(1);
+  });
+});
+
+describe('StaffingCache', () => {
+  it('evicts the least recently used entry when full', () => {
+    const cache = new StaffingCache(2);
+    cache.set('a', null);
+    cache.set('b', null);
+    cache.get('a');
+    cache.set('c', null);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+  });
+});
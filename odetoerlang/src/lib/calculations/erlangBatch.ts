@@ -0,0 +1,247 @@
+/**
+ * Whole-day batch staffing.
+ *
+ * Runs `calculateStaffing` over an intraday profile (e.g. 48 × 30-minute
+ * intervals) with shared constraints and behaviour, and rolls the results up
+ * into daily totals. Intraday forecasts repeat the same volume/AHT pairs a lot
+ * (quiet overnight intervals, flat weekday shapes across a multi-week plan),
+ * so results are memoised in a bounded cache that callers can share between
+ * days.
+ */
+
+import type { ErlangVariant } from '../../types';
+import { ERLANG_CACHE_MAX_SIZE, WORK_HOURS_PER_DAY } from '../../utils/constants';
+import { calculateStaffing, type ErlangEngineInput, type ErlangEngineOutput } from './erlangEngine';
+
+/** One row of an intraday forecast. */
+export interface BatchInterval {
+  volume: number;
+  aht: number;
+  /** Overrides the shared SL target for this interval (e.g. tighter at peak). */
+  targetSLPercent?: number | undefined;
+  /** Overrides the shared SL threshold for this interval. */
+  thresholdSeconds?: number | undefined;
+  /** Free-form label carried through to the result (e.g. "09:30"). */
+  label?: string | undefined;
+}
+
+export interface BatchStaffingInput {
+  model: ErlangVariant | string;
+  intervalMinutes: number;
+  intervals: BatchInterval[];
+  constraints: ErlangEngineInput['constraints'];
+  behavior: ErlangEngineInput['behavior'];
+  /** Paid hours per FTE per day used for the daily FTE figure (default 8). */
+  hoursPerFTE?: number;
+}
+
+export interface BatchIntervalResult {
+  index: number;
+  label?: string | undefined;
+  volume: number;
+  aht: number;
+  targetSLPercent: number;
+  trafficIntensity: number;
+  requiredAgents: number;
+  totalFTE: number;
+  serviceLevel: number; // percentage (0-100)
+  asa: number; // seconds
+  occupancy: number; // percentage (0-100)
+  canAchieveTarget: boolean;
+  abandonmentRate?: number | undefined;
+}
+
+export interface BatchDailyTotals {
+  volume: number;
+  /** Σ productive agents × interval hours */
+  agentHours: number;
+  /** Σ FTE (after shrinkage) × interval hours */
+  fteHours: number;
+  /** fteHours / hoursPerFTE */
+  fte: number;
+  peakAgents: number;
+  /** Volume-weighted service level, percentage (0-100) */
+  weightedServiceLevel: number;
+  /** Volume-weighted ASA in seconds (Infinity if any loaded interval is unachievable) */
+  weightedASA: number;
+  /** Workload-weighted occupancy: Σ traffic / Σ agents, percentage (0-100) */
+  averageOccupancy: number;
+  unachievableIntervals: number;
+}
+
+export interface BatchStaffingOutput {
+  intervals: BatchIntervalResult[];
+  totals: BatchDailyTotals;
+  cacheHits: number;
+}
+
+/**
+ * Bounded memo of engine results keyed by model, workload and constraints.
+ * Oldest entries are evicted first (Map preserves insertion order).
+ */
+export class StaffingCache {
+  private readonly entries = new Map<string, ErlangEngineOutput | null>();
+  private readonly maxSize: number;
+
+  constructor(maxSize: number = ERLANG_CACHE_MAX_SIZE) {
+    this.maxSize = Math.max(1, maxSize);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key);
+  }
+
+  get(key: string): ErlangEngineOutput | null | undefined {
+    if (!this.entries.has(key)) return undefined;
+    // Refresh recency
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  set(key: string, value: ErlangEngineOutput | null): void {
+    if (this.entries.has(key)) {
+      this.entries.delete(key);
+    } else if (this.entries.size >= this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, value);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Calculate staffing for a whole day (or any sequence) of intervals.
+ *
+ * @param input - Intervals plus shared model, constraints and behaviour
+ * @param cache - Optional cache to reuse across calls (e.g. every day of a plan)
+ * @returns Per-interval results and daily totals
+ *
+ * @example
+ * const day = calculateStaffingBatch({
+ *   model: 'C',
+ *   intervalMinutes: 30,
+ *   intervals: forecastRows.map(r => ({ volume: r.volume, aht: r.aht, label: r.time })),
+ *   constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 90 },
+ *   behavior: { shrinkagePercent: 30 },
+ * });
+ */
+export function calculateStaffingBatch(
+  input: BatchStaffingInput,
+  cache: StaffingCache = new StaffingCache()
+): BatchStaffingOutput {
+  const { model, intervalMinutes, constraints, behavior } = input;
+  const intervalHours = intervalMinutes / 60;
+  const hoursPerFTE = input.hoursPerFTE ?? WORK_HOURS_PER_DAY;
+  // Everything except the per-interval fields is shared, so serialise it once.
+  const sharedKey = JSON.stringify({ model, intervalMinutes, constraints, behavior });
+
+  let cacheHits = 0;
+  const intervals: BatchIntervalResult[] = input.intervals.map((interval, index) => {
+    const targetSLPercent = interval.targetSLPercent ?? constraints.targetSLPercent;
+    const thresholdSeconds = interval.thresholdSeconds ?? constraints.thresholdSeconds;
+    const key = `${sharedKey}|${interval.volume}|${interval.aht}|${targetSLPercent}|${thresholdSeconds}`;
+
+    let output: ErlangEngineOutput | null | undefined;
+    if (cache.has(key)) {
+      output = cache.get(key);
+      cacheHits++;
+    } else {
+      output = calculateStaffing({
+        model,
+        workload: { volume: interval.volume, aht: interval.aht, intervalMinutes },
+        constraints: { ...constraints, targetSLPercent, thresholdSeconds },
+        behavior,
+      });
+      cache.set(key, output);
+    }
+
+    if (!output) {
+      return {
+        index,
+        label: interval.label,
+        volume: interval.volume,
+        aht: interval.aht,
+        targetSLPercent,
+        trafficIntensity: (interval.volume * interval.aht) / (intervalMinutes * 60),
+        requiredAgents: 0,
+        totalFTE: 0,
+        serviceLevel: 0,
+        asa: Infinity,
+        occupancy: 0,
+        canAchieveTarget: false,
+      };
+    }
+
+    return {
+      index,
+      label: interval.label,
+      volume: interval.volume,
+      aht: interval.aht,
+      targetSLPercent,
+      trafficIntensity: output.diagnostics.trafficIntensity,
+      requiredAgents: output.requiredAgents,
+      totalFTE: output.totalFTE,
+      serviceLevel: output.serviceLevel,
+      asa: output.asa,
+      occupancy: output.occupancy,
+      canAchieveTarget: output.canAchieveTarget,
+      abandonmentRate: output.abandonmentRate,
+    };
+  });
+
+  return {
+    intervals,
+    totals: summariseIntervals(intervals, intervalHours, hoursPerFTE),
+    cacheHits,
+  };
+}
+
+function summariseIntervals(
+  intervals: BatchIntervalResult[],
+  intervalHours: number,
+  hoursPerFTE: number
+): BatchDailyTotals {
+  let volume = 0;
+  let agentHours = 0;
+  let fteHours = 0;
+  let peakAgents = 0;
+  let slWeighted = 0;
+  let asaWeighted = 0;
+  let traffic = 0;
+  let agents = 0;
+  let unachievableIntervals = 0;
+
+  for (const interval of intervals) {
+    volume += interval.volume;
+    agentHours += interval.requiredAgents * intervalHours;
+    fteHours += interval.totalFTE * intervalHours;
+    peakAgents = Math.max(peakAgents, interval.requiredAgents);
+    slWeighted += interval.serviceLevel * interval.volume;
+    if (interval.volume > 0) asaWeighted += interval.asa * interval.volume;
+    traffic += interval.trafficIntensity;
+    agents += interval.requiredAgents;
+    if (!interval.canAchieveTarget) unachievableIntervals++;
+  }
+
+  return {
+    volume,
+    agentHours,
+    fteHours,
+    fte: hoursPerFTE > 0 ? fteHours / hoursPerFTE : 0,
+    peakAgents,
+    weightedServiceLevel: volume > 0 ? slWeighted / volume : 100,
+    weightedASA: volume > 0 ? asaWeighted / volume : 0,
+    averageOccupancy: agents > 0 ? Math.min(100, (traffic / agents) * 100) : 0,
+    unachievableIntervals,
+  };
+}
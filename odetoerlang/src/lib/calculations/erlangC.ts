@@ -1,3 +1,6 @@
+import type { ServiceTarget } from '../../types';
+import { erlangBContinuous } from './erlangLog';
+
 /**
  * Erlang C Formula Implementation
  *
@@ -53,10 +56,16 @@ export function erlangBLinear(agents: number, trafficIntensity: number): number
   return B;
 }
 
+/**
+ * Above this many agents `erlangB` switches from the O(c) recurrence to the
+ * O(√c) log-space kernel in `erlangLog.ts`.
+ */
+const RECURRENCE_MAX_AGENTS = 500;
+
 /**
  * Calculate Erlang B (blocking probability).
  *
- * Uses the inverse recurrence R_k = 1 + (k/A)·R_{k-1} with R_0 = 1, then
+ * Up to RECURRENCE_MAX_AGENTS whole agents, uses the inverse recurrence R_k = 1 + (k/A)·R_{k-1} with R_0 = 1, then
  * returns B = 1/R_c. R is monotonically non-decreasing and grows like c!/A^c
  * when c >> A. Unlike the direct B-recurrence, R has no underflow risk; it
  * may overflow to +Infinity for extreme c >> A, in which case 1/R correctly
@@ -65,6 +74,8 @@ export function erlangBLinear(agents: number, trafficIntensity: number): number
  * Accurate for any combination of (agents, trafficIntensity) within IEEE 754
  * range. Matches `erlangBLinear` to ~12 significant figures for A ≤ 50;
  * remains finite and correct where the linear form silently underflows.
+ * Larger groups and fractional agent counts use the incomplete-gamma form
+ * (`erlangBContinuous`), which agrees with the recurrence at whole agents.
  *
  * @param agents - Number of agents (c)
  * @param trafficIntensity - Traffic intensity in Erlangs (A)
@@ -73,6 +84,9 @@ export function erlangBLinear(agents: number, trafficIntensity: number): number
 export function erlangB(agents: number, trafficIntensity: number): number {
   if (agents <= 0) return 1.0;
   if (trafficIntensity <= 0) return 0;
+  if (agents > RECURRENCE_MAX_AGENTS || !Number.isInteger(agents)) {
+    return Math.min(1.0, Math.max(0.0, erlangBContinuous(agents, trafficIntensity)));
+  }
 
   // R = 1/B. Start at R_0 = 1 (i.e. B_0 = 1 = "all calls blocked with 0 agents").
   let R = 1.0;
@@ -195,6 +209,8 @@ export function calculateOccupancy(
  * @param targetSL - Target service level as decimal (e.g., 0.80 for 80%)
  * @param thresholdSeconds - Service level threshold in seconds
  * @param maxOccupancy - Maximum allowed occupancy (default 0.90)
+ * @param target - Target to search against (default: service level). Erlang C
+ *   has no abandonment, so an abandon-rate target returns null.
  * @returns Minimum number of agents needed
  */
 export function solveAgents(
@@ -202,10 +218,16 @@ export function solveAgents(
   aht: number,
   targetSL: number,
   thresholdSeconds: number,
-  maxOccupancy: number = 0.90
+  maxOccupancy: number = 0.90,
+  target: ServiceTarget = { type: 'serviceLevel' }
 ): number | null {
+  if (target.type === 'abandonRate') return null;
   if (trafficIntensity <= 0 || aht <= 0) return 0;
 
+  const meetsTarget = (agents: number): boolean => target.type === 'asa'
+    ? calculateASA(agents, trafficIntensity, aht) <= target.maxASASeconds
+    : calculateServiceLevel(agents, trafficIntensity, aht, thresholdSeconds) >= targetSL;
+
   const minAgents = Math.ceil(trafficIntensity / maxOccupancy);
 
   // Widen the search ceiling so high-SL targets and tiny traffic loads still
@@ -225,9 +247,8 @@ export function solveAgents(
 
   while (left <= right) {
     const mid = Math.floor((left + right) / 2);
-    const sl = calculateServiceLevel(mid, trafficIntensity, aht, thresholdSeconds);
 
-    if (sl >= targetSL) {
+    if (meetsTarget(mid)) {
       result = mid;
       right = mid - 1;
     } else {
@@ -282,6 +303,9 @@ export interface StaffingMetrics {
  * @param params.thresholdSeconds - SL threshold in seconds (e.g., 20 for "80/20")
  * @param params.shrinkagePercent - Shrinkage as decimal (0-1, e.g., 0.25 for 25%)
  * @param params.maxOccupancy - Maximum occupancy constraint (default: 0.90)
+ * @param params.variabilityFactor - Allen-Cunneen factor (Ca² + Cs²) / 2 for
+ *   non-exponential handle times (default: 1 = M/M/c). See `allenCunneen.ts`.
+ * @param params.target - Target to solve against (default: service level)
  * @returns StaffingMetrics with required agents, FTE, SL, ASA, occupancy, and success flag
  *
  * @example
@@ -304,6 +328,8 @@ export function calculateStaffingMetrics(params: {
   thresholdSeconds: number;
   shrinkagePercent: number;
   maxOccupancy?: number;
+  variabilityFactor?: number;
+  target?: ServiceTarget;
 }): StaffingMetrics {
   const {
     volume,
@@ -312,11 +338,15 @@ export function calculateStaffingMetrics(params: {
     targetSL,
     thresholdSeconds,
     shrinkagePercent,
-    maxOccupancy = 0.90
+    maxOccupancy = 0.90,
+    variabilityFactor = 1,
+    target
   } = params;
 
   const trafficIntensity = calculateTrafficIntensity(volume, aht, intervalSeconds);
-  const requiredAgents = solveAgents(trafficIntensity, aht, targetSL, thresholdSeconds, maxOccupancy);
+  // Waiting times scale with the variability factor; traffic does not.
+  const waitAHT = aht * variabilityFactor;
+  const requiredAgents = solveAgents(trafficIntensity, waitAHT, targetSL, thresholdSeconds, maxOccupancy, target);
 
   if (requiredAgents === null) {
     return {
@@ -331,8 +361,8 @@ export function calculateStaffingMetrics(params: {
   }
 
   const totalFTE = calculateFTE(requiredAgents, shrinkagePercent);
-  const serviceLevel = calculateServiceLevel(requiredAgents, trafficIntensity, aht, thresholdSeconds);
-  const asa = calculateASA(requiredAgents, trafficIntensity, aht);
+  const serviceLevel = calculateServiceLevel(requiredAgents, trafficIntensity, waitAHT, thresholdSeconds);
+  const asa = calculateASA(requiredAgents, trafficIntensity, waitAHT);
   const occupancy = calculateOccupancy(trafficIntensity, requiredAgents);
 
   return {
@@ -3,7 +3,10 @@ import {
   calculateStaffing,
   calculateAchievableMetrics,
   effectiveAHTForConcurrency,
+  ahtMultiplierAtOccupancy,
+  occupancyConsistentAHT,
   DEFAULT_CONCURRENCY_OVERHEAD,
+  type ErlangEngineInput,
 } from './erlangEngine';
 import { CalculationService } from '../services/CalculationService';
 import { createDefaultInputs } from '../../tests/fixtures/calculatorInputs';
@@ -293,3 +296,72 @@ describe('CalculationService - shrinkage × productivity composition', () => {
     expect(none.achievableMetrics).toBeNull();
   });
 });
+
+describe('calculateStaffing - AHT vs occupancy feedback', () => {
+  const input: ErlangEngineInput = {
+    model: 'C',
+    workload: { volume: 200, aht: 300, intervalMinutes: 30 },
+    constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 95 },
+    behavior: { shrinkagePercent: 30 },
+  };
+  const curve = [
+    { occupancy: 70, ahtMultiplier: 1 },
+    { occupancy: 95, ahtMultiplier: 1.2 },
+  ];
+  const withCurve = { ...input, behavior: { ...input.behavior, ahtOccupancyCurve: curve } };
+  const atAHT = (aht: number) => calculateStaffing({ ...input, workload: { ...input.workload, aht } })!;
+
+  it('interpolates the multiplier and holds it flat beyond the ends', () => {
+    expect(ahtMultiplierAtOccupancy(curve, 50)).toBe(1);
+    expect(ahtMultiplierAtOccupancy(curve, 82.5)).toBeCloseTo(1.1, 12);
+    expect(ahtMultiplierAtOccupancy(curve, 100)).toBe(1.2);
+    expect(ahtMultiplierAtOccupancy([...curve].reverse(), 82.5)).toBeCloseTo(1.1, 12);
+    expect(ahtMultiplierAtOccupancy([], 90)).toBe(1);
+  });
+
+  it('a flat curve is a fixed AHT multiplier', () => {
+    const flat = calculateStaffing({ ...input, behavior: { ...input.behavior, ahtOccupancyCurve: [{ occupancy: 80, ahtMultiplier: 1.1 }] } })!;
+    const plain = atAHT(330);
+    expect(flat.requiredAgents).toBe(plain.requiredAgents);
+    expect(flat.serviceLevel).toBeCloseTo(plain.serviceLevel, 9);
+    expect(flat.ahtFeedback?.aht).toBeCloseTo(330, 6);
+    expect(flat.ahtFeedback?.exact).toBe(true);
+  });
+
+  it('staffing and AHT agree at the reported agent count', () => {
+    const result = calculateStaffing(withCurve)!;
+    const agents = result.requiredAgents;
+    const feedback = result.ahtFeedback!;
+    expect(feedback.aht).toBeCloseTo(300 * ahtMultiplierAtOccupancy(curve, feedback.occupancy), 6);
+    expect(feedback.occupancy).toBeCloseTo((200 * feedback.aht) / (1800 * agents) * 100, 6);
+    // N is enough at its own AHT; N - 1 is not at its own AHT.
+    expect(atAHT(feedback.aht).requiredAgents).toBeLessThanOrEqual(agents);
+    const fewerAHT = occupancyConsistentAHT(input.workload, input.behavior, curve, agents - 1);
+    expect(atAHT(fewerAHT).requiredAgents).toBeGreaterThan(agents - 1);
+  });
+
+  it('a rising curve needs more agents than the entered AHT alone', () => {
+    const result = calculateStaffing(withCurve)!;
+    expect(result.requiredAgents).toBeGreaterThan(atAHT(300).requiredAgents);
+    expect(result.requiredAgents).toBeLessThanOrEqual(atAHT(360).requiredAgents);
+    expect(result.serviceLevel).toBeGreaterThanOrEqual(80);
+  });
+
+  it('fixed agents solve only for the AHT', () => {
+    const metrics = calculateAchievableMetrics({ ...withCurve, fixedAgents: 36, constraints: { thresholdSeconds: 20, maxOccupancy: 95 } })!;
+    const plain = calculateAchievableMetrics({
+      ...input,
+      fixedAgents: 36,
+      workload: { ...input.workload, aht: metrics.ahtFeedback!.aht },
+      constraints: { thresholdSeconds: 20, maxOccupancy: 95 },
+    })!;
+    expect(metrics.serviceLevel).toBeCloseTo(plain.serviceLevel, 9);
+    expect(metrics.ahtFeedback!.aht).toBeCloseTo(300 * ahtMultiplierAtOccupancy(curve, metrics.ahtFeedback!.occupancy), 6);
+  });
+
+  it('rejects invalid curves', () => {
+    const bad = { ...input, behavior: { ...input.behavior, ahtOccupancyCurve: [{ occupancy: 80, ahtMultiplier: 0 }] } };
+    expect(calculateStaffing(bad)).toBeNull();
+    expect(calculateStaffing({ ...input, behavior: { ...input.behavior, ahtOccupancyCurve: [{ occupancy: 120, ahtMultiplier: 1 }] } })).toBeNull();
+  });
+});
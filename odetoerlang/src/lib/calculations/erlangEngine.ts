@@ -1,4 +1,4 @@
-import type { ErlangVariant } from '../../types';
+import type { AHTOccupancyPoint, ErlangVariant, ServiceTarget, ServiceTargetType } from '../../types';
 import {
   calculateStaffingMetrics,
   calculateTrafficIntensity,
@@ -18,13 +18,34 @@ import {
   calculateErlangB,
   calculateRequiredLinesB,
 } from './erlangB';
+import {
+  allenCunneenFactor,
+  calculateServiceLevelMGc,
+  calculateASAMGc,
+} from './allenCunneen';
+import {
+  calculateErlangXMetrics,
+  calculateErlangXPerformance,
+} from './erlangX';
+import {
+  calculateEngsetDelayPerformance,
+  calculateRequiredLinesEngset,
+  engsetBlocking,
+  engsetCarriedTraffic,
+  solveAgentsEngsetDelay,
+  sourceTraffic,
+} from './engset';
+import { calculateWaitTimeDistribution, type WaitTimeDistribution } from './waitDistribution';
+import { BASE_RETRIAL_RATE } from '../../utils/constants';
 
 // Helper to normalize legacy model names to ErlangVariant
 export function normalizeModel(model: string): ErlangVariant {
   const m = model.toLowerCase();
+  if (m === 'ec' || m.includes('engsetc') || m.includes('engset-c')) return 'EC';
+  if (m === 'eb' || m.includes('engset')) return 'EB';
   if (m.includes('erlangb') || m === 'b') return 'B';
   if (m.includes('erlanga') || m === 'a') return 'A';
-  if (m.includes('erlangx') || m === 'x') return 'A'; // Map X to A (Advanced A)
+  if (m.includes('erlangx') || m === 'x') return 'X';
   return 'C'; // Default to C
 }
 
@@ -32,10 +53,41 @@ export function normalizeModel(model: string): ErlangVariant {
 export interface ErlangEngineInput {
   model: ErlangVariant | string; // Accept both for compatibility, normalized internally
   workload: { volume: number; aht: number; intervalMinutes: number };
-  constraints: { targetSLPercent: number; thresholdSeconds: number; maxOccupancy: number };
+  constraints: {
+    targetSLPercent: number;
+    thresholdSeconds: number;
+    maxOccupancy: number;
+    /** Lines/trunks available (Erlang X only). Undefined = unlimited. */
+    lines?: number | undefined;
+    /** Number of sources that can raise contacts (Engset EB/EC only, required). */
+    population?: number | undefined;
+    /**
+     * Which target the solver searches against. Default 'serviceLevel'.
+     * 'waitPercentile' reads targetSLPercent as the percentile N and
+     * thresholdSeconds as the wait T. Erlang B always solves for blocking.
+     */
+    targetType?: ServiceTargetType | undefined;
+    /** Maximum ASA in seconds ('asa' target). */
+    targetASASeconds?: number | undefined;
+    /** Maximum abandonment percentage ('abandonRate' target, Erlang A/X only). */
+    targetAbandonPercent?: number | undefined;
+  };
   behavior: {
     shrinkagePercent: number;
     averagePatience?: number;
+    /**
+     * Percentage of blocked or abandoned callers who redial (Erlang X only).
+     * Defaults to BASE_RETRIAL_RATE (40%).
+     */
+    retrialPercent?: number | undefined;
+    /**
+     * Coefficient of variation of handle time (stdev / mean). When set, the
+     * Erlang C path switches to the Allen-Cunneen M/G/c approximation.
+     * 1 = exponential (plain Erlang C); scripted calls are often 0.3-0.6.
+     */
+    ahtCV?: number | undefined;
+    /** Coefficient of variation of inter-arrival times (M/G/c mode only). Default 1 = Poisson. */
+    arrivalCV?: number | undefined;
     concurrency?: number;
     /**
      * Per-extra-session overhead when concurrency > 1. Default 0.15 (15%).
@@ -46,6 +98,12 @@ export interface ErlangEngineInput {
      * Set to 0 to recover the old linear behaviour.
      */
     concurrencyOverhead?: number;
+    /**
+     * AHT-versus-occupancy curve (multipliers on `workload.aht`). When set,
+     * the solvers look for an agent count whose occupancy gives back the
+     * handle time it was staffed for. See `calculateStaffing`.
+     */
+    ahtOccupancyCurve?: AHTOccupancyPoint[] | undefined;
   };
 }
 
@@ -81,6 +139,64 @@ function resolveEffectiveAHT(aht: number, behavior: ErlangEngineInput['behavior'
   return effectiveAHTForConcurrency(aht, concurrency, overhead);
 }
 
+/**
+ * Build the solver target from the constraints block. Returns null when the
+ * selected target is missing its limit.
+ */
+export function resolveServiceTarget(constraints: ErlangEngineInput['constraints']): ServiceTarget | null {
+  switch (constraints.targetType ?? 'serviceLevel') {
+    case 'asa':
+      if (constraints.targetASASeconds === undefined || constraints.targetASASeconds <= 0) return null;
+      return { type: 'asa', maxASASeconds: constraints.targetASASeconds };
+    case 'abandonRate':
+      if (constraints.targetAbandonPercent === undefined || constraints.targetAbandonPercent <= 0) return null;
+      return { type: 'abandonRate', maxAbandonRate: constraints.targetAbandonPercent / 100 };
+    case 'waitPercentile':
+      return { type: 'waitPercentile' };
+    default:
+      return { type: 'serviceLevel' };
+  }
+}
+
+/**
+ * Check a result against the selected target. Probabilities are decimals
+ * (0-1), so convert engine percentages before calling.
+ */
+export function meetsServiceTarget(
+  target: ServiceTarget,
+  metrics: { serviceLevel: number; asa: number; abandonmentRate?: number | undefined },
+  targetSL: number
+): boolean {
+  switch (target.type) {
+    case 'asa':
+      return metrics.asa <= target.maxASASeconds;
+    case 'abandonRate':
+      return (metrics.abandonmentRate ?? 1) <= target.maxAbandonRate;
+    default:
+      return metrics.serviceLevel >= targetSL;
+  }
+}
+
+/**
+ * Resolve the Allen-Cunneen variability factor. Undefined when neither CV is
+ * supplied, so callers keep the exact Erlang C path.
+ */
+function resolveVariabilityFactor(behavior: ErlangEngineInput['behavior']): number | undefined {
+  if (behavior.ahtCV === undefined && behavior.arrivalCV === undefined) return undefined;
+  return allenCunneenFactor(behavior.ahtCV ?? 1, behavior.arrivalCV ?? 1);
+}
+
+/** Engset population must be a whole number of sources. */
+function isValidPopulation(population: number | undefined): population is number {
+  return population !== undefined && population >= 1 && Number.isInteger(population);
+}
+
+/** Resolve the redial probability (0-1) from the behavior block. */
+function resolveRetrialProbability(behavior: ErlangEngineInput['behavior']): number {
+  const percent = behavior.retrialPercent ?? BASE_RETRIAL_RATE * 100;
+  return Math.min(99, Math.max(0, percent)) / 100;
+}
+
 export interface ErlangEngineOutput {
   model: ErlangVariant;
   requiredAgents: number;
@@ -108,13 +224,16 @@ export interface ErlangEngineOutput {
    */
   occupancyViolationSeverity?: number | undefined;
 
+  /** Present when `behavior.ahtOccupancyCurve` is set */
+  ahtFeedback?: AHTFeedback | undefined;
+
   // Additional metrics
   abandonmentRate?: number | undefined;
   expectedAbandonments?: number | undefined;
   answeredContacts?: number | undefined;
   retrialProbability?: number | undefined;
   virtualTraffic?: number | undefined;
-  blockingProbability?: number | undefined; // For Erlang B
+  blockingProbability?: number | undefined; // For Erlang B and Erlang X (trunk blocking)
 
   diagnostics: {
     trafficIntensity: number; // Erlangs
@@ -122,21 +241,174 @@ export interface ErlangEngineOutput {
     /**
      * True when the underlying formula assumes steady-state (stationary)
      * arrivals over the interval. M/M/c (Erlang C) is stationary; Erlang A
-     * partially accounts for abandonment but is still an approximation.
+     * partially accounts for abandonment but is still an approximation;
+     * Erlang X adds redials and finite lines on top.
      * Surfaced so UI can flag intervals with bursty intraday volume.
      */
     assumesStationary: boolean;
   };
 }
 
+/** ASA reported by `calculateAchievableMetrics` when the queue is unstable. */
+export const UNSTABLE_ASA_SECONDS = 99999;
+
+/** Bisection steps for the occupancy-consistent AHT. */
+const AHT_FEEDBACK_BISECTION_STEPS = 50;
+
+export interface AHTFeedback {
+  /** Handle time the result was solved at, seconds */
+  aht: number;
+  ahtMultiplier: number;
+  /** Occupancy (%) at the reported agent count and AHT */
+  occupancy: number;
+  /** Staffing solves used by the search */
+  iterations: number;
+  /**
+   * True when the reported agent count is exactly what its own AHT needs.
+   * False when the counts straddle (N - 1 needs more than N - 1 at its AHT,
+   * N needs fewer than N at its AHT); N is then reported at its own AHT.
+   */
+  exact: boolean;
+}
+
 /**
- * ErlangMathEngine: A unified API for all Erlang calculation types (C, A, X -> A, B).
+ * AHT multiplier at an occupancy (%). Linear between points, flat beyond
+ * the first and last point; an empty curve is 1.
+ */
+export function ahtMultiplierAtOccupancy(curve: AHTOccupancyPoint[], occupancyPercent: number): number {
+  const points = [...curve].sort((a, b) => a.occupancy - b.occupancy);
+  const first = points[0];
+  if (!first) return 1;
+  if (occupancyPercent <= first.occupancy) return first.ahtMultiplier;
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1]!;
+    const point = points[i]!;
+    if (occupancyPercent <= point.occupancy) {
+      const span = point.occupancy - previous.occupancy;
+      if (span <= 0) return point.ahtMultiplier;
+      return previous.ahtMultiplier + (point.ahtMultiplier - previous.ahtMultiplier) * (occupancyPercent - previous.occupancy) / span;
+    }
+  }
+  return points[points.length - 1]!.ahtMultiplier;
+}
+
+function isValidAHTOccupancyCurve(curve: AHTOccupancyPoint[]): boolean {
+  return curve.every(p =>
+    Number.isFinite(p.occupancy) && p.occupancy >= 0 && p.occupancy <= 100
+    && Number.isFinite(p.ahtMultiplier) && p.ahtMultiplier > 0
+  );
+}
+
+/** Occupancy (%) of `agents` working `volume` at a raw AHT. */
+function occupancyAtAHT(
+  workload: ErlangEngineInput['workload'],
+  behavior: ErlangEngineInput['behavior'],
+  aht: number,
+  agents: number
+): number {
+  const traffic = calculateTrafficIntensity(workload.volume, resolveEffectiveAHT(aht, behavior), workload.intervalMinutes * 60);
+  return calculateOccupancy(traffic, agents) * 100;
+}
+
+/**
+ * Solve a = base AHT × m(occupancy(a, agents)) by bisection. The right-hand
+ * side stays within base × [min m, max m], so a root lies in that range.
+ */
+export function occupancyConsistentAHT(
+  workload: ErlangEngineInput['workload'],
+  behavior: ErlangEngineInput['behavior'],
+  curve: AHTOccupancyPoint[],
+  agents: number
+): number {
+  const multipliers = curve.map(p => p.ahtMultiplier);
+  let low = workload.aht * Math.min(...multipliers);
+  let high = workload.aht * Math.max(...multipliers);
+  const excess = (aht: number): number =>
+    aht - workload.aht * ahtMultiplierAtOccupancy(curve, occupancyAtAHT(workload, behavior, aht, agents));
+
+  for (let step = 0; step < AHT_FEEDBACK_BISECTION_STEPS && high - low > 1e-9; step++) {
+    const mid = (low + high) / 2;
+    if (excess(mid) < 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * ErlangMathEngine: A unified API for all Erlang calculation types (C, A, X, B) and
+ * the Engset finite-source models (EB, EC).
  * This function acts as the single canonical entry point for staffing calculations.
  *
  * @param input - Structured input object containing all parameters for calculation.
  * @returns A standardized output object with calculated staffing and metrics, or null if unachievable.
  */
 export function calculateStaffing(input: ErlangEngineInput): ErlangEngineOutput | null {
+  const curve = input.behavior.ahtOccupancyCurve;
+  if (curve === undefined || curve.length === 0) return solveStaffing(input);
+  if (!isValidAHTOccupancyCurve(curve)) return null;
+  return solveStaffingWithAHTFeedback(input, curve);
+}
+
+/**
+ * Staffing when handle time depends on occupancy.
+ *
+ * Each agent count N has its own AHT a(N) (the fixed point of the curve at
+ * N). N is feasible when the forward solver at a(N) needs no more than N.
+ * Below the requirement at the curve's lowest multiplier nothing is
+ * feasible; the requirement at the highest multiplier always is. Bisecting
+ * between the two returns the smallest feasible N with N - 1 infeasible,
+ * which for a rising curve is the smallest feasible N overall.
+ */
+function solveStaffingWithAHTFeedback(input: ErlangEngineInput, curve: AHTOccupancyPoint[]): ErlangEngineOutput | null {
+  const { workload } = input;
+  const behavior = { ...input.behavior, ahtOccupancyCurve: undefined };
+  let iterations = 0;
+  const solveAt = (aht: number): ErlangEngineOutput | null => {
+    iterations++;
+    return solveStaffing({ ...input, workload: { ...workload, aht }, behavior });
+  };
+
+  const multipliers = curve.map(p => p.ahtMultiplier);
+  const fastest = solveAt(workload.aht * Math.min(...multipliers));
+  const slowest = solveAt(workload.aht * Math.max(...multipliers));
+  if (!fastest || !slowest) return null;
+
+  let low = fastest.requiredAgents - 1;
+  let high = slowest.requiredAgents;
+  let aht = occupancyConsistentAHT(workload, behavior, curve, high);
+  let staffed = solveAt(aht);
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    const midAHT = occupancyConsistentAHT(workload, behavior, curve, mid);
+    const midStaffed = solveAt(midAHT);
+    if (!midStaffed) return null;
+    if (midStaffed.requiredAgents <= mid) {
+      high = mid;
+      aht = midAHT;
+      staffed = midStaffed;
+    } else {
+      low = mid;
+    }
+  }
+  if (!staffed) return null;
+
+  const ahtFeedback: AHTFeedback = {
+    aht,
+    ahtMultiplier: aht / workload.aht,
+    occupancy: occupancyAtAHT(workload, behavior, aht, high),
+    iterations,
+    exact: staffed.requiredAgents === high,
+  };
+  if (ahtFeedback.exact) return { ...staffed, ahtFeedback };
+
+  // The solver at a(N) wants fewer than N; report N itself at a(N).
+  const atAgents = calculateAchievableMetrics({ ...input, behavior, workload: { ...workload, aht }, fixedAgents: high });
+  if (!atAgents) return null;
+  return { ...atAgents, canAchieveTarget: staffed.canAchieveTarget, ahtFeedback };
+}
+
+/** Forward solve at the entered AHT. */
+function solveStaffing(input: ErlangEngineInput): ErlangEngineOutput | null {
   const { workload, constraints, behavior } = input;
   const model = normalizeModel(input.model);
   const intervalSeconds = workload.intervalMinutes * 60;
@@ -151,16 +423,25 @@ export function calculateStaffing(input: ErlangEngineInput): ErlangEngineOutput
   if (targetSL <= 0 || targetSL > 1 || constraints.thresholdSeconds <= 0 || maxOccupancy <= 0 || maxOccupancy > 1) return null;
   if (shrinkage < 0 || shrinkage >= 1) return null;
 
-  // Erlang A (and former X) requires a patience parameter.
-  if (model === 'A' && (behavior.averagePatience === undefined || behavior.averagePatience <= 0)) {
+  // Erlang A and X require a patience parameter.
+  if ((model === 'A' || model === 'X') && (behavior.averagePatience === undefined || behavior.averagePatience <= 0)) {
     return null;
   }
 
+  // Engset models require a finite population.
+  if ((model === 'EB' || model === 'EC') && !isValidPopulation(constraints.population)) return null;
+
+  const target = resolveServiceTarget(constraints);
+  if (!target) return null;
+  // Erlang C and Engset delay have no abandonment to target.
+  if ((model === 'C' || model === 'EC') && target.type === 'abandonRate') return null;
+
   const trafficIntensity = calculateTrafficIntensity(workload.volume, effectiveAHT, intervalSeconds);
 
   let result: ErlangEngineOutput | null = null;
 
   if (model === 'C') {
+    const variabilityFactor = resolveVariabilityFactor(behavior);
     const metrics = calculateStaffingMetrics({
       volume: workload.volume,
       aht: effectiveAHT,
@@ -169,6 +450,8 @@ export function calculateStaffing(input: ErlangEngineInput): ErlangEngineOutput
       thresholdSeconds: constraints.thresholdSeconds,
       shrinkagePercent: shrinkage,
       maxOccupancy,
+      ...(variabilityFactor !== undefined && { variabilityFactor }),
+      target,
     });
 
     if (metrics) {
@@ -197,6 +480,7 @@ export function calculateStaffing(input: ErlangEngineInput): ErlangEngineOutput
       shrinkagePercent: behavior.shrinkagePercent,
       maxOccupancy: constraints.maxOccupancy,
       averagePatience: behavior.averagePatience!,
+      target,
     });
 
     if (metricsA) {
@@ -211,7 +495,11 @@ export function calculateStaffing(input: ErlangEngineInput): ErlangEngineOutput
         serviceLevel: metricsA.serviceLevel * 100,
         asa: metricsA.asa,
         occupancy: occupancy * 100,
-        canAchieveTarget: metricsA.serviceLevel * 100 >= constraints.targetSLPercent,
+        canAchieveTarget: meetsServiceTarget(
+          target,
+          { serviceLevel: metricsA.serviceLevel, asa: metricsA.asa, abandonmentRate: metricsA.abandonmentProbability },
+          targetSL
+        ),
         abandonmentRate: metricsA.abandonmentProbability,
         expectedAbandonments: metricsA.expectedAbandonments,
         diagnostics: {
@@ -221,6 +509,106 @@ export function calculateStaffing(input: ErlangEngineInput): ErlangEngineOutput
         },
       };
     }
+  } else if (model === 'X') {
+    if (constraints.lines !== undefined && constraints.lines <= 0) return null;
+
+    const metricsX = calculateErlangXMetrics({
+      volume: workload.volume,
+      aht: effectiveAHT,
+      intervalMinutes: workload.intervalMinutes,
+      targetSLPercent: constraints.targetSLPercent,
+      thresholdSeconds: constraints.thresholdSeconds,
+      maxOccupancy: constraints.maxOccupancy,
+      averagePatience: behavior.averagePatience!,
+      lines: constraints.lines,
+      retrialPercent: resolveRetrialProbability(behavior) * 100,
+      target,
+    });
+
+    if (metricsX) {
+      const requiredAgents = metricsX.requiredAgents;
+      // Occupancy uses carried traffic: blocked and abandoned calls never reach an agent.
+      const occupancy = requiredAgents > 0 ? metricsX.carriedTraffic / requiredAgents : 0;
+
+      result = {
+        model: 'X',
+        requiredAgents,
+        totalFTE: calculateFTE(requiredAgents, shrinkage),
+        serviceLevel: metricsX.serviceLevel * 100,
+        asa: metricsX.asa,
+        occupancy: occupancy * 100,
+        canAchieveTarget: meetsServiceTarget(
+          target,
+          { serviceLevel: metricsX.serviceLevel, asa: metricsX.asa, abandonmentRate: metricsX.abandonmentProbability },
+          targetSL
+        ),
+        abandonmentRate: metricsX.abandonmentProbability,
+        expectedAbandonments: metricsX.expectedAbandonments,
+        answeredContacts: metricsX.answeredContacts,
+        retrialProbability: metricsX.retrialProbability,
+        virtualTraffic: metricsX.virtualTraffic,
+        blockingProbability: metricsX.blockingProbability,
+        diagnostics: {
+          trafficIntensity,
+          utilizationPercent: occupancy * 100,
+          assumesStationary: false,
+        },
+      };
+    }
+  } else if (model === 'EC') {
+    const population = constraints.population!;
+    const alpha = sourceTraffic(trafficIntensity, population);
+    const requiredAgents = solveAgentsEngsetDelay(
+      population, alpha, effectiveAHT, targetSL, constraints.thresholdSeconds, maxOccupancy, target
+    );
+
+    if (requiredAgents !== null) {
+      const performance = calculateEngsetDelayPerformance(
+        requiredAgents, population, alpha, effectiveAHT, constraints.thresholdSeconds
+      );
+      // Occupancy uses carried traffic: busy sources raise no new contacts.
+      const occupancy = requiredAgents > 0 ? performance.carriedTraffic / requiredAgents : 0;
+
+      result = {
+        model: 'EC',
+        requiredAgents,
+        totalFTE: calculateFTE(requiredAgents, shrinkage),
+        serviceLevel: performance.serviceLevel * 100,
+        asa: performance.asa,
+        occupancy: occupancy * 100,
+        canAchieveTarget: true,
+        diagnostics: {
+          trafficIntensity,
+          utilizationPercent: occupancy * 100,
+          assumesStationary: true,
+        },
+      };
+    }
+  } else if (model === 'EB') {
+    // Engset blocking: lines for a target blocking probability, as in Erlang B.
+    const population = constraints.population!;
+    const alpha = sourceTraffic(trafficIntensity, population);
+    const targetBlocking = 1 - targetSL;
+    const requiredLines = calculateRequiredLinesEngset(population, alpha, targetBlocking);
+    const actualBlocking = engsetBlocking(requiredLines, population, alpha);
+    const carriedTraffic = engsetCarriedTraffic(requiredLines, population, alpha);
+    const occupancy = requiredLines > 0 ? carriedTraffic / requiredLines : 0;
+
+    result = {
+      model: 'EB',
+      requiredAgents: requiredLines,
+      totalFTE: calculateFTE(requiredLines, shrinkage),
+      serviceLevel: (1 - actualBlocking) * 100, // Success Rate
+      asa: 0, // No queueing
+      occupancy: occupancy * 100,
+      canAchieveTarget: actualBlocking <= targetBlocking,
+      blockingProbability: actualBlocking,
+      diagnostics: {
+        trafficIntensity,
+        utilizationPercent: occupancy * 100,
+        assumesStationary: true,
+      },
+    };
   } else if (model === 'B') {
     // Erlang B: Calculates lines required for a target blocking probability.
     // We treat (1 - targetSL) as the target blocking probability.
@@ -262,6 +650,28 @@ export interface ErlangAchievableInput extends Omit<ErlangEngineInput, 'constrai
 }
 
 export function calculateAchievableMetrics(input: ErlangAchievableInput): ErlangEngineOutput | null {
+  const curve = input.behavior.ahtOccupancyCurve;
+  if (curve === undefined || curve.length === 0) return evaluateAchievable(input);
+  if (!isValidAHTOccupancyCurve(curve) || input.workload.aht <= 0 || input.fixedAgents <= 0) return null;
+
+  // Fixed agents: only the AHT has to settle.
+  const behavior = { ...input.behavior, ahtOccupancyCurve: undefined };
+  const aht = occupancyConsistentAHT(input.workload, behavior, curve, input.fixedAgents);
+  const result = evaluateAchievable({ ...input, behavior, workload: { ...input.workload, aht } });
+  if (!result) return null;
+  return {
+    ...result,
+    ahtFeedback: {
+      aht,
+      ahtMultiplier: aht / input.workload.aht,
+      occupancy: occupancyAtAHT(input.workload, behavior, aht, input.fixedAgents),
+      iterations: 1,
+      exact: true,
+    },
+  };
+}
+
+function evaluateAchievable(input: ErlangAchievableInput): ErlangEngineOutput | null {
   const { workload, constraints, behavior, fixedAgents, actualAgents: providedActualAgents } = input;
   const model = normalizeModel(input.model);
   const intervalSeconds = workload.intervalMinutes * 60;
@@ -274,11 +684,13 @@ export function calculateAchievableMetrics(input: ErlangAchievableInput): Erlang
   if (workload.aht <= 0 || workload.volume < 0 || intervalSeconds <= 0) return null;
   if (fixedAgents <= 0 || maxOccupancy <= 0 || maxOccupancy > 1) return null;
   if (shrinkage < 0 || shrinkage >= 1) return null;
-  if (model === 'A' && (behavior.averagePatience === undefined || behavior.averagePatience <= 0)) return null;
+  if ((model === 'A' || model === 'X') && (behavior.averagePatience === undefined || behavior.averagePatience <= 0)) return null;
+  if (constraints.lines !== undefined && constraints.lines <= 0) return null;
+  if ((model === 'EB' || model === 'EC') && !isValidPopulation(constraints.population)) return null;
 
   const trafficIntensity = calculateTrafficIntensity(workload.volume, effectiveAHT, intervalSeconds);
   const totalFTE = calculateFTE(fixedAgents, shrinkage);
-  const occupancy = calculateOccupancy(trafficIntensity, fixedAgents);
+  let occupancy = calculateOccupancy(trafficIntensity, fixedAgents);
   const actualOccupancy = calculateOccupancy(trafficIntensity, actualAgents);
   const canAchieveTarget = true;
   const requiredAgentsForMaxOccupancy = Math.ceil(trafficIntensity / maxOccupancy);
@@ -302,7 +714,10 @@ export function calculateAchievableMetrics(input: ErlangAchievableInput): Erlang
   let virtualTraffic: number | undefined;
   let blockingProbability: number | undefined;
 
-  if (model === 'C') {
+  if (model === 'C' && (behavior.ahtCV !== undefined || behavior.arrivalCV !== undefined)) {
+    serviceLevel = calculateServiceLevelMGc(fixedAgents, trafficIntensity, effectiveAHT, constraints.thresholdSeconds, behavior.ahtCV ?? 1, behavior.arrivalCV ?? 1);
+    asa = calculateASAMGc(fixedAgents, trafficIntensity, effectiveAHT, behavior.ahtCV ?? 1, behavior.arrivalCV ?? 1);
+  } else if (model === 'C') {
     serviceLevel = calculateServiceLevel(fixedAgents, trafficIntensity, effectiveAHT, constraints.thresholdSeconds);
     asa = calculateASA(fixedAgents, trafficIntensity, effectiveAHT);
   } else if (model === 'A') {
@@ -312,6 +727,45 @@ export function calculateAchievableMetrics(input: ErlangAchievableInput): Erlang
     abandonmentRate = calculateAbandonmentProbability(fixedAgents, trafficIntensity, patienceRatio);
     expectedAbandonments = calculateExpectedAbandonments(workload.volume, fixedAgents, trafficIntensity, patienceRatio);
     answeredContacts = workload.volume - expectedAbandonments;
+  } else if (model === 'X') {
+    const performance = calculateErlangXPerformance(
+      fixedAgents,
+      trafficIntensity,
+      effectiveAHT,
+      constraints.thresholdSeconds,
+      behavior.averagePatience!,
+      constraints.lines,
+      resolveRetrialProbability(behavior)
+    );
+    const callAttempts = trafficIntensity > 0
+      ? workload.volume * (performance.virtualTraffic / trafficIntensity)
+      : workload.volume;
+    serviceLevel = performance.serviceLevel;
+    asa = performance.asa;
+    abandonmentRate = performance.abandonmentProbability;
+    expectedAbandonments = callAttempts * performance.abandonmentProbability;
+    answeredContacts = callAttempts * performance.answeredProbability;
+    retrialProbability = performance.retrialProbability;
+    virtualTraffic = performance.virtualTraffic;
+    blockingProbability = performance.blockingProbability;
+    occupancy = Math.min(1, performance.carriedTraffic / fixedAgents);
+  } else if (model === 'EC') {
+    const performance = calculateEngsetDelayPerformance(
+      fixedAgents,
+      constraints.population!,
+      sourceTraffic(trafficIntensity, constraints.population!),
+      effectiveAHT,
+      constraints.thresholdSeconds
+    );
+    serviceLevel = performance.serviceLevel;
+    asa = performance.asa;
+    occupancy = Math.min(1, performance.carriedTraffic / fixedAgents);
+  } else if (model === 'EB') {
+    const alpha = sourceTraffic(trafficIntensity, constraints.population!);
+    blockingProbability = engsetBlocking(fixedAgents, constraints.population!, alpha);
+    serviceLevel = 1 - blockingProbability; // Success rate
+    asa = 0;
+    occupancy = Math.min(1, engsetCarriedTraffic(fixedAgents, constraints.population!, alpha) / fixedAgents);
   } else if (model === 'B') {
     blockingProbability = calculateErlangB(trafficIntensity, fixedAgents);
     serviceLevel = 1 - blockingProbability; // Success rate
@@ -361,7 +815,7 @@ export function calculateAchievableMetrics(input: ErlangAchievableInput): Erlang
     actualAgents,
     totalFTE,
     serviceLevel: serviceLevel * 100,
-    asa: isFinite(asa) ? asa : 99999,
+    asa: isFinite(asa) ? asa : UNSTABLE_ASA_SECONDS,
     occupancy: occupancy * 100,
     actualOccupancy: actualOccupancy * 100,
     canAchieveTarget,
@@ -374,10 +828,45 @@ export function calculateAchievableMetrics(input: ErlangAchievableInput): Erlang
     answeredContacts,
     retrialProbability,
     virtualTraffic,
+    blockingProbability,
     diagnostics: {
       trafficIntensity,
       utilizationPercent: occupancy * 100,
-      assumesStationary: model === 'C',
+      assumesStationary: model === 'C' || model === 'EB' || model === 'EC',
     },
   };
 }
+
+/**
+ * Waiting-time CDF and percentiles for a fixed agent count (Erlang C and A).
+ * Applies the same concurrency and M/G/c adjustments as the staffing paths.
+ *
+ * @param input - Same shape as `calculateAchievableMetrics`
+ * @param thresholds - Optional threshold grid in seconds
+ * @returns The distribution, or null for other models and unstable Erlang C queues
+ */
+export function calculateWaitDistribution(
+  input: ErlangAchievableInput,
+  thresholds?: number[]
+): WaitTimeDistribution | null {
+  const { workload, behavior, fixedAgents } = input;
+  const model = normalizeModel(input.model);
+  const intervalSeconds = workload.intervalMinutes * 60;
+  if (model !== 'C' && model !== 'A') return null;
+  if (workload.aht <= 0 || workload.volume < 0 || intervalSeconds <= 0) return null;
+
+  const curve = behavior.ahtOccupancyCurve;
+  const aht = curve && curve.length > 0 && isValidAHTOccupancyCurve(curve) && fixedAgents > 0
+    ? occupancyConsistentAHT(workload, behavior, curve, fixedAgents)
+    : workload.aht;
+  const effectiveAHT = resolveEffectiveAHT(aht, behavior);
+  return calculateWaitTimeDistribution({
+    model,
+    agents: fixedAgents,
+    trafficIntensity: calculateTrafficIntensity(workload.volume, effectiveAHT, intervalSeconds),
+    aht: effectiveAHT,
+    averagePatience: behavior.averagePatience,
+    variabilityFactor: model === 'C' ? resolveVariabilityFactor(behavior) : undefined,
+    thresholds,
+  });
+}
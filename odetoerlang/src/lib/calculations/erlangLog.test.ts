@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { erlangBContinuous, erlangCContinuous, logErlangB, logErlangC, logGamma } from './erlangLog';
+import { erlangB, erlangC, calculateServiceLevel } from './erlangC';
+import { calculateErlangB } from './erlangB';
+
+// Reference: the inverse recurrence R_k = 1 + (k/A) R_{k-1}, B = 1/R_c.
+function recurrenceB(agents: number, traffic: number): number {
+  let R = 1;
+  for (let k = 1; k <= agents; k++) R = 1 + (k / traffic) * R;
+  return 1 / R;
+}
+
+function relativeError(actual: number, expected: number): number {
+  return Math.abs(actual - expected) / expected;
+}
+
+describe('Log-space Erlang - log gamma', () => {
+  it('matches log factorials and Γ(½) = √π', () => {
+    let logFactorial = 0;
+    for (let n = 1; n <= 30; n++) {
+      logFactorial += Math.log(n);
+      expect(logGamma(n + 1)).toBeCloseTo(logFactorial, 10);
+    }
+    expect(logGamma(0.5)).toBeCloseTo(0.5 * Math.log(Math.PI), 12);
+  });
+});
+
+describe('Log-space Erlang - integer agents', () => {
+  it('agrees with the recurrence across small and large groups', () => {
+    const cases: Array<[number, number]> = [
+      [1, 0.5], [10, 5], [10, 8], [10, 12], [25, 40], [60, 50],
+      [300, 280], [1500, 1450], [2500, 2400], [2100, 2000],
+    ];
+    for (const [agents, traffic] of cases) {
+      expect(relativeError(erlangBContinuous(agents, traffic), recurrenceB(agents, traffic))).toBeLessThan(1e-10);
+    }
+  });
+
+  it('reproduces a published table value', () => {
+    expect(erlangBContinuous(10, 5)).toBeCloseTo(0.0183846, 6);
+  });
+
+  it('stays finite where the linear probability underflows', () => {
+    const logB = logErlangB(5000, 100);
+    expect(Number.isFinite(logB)).toBe(true);
+    expect(logB).toBeLessThan(-10000);
+    expect(logErlangC(5000, 100)).toBeLessThan(-10000);
+    expect(erlangB(5000, 100)).toBe(0);
+  });
+
+  it('handles the edge cases like erlangB / erlangC', () => {
+    expect(erlangBContinuous(0, 10)).toBe(1);
+    expect(erlangBContinuous(10, 0)).toBe(0);
+    expect(erlangCContinuous(10, 0)).toBe(0);
+    expect(erlangCContinuous(10, 12)).toBe(1);
+  });
+});
+
+describe('Log-space Erlang - large pools', () => {
+  it('erlangB and calculateErlangB switch kernels without a seam', () => {
+    const traffic = 480;
+    const below = recurrenceB(500, traffic);
+    const above = recurrenceB(501, traffic);
+    expect(relativeError(erlangB(500, traffic), below)).toBeLessThan(1e-10);
+    expect(relativeError(erlangB(501, traffic), above)).toBeLessThan(1e-10);
+    expect(relativeError(calculateErlangB(traffic, 501), above)).toBeLessThan(1e-10);
+  });
+
+  it('gives a sensible service level above 2000 Erlangs', () => {
+    // 2000 Erlangs at 300 s AHT: a few percent over traffic reaches 80/20.
+    const low = calculateServiceLevel(2010, 2000, 300, 20);
+    const high = calculateServiceLevel(2040, 2000, 300, 20);
+    expect(low).toBeLessThan(high);
+    expect(high).toBeGreaterThan(0.8);
+    expect(erlangC(3000, 2000)).toBeLessThan(1e-90);
+  });
+});
+
+describe('Log-space Erlang - fractional agents', () => {
+  it('is continuous and monotone between whole agents', () => {
+    const traffic = 8;
+    let previous = erlangCContinuous(8.05, traffic);
+    for (let agents = 8.1; agents <= 14; agents += 0.05) {
+      const current = erlangCContinuous(agents, traffic);
+      expect(current).toBeLessThan(previous);
+      previous = current;
+    }
+    expect(erlangCContinuous(10 + 1e-9, traffic)).toBeCloseTo(erlangCContinuous(10, traffic), 8);
+  });
+
+  it('lies between the neighbouring whole-agent values', () => {
+    const half = erlangCContinuous(10.5, 8);
+    expect(half).toBeLessThan(erlangC(10, 8));
+    expect(half).toBeGreaterThan(erlangC(11, 8));
+    expect(erlangC(10.5, 8)).toBeCloseTo(half, 12);
+  });
+});
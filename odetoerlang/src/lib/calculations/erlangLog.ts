@@ -0,0 +1,151 @@
+/**
+ * Log-space Erlang B / C kernels for large agent groups and fractional agents.
+ *
+ * The Erlang B recurrence costs one step per agent and accumulates rounding
+ * at every step. Writing B through the upper incomplete gamma function
+ * removes both problems and extends it to a real number of agents c:
+ *
+ *   B(c, A) = A^c e^{-A} / Γ(c + 1, A)
+ *
+ * With s = c + 1 and the regularised lower gamma P(s, A):
+ *
+ *   ln(1/B) = L + ln(1 - P(s, A))         A < s + 1 (power series for P)
+ *   1/B     = A × F(s, A)                 A ≥ s + 1 (continued fraction,
+ *                                          Γ(s, A) = e^{-A} A^s F)
+ *
+ * where L = ln Γ(s) + A - c ln A is evaluated from Stirling's series as
+ * c ln(s/A) + ½ ln s + (A - s) + ½ ln 2π + …, so the large terms cancel
+ * analytically rather than in floating point. Both expansions converge in
+ * O(√c) terms, and nothing under- or overflows because only ln B is formed.
+ *
+ * Erlang C follows from B as usual, C = c B / (c - A + A B), and the same
+ * formula with real c is the continuous Erlang C used for smooth
+ * fractional-agent curves. At integer c both agree with the recurrence.
+ *
+ * References:
+ * - Jagerman, D.L. (1974). "Some Properties of the Erlang Loss Function".
+ *   Bell System Technical Journal 53(3), 525-551.
+ * - Press, W.H. et al. (2007). Numerical Recipes, 3rd ed., §6.2
+ *   (incomplete gamma function).
+ */
+
+const MAX_ITERATIONS = 100000;
+const EPSILON = 1e-16;
+const FPMIN = 1e-300;
+const HALF_LOG_TWO_PI = 0.5 * Math.log(2 * Math.PI);
+
+/** Stirling's series correction term for ln Γ(x), accurate to ~1e-15 for x ≥ 20. */
+function stirlingCorrection(x: number): number {
+  const inv = 1 / x;
+  const inv2 = inv * inv;
+  return inv * (1 / 12 - inv2 * (1 / 360 - inv2 * (1 / 1260 - inv2 / 1680)));
+}
+
+/** ln Γ(x) for x > 0. */
+export function logGamma(x: number): number {
+  if (x <= 0) return NaN;
+  // Shift up to where Stirling's series is accurate.
+  let shift = 1;
+  let y = x;
+  while (y < 20) {
+    shift *= y;
+    y += 1;
+  }
+  return (y - 0.5) * Math.log(y) - y + HALF_LOG_TWO_PI + stirlingCorrection(y) - Math.log(shift);
+}
+
+/** L = ln Γ(c + 1) + A - c ln A, i.e. minus the log of the (continuous) Poisson term A^c e^{-A} / c!. */
+function logInversePoissonTerm(agents: number, traffic: number): number {
+  const s = agents + 1;
+  if (s < 20) return logGamma(s) + traffic - agents * Math.log(traffic);
+  return agents * Math.log1p((s - traffic) / traffic) + 0.5 * Math.log(s)
+    + (traffic - s) + HALF_LOG_TWO_PI + stirlingCorrection(s);
+}
+
+/** Power series for the regularised lower gamma P(s, x), given L for s = c + 1. */
+function lowerGammaSeries(s: number, x: number, logInverseTerm: number): number {
+  let term = 1 / s;
+  let sum = term;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (s + n);
+    sum += term;
+    if (term < sum * EPSILON) break;
+  }
+  return Math.min(1, x * sum * Math.exp(-logInverseTerm));
+}
+
+/** Continued fraction F(s, x) with Γ(s, x) = e^{-x} x^s F (modified Lentz). */
+function upperGammaFraction(s: number, x: number): number {
+  let b = x + 1 - s;
+  let c = 1 / FPMIN;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - s);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = b + an / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+/**
+ * Natural log of the Erlang B blocking probability for a real number of agents.
+ *
+ * @param agents - Number of agents (c ≥ 0, need not be an integer)
+ * @param trafficIntensity - Traffic intensity in Erlangs (A)
+ * @returns ln B; 0 with no agents, -Infinity with no traffic
+ */
+export function logErlangB(agents: number, trafficIntensity: number): number {
+  if (agents <= 0) return 0;
+  if (trafficIntensity <= 0) return -Infinity;
+
+  const s = agents + 1;
+  if (trafficIntensity < s + 1) {
+    const logInverseTerm = logInversePoissonTerm(agents, trafficIntensity);
+    const p = lowerGammaSeries(s, trafficIntensity, logInverseTerm);
+    return Math.min(0, -(logInverseTerm + Math.log1p(-p)));
+  }
+  return Math.min(0, -Math.log(trafficIntensity * upperGammaFraction(s, trafficIntensity)));
+}
+
+/**
+ * Natural log of the Erlang C probability of waiting for a real number of agents.
+ *
+ * @returns ln C; 0 (certain wait) when agents ≤ traffic, -Infinity with no
+ *   agents or no traffic (matching `erlangC`)
+ */
+export function logErlangC(agents: number, trafficIntensity: number): number {
+  if (agents <= 0 || trafficIntensity <= 0) return -Infinity;
+  if (agents <= trafficIntensity) return 0;
+
+  const logB = logErlangB(agents, trafficIntensity);
+  const B = Math.exp(logB);
+  return Math.min(0, Math.log(agents) + logB - Math.log(agents - trafficIntensity + trafficIntensity * B));
+}
+
+/**
+ * Erlang B for a real number of agents (continuous Erlang B).
+ *
+ * @example
+ * erlangBContinuous(10.5, 8); // between erlangB(10, 8) and erlangB(11, 8)
+ */
+export function erlangBContinuous(agents: number, trafficIntensity: number): number {
+  return Math.exp(logErlangB(agents, trafficIntensity));
+}
+
+/**
+ * Erlang C for a real number of agents (continuous Erlang C).
+ *
+ * @example
+ * erlangCContinuous(2050.5, 2000); // smooth between neighbouring agent counts
+ */
+export function erlangCContinuous(agents: number, trafficIntensity: number): number {
+  return Math.exp(logErlangC(agents, trafficIntensity));
+}
@@ -13,8 +13,8 @@ describe('ErlangVariant Normalization', () => {
     expect(normalizeModel('A')).toBe('A');
     expect(normalizeModel('a')).toBe('A');
     
-    expect(normalizeModel('erlangX')).toBe('A'); // Mapped to A per plan
-    expect(normalizeModel('X')).toBe('A');
+    expect(normalizeModel('erlangX')).toBe('X');
+    expect(normalizeModel('X')).toBe('X');
 
     expect(normalizeModel('erlangB')).toBe('B');
     expect(normalizeModel('B')).toBe('B');
@@ -98,6 +98,37 @@ describe('Erlang Engine Golden Tests', () => {
     });
   });
 
+  describe('Erlang X (Redials + Lines)', () => {
+    it('calculates staffing with redials and trunk blocking', () => {
+      const input: ErlangEngineInput = {
+        ...baseInput,
+        model: 'X',
+        constraints: { ...baseInput.constraints, lines: 20 },
+        behavior: { ...baseInput.behavior, averagePatience: 180, retrialPercent: 40 }
+      };
+      const result = calculateStaffing(input);
+
+      expect(result).not.toBeNull();
+      if (result) {
+        expect(result.model).toBe('X');
+        expect(result.canAchieveTarget).toBe(true);
+        expect(result.requiredAgents).toBeLessThanOrEqual(20);
+        expect(result.blockingProbability).toBeDefined();
+        expect(result.virtualTraffic).toBeGreaterThanOrEqual(result.diagnostics.trafficIntensity);
+        expect(result.diagnostics.assumesStationary).toBe(false);
+      }
+    });
+
+    it('fails without patience', () => {
+      const result = calculateStaffing({
+        ...baseInput,
+        model: 'X',
+        behavior: { ...baseInput.behavior, averagePatience: 0 }
+      });
+      expect(result).toBeNull();
+    });
+  });
+
   describe('Erlang B (Blocking/Loss)', () => {
     it('calculates blocking probability', () => {
         // Erlang B: 10 Erlangs traffic
@@ -0,0 +1,157 @@
+import { describe, test, expect } from 'vitest'
+import {
+  calculateErlangXPerformance,
+  solveAgentsErlangX,
+  calculateErlangXMetrics,
+  calculateQueueTimeProfile,
+} from './erlangX'
+import { calculateServiceLevel, calculateASA } from './erlangC'
+import { calculateErlangB } from './erlangB'
+
+/**
+ * Erlang X Test Suite
+ *
+ * Tests the exact M/M/c/N+M birth-death solution with redials. The limiting
+ * cases must collapse onto the classic models:
+ * - infinite patience, unlimited lines, no redials → Erlang C
+ * - infinite patience, lines = agents, no redials  → Erlang B
+ */
+
+const AHT = 240
+const THRESHOLD = 20
+const VERY_PATIENT = 1e7
+
+describe('Erlang X - limiting cases', () => {
+  test('collapses to Erlang C with infinite patience and unlimited lines', () => {
+    const x = calculateErlangXPerformance(14, 10, AHT, THRESHOLD, VERY_PATIENT)
+    expect(x.serviceLevel).toBeCloseTo(calculateServiceLevel(14, 10, AHT, THRESHOLD), 3)
+    expect(x.asa).toBeCloseTo(calculateASA(14, 10, AHT), 0)
+    expect(x.blockingProbability).toBe(0)
+  })
+
+  test('collapses to Erlang B when there are no waiting positions', () => {
+    const x = calculateErlangXPerformance(10, 8, AHT, THRESHOLD, VERY_PATIENT, 10)
+    expect(x.blockingProbability).toBeCloseTo(calculateErlangB(8, 10), 6)
+    expect(x.asa).toBe(0)
+    expect(x.serviceLevel).toBeCloseTo(1 - x.blockingProbability, 6)
+  })
+
+  test('no traffic means perfect service', () => {
+    const x = calculateErlangXPerformance(5, 0, AHT, THRESHOLD, 120)
+    expect(x.serviceLevel).toBe(1)
+    expect(x.virtualTraffic).toBe(0)
+  })
+})
+
+describe('Erlang X - performance', () => {
+  test('answered, abandoned and blocked probabilities sum to 1', () => {
+    const x = calculateErlangXPerformance(12, 11, AHT, THRESHOLD, 90, 16, 0.4)
+    const total = x.answeredProbability + x.abandonmentProbability + x.blockingProbability
+    expect(total).toBeCloseTo(1, 8)
+  })
+
+  test('is stable when offered traffic exceeds agents', () => {
+    const x = calculateErlangXPerformance(10, 14, AHT, THRESHOLD, 120)
+    expect(x.abandonmentProbability).toBeGreaterThan(0.2)
+    expect(x.carriedTraffic).toBeLessThanOrEqual(10)
+    expect(Number.isFinite(x.asa)).toBe(true)
+  })
+
+  test('fewer lines increases blocking and reduces queueing', () => {
+    const wide = calculateErlangXPerformance(10, 9, AHT, THRESHOLD, 120, 30)
+    const narrow = calculateErlangXPerformance(10, 9, AHT, THRESHOLD, 120, 12)
+    expect(narrow.blockingProbability).toBeGreaterThan(wide.blockingProbability)
+    expect(narrow.asa).toBeLessThan(wide.asa)
+  })
+
+  test('redials inflate virtual traffic and lower service level', () => {
+    const none = calculateErlangXPerformance(10, 9, AHT, THRESHOLD, 60, 14, 0)
+    const redial = calculateErlangXPerformance(10, 9, AHT, THRESHOLD, 60, 14, 0.7)
+    expect(none.virtualTraffic).toBe(9)
+    expect(none.retrialProbability).toBe(0)
+    expect(redial.virtualTraffic).toBeGreaterThan(9)
+    expect(redial.retrialProbability).toBeGreaterThan(0)
+    expect(redial.serviceLevel).toBeLessThan(none.serviceLevel)
+  })
+
+  test('redial fixed point satisfies the equilibrium equation', () => {
+    const r = 0.5
+    const x = calculateErlangXPerformance(10, 9, AHT, THRESHOLD, 60, 14, r)
+    const lost = x.blockingProbability + x.abandonmentProbability
+    expect(x.virtualTraffic).toBeCloseTo(9 + r * x.virtualTraffic * lost, 2)
+  })
+
+  test('handles large agent groups without overflow', () => {
+    const x = calculateErlangXPerformance(1100, 1000, AHT, THRESHOLD, 120, 1300, 0.4)
+    expect(x.serviceLevel).toBeGreaterThan(0.5)
+    expect(x.serviceLevel).toBeLessThanOrEqual(1)
+    expect(Number.isFinite(x.asa)).toBe(true)
+  })
+})
+
+describe('Erlang X - queue time profile', () => {
+  test('mean queue time matches abandonment: P(abandon) = E[W] / patience', () => {
+    const profile = calculateQueueTimeProfile(8, 10, AHT, 90)!
+    const x = calculateErlangXPerformance(8, 10, AHT, THRESHOLD, 90)
+    expect(profile.meanWait / 90).toBeCloseTo(x.abandonmentProbability, 8)
+    expect(profile.answeredWithin(THRESHOLD)).toBeCloseTo(x.serviceLevel, 10)
+  })
+
+  test('queued share starts at P(wait) and decays', () => {
+    const profile = calculateQueueTimeProfile(8, 10, AHT, 90)!
+    expect(profile.queuedAfter(0)).toBeCloseTo(profile.probabilityOfWaiting, 10)
+    expect(profile.queuedAfter(60)).toBeLessThan(profile.queuedAfter(10))
+    expect(profile.queuedAfter(3600)).toBeLessThan(1e-6)
+  })
+})
+
+describe('Erlang X - solver', () => {
+  test('finds the smallest agent count meeting the target', () => {
+    const agents = solveAgentsErlangX(10, AHT, 0.8, THRESHOLD, 0.95, 120, undefined, 0.4)
+    expect(agents).not.toBeNull()
+    const at = calculateErlangXPerformance(agents!, 10, AHT, THRESHOLD, 120, undefined, 0.4)
+    const below = calculateErlangXPerformance(agents! - 1, 10, AHT, THRESHOLD, 120, undefined, 0.4)
+    expect(at.serviceLevel).toBeGreaterThanOrEqual(0.8)
+    expect(below.serviceLevel).toBeLessThan(0.8)
+  })
+
+  test('returns null when trunk blocking makes the target unreachable', () => {
+    expect(solveAgentsErlangX(10, AHT, 0.95, THRESHOLD, 0.9, 120, 8, 0.4)).toBeNull()
+  })
+})
+
+describe('Erlang X - calculateErlangXMetrics', () => {
+  test('returns complete metrics for a standard interval', () => {
+    const metrics = calculateErlangXMetrics({
+      volume: 100,
+      aht: AHT,
+      intervalMinutes: 30,
+      targetSLPercent: 80,
+      thresholdSeconds: THRESHOLD,
+      maxOccupancy: 90,
+      averagePatience: 120,
+      lines: 25,
+      retrialPercent: 40,
+    })
+
+    expect(metrics).not.toBeNull()
+    expect(metrics!.serviceLevel).toBeGreaterThanOrEqual(0.8)
+    expect(metrics!.callAttempts).toBeGreaterThanOrEqual(100)
+    expect(metrics!.answeredContacts + metrics!.expectedAbandonments + metrics!.expectedBlocked)
+      .toBeCloseTo(metrics!.callAttempts, 6)
+  })
+
+  test('zero volume needs zero agents', () => {
+    const metrics = calculateErlangXMetrics({
+      volume: 0,
+      aht: AHT,
+      intervalMinutes: 30,
+      targetSLPercent: 80,
+      thresholdSeconds: THRESHOLD,
+      maxOccupancy: 90,
+      averagePatience: 120,
+      retrialPercent: 40,
+    })
+    expect(metrics!.requiredAgents).toBe(0)
+  })
+})
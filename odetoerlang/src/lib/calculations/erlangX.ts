@@ -0,0 +1,514 @@
+/**
+ * Erlang X Implementation (M/M/c/N+M with redials)
+ *
+ * Extends Erlang A with the two behaviours it ignores:
+ * - A finite number of lines/trunks N (agents + waiting positions). Callers
+ *   arriving when all N lines are occupied hear a busy tone (blocked).
+ * - Redials: a blocked or abandoned caller tries again with probability r.
+ *   Redials are added back into the offered load until the system reaches
+ *   equilibrium ("virtual traffic").
+ *
+ * Unlike `erlangA.ts` this is NOT a heavy-traffic approximation. The queue is
+ * solved exactly as a finite birth-death chain (states 0..N) and the waiting
+ * time of a tagged caller is evaluated by uniformization of the queue-position
+ * chain. The only approximation is the redial model: redials are treated as
+ * fresh Poisson arrivals (the standard Erlang X simplification).
+ *
+ * Notation (all rates normalised so that μ = 1/AHT = 1):
+ * - A  = offered traffic in Erlangs (first attempts only)
+ * - Av = virtual traffic = first attempts + redials
+ * - c  = agents, N = lines (N ≥ c), Q = N - c waiting positions
+ * - θ' = AHT / patience (abandonment rate per AHT)
+ *
+ * All performance metrics are per call attempt, which is what an ACD reports:
+ * SL = P(attempt answered within t), so blocked and abandoned attempts both
+ * count against service level.
+ */
+
+import type { ServiceTarget } from '../../types';
+import { EQUILIBRIUM_MAX_ITERATIONS, EQUILIBRIUM_TOLERANCE } from '../../utils/constants';
+
+// Truncation limits for the "unlimited lines" case. The chain is always
+// stable when patience is finite, so the tail decays geometrically once the
+// abandonment rate outruns the arrival rate.
+const TAIL_TOLERANCE = 1e-14;
+const MAX_QUEUE_POSITIONS = 20000;
+
+// Poisson tail mass ignored by the uniformization sum.
+const UNIFORMIZATION_TOLERANCE = 1e-12;
+
+/**
+ * Steady-state performance of an Erlang X queue for a fixed agent count.
+ */
+export interface ErlangXPerformance {
+  serviceLevel: number;          // P(attempt answered within threshold), 0-1
+  asa: number;                   // Mean wait of answered attempts, seconds
+  answeredProbability: number;   // P(attempt answered), 0-1
+  abandonmentProbability: number; // P(attempt abandons while queued), 0-1
+  blockingProbability: number;   // P(attempt finds all lines busy), 0-1
+  retrialProbability: number;    // Share of attempts that are redials, 0-1
+  virtualTraffic: number;        // Offered traffic including redials, Erlangs
+  carriedTraffic: number;        // Traffic actually served by agents, Erlangs
+}
+
+/**
+ * Stationary distribution of the number of callers in system (0..N).
+ * Computed in log-space so large agent groups do not overflow A^k/k!.
+ */
+function stateProbabilities(
+  agents: number,
+  trafficIntensity: number,
+  thetaAHT: number,
+  lines: number | undefined
+): number[] {
+  const c = agents;
+  const maxState = lines !== undefined ? lines : c + MAX_QUEUE_POSITIONS;
+  const logA = Math.log(trafficIntensity);
+
+  const logP: number[] = [0];
+  let maxLog = 0;
+  for (let k = 1; k <= maxState; k++) {
+    const deathRate = Math.min(k, c) + Math.max(0, k - c) * thetaAHT;
+    const next = logP[k - 1]! + logA - Math.log(deathRate);
+    logP.push(next);
+    if (next > maxLog) maxLog = next;
+
+    // Unlimited lines: stop once past the mode and the tail is negligible.
+    if (lines === undefined && k > c && deathRate > trafficIntensity && next - maxLog < Math.log(TAIL_TOLERANCE)) {
+      break;
+    }
+  }
+
+  const weights = logP.map(l => Math.exp(l - maxLog));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => w / total);
+}
+
+/**
+ * Performance for a single (non-redial) offered load.
+ */
+function evaluateQueue(
+  agents: number,
+  trafficIntensity: number,
+  aht: number,
+  thresholdSeconds: number,
+  averagePatience: number,
+  lines: number | undefined
+): Omit<ErlangXPerformance, 'retrialProbability' | 'virtualTraffic'> {
+  const c = lines !== undefined ? Math.min(agents, lines) : agents;
+  const thetaAHT = aht / averagePatience;
+  const p = stateProbabilities(c, trafficIntensity, thetaAHT, lines);
+  const N = p.length - 1;
+
+  // Arrivals see time averages (PASTA). An arrival in state N is blocked;
+  // lines === undefined means the truncated last state is not a real limit.
+  const blockingProbability = lines !== undefined ? p[N]! : 0;
+  const lastAcceptingState = lines !== undefined ? N - 1 : N;
+
+  let immediate = 0;
+  for (let k = 0; k < Math.min(c, lastAcceptingState + 1); k++) immediate += p[k]!;
+
+  // Tagged caller at queue position i moves forward at rate r_i = c + (i-1)θ'
+  // (service completions plus abandonments ahead) and abandons at rate θ'.
+  const positions = Math.max(0, lastAcceptingState - c + 1);
+  const initial = new Float64Array(positions + 1);
+  for (let i = 1; i <= positions; i++) initial[i] = p[c + i - 1]!;
+
+  // P(served | start at i) and E[wait · 1{served} | start at i], by recursion.
+  let servedProb = 1;
+  let servedWait = 0;
+  let answeredFromQueue = 0;
+  let waitSum = 0;
+  for (let i = 1; i <= positions; i++) {
+    const forward = c + (i - 1) * thetaAHT;
+    const exit = forward + thetaAHT;
+    servedWait = (forward / exit) * ((1 / exit) * servedProb + servedWait);
+    servedProb = (forward / exit) * servedProb;
+    answeredFromQueue += initial[i]! * servedProb;
+    waitSum += initial[i]! * servedWait;
+  }
+
+  const answeredProbability = immediate + answeredFromQueue;
+  const abandonmentProbability = Math.max(0, 1 - blockingProbability - answeredProbability);
+  const asa = answeredProbability > 0 ? (waitSum / answeredProbability) * aht : 0;
+
+  const servedWithinT = positions > 0
+    ? probabilityServedWithin(initial, c, thetaAHT, thresholdSeconds / aht)
+    : 0;
+
+  return {
+    serviceLevel: Math.min(1, Math.max(0, immediate + servedWithinT)),
+    asa,
+    answeredProbability,
+    abandonmentProbability,
+    blockingProbability,
+    carriedTraffic: trafficIntensity * answeredProbability,
+  };
+}
+
+/**
+ * Probability that a queued caller reaches an agent within `t` (in AHT
+ * units), summed over the initial position distribution.
+ */
+function probabilityServedWithin(
+  initial: Float64Array,
+  agents: number,
+  thetaAHT: number,
+  t: number
+): number {
+  return t > 0 ? positionsAfter(initial, agents, thetaAHT, t).served : 0;
+}
+
+/**
+ * Where queued callers are after `t` (in AHT units): reached an agent, or
+ * still queued. The rest abandoned. Uses uniformization of the position
+ * chain with an absorbing "served" state at index 0.
+ */
+function positionsAfter(
+  initial: Float64Array,
+  agents: number,
+  thetaAHT: number,
+  t: number
+): { served: number; queued: number } {
+  const positions = initial.length - 1;
+  const uniformRate = agents + positions * thetaAHT;
+  const lambdaT = uniformRate * Math.max(0, t);
+
+  let v = Float64Array.from(initial);
+  let next = new Float64Array(positions + 1);
+  let logWeight = -lambdaT;
+  let cumulativeWeight = 0;
+  let served = 0;
+  let queued = 0;
+  const maxTerms = Math.ceil(lambdaT + 10 * Math.sqrt(lambdaT) + 50);
+
+  for (let n = 0; n <= maxTerms; n++) {
+    if (n > 0) logWeight += Math.log(lambdaT) - Math.log(n);
+    const weight = Math.exp(logWeight);
+    let waiting = 0;
+    for (let i = 1; i <= positions; i++) waiting += v[i]!;
+    served += weight * v[0]!;
+    queued += weight * waiting;
+    cumulativeWeight += weight;
+    if (n > lambdaT && 1 - cumulativeWeight < UNIFORMIZATION_TOLERANCE) break;
+
+    next.fill(0);
+    next[0] = v[0]!;
+    for (let i = 1; i <= positions; i++) {
+      const mass = v[i]!;
+      if (mass === 0) continue;
+      const forward = agents + (i - 1) * thetaAHT;
+      next[i - 1]! += mass * (forward / uniformRate);
+      next[i]! += mass * (1 - (forward + thetaAHT) / uniformRate);
+    }
+    [v, next] = [next, v];
+  }
+
+  return {
+    served: Math.min(1, Math.max(0, served)),
+    queued: Math.min(1, Math.max(0, queued)),
+  };
+}
+
+/**
+ * Time in queue for an M/M/c+M queue with unlimited lines and no redials.
+ */
+export interface QueueTimeProfile {
+  /** P(wait > 0), 0-1 */
+  probabilityOfWaiting: number;
+  /** Mean time in queue over all callers (answered or abandoned), seconds */
+  meanWait: number;
+  /** P(answered within t seconds), 0-1 */
+  answeredWithin: (seconds: number) => number;
+  /** P(still queued after t seconds), 0-1 */
+  queuedAfter: (seconds: number) => number;
+}
+
+/**
+ * Exact time-in-queue profile of an M/M/c+M queue. Finite patience keeps the
+ * chain stable at any load, so this also covers c ≤ A, where the Erlang A
+ * approximation in `erlangA.ts` has no answer.
+ *
+ * @returns The profile, or null for non-positive inputs
+ */
+export function calculateQueueTimeProfile(
+  agents: number,
+  trafficIntensity: number,
+  aht: number,
+  averagePatience: number
+): QueueTimeProfile | null {
+  if (agents <= 0 || trafficIntensity < 0 || aht <= 0 || averagePatience <= 0) return null;
+  if (trafficIntensity === 0) {
+    return { probabilityOfWaiting: 0, meanWait: 0, answeredWithin: () => 1, queuedAfter: () => 0 };
+  }
+
+  const thetaAHT = aht / averagePatience;
+  const p = stateProbabilities(agents, trafficIntensity, thetaAHT, undefined);
+  const positions = Math.max(0, p.length - agents);
+  const initial = new Float64Array(positions + 1);
+  let immediate = 0;
+  for (let k = 0; k < Math.min(agents, p.length); k++) immediate += p[k]!;
+  for (let i = 1; i <= positions; i++) initial[i] = p[agents + i - 1]!;
+
+  // Mean time to leave the queue from position i, by recursion (AHT units):
+  // the caller leaves position i at rate c + iθ' and moves forward with
+  // probability (c + (i-1)θ') / (c + iθ').
+  let exitTime = 0;
+  let meanWait = 0;
+  for (let i = 1; i <= positions; i++) {
+    const exit = agents + i * thetaAHT;
+    exitTime = 1 / exit + ((exit - thetaAHT) / exit) * exitTime;
+    meanWait += initial[i]! * exitTime;
+  }
+
+  return {
+    probabilityOfWaiting: Math.max(0, 1 - immediate),
+    meanWait: meanWait * aht,
+    answeredWithin: (seconds) =>
+      Math.min(1, immediate + probabilityServedWithin(initial, agents, thetaAHT, seconds / aht)),
+    queuedAfter: (seconds) => positionsAfter(initial, agents, thetaAHT, seconds / aht).queued,
+  };
+}
+
+/**
+ * Calculate Erlang X performance for a fixed number of agents.
+ *
+ * Redials are resolved by fixed-point iteration on the virtual traffic:
+ *   Av = A + r × Av × (P(blocked) + P(abandoned))
+ *
+ * @param agents - Number of agents (c)
+ * @param trafficIntensity - Offered traffic from first attempts, Erlangs (A)
+ * @param aht - Average Handle Time in seconds
+ * @param thresholdSeconds - Service level threshold in seconds
+ * @param averagePatience - Average customer patience in seconds
+ * @param lines - Number of lines/trunks (N). Undefined = unlimited.
+ * @param retrialProbability - Probability a blocked/abandoned caller redials (0-1)
+ * @returns Per-attempt performance metrics
+ */
+export function calculateErlangXPerformance(
+  agents: number,
+  trafficIntensity: number,
+  aht: number,
+  thresholdSeconds: number,
+  averagePatience: number,
+  lines?: number,
+  retrialProbability: number = 0
+): ErlangXPerformance {
+  if (trafficIntensity <= 0 || aht <= 0) {
+    return {
+      serviceLevel: 1,
+      asa: 0,
+      answeredProbability: 1,
+      abandonmentProbability: 0,
+      blockingProbability: 0,
+      retrialProbability: 0,
+      virtualTraffic: 0,
+      carriedTraffic: 0,
+    };
+  }
+  if (agents <= 0 || (lines !== undefined && lines <= 0) || averagePatience <= 0) {
+    return {
+      serviceLevel: 0,
+      asa: 0,
+      answeredProbability: 0,
+      abandonmentProbability: lines !== undefined && lines <= 0 ? 0 : 1,
+      blockingProbability: lines !== undefined && lines <= 0 ? 1 : 0,
+      retrialProbability: 0,
+      virtualTraffic: trafficIntensity,
+      carriedTraffic: 0,
+    };
+  }
+
+  const r = Math.min(Math.max(retrialProbability, 0), 0.99);
+  let virtualTraffic = trafficIntensity;
+  let queue = evaluateQueue(agents, virtualTraffic, aht, thresholdSeconds, averagePatience, lines);
+
+  for (let i = 0; i < EQUILIBRIUM_MAX_ITERATIONS && r > 0; i++) {
+    const lost = queue.blockingProbability + queue.abandonmentProbability;
+    const nextTraffic = trafficIntensity + r * virtualTraffic * lost;
+    const converged = Math.abs(nextTraffic - virtualTraffic) <= EQUILIBRIUM_TOLERANCE * trafficIntensity;
+    virtualTraffic = nextTraffic;
+    queue = evaluateQueue(agents, virtualTraffic, aht, thresholdSeconds, averagePatience, lines);
+    if (converged) break;
+  }
+
+  return {
+    ...queue,
+    retrialProbability: virtualTraffic > 0 ? (virtualTraffic - trafficIntensity) / virtualTraffic : 0,
+    virtualTraffic,
+  };
+}
+
+/**
+ * Solve for required agents using Erlang X.
+ *
+ * Agents beyond the number of lines cannot take calls, so the search is
+ * capped at `lines`. Returns null when the target is unreachable, which
+ * happens when trunk blocking alone exceeds (1 - targetSL).
+ *
+ * @param target - Target to search against (default: service level)
+ * @returns Required number of agents, or null if cannot achieve
+ */
+export function solveAgentsErlangX(
+  trafficIntensity: number,
+  aht: number,
+  targetSL: number,
+  thresholdSeconds: number,
+  maxOccupancy: number,
+  averagePatience: number,
+  lines?: number,
+  retrialProbability: number = 0,
+  target: ServiceTarget = { type: 'serviceLevel' }
+): number | null {
+  if (trafficIntensity <= 0 || aht <= 0) {
+    return 0;
+  }
+
+  const minAgents = Math.max(1, Math.ceil(trafficIntensity / maxOccupancy));
+  let maxAgents = Math.max(Math.ceil(trafficIntensity * 5), minAgents + 50);
+  if (lines !== undefined) {
+    if (minAgents > lines) return null;
+    maxAgents = Math.min(maxAgents, lines);
+  }
+
+  // Binary search: service level is monotonically increasing with agents.
+  let left = minAgents;
+  let right = maxAgents;
+  let result: number | null = null;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+    const performance = calculateErlangXPerformance(
+      mid,
+      trafficIntensity,
+      aht,
+      thresholdSeconds,
+      averagePatience,
+      lines,
+      retrialProbability
+    );
+    const meetsTarget = target.type === 'asa'
+      ? performance.asa <= target.maxASASeconds
+      : target.type === 'abandonRate'
+        ? performance.abandonmentProbability <= target.maxAbandonRate
+        : performance.serviceLevel >= targetSL;
+
+    if (meetsTarget) {
+      result = mid;
+      right = mid - 1;
+    } else {
+      left = mid + 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Complete staffing metrics result from Erlang X calculation
+ */
+export interface ErlangXMetrics extends ErlangXPerformance {
+  trafficIntensity: number;
+  requiredAgents: number;
+  callAttempts: number;          // First attempts + redials in the interval
+  expectedAbandonments: number;
+  expectedBlocked: number;
+  answeredContacts: number;
+}
+
+/**
+ * Calculate complete staffing metrics using Erlang X.
+ * This is the primary entry point for Erlang X calculations.
+ *
+ * @param params - Calculation parameters
+ * @param params.volume - First-attempt contact volume for the interval
+ * @param params.aht - Average Handle Time in seconds
+ * @param params.intervalMinutes - Interval duration in minutes (e.g., 30)
+ * @param params.targetSLPercent - Target service level as percentage (0-100)
+ * @param params.thresholdSeconds - SL threshold in seconds (e.g., 20)
+ * @param params.maxOccupancy - Maximum occupancy as percentage (0-100)
+ * @param params.averagePatience - Average customer patience in seconds
+ * @param params.lines - Lines/trunks available (undefined = unlimited)
+ * @param params.retrialPercent - % of blocked/abandoned callers who redial (0-100)
+ * @param params.target - Target to solve against (default: service level)
+ * @returns ErlangXMetrics, or null if the target is unachievable
+ *
+ * @example
+ * const metrics = calculateErlangXMetrics({
+ *   volume: 100,
+ *   aht: 240,
+ *   intervalMinutes: 30,
+ *   targetSLPercent: 80,
+ *   thresholdSeconds: 20,
+ *   maxOccupancy: 90,
+ *   averagePatience: 120,
+ *   lines: 20,
+ *   retrialPercent: 40,
+ * });
+ */
+export function calculateErlangXMetrics(params: {
+  volume: number;
+  aht: number;
+  intervalMinutes: number;
+  targetSLPercent: number;
+  thresholdSeconds: number;
+  maxOccupancy: number;
+  averagePatience: number;
+  lines?: number | undefined;
+  retrialPercent: number;
+  target?: ServiceTarget | undefined;
+}): ErlangXMetrics | null {
+  const intervalSeconds = params.intervalMinutes * 60;
+  const trafficIntensity = (params.volume * params.aht) / intervalSeconds;
+  const retrialProbability = params.retrialPercent / 100;
+
+  if (trafficIntensity <= 0 || params.volume <= 0) {
+    return {
+      ...calculateErlangXPerformance(0, 0, params.aht, params.thresholdSeconds, params.averagePatience),
+      trafficIntensity,
+      requiredAgents: 0,
+      callAttempts: params.volume,
+      expectedAbandonments: 0,
+      expectedBlocked: 0,
+      answeredContacts: params.volume,
+    };
+  }
+
+  const requiredAgents = solveAgentsErlangX(
+    trafficIntensity,
+    params.aht,
+    params.targetSLPercent / 100,
+    params.thresholdSeconds,
+    params.maxOccupancy / 100,
+    params.averagePatience,
+    params.lines,
+    retrialProbability,
+    params.target
+  );
+
+  if (requiredAgents === null) {
+    return null;
+  }
+
+  const performance = calculateErlangXPerformance(
+    requiredAgents,
+    trafficIntensity,
+    params.aht,
+    params.thresholdSeconds,
+    params.averagePatience,
+    params.lines,
+    retrialProbability
+  );
+
+  const callAttempts = params.volume * (performance.virtualTraffic / trafficIntensity);
+
+  return {
+    ...performance,
+    trafficIntensity,
+    requiredAgents,
+    callAttempts,
+    expectedAbandonments: callAttempts * performance.abandonmentProbability,
+    expectedBlocked: callAttempts * performance.blockingProbability,
+    answeredContacts: callAttempts * performance.answeredProbability,
+  };
+}
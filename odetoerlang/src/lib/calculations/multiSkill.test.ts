@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  agentGroupsFromStaffSkills,
+  calculateMultiSkill,
+  compareCrossSkilling,
+  specialistGroupsFromStaffSkills,
+  type MultiSkillInput,
+  type SkillDemand,
+  type StaffSkillAssignment,
+} from './multiSkill';
+import { calculateASA, calculateServiceLevel, erlangC } from './erlangC';
+
+// Two skills, 30-minute interval: 10 and 8 Erlangs offered.
+const skills: SkillDemand[] = [
+  { skillId: 1, label: 'Sales', volume: 75, aht: 240, thresholdSeconds: 20 },
+  { skillId: 2, label: 'Support', volume: 48, aht: 300, thresholdSeconds: 20 },
+];
+
+const baseInput: MultiSkillInput = {
+  intervalSeconds: 1800,
+  skills,
+  groups: [
+    { skills: [1], agents: 12 },
+    { skills: [2], agents: 10 },
+  ],
+};
+
+describe('Multi-skill - reduces to Erlang C', () => {
+  it('matches Erlang C for one skill and one group', () => {
+    const r = calculateMultiSkill({ ...baseInput, skills: [skills[0]!], groups: [{ skills: [1], agents: 12 }] })!;
+    const s = r.skills[0]!;
+    expect(s.trafficIntensity).toBeCloseTo(10, 10);
+    expect(s.waitProbability).toBeCloseTo(erlangC(12, 10), 10);
+    expect(s.serviceLevel).toBeCloseTo(calculateServiceLevel(12, 10, 240, 20), 10);
+    expect(s.asa).toBeCloseTo(calculateASA(12, 10, 240), 8);
+  });
+
+  it('gives per-skill Erlang C for specialists only', () => {
+    const r = calculateMultiSkill(baseInput)!;
+    expect(r.skills[0]!.serviceLevel).toBeCloseTo(calculateServiceLevel(12, 10, 240, 20), 10);
+    expect(r.skills[1]!.serviceLevel).toBeCloseTo(calculateServiceLevel(10, 8, 300, 20), 10);
+    expect(r.totalAgents).toBe(22);
+    expect(r.groups.every(g => g.overflowPeakedness >= 1)).toBe(true);
+  });
+});
+
+describe('Multi-skill - cross-skilling', () => {
+  it('lifts service level when some agents hold both skills', () => {
+    const specialist = calculateMultiSkill(baseInput)!;
+    const mixed = calculateMultiSkill({
+      ...baseInput,
+      groups: [
+        { skills: [1, 2], agents: 4 },
+        { skills: [1], agents: 10 },
+        { skills: [2], agents: 8 },
+      ],
+    })!;
+    expect(mixed.totalAgents).toBe(specialist.totalAgents);
+    expect(mixed.serviceLevel).toBeGreaterThan(specialist.serviceLevel);
+    // Routing order puts specialists first whatever the input order.
+    expect(mixed.groups.map(g => g.skills.length)).toEqual([1, 1, 2]);
+    expect(mixed.groups[2]!.overflowLoad).toBeLessThan(mixed.groups[2]!.offeredLoad);
+  });
+
+  it('approaches pooled Erlang C as cross-skilling grows', () => {
+    const pooledSL = calculateServiceLevel(22, 18, 264, 20);
+    const levels = [0, 4, 10, 22].map(flexible => calculateMultiSkill({
+      ...baseInput,
+      groups: [
+        { skills: [1], agents: 12 - flexible * (12 / 22) },
+        { skills: [2], agents: 10 - flexible * (10 / 22) },
+        { skills: [1, 2], agents: flexible },
+      ],
+    })!.serviceLevel);
+    for (let i = 1; i < levels.length; i++) expect(levels[i]!).toBeGreaterThan(levels[i - 1]!);
+    expect(levels[3]!).toBeCloseTo(pooledSL, 1);
+  });
+
+  it('treats skills with no eligible agents as unstaffed', () => {
+    const r = calculateMultiSkill({ ...baseInput, groups: [{ skills: [1], agents: 12 }] })!;
+    expect(r.skills[1]!.eligibleAgents).toBe(0);
+    expect(r.skills[1]!.lossProbability).toBe(1);
+    expect(r.skills[1]!.serviceLevel).toBe(0);
+    expect(r.skills[1]!.asa).toBe(Infinity);
+  });
+
+  it('returns null for invalid input', () => {
+    expect(calculateMultiSkill({ ...baseInput, intervalSeconds: 0 })).toBeNull();
+    expect(calculateMultiSkill({ ...baseInput, skills: [skills[0]!, skills[0]!] })).toBeNull();
+    expect(calculateMultiSkill({ ...baseInput, groups: [{ skills: [3], agents: 5 }] })).toBeNull();
+    expect(calculateMultiSkill({ ...baseInput, groups: [{ skills: [1], agents: -1 }] })).toBeNull();
+  });
+});
+
+describe('Multi-skill - StaffSkills', () => {
+  const staffSkills: StaffSkillAssignment[] = [
+    { staff_id: 1, skill_id: 1, proficiency_level: 5 },
+    { staff_id: 2, skill_id: 1, proficiency_level: 4 },
+    { staff_id: 2, skill_id: 2, proficiency_level: 2 },
+    { staff_id: 3, skill_id: 2, proficiency_level: 3 },
+    { staff_id: 3, skill_id: 1, proficiency_level: 3 },
+    { staff_id: 4, skill_id: 2, proficiency_level: null },
+    { staff_id: 4, skill_id: 9, proficiency_level: 5 },
+  ];
+
+  it('groups staff by skill set', () => {
+    expect(agentGroupsFromStaffSkills(staffSkills, { skillIds: [1, 2] })).toEqual([
+      { skills: [1], agents: 1 },
+      { skills: [1, 2], agents: 2 },
+      { skills: [2], agents: 1 },
+    ]);
+    expect(agentGroupsFromStaffSkills(staffSkills, { skillIds: [1, 2], minProficiency: 3, agentsPerStaff: 0.5 })).toEqual([
+      { skills: [1], agents: 1 },
+      { skills: [1, 2], agents: 0.5 },
+    ]);
+  });
+
+  it('puts each person on their strongest skill for the specialist baseline', () => {
+    expect(specialistGroupsFromStaffSkills(staffSkills, { skillIds: [1, 2] })).toEqual([
+      { skills: [1], agents: 3 },
+      { skills: [2], agents: 1 },
+    ]);
+  });
+
+  it('compares cross-skilled, specialist and pooled teams of the same size', () => {
+    const team: StaffSkillAssignment[] = [];
+    for (let id = 1; id <= 22; id++) {
+      team.push({ staff_id: id, skill_id: id <= 12 ? 1 : 2, proficiency_level: 4 });
+      if (id % 4 === 0) team.push({ staff_id: id, skill_id: id <= 12 ? 2 : 1, proficiency_level: 2 });
+    }
+    const c = compareCrossSkilling(1800, skills, team)!;
+    expect(c.specialist.totalAgents).toBe(22);
+    expect(c.crossSkilled.totalAgents).toBe(22);
+    expect(c.pooled.totalAgents).toBe(22);
+    expect(c.crossSkilled.serviceLevel).toBeGreaterThan(c.specialist.serviceLevel);
+    expect(c.pooled.serviceLevel).toBeGreaterThanOrEqual(c.crossSkilled.serviceLevel);
+  });
+});
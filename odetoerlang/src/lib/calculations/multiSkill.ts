@@ -0,0 +1,365 @@
+/**
+ * Multi-skill staffing by loss-and-overflow.
+ *
+ * Agents are split into groups by the set of skills they hold. A contact
+ * for skill s tries the groups that hold s in a fixed order (specialists
+ * first, then groups with more skills) and overflows to the next one when
+ * every agent in the group is busy; what overflows the last group is lost.
+ *
+ * Each group sees the sum of the streams routed to it, with mean M and
+ * variance V. Fresh traffic is Poisson (V = M); overflow is peaked (V > M).
+ * Hayward's approximation treats a peaked stream of peakedness z = V / M as
+ * Poisson traffic M / z offered to c / z agents:
+ *
+ *   B          = E_B(c / z, M / z)             (continuous Erlang B)
+ *   overflow   = M × B
+ *
+ * and the overflow variance is Riordan's formula in the scaled system,
+ * scaled back by z²:
+ *
+ *   α = (M / z) B
+ *   V' = z² × α (1 - α + (M / z) / (c / z + 1 - M / z + α))
+ *
+ * Overflow is shared between skills in proportion to what they offered.
+ *
+ * The loss system is then read back as a delay system per skill. With L_s
+ * the share of skill s lost, N_s the agents who can take it and ρ_s their
+ * carried occupancy:
+ *
+ *   P(W > 0) = L_s / (1 - ρ_s)
+ *   A*_s     = carried load on those agents / (1 - L_s)
+ *   SL_s     = 1 - P(W > 0) × e^{-(N_s - A*_s) T / AHT_s}
+ *   ASA_s    = P(W > 0) × AHT_s / (N_s - A*_s)
+ *
+ * For a single group (one skill, or everyone cross-skilled) these reduce to
+ * Erlang C exactly: C = B / (1 - ρ(1 - B)).
+ *
+ * References:
+ * - Hayward, W.S. (1952), via Fredericks, A.A. (1980). "Congestion in
+ *   Blocking Systems - A Simple Approximation Technique". Bell System
+ *   Technical Journal 59(6), 805-827.
+ * - Riordan, J. (1956), in Wilkinson, R.I. "Theories for Toll Traffic
+ *   Engineering in the U.S.A.". Bell System Technical Journal 35(2), 421-514.
+ * - Koole, G. (2013). Call Center Optimization, ch. 7 (skill-based routing).
+ */
+
+import { erlangBContinuous } from './erlangLog';
+
+export interface SkillDemand {
+  skillId: number;
+  label?: string | undefined;
+  /** Contacts offered in the interval */
+  volume: number;
+  /** Average handle time, seconds */
+  aht: number;
+  /** Service level threshold, seconds */
+  thresholdSeconds: number;
+}
+
+export interface AgentGroup {
+  /** Skills every agent in the group can take */
+  skills: number[];
+  /** Agents on the phones (need not be an integer) */
+  agents: number;
+  label?: string | undefined;
+}
+
+export interface MultiSkillInput {
+  intervalSeconds: number;
+  skills: SkillDemand[];
+  groups: AgentGroup[];
+}
+
+export interface SkillResult {
+  skillId: number;
+  label?: string | undefined;
+  /** Offered load, Erlangs */
+  trafficIntensity: number;
+  /** Agents in groups that hold the skill */
+  eligibleAgents: number;
+  /** Share of contacts overflowing every eligible group (0-1) */
+  lossProbability: number;
+  /** P(wait > 0) (0-1) */
+  waitProbability: number;
+  /** Service level as decimal (0-1) */
+  serviceLevel: number;
+  /** Average Speed of Answer in seconds (Infinity if unstable) */
+  asa: number;
+  /** Carried occupancy of the eligible agents (0-1) */
+  occupancy: number;
+}
+
+export interface GroupResult {
+  skills: number[];
+  agents: number;
+  label?: string | undefined;
+  /** First-choice and overflow load offered to the group, Erlangs */
+  offeredLoad: number;
+  carriedLoad: number;
+  overflowLoad: number;
+  /** Variance-to-mean ratio of the overflow (1 = Poisson) */
+  overflowPeakedness: number;
+  /** Carried load per agent (0-1) */
+  occupancy: number;
+}
+
+export interface MultiSkillResult {
+  skills: SkillResult[];
+  /** In routing order */
+  groups: GroupResult[];
+  /** Volume-weighted service level across skills (0-1) */
+  serviceLevel: number;
+  totalAgents: number;
+}
+
+/** A StaffSkills row. */
+export interface StaffSkillAssignment {
+  staff_id: number;
+  skill_id: number;
+  proficiency_level: number | null;
+}
+
+export interface StaffSkillGroupOptions {
+  /** Only these skills are modelled; others are ignored */
+  skillIds?: readonly number[] | undefined;
+  /** Ignore skills held below this proficiency (1-5) */
+  minProficiency?: number | undefined;
+  /** Agents on the phones per person, e.g. 1 - shrinkage */
+  agentsPerStaff?: number | undefined;
+}
+
+export interface CrossSkillingComparison {
+  /** Skill sets as held in StaffSkills */
+  crossSkilled: MultiSkillResult;
+  /** Everyone on their strongest skill only */
+  specialist: MultiSkillResult;
+  /** Every agent takes every skill (upper bound) */
+  pooled: MultiSkillResult;
+}
+
+interface Stream {
+  mean: number;
+  variance: number;
+}
+
+function isValidInput(input: MultiSkillInput): boolean {
+  if (!(input.intervalSeconds > 0) || input.skills.length === 0) return false;
+  const ids = new Set(input.skills.map(s => s.skillId));
+  if (ids.size !== input.skills.length) return false;
+  return input.skills.every(s => s.volume >= 0 && s.aht > 0 && s.thresholdSeconds >= 0)
+    && input.groups.every(g => Number.isFinite(g.agents) && g.agents >= 0
+      && g.skills.length > 0 && g.skills.every(id => ids.has(id)));
+}
+
+/** Overflow mean and variance of one group (Hayward + Riordan). */
+function overflow(agents: number, offered: Stream): Stream {
+  const z = Math.max(1, offered.variance / offered.mean);
+  const scaledTraffic = offered.mean / z;
+  const scaledAgents = agents / z;
+  const blocking = erlangBContinuous(scaledAgents, scaledTraffic);
+  const alpha = scaledTraffic * blocking;
+  const scaledVariance = alpha * (1 - alpha + scaledTraffic / (scaledAgents + 1 - scaledTraffic + alpha));
+  return { mean: offered.mean * blocking, variance: Math.max(0, z * z * scaledVariance) };
+}
+
+/**
+ * Per-skill service level for agent groups with overlapping skill sets.
+ *
+ * @returns null for invalid input (duplicate skill ids, AHT ≤ 0, groups
+ *   with no skills or skills that are not in `skills`)
+ *
+ * @example
+ * const r = calculateMultiSkill({
+ *   intervalSeconds: 1800,
+ *   skills: [
+ *     { skillId: 1, volume: 100, aht: 240, thresholdSeconds: 20 },
+ *     { skillId: 2, volume: 60, aht: 300, thresholdSeconds: 20 },
+ *   ],
+ *   groups: [
+ *     { skills: [1], agents: 12 },
+ *     { skills: [2], agents: 9 },
+ *     { skills: [1, 2], agents: 4 },
+ *   ],
+ * });
+ * r?.skills[0]?.serviceLevel;
+ */
+export function calculateMultiSkill(input: MultiSkillInput): MultiSkillResult | null {
+  if (!isValidInput(input)) return null;
+
+  const traffic = new Map(input.skills.map(s => [s.skillId, s.volume * s.aht / input.intervalSeconds]));
+  // Stable sort: specialists first, input order within the same skill count.
+  const ordered = input.groups
+    .map((group, index) => ({ group, index }))
+    .sort((a, b) => a.group.skills.length - b.group.skills.length || a.index - b.index)
+    .map(({ group }) => group);
+
+  const pending = new Map<number, Stream>(input.skills.map(s => [s.skillId, { mean: traffic.get(s.skillId)!, variance: traffic.get(s.skillId)! }]));
+  const groups: GroupResult[] = ordered.map(group => {
+    const skills = [...new Set(group.skills)];
+    const offered = skills.reduce<Stream>((sum, id) => {
+      const stream = pending.get(id)!;
+      return { mean: sum.mean + stream.mean, variance: sum.variance + stream.variance };
+    }, { mean: 0, variance: 0 });
+
+    if (offered.mean <= 0) {
+      return {
+        skills, agents: group.agents, label: group.label,
+        offeredLoad: 0, carriedLoad: 0, overflowLoad: 0, overflowPeakedness: 1, occupancy: 0,
+      };
+    }
+
+    const out = overflow(group.agents, offered);
+    const peakedness = out.mean > 0 ? out.variance / out.mean : 1;
+    // Each skill keeps its share of the overflow at the overflow's peakedness.
+    for (const id of skills) {
+      const share = pending.get(id)!.mean / offered.mean;
+      pending.set(id, { mean: out.mean * share, variance: out.mean * share * peakedness });
+    }
+
+    const carriedLoad = offered.mean - out.mean;
+    return {
+      skills,
+      agents: group.agents,
+      label: group.label,
+      offeredLoad: offered.mean,
+      carriedLoad,
+      overflowLoad: out.mean,
+      overflowPeakedness: peakedness,
+      occupancy: group.agents > 0 ? Math.min(1, carriedLoad / group.agents) : 0,
+    };
+  });
+
+  const skills: SkillResult[] = input.skills.map(skill => {
+    const trafficIntensity = traffic.get(skill.skillId)!;
+    const eligible = groups.filter(g => g.skills.includes(skill.skillId));
+    const eligibleAgents = eligible.reduce((sum, g) => sum + g.agents, 0);
+    const carried = eligible.reduce((sum, g) => sum + g.carriedLoad, 0);
+    const base = { skillId: skill.skillId, label: skill.label, trafficIntensity, eligibleAgents };
+
+    if (trafficIntensity <= 0) {
+      return { ...base, lossProbability: 0, waitProbability: 0, serviceLevel: 1, asa: 0, occupancy: eligibleAgents > 0 ? carried / eligibleAgents : 0 };
+    }
+
+    const lossProbability = Math.min(1, pending.get(skill.skillId)!.mean / trafficIntensity);
+    const occupancy = eligibleAgents > 0 ? Math.min(1, carried / eligibleAgents) : 0;
+    const queuedLoad = lossProbability < 1 ? carried / (1 - lossProbability) : Infinity;
+    const drain = eligibleAgents - queuedLoad;
+    if (!(drain > 0) || occupancy >= 1) {
+      return { ...base, lossProbability, waitProbability: 1, serviceLevel: 0, asa: Infinity, occupancy };
+    }
+
+    const waitProbability = Math.min(1, lossProbability / (1 - occupancy));
+    return {
+      ...base,
+      lossProbability,
+      waitProbability,
+      serviceLevel: Math.max(0, Math.min(1, 1 - waitProbability * Math.exp(-drain * skill.thresholdSeconds / skill.aht))),
+      asa: waitProbability * skill.aht / drain,
+      occupancy,
+    };
+  });
+
+  const totalVolume = input.skills.reduce((sum, s) => sum + s.volume, 0);
+  const serviceLevel = totalVolume > 0
+    ? input.skills.reduce((sum, s, i) => sum + s.volume * skills[i]!.serviceLevel, 0) / totalVolume
+    : 1;
+
+  return {
+    skills,
+    groups,
+    serviceLevel,
+    totalAgents: groups.reduce((sum, g) => sum + g.agents, 0),
+  };
+}
+
+/** StaffSkills rows kept by the options, grouped by person. */
+function skillsByStaff(
+  staffSkills: readonly StaffSkillAssignment[],
+  options: StaffSkillGroupOptions
+): Map<number, StaffSkillAssignment[]> {
+  const allowed = options.skillIds ? new Set(options.skillIds) : null;
+  const minProficiency = options.minProficiency ?? 1;
+  const byStaff = new Map<number, StaffSkillAssignment[]>();
+  for (const row of staffSkills) {
+    if (allowed && !allowed.has(row.skill_id)) continue;
+    if ((row.proficiency_level ?? 1) < minProficiency) continue;
+    const rows = byStaff.get(row.staff_id) ?? [];
+    rows.push(row);
+    byStaff.set(row.staff_id, rows);
+  }
+  return byStaff;
+}
+
+/** Agent groups keyed by skill set, in first-seen order. */
+function groupBySkillSet(skillSets: Iterable<number[]>, agentsPerStaff: number): AgentGroup[] {
+  const groups = new Map<string, AgentGroup>();
+  for (const set of skillSets) {
+    const skills = [...new Set(set)].sort((a, b) => a - b);
+    const key = skills.join('+');
+    const group = groups.get(key);
+    if (group) group.agents += agentsPerStaff;
+    else groups.set(key, { skills, agents: agentsPerStaff });
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Agent groups from StaffSkills: one group per distinct skill set.
+ *
+ * @example
+ * agentGroupsFromStaffSkills(getStaffSkills(), { skillIds: [1, 2], agentsPerStaff: 0.7 });
+ */
+export function agentGroupsFromStaffSkills(
+  staffSkills: readonly StaffSkillAssignment[],
+  options: StaffSkillGroupOptions = {}
+): AgentGroup[] {
+  const byStaff = skillsByStaff(staffSkills, options);
+  return groupBySkillSet([...byStaff.values()].map(rows => rows.map(r => r.skill_id)), options.agentsPerStaff ?? 1);
+}
+
+/**
+ * Specialist baseline: each person on their highest-proficiency skill only
+ * (lowest skill id on ties).
+ */
+export function specialistGroupsFromStaffSkills(
+  staffSkills: readonly StaffSkillAssignment[],
+  options: StaffSkillGroupOptions = {}
+): AgentGroup[] {
+  const byStaff = skillsByStaff(staffSkills, options);
+  const primary = [...byStaff.values()].map(rows => {
+    const best = rows.reduce((a, b) => {
+      const pa = a.proficiency_level ?? 1;
+      const pb = b.proficiency_level ?? 1;
+      return pb > pa || (pb === pa && b.skill_id < a.skill_id) ? b : a;
+    });
+    return [best.skill_id];
+  });
+  return groupBySkillSet(primary, options.agentsPerStaff ?? 1);
+}
+
+/**
+ * What the skill sets in StaffSkills buy over specialists, and how far they
+ * are from a fully pooled team of the same size.
+ *
+ * @returns null for invalid input
+ */
+export function compareCrossSkilling(
+  intervalSeconds: number,
+  skills: SkillDemand[],
+  staffSkills: readonly StaffSkillAssignment[],
+  options: Omit<StaffSkillGroupOptions, 'skillIds'> = {}
+): CrossSkillingComparison | null {
+  const groupOptions = { ...options, skillIds: skills.map(s => s.skillId) };
+  const crossSkilledGroups = agentGroupsFromStaffSkills(staffSkills, groupOptions);
+  const totalAgents = crossSkilledGroups.reduce((sum, g) => sum + g.agents, 0);
+
+  const crossSkilled = calculateMultiSkill({ intervalSeconds, skills, groups: crossSkilledGroups });
+  const specialist = calculateMultiSkill({ intervalSeconds, skills, groups: specialistGroupsFromStaffSkills(staffSkills, groupOptions) });
+  const pooled = calculateMultiSkill({
+    intervalSeconds,
+    skills,
+    groups: totalAgents > 0 ? [{ skills: skills.map(s => s.skillId), agents: totalAgents }] : [],
+  });
+  if (!crossSkilled || !specialist || !pooled) return null;
+  return { crossSkilled, specialist, pooled };
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { calculateOutboundDialer, type OutboundDialerInput } from './outboundDialer';
+import { calculateErlangB } from './erlangB';
+
+const baseInput: OutboundDialerInput = {
+  records: 12000,
+  dialingHours: 8,
+  contactRate: 0.35,
+  rightPartyRate: 0.6,
+  talkSeconds: 180,
+  wrapSeconds: 30,
+  maxNuisanceRate: 0.03,
+  shrinkagePercent: 30,
+};
+
+describe('Outbound dialer', () => {
+  it('derives the live workload from list, contact and right-party rates', () => {
+    const result = calculateOutboundDialer(baseInput)!;
+    expect(result.dialsPerHour).toBe(1500);
+    expect(result.liveConnectsPerHour).toBeCloseTo(525, 10);
+    // 60% × 210 s + 40% × 30 s
+    expect(result.liveHandleTime).toBeCloseTo(138, 10);
+    expect(result.trafficIntensity).toBeCloseTo((525 * 138) / 3600, 10);
+  });
+
+  it('keeps the nuisance rate under the cap with the fewest agents', () => {
+    const result = calculateOutboundDialer({ ...baseInput, maxOccupancy: 100 })!;
+    expect(result.nuisanceRate).toBeLessThanOrEqual(0.03);
+    expect(calculateErlangB(result.trafficIntensity, result.requiredAgents - 1)).toBeGreaterThan(0.03);
+  });
+
+  it('respects the occupancy cap', () => {
+    const result = calculateOutboundDialer({ ...baseInput, maxOccupancy: 80 })!;
+    expect(result.occupancy).toBeLessThanOrEqual(0.8);
+  });
+
+  it('a tighter nuisance cap needs more agents', () => {
+    const loose = calculateOutboundDialer({ ...baseInput, maxNuisanceRate: 0.05, maxOccupancy: 100 })!;
+    const tight = calculateOutboundDialer({ ...baseInput, maxNuisanceRate: 0.01, maxOccupancy: 100 })!;
+    expect(tight.requiredAgents).toBeGreaterThan(loose.requiredAgents);
+    expect(tight.occupancy).toBeLessThan(loose.occupancy);
+  });
+
+  it('reports dial ratio and completions', () => {
+    const result = calculateOutboundDialer(baseInput)!;
+    expect(result.dialRatio).toBeCloseTo(1 / (0.35 * (1 - result.nuisanceRate)), 10);
+    expect(result.completionsPerHour).toBeCloseTo(525 * (1 - result.nuisanceRate) * 0.6, 10);
+    expect(result.expectedCompletions).toBeCloseTo(result.completionsPerHour * 8, 10);
+  });
+
+  it('larger teams run at higher occupancy for the same cap', () => {
+    const small = calculateOutboundDialer({ ...baseInput, maxOccupancy: 100 })!;
+    const large = calculateOutboundDialer({ ...baseInput, records: 120000, maxOccupancy: 100 })!;
+    expect(large.occupancy).toBeGreaterThan(small.occupancy);
+  });
+
+  it('returns null for invalid input', () => {
+    expect(calculateOutboundDialer({ ...baseInput, contactRate: 0 })).toBeNull();
+    expect(calculateOutboundDialer({ ...baseInput, rightPartyRate: 1.2 })).toBeNull();
+    expect(calculateOutboundDialer({ ...baseInput, dialingHours: 0 })).toBeNull();
+    expect(calculateOutboundDialer({ ...baseInput, maxNuisanceRate: 0 })).toBeNull();
+  });
+});
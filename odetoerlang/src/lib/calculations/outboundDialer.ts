@@ -0,0 +1,137 @@
+/**
+ * Outbound predictive-dialer pacing and staffing.
+ *
+ * A predictive dialer places calls ahead of agents becoming free. Only a
+ * share of dials are answered by a live person (contact rate), and only a
+ * share of those are the person we want (right-party contact, RPC). When a
+ * live answer arrives and no agent is free, the call is dropped: a nuisance
+ * (silent/abandoned) call, which regulators cap (e.g. 3% of live calls).
+ *
+ * Model: live answers arrive as a Poisson stream to N agents with no waiting
+ * room, so the nuisance rate is the Erlang B loss probability
+ *
+ *   nuisance = B(N, A),  A = λ_live × h
+ *   h = r × (talk + wrap) + (1 - r) × wrongPartyTime
+ *
+ * The dialer paces so that B stays under the cap. Required agents are the
+ * smallest N that keep the nuisance rate and occupancy within limits while
+ * working the list in the dialling window (one attempt per record).
+ *
+ *   dial ratio = dials per agent that becomes free = 1 / (contactRate × (1 - nuisance))
+ *
+ * Treating a live answer as lost the instant no agent is free ignores the
+ * ~2 second hold most regulators allow, so the nuisance rate is slightly
+ * pessimistic (safe).
+ *
+ * Reference: Samuelson, D.A. (1999). "Predictive Dialing for Outbound
+ * Telephone Call Centers". Interfaces 29(5), 66-81.
+ */
+
+import { DEFAULT_MAX_OCCUPANCY_PERCENT, DEFAULT_WRONG_PARTY_SECONDS } from '../../utils/constants';
+import { calculateErlangB, calculateRequiredLinesB } from './erlangB';
+import { calculateFTE } from './erlangC';
+
+export interface OutboundDialerInput {
+  /** Records to dial (one attempt each) */
+  records: number;
+  /** Hours available to work the list */
+  dialingHours: number;
+  /** Live answers per dial, 0-1 */
+  contactRate: number;
+  /** Right-party contacts per live answer, 0-1 */
+  rightPartyRate: number;
+  /** Right-party talk time, seconds */
+  talkSeconds: number;
+  /** After-call work per right-party contact, seconds */
+  wrapSeconds: number;
+  /** Handle time of a wrong-party live answer, seconds (default DEFAULT_WRONG_PARTY_SECONDS) */
+  wrongPartySeconds?: number | undefined;
+  /** Maximum share of live answers dropped for lack of an agent, 0-1 */
+  maxNuisanceRate: number;
+  shrinkagePercent: number;
+  /** Maximum occupancy percentage (default DEFAULT_MAX_OCCUPANCY_PERCENT) */
+  maxOccupancy?: number | undefined;
+}
+
+export interface OutboundDialerResult {
+  requiredAgents: number;
+  totalFTE: number;
+  /** Dials placed per agent that becomes free */
+  dialRatio: number;
+  dialsPerHour: number;
+  /** Live answers per hour, including nuisance calls */
+  liveConnectsPerHour: number;
+  /** Right-party contacts handled per hour */
+  completionsPerHour: number;
+  /** Right-party contacts handled over the whole list */
+  expectedCompletions: number;
+  /** Achieved nuisance rate, 0-1 */
+  nuisanceRate: number;
+  /** 0-1 */
+  occupancy: number;
+  /** Mean agent time per live answer, seconds */
+  liveHandleTime: number;
+  /** Offered live traffic in Erlangs */
+  trafficIntensity: number;
+}
+
+const isRate = (value: number): boolean => value > 0 && value <= 1;
+
+/**
+ * Size and pace an outbound campaign.
+ *
+ * @returns null for invalid input (rates outside (0, 1], non-positive
+ *   dialling window or handle time, nuisance cap outside (0, 1))
+ *
+ * @example
+ * const plan = calculateOutboundDialer({
+ *   records: 12000, dialingHours: 8, contactRate: 0.35, rightPartyRate: 0.6,
+ *   talkSeconds: 180, wrapSeconds: 30, maxNuisanceRate: 0.03, shrinkagePercent: 30,
+ * });
+ * plan?.dialRatio; // ≈ 2.9 dials per free agent
+ */
+export function calculateOutboundDialer(input: OutboundDialerInput): OutboundDialerResult | null {
+  const { records, dialingHours, contactRate, rightPartyRate, talkSeconds, wrapSeconds, maxNuisanceRate } = input;
+  const wrongPartySeconds = input.wrongPartySeconds ?? DEFAULT_WRONG_PARTY_SECONDS;
+  const maxOccupancy = (input.maxOccupancy ?? DEFAULT_MAX_OCCUPANCY_PERCENT) / 100;
+
+  if (records < 0 || dialingHours <= 0) return null;
+  if (!isRate(contactRate) || !isRate(rightPartyRate)) return null;
+  if (talkSeconds < 0 || wrapSeconds < 0 || wrongPartySeconds < 0) return null;
+  if (maxNuisanceRate <= 0 || maxNuisanceRate >= 1) return null;
+  if (maxOccupancy <= 0 || maxOccupancy > 1) return null;
+  if (input.shrinkagePercent < 0 || input.shrinkagePercent >= 100) return null;
+
+  const liveHandleTime = rightPartyRate * (talkSeconds + wrapSeconds) + (1 - rightPartyRate) * wrongPartySeconds;
+  if (liveHandleTime <= 0) return null;
+
+  const dialsPerHour = records / dialingHours;
+  const liveConnectsPerHour = dialsPerHour * contactRate;
+  const trafficIntensity = (liveConnectsPerHour * liveHandleTime) / 3600;
+
+  // Fewest agents that keep nuisance calls under the cap (the Erlang B line
+  // search starts at ⌊A⌋, which already meets loose caps at high traffic)...
+  let requiredAgents = calculateRequiredLinesB(trafficIntensity, maxNuisanceRate);
+  while (requiredAgents > 1 && calculateErlangB(trafficIntensity, requiredAgents - 1) <= maxNuisanceRate) requiredAgents--;
+  // ...and carried work within the occupancy cap.
+  const carriedOccupancy = (agents: number): number =>
+    agents > 0 ? (trafficIntensity * (1 - calculateErlangB(trafficIntensity, agents))) / agents : 0;
+  while (requiredAgents > 0 && carriedOccupancy(requiredAgents) > maxOccupancy) requiredAgents++;
+
+  const nuisanceRate = requiredAgents > 0 ? calculateErlangB(trafficIntensity, requiredAgents) : 0;
+  const completionsPerHour = liveConnectsPerHour * (1 - nuisanceRate) * rightPartyRate;
+
+  return {
+    requiredAgents,
+    totalFTE: calculateFTE(requiredAgents, input.shrinkagePercent / 100),
+    dialRatio: 1 / (contactRate * (1 - nuisanceRate)),
+    dialsPerHour,
+    liveConnectsPerHour,
+    completionsPerHour,
+    expectedCompletions: completionsPerHour * dialingHours,
+    nuisanceRate,
+    occupancy: carriedOccupancy(requiredAgents),
+    liveHandleTime,
+    trafficIntensity,
+  };
+}
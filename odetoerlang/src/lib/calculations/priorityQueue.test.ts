@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'vitest'
+import {
+  calculatePriorityQueuePerformance,
+  solveAgentsPriority,
+  calculatePriorityStaffing,
+  type PriorityClassInput,
+} from './priorityQueue'
+import { calculateServiceLevel, calculateASA, solveAgents } from './erlangC'
+
+/**
+ * Priority M/M/c Test Suite
+ *
+ * A single class (or all classes on one level) must reproduce Erlang C;
+ * higher priority must always wait less than lower priority.
+ */
+
+const VIP: PriorityClassInput = { id: 'vip', volume: 40, aht: 240, targetSL: 0.9, thresholdSeconds: 10, priority: 1 }
+const STD: PriorityClassInput = { id: 'std', volume: 160, aht: 240, targetSL: 0.8, thresholdSeconds: 20, priority: 2 }
+
+describe('Priority queue - performance', () => {
+  test('single class reduces to Erlang C', () => {
+    const perf = calculatePriorityQueuePerformance(14, [{ ...STD, volume: 75 }])
+    const cls = perf.classes[0]!
+    expect(perf.trafficIntensity).toBeCloseTo(10, 10)
+    expect(cls.serviceLevel).toBeCloseTo(calculateServiceLevel(14, 10, 240, 20), 10)
+    expect(cls.asa).toBeCloseTo(calculateASA(14, 10, 240), 10)
+  })
+
+  test('classes on the same level share the Erlang C wait', () => {
+    const perf = calculatePriorityQueuePerformance(30, [VIP, { ...STD, priority: 1 }])
+    const pooledSL = calculateServiceLevel(30, perf.trafficIntensity, 240, 20)
+    expect(perf.classes[1]!.serviceLevel).toBeCloseTo(pooledSL, 10)
+  })
+
+  test('higher priority waits less, and traffic-weighted ASA is conserved', () => {
+    const perf = calculatePriorityQueuePerformance(30, [VIP, STD])
+    const [vip, std] = perf.classes
+    expect(vip!.asa).toBeLessThan(std!.asa)
+    expect(vip!.serviceLevel).toBeGreaterThan(calculateServiceLevel(30, perf.trafficIntensity, 240, 10))
+
+    // Equal AHTs: the work-conserving mean wait equals the FIFO Erlang C ASA.
+    const weighted = (VIP.volume * vip!.asa + STD.volume * std!.asa) / (VIP.volume + STD.volume)
+    expect(weighted).toBeCloseTo(calculateASA(30, perf.trafficIntensity, 240), 8)
+  })
+
+  test('probability of waiting is shared by all classes', () => {
+    const perf = calculatePriorityQueuePerformance(30, [VIP, STD])
+    expect(perf.probabilityOfWaiting).toBeGreaterThan(0)
+    expect(perf.probabilityOfWaiting).toBeLessThan(1)
+  })
+
+  test('low priority is starved when higher levels saturate the agents', () => {
+    const perf = calculatePriorityQueuePerformance(27, [{ ...VIP, volume: 190 }, { ...STD, volume: 20 }])
+    expect(perf.classes[1]!.asa).toBe(Infinity)
+    expect(perf.classes[1]!.serviceLevel).toBe(0)
+  })
+
+  test('zero volume means full service and no waiting', () => {
+    const perf = calculatePriorityQueuePerformance(5, [{ ...VIP, volume: 0 }])
+    expect(perf.classes[0]!.serviceLevel).toBe(1)
+    expect(perf.allTargetsMet).toBe(true)
+  })
+})
+
+describe('Priority queue - staffing', () => {
+  test('single class needs the Erlang C agent count', () => {
+    expect(solveAgentsPriority([{ ...STD, volume: 75 }], 1800, 0.9)).toBe(solveAgents(10, 240, 0.8, 20, 0.9))
+  })
+
+  test('returns the smallest agent count meeting every target', () => {
+    const agents = solveAgentsPriority([VIP, STD])!
+    expect(calculatePriorityQueuePerformance(agents, [VIP, STD]).allTargetsMet).toBe(true)
+    expect(calculatePriorityQueuePerformance(agents - 1, [VIP, STD]).allTargetsMet).toBe(false)
+  })
+
+  test('a tight low-priority target drives the requirement', () => {
+    const loose = solveAgentsPriority([VIP, STD])!
+    const tight = solveAgentsPriority([VIP, { ...STD, targetSL: 0.95 }])!
+    expect(tight).toBeGreaterThan(loose)
+  })
+
+  test('staffing applies shrinkage to the shared pool', () => {
+    const metrics = calculatePriorityStaffing({ classes: [VIP, STD], shrinkagePercent: 0.25 })
+    expect(metrics.canAchieveTarget).toBe(true)
+    expect(metrics.totalFTE).toBeCloseTo(metrics.requiredAgents / 0.75, 10)
+    expect(metrics.classes.every(c => c.meetsTarget)).toBe(true)
+  })
+
+  test('no traffic needs no agents', () => {
+    expect(solveAgentsPriority([{ ...VIP, volume: 0 }])).toBe(0)
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * Non-Preemptive Priority M/M/c
+ *
+ * VIP and standard callers often share one agent group, with VIPs answered
+ * first. Agents finish the call in hand (non-preemptive), so the probability
+ * of waiting is the same for every class but the wait itself is not.
+ *
+ * All classes share the agents, so the pooled queue is an M/M/c queue with
+ * A = Σ A_i and a volume-weighted mean handle time. Cobham's formula splits
+ * the Erlang C wait by priority level:
+ *
+ *   W_k = C(c, A) × (AHT / c) / ((1 - σ_{k-1}) × (1 - σ_k))
+ *
+ * Where:
+ * - σ_k = Σ_{levels ≤ k} A_i / c  (load of level k and everything above it)
+ * - AHT = volume-weighted handle time of the pooled traffic
+ *
+ * Given that a caller of level k waits, the wait is taken as exponential with
+ * mean W_k / C(c, A), so
+ *
+ *   P(W_k > t) = C(c, A) × e^(-t × C(c, A) / W_k)
+ *
+ * With a single class this is exactly Erlang C. Classes sharing a priority
+ * number form one FIFO level. With unequal AHTs the pooled handle time is an
+ * approximation (Cobham is exact only for a common service rate).
+ * Reference: Cobham, A. (1954) - "Priority Assignment in Waiting Line
+ * Problems", Operations Research 2(1).
+ */
+
+import { calculateFTE, calculateOccupancy, calculateTrafficIntensity, erlangC } from './erlangC';
+
+export interface PriorityClassInput {
+  id: string;
+  volume: number;
+  /** Average Handle Time in seconds */
+  aht: number;
+  /** Target service level as decimal (0-1) */
+  targetSL: number;
+  thresholdSeconds: number;
+  /** 1 = highest priority. Equal numbers share a FIFO level. */
+  priority: number;
+}
+
+export interface PriorityClassResult {
+  id: string;
+  priority: number;
+  trafficIntensity: number;
+  /** Service level as decimal (0-1) */
+  serviceLevel: number;
+  /** Average Speed of Answer in seconds (Infinity if the class is starved) */
+  asa: number;
+  meetsTarget: boolean;
+}
+
+export interface PriorityQueuePerformance {
+  agents: number;
+  trafficIntensity: number;
+  /** Volume-weighted AHT of the pooled traffic, seconds */
+  pooledAHT: number;
+  /** P(wait > 0), identical for every class */
+  probabilityOfWaiting: number;
+  occupancy: number;
+  classes: PriorityClassResult[];
+  allTargetsMet: boolean;
+}
+
+export interface PriorityStaffingMetrics extends PriorityQueuePerformance {
+  requiredAgents: number;
+  totalFTE: number;
+  canAchieveTarget: boolean;
+}
+
+/**
+ * Calculate per-class service level and ASA for a fixed agent count.
+ *
+ * @param agents - Number of agents shared by all classes
+ * @param classes - Traffic classes
+ * @param intervalSeconds - Interval duration in seconds (default: 1800)
+ * @returns Pooled and per-class metrics, in input order
+ */
+export function calculatePriorityQueuePerformance(
+  agents: number,
+  classes: PriorityClassInput[],
+  intervalSeconds: number = 1800
+): PriorityQueuePerformance {
+  const loads = classes.map(cls => calculateTrafficIntensity(Math.max(0, cls.volume), cls.aht, intervalSeconds));
+  const trafficIntensity = loads.reduce((sum, a) => sum + a, 0);
+  const totalVolume = classes.reduce((sum, cls) => sum + Math.max(0, cls.volume), 0);
+  const pooledAHT = totalVolume > 0
+    ? classes.reduce((sum, cls) => sum + Math.max(0, cls.volume) * cls.aht, 0) / totalVolume
+    : 0;
+
+  const stable = agents > trafficIntensity;
+  const pWait = trafficIntensity <= 0 ? 0 : stable ? erlangC(agents, trafficIntensity) : 1;
+
+  // Cumulative utilisation of each priority level and everything above it.
+  const loadByLevel = new Map<number, number>();
+  classes.forEach((cls, i) => {
+    loadByLevel.set(cls.priority, (loadByLevel.get(cls.priority) ?? 0) + (loads[i] ?? 0));
+  });
+  const levels = [...loadByLevel.keys()].sort((a, b) => a - b);
+  const sigmaBefore = new Map<number, number>();
+  let sigma = 0;
+  for (const level of levels) {
+    sigmaBefore.set(level, sigma);
+    sigma += (loadByLevel.get(level) ?? 0) / Math.max(agents, Number.EPSILON);
+  }
+
+  const results = classes.map((cls, i): PriorityClassResult => {
+    const before = sigmaBefore.get(cls.priority) ?? 0;
+    const including = before + (loadByLevel.get(cls.priority) ?? 0) / Math.max(agents, Number.EPSILON);
+
+    let serviceLevel: number;
+    let asa: number;
+    if (trafficIntensity <= 0 || pWait <= 0) {
+      serviceLevel = 1;
+      asa = 0;
+    } else if (agents <= 0 || including >= 1) {
+      // Higher levels plus this one saturate the agents: this class is starved.
+      serviceLevel = 0;
+      asa = Infinity;
+    } else {
+      // Mean wait of a delayed caller at this level.
+      const delayedWait = pooledAHT / (agents * (1 - before) * (1 - including));
+      serviceLevel = 1 - pWait * Math.exp(-cls.thresholdSeconds / delayedWait);
+      asa = pWait * delayedWait;
+    }
+
+    return {
+      id: cls.id,
+      priority: cls.priority,
+      trafficIntensity: loads[i] ?? 0,
+      serviceLevel,
+      asa,
+      // A class with no contacts cannot miss its target.
+      meetsTarget: cls.volume <= 0 || serviceLevel >= cls.targetSL,
+    };
+  });
+
+  return {
+    agents,
+    trafficIntensity,
+    pooledAHT,
+    probabilityOfWaiting: pWait,
+    occupancy: calculateOccupancy(trafficIntensity, agents),
+    classes: results,
+    allTargetsMet: results.every(r => r.meetsTarget),
+  };
+}
+
+/**
+ * Solve for the minimum shared agent count at which every class meets its
+ * service level target.
+ *
+ * @param classes - Traffic classes
+ * @param intervalSeconds - Interval duration in seconds
+ * @param maxOccupancy - Maximum allowed occupancy (default 0.90)
+ * @returns Minimum number of agents, or null if not found
+ */
+export function solveAgentsPriority(
+  classes: PriorityClassInput[],
+  intervalSeconds: number = 1800,
+  maxOccupancy: number = 0.90
+): number | null {
+  const trafficIntensity = classes.reduce(
+    (sum, cls) => sum + calculateTrafficIntensity(Math.max(0, cls.volume), cls.aht, intervalSeconds),
+    0
+  );
+  if (trafficIntensity <= 0) return 0;
+
+  const minAgents = Math.max(Math.ceil(trafficIntensity / maxOccupancy), Math.floor(trafficIntensity) + 1);
+  // Low-priority classes with tight targets need more headroom than Erlang C.
+  const maxAgents = Math.max(Math.ceil(trafficIntensity * 5), minAgents + 100);
+
+  // Binary search — every class's service level is monotonic in agents.
+  let left = minAgents;
+  let right = maxAgents;
+  let result: number | null = null;
+
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+
+    if (calculatePriorityQueuePerformance(mid, classes, intervalSeconds).allTargetsMet) {
+      result = mid;
+      right = mid - 1;
+    } else {
+      left = mid + 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Calculate shared staffing for a set of priority classes.
+ *
+ * @param params.classes - Traffic classes
+ * @param params.intervalSeconds - Interval duration in seconds (default: 1800)
+ * @param params.shrinkagePercent - Shrinkage as decimal (0-1)
+ * @param params.maxOccupancy - Maximum occupancy constraint (default: 0.90)
+ *
+ * @example
+ * const metrics = calculatePriorityStaffing({
+ *   classes: [
+ *     { id: 'vip', volume: 20, aht: 300, targetSL: 0.9, thresholdSeconds: 10, priority: 1 },
+ *     { id: 'std', volume: 200, aht: 240, targetSL: 0.8, thresholdSeconds: 30, priority: 2 },
+ *   ],
+ *   shrinkagePercent: 0.3,
+ * });
+ */
+export function calculatePriorityStaffing(params: {
+  classes: PriorityClassInput[];
+  intervalSeconds?: number;
+  shrinkagePercent: number;
+  maxOccupancy?: number;
+}): PriorityStaffingMetrics {
+  const { classes, intervalSeconds = 1800, shrinkagePercent, maxOccupancy = 0.90 } = params;
+  const requiredAgents = solveAgentsPriority(classes, intervalSeconds, maxOccupancy);
+
+  if (requiredAgents === null) {
+    const performance = calculatePriorityQueuePerformance(0, classes, intervalSeconds);
+    return { ...performance, requiredAgents: 0, totalFTE: 0, canAchieveTarget: false };
+  }
+
+  const performance = calculatePriorityQueuePerformance(requiredAgents, classes, intervalSeconds);
+  return {
+    ...performance,
+    requiredAgents,
+    totalFTE: calculateFTE(requiredAgents, shrinkagePercent),
+    canAchieveTarget: true,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { solveAgents, calculateASA, calculateServiceLevel } from './erlangC';
+import { solveAgentsErlangA, calculateASAWithAbandonment, calculateAbandonmentProbability } from './erlangA';
+import { solveAgentsErlangX, calculateErlangXPerformance } from './erlangX';
+import { calculateStaffing, resolveServiceTarget, type ErlangEngineInput } from './erlangEngine';
+
+const AHT = 240;
+const A = 20;
+
+describe('Alternative service targets - solvers', () => {
+  it('Erlang C solves for the smallest agent count meeting a max ASA', () => {
+    const agents = solveAgents(A, AHT, 0.8, 20, 0.95, { type: 'asa', maxASASeconds: 15 })!;
+    expect(calculateASA(agents, A, AHT)).toBeLessThanOrEqual(15);
+    expect(calculateASA(agents - 1, A, AHT)).toBeGreaterThan(15);
+  });
+
+  it('Erlang C cannot target abandonment', () => {
+    expect(solveAgents(A, AHT, 0.8, 20, 0.95, { type: 'abandonRate', maxAbandonRate: 0.05 })).toBeNull();
+  });
+
+  it('wait percentile is the same inequality as service level', () => {
+    // P90 wait ≤ 30s  ⇔  90% answered within 30s
+    const percentile = solveAgents(A, AHT, 0.9, 30, 0.95, { type: 'waitPercentile' });
+    expect(percentile).toBe(solveAgents(A, AHT, 0.9, 30, 0.95));
+    expect(calculateServiceLevel(percentile!, A, AHT, 30)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('Erlang A solves against a max abandon rate', () => {
+    const agents = solveAgentsErlangA(A, AHT, 0.8, 20, 0.95, 120, { type: 'abandonRate', maxAbandonRate: 0.03 })!;
+    expect(calculateAbandonmentProbability(agents, A, 120 / AHT)).toBeLessThanOrEqual(0.03);
+    expect(calculateAbandonmentProbability(agents - 1, A, 120 / AHT)).toBeGreaterThan(0.03);
+  });
+
+  it('Erlang A solves against a max ASA', () => {
+    const agents = solveAgentsErlangA(A, AHT, 0.8, 20, 0.95, 120, { type: 'asa', maxASASeconds: 10 })!;
+    expect(calculateASAWithAbandonment(agents, A, AHT, 120)).toBeLessThanOrEqual(10);
+  });
+
+  it('Erlang X solves against a max abandon rate', () => {
+    const agents = solveAgentsErlangX(A, AHT, 0.8, 20, 0.95, 120, undefined, 0.4, { type: 'abandonRate', maxAbandonRate: 0.03 })!;
+    const at = calculateErlangXPerformance(agents, A, AHT, 20, 120, undefined, 0.4);
+    const below = calculateErlangXPerformance(agents - 1, A, AHT, 20, 120, undefined, 0.4);
+    expect(at.abandonmentProbability).toBeLessThanOrEqual(0.03);
+    expect(below.abandonmentProbability).toBeGreaterThan(0.03);
+  });
+});
+
+describe('Alternative service targets - engine', () => {
+  const baseInput: ErlangEngineInput = {
+    model: 'C',
+    workload: { volume: 150, aht: AHT, intervalMinutes: 30 },
+    constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 95 },
+    behavior: { shrinkagePercent: 25, averagePatience: 120 },
+  };
+
+  it('defaults to the service-level target', () => {
+    expect(resolveServiceTarget(baseInput.constraints)).toEqual({ type: 'serviceLevel' });
+  });
+
+  it('returns null when the selected target has no limit', () => {
+    expect(calculateStaffing({ ...baseInput, constraints: { ...baseInput.constraints, targetType: 'asa' } })).toBeNull();
+  });
+
+  it('returns null for an abandon-rate target under Erlang C', () => {
+    const result = calculateStaffing({
+      ...baseInput,
+      constraints: { ...baseInput.constraints, targetType: 'abandonRate', targetAbandonPercent: 5 },
+    });
+    expect(result).toBeNull();
+  });
+
+  it('tightening an ASA target adds agents', () => {
+    const loose = calculateStaffing({ ...baseInput, constraints: { ...baseInput.constraints, targetType: 'asa', targetASASeconds: 30 } })!;
+    const tight = calculateStaffing({ ...baseInput, constraints: { ...baseInput.constraints, targetType: 'asa', targetASASeconds: 5 } })!;
+    expect(tight.requiredAgents).toBeGreaterThan(loose.requiredAgents);
+    expect(tight.asa).toBeLessThanOrEqual(5);
+    expect(tight.canAchieveTarget).toBe(true);
+  });
+
+  it('Erlang A meets an abandon-rate target and reports it as achieved', () => {
+    const result = calculateStaffing({
+      ...baseInput,
+      model: 'A',
+      constraints: { ...baseInput.constraints, targetType: 'abandonRate', targetAbandonPercent: 2 },
+    })!;
+    expect(result.abandonmentRate).toBeLessThanOrEqual(0.02);
+    expect(result.canAchieveTarget).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { combineShrinkage, shrinkageWaterfall } from './shrinkage';
+import { calculateFTE } from './erlangC';
+import type { ShrinkageCategory } from '../../types';
+
+const categories: ShrinkageCategory[] = [
+  { category: 'Sickness', kind: 'unplanned', percent: 5 },
+  { category: 'Holiday', kind: 'planned', percent: 10 },
+  { category: 'Training', kind: 'planned', percent: 4 },
+  { category: 'Lateness', kind: 'unplanned', percent: 1 },
+];
+
+describe('Shrinkage - combined value', () => {
+  it('adds categories within and across kinds', () => {
+    const summary = combineShrinkage(categories);
+    expect(summary.plannedPercent).toBe(14);
+    expect(summary.unplannedPercent).toBe(6);
+    expect(summary.totalPercent).toBe(20);
+  });
+
+  it('caps the total at the validation maximum', () => {
+    const summary = combineShrinkage([
+      { category: 'Holiday', kind: 'planned', percent: 80 },
+      { category: 'Sickness', kind: 'unplanned', percent: 40 },
+    ]);
+    expect(summary.totalPercent).toBe(99);
+  });
+});
+
+describe('Shrinkage - waterfall', () => {
+  it('walks from gross FTE to productive FTE', () => {
+    const waterfall = shrinkageWaterfall(40, categories);
+    expect(waterfall.grossFTE).toBeCloseTo(calculateFTE(40, 0.2), 9);
+    expect(waterfall.steps.at(-1)!.remainingFTE).toBeCloseTo(40, 9);
+    expect(waterfall.steps[0]!.fte).toBeCloseTo(50 * 0.10, 9);
+  });
+
+  it('lists planned categories before unplanned', () => {
+    const kinds = shrinkageWaterfall(40, categories).steps.map(s => s.kind);
+    expect(kinds).toEqual(['planned', 'planned', 'unplanned', 'unplanned']);
+  });
+
+  it('scales the steps when the total is capped', () => {
+    const waterfall = shrinkageWaterfall(10, [
+      { category: 'Holiday', kind: 'planned', percent: 80 },
+      { category: 'Sickness', kind: 'unplanned', percent: 40 },
+    ]);
+    expect(waterfall.grossFTE).toBeCloseTo(1000, 6);
+    expect(waterfall.steps.at(-1)!.remainingFTE).toBeCloseTo(10, 6);
+  });
+});
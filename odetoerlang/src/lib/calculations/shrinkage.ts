@@ -0,0 +1,92 @@
+/**
+ * Categorised shrinkage.
+ *
+ * Each category is a share of paid time lost to one cause (holiday,
+ * training, sickness, ...). Shares of the same paid time add up:
+ *
+ *   total     = Σ p_i
+ *   gross FTE = productive FTE / (1 - total)
+ *
+ * The waterfall walks from gross FTE down to productive FTE, with each
+ * category removing gross × p_i. The total is capped at the validation
+ * maximum; the steps are then scaled so they still land on productive FTE.
+ */
+
+import type { ShrinkageCategory, ShrinkageKind } from '../../types';
+import { VALIDATION } from '../../utils/constants';
+
+export interface ShrinkageSummary {
+  plannedPercent: number;
+  unplannedPercent: number;
+  /** Combined shrinkage (%) used by the engine */
+  totalPercent: number;
+}
+
+export interface ShrinkageWaterfallStep {
+  category: string;
+  kind: ShrinkageKind;
+  /** FTE removed by this category */
+  fte: number;
+  /** FTE left after this category */
+  remainingFTE: number;
+}
+
+export interface ShrinkageWaterfall {
+  grossFTE: number;
+  /** Planned categories first, then unplanned */
+  steps: ShrinkageWaterfallStep[];
+  productiveFTE: number;
+}
+
+/**
+ * Planned, unplanned and combined shrinkage.
+ *
+ * @example
+ * combineShrinkage([
+ *   { category: 'Holiday', kind: 'planned', percent: 10 },
+ *   { category: 'Sickness', kind: 'unplanned', percent: 5 },
+ * ]).totalPercent; // 15
+ */
+export function combineShrinkage(categories: readonly ShrinkageCategory[]): ShrinkageSummary {
+  let plannedPercent = 0;
+  let unplannedPercent = 0;
+  for (const c of categories) {
+    const percent = Math.max(0, c.percent);
+    if (c.kind === 'planned') plannedPercent += percent;
+    else unplannedPercent += percent;
+  }
+  return {
+    plannedPercent,
+    unplannedPercent,
+    totalPercent: Math.min(VALIDATION.shrinkagePercent.max, plannedPercent + unplannedPercent),
+  };
+}
+
+/**
+ * Gross-to-productive FTE waterfall.
+ *
+ * @param productiveFTE - Agents needed on the phones (before shrinkage)
+ * @param categories - Shrinkage categories
+ */
+export function shrinkageWaterfall(
+  productiveFTE: number,
+  categories: readonly ShrinkageCategory[]
+): ShrinkageWaterfall {
+  const { plannedPercent, unplannedPercent, totalPercent } = combineShrinkage(categories);
+  const uncapped = plannedPercent + unplannedPercent;
+  const scale = uncapped > 0 ? totalPercent / uncapped : 0;
+  const grossFTE = productiveFTE / (1 - totalPercent / 100);
+
+  const ordered = [
+    ...categories.filter(c => c.kind === 'planned'),
+    ...categories.filter(c => c.kind !== 'planned'),
+  ];
+  let remainingFTE = grossFTE;
+  const steps = ordered.map(c => {
+    const fte = grossFTE * (Math.max(0, c.percent) * scale) / 100;
+    remainingFTE -= fte;
+    return { category: c.category, kind: c.kind, fte, remainingFTE };
+  });
+
+  return { grossFTE, steps, productiveFTE };
+}
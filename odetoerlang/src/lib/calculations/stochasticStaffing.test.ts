@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateStochasticStaffing,
+  normalQuantile,
+  resolveVolumeDistribution,
+  volumeDistributionFromForecast,
+  volumeDistributionFromForecastHorizon,
+  type StochasticStaffingInput,
+} from './stochasticStaffing';
+import { calculateStaffing } from './erlangEngine';
+
+const baseInput: StochasticStaffingInput = {
+  model: 'C',
+  workload: { aht: 240, intervalMinutes: 30 },
+  volume: { type: 'normal', mean: 150, standardDeviation: 20 },
+  confidence: 0.9,
+  constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 95 },
+  behavior: { shrinkagePercent: 25 },
+};
+
+describe('Stochastic staffing - distributions', () => {
+  it('normal quantile matches standard table values', () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 9);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.9)).toBeCloseTo(1.281552, 5);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+  });
+
+  it('converts a 95% prediction interval to a standard deviation', () => {
+    const moments = resolveVolumeDistribution({ type: 'interval', mean: 100, lower: 60.8, upper: 139.2 })!;
+    expect(moments.mean).toBe(100);
+    expect(moments.standardDeviation).toBeCloseTo(20, 3);
+  });
+
+  it('uses the upper half-width when the lower bound is clamped at zero', () => {
+    const moments = resolveVolumeDistribution({ type: 'interval', mean: 10, lower: 0, upper: 49.2 })!;
+    expect(moments.standardDeviation).toBeCloseTo(20, 2);
+  });
+
+  it('rejects inverted bounds', () => {
+    expect(resolveVolumeDistribution({ type: 'interval', lower: 100, upper: 50 })).toBeNull();
+  });
+
+  it('scales a daily forecast point to interval volume', () => {
+    const dist = volumeDistributionFromForecast({ value: 2000, lower: 1600, upper: 2400 }, 100);
+    expect(resolveVolumeDistribution(dist)!.standardDeviation).toBeCloseTo(20 / 1.959964, 3);
+  });
+
+  it('averages a forecast horizon before scaling to the interval', () => {
+    const dist = volumeDistributionFromForecastHorizon([
+      { value: 1800, lower: 1500, upper: 2100 },
+      { value: 2200, lower: 1700, upper: 2700 },
+    ], 100);
+    // Average point 2000 ± 400 → interval 100 ± 20
+    const moments = resolveVolumeDistribution(dist)!;
+    expect(moments.mean).toBe(100);
+    expect(moments.standardDeviation).toBeCloseTo(20 / 1.959964, 3);
+  });
+
+  it('treats a horizon without bounds as certain', () => {
+    const dist = volumeDistributionFromForecastHorizon([{ value: 100 }, { value: 300 }]);
+    expect(resolveVolumeDistribution(dist)).toEqual({ mean: 200, standardDeviation: 0 });
+  });
+});
+
+describe('Stochastic staffing - engine', () => {
+  it('zero uncertainty reproduces deterministic staffing', () => {
+    const result = calculateStochasticStaffing({ ...baseInput, volume: { type: 'normal', mean: 150, standardDeviation: 0 } })!;
+    const deterministic = calculateStaffing({ ...baseInput, workload: { ...baseInput.workload, volume: 150 } })!;
+    expect(result.confidenceStaffing.requiredAgents).toBe(deterministic.requiredAgents);
+    expect(result.bufferAgents).toBe(0);
+    expect(result.expectedServiceLevel).toBeCloseTo(deterministic.serviceLevel, 8);
+  });
+
+  it('staffs the confidence quantile of volume', () => {
+    const result = calculateStochasticStaffing(baseInput)!;
+    expect(result.designVolume).toBeCloseTo(150 + 20 * 1.281552, 3);
+    const atQuantile = calculateStaffing({ ...baseInput, workload: { ...baseInput.workload, volume: result.designVolume } })!;
+    expect(result.confidenceStaffing.requiredAgents).toBe(atQuantile.requiredAgents);
+    expect(result.bufferAgents).toBeGreaterThan(0);
+  });
+
+  it('meets the target on at least the chosen share of days', () => {
+    const result = calculateStochasticStaffing(baseInput)!;
+    expect(result.probabilityMeetingTarget).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('mean-volume staffing misses the target about half the time', () => {
+    const mean = calculateStaffing({ ...baseInput, workload: { ...baseInput.workload, volume: 150 } })!;
+    const result = calculateStochasticStaffing({ ...baseInput, agents: mean.requiredAgents })!;
+    expect(result.probabilityMeetingTarget).toBeLessThan(0.75);
+    // Uncertainty costs SL on average (SL is concave near the target).
+    expect(result.expectedServiceLevel).toBeLessThan(mean.serviceLevel);
+  });
+
+  it('higher confidence needs more agents', () => {
+    const p80 = calculateStochasticStaffing({ ...baseInput, confidence: 0.8 })!;
+    const p99 = calculateStochasticStaffing({ ...baseInput, confidence: 0.99 })!;
+    expect(p99.confidenceStaffing.requiredAgents).toBeGreaterThan(p80.confidenceStaffing.requiredAgents);
+  });
+
+  it('reports overloaded volumes separately instead of averaging a sentinel ASA', () => {
+    // 22 agents against 20 ± 2.7 Erlangs: roughly a quarter of volumes overload
+    const result = calculateStochasticStaffing({ ...baseInput, agents: 22 })!;
+    expect(result.probabilityUnstable).toBeGreaterThan(0.15);
+    expect(result.probabilityUnstable).toBeLessThan(0.35);
+    expect(Number.isFinite(result.expectedASA)).toBe(true);
+    expect(result.expectedASA).toBeLessThan(1000);
+
+    const comfortable = calculateStochasticStaffing({ ...baseInput, agents: 40 })!;
+    expect(comfortable.probabilityUnstable).toBe(0);
+  });
+
+  it('expected SL at fixed agents ignores the occupancy cap', () => {
+    const loose = calculateStochasticStaffing({ ...baseInput, agents: 24 })!;
+    const tight = calculateStochasticStaffing({
+      ...baseInput,
+      agents: 24,
+      constraints: { ...baseInput.constraints, maxOccupancy: 70 },
+    })!;
+    expect(tight.expectedServiceLevel).toBeCloseTo(loose.expectedServiceLevel, 10);
+  });
+
+  it('returns null for an out-of-range confidence', () => {
+    expect(calculateStochasticStaffing({ ...baseInput, confidence: 1 })).toBeNull();
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Stochastic staffing against forecast uncertainty.
+ *
+ * `calculateStaffing` treats volume as known. Real forecasts miss, and on a
+ * volatile campaign staffing to the point forecast fails the SL target on
+ * roughly half of all days. Here the interval volume is a normal random
+ * variable V ~ N(μ, σ), truncated at zero, and we answer two questions:
+ *
+ * 1. Expected SL at a given agent count:
+ *      E[SL(c)] = ∫ SL(c, v) dF(v)
+ *    evaluated by equal-probability quantile quadrature (the bin midpoints
+ *    of F), so every quadrature point is equally likely. The queue is taken
+ *    as it is (no occupancy-cap penalty), and volumes that overload the
+ *    agents are reported as a probability rather than averaged into ASA.
+ *
+ * 2. Agents needed to hit the target with confidence q (e.g. 90% of days).
+ *    SL falls as volume rises, so SL(c, V) ≥ target with probability q
+ *    exactly when the target is met at the q-quantile volume:
+ *      c_q = required agents at v_q = μ + σ × Φ⁻¹(q)
+ *
+ * A prediction interval [L, U] at level p is converted with
+ *   σ = (U - μ) / Φ⁻¹((1 + p) / 2)
+ * using the upper half-width, because forecast lower bounds are clamped at 0.
+ */
+
+import type { ForecastPoint } from '../forecasting/advancedForecasting';
+import {
+  calculateAchievableMetrics,
+  calculateStaffing,
+  meetsServiceTarget,
+  resolveServiceTarget,
+  UNSTABLE_ASA_SECONDS,
+  type ErlangEngineInput,
+  type ErlangEngineOutput,
+} from './erlangEngine';
+
+/** Quadrature points for the expected-SL integral. */
+const QUADRATURE_POINTS = 41;
+
+/** Default level of forecast prediction intervals (advancedForecasting uses ±1.96σ). */
+export const DEFAULT_PREDICTION_INTERVAL_LEVEL = 0.95;
+
+/**
+ * Interval volume uncertainty: mean plus standard deviation, or prediction
+ * interval bounds.
+ */
+export type VolumeDistribution =
+  | { type: 'normal'; mean: number; standardDeviation: number }
+  | {
+      type: 'interval';
+      lower: number;
+      upper: number;
+      /** Point forecast. Defaults to the interval midpoint. */
+      mean?: number | undefined;
+      /** Coverage of [lower, upper], 0-1 (default 0.95) */
+      level?: number | undefined;
+    };
+
+export interface StochasticStaffingInput extends Omit<ErlangEngineInput, 'workload'> {
+  workload: Omit<ErlangEngineInput['workload'], 'volume'>;
+  volume: VolumeDistribution;
+  /** Probability the target must be met, 0-1 (e.g. 0.9 = 90% of days) */
+  confidence: number;
+  /** Agents to evaluate the expected SL at. Defaults to the confidence staffing. */
+  agents?: number | undefined;
+}
+
+export interface StochasticStaffingOutput {
+  meanVolume: number;
+  standardDeviation: number;
+  /** Volume staffed for: the `confidence` quantile */
+  designVolume: number;
+  confidence: number;
+  /** Staffing for the mean volume (the deterministic answer) */
+  meanStaffing: ErlangEngineOutput;
+  /** Staffing that meets the target with the chosen confidence */
+  confidenceStaffing: ErlangEngineOutput;
+  /** Extra agents over the mean-volume answer */
+  bufferAgents: number;
+  /** Agent count the expectations below were evaluated at */
+  evaluatedAgents: number;
+  /** E[SL] over the volume distribution, percentage (0-100) */
+  expectedServiceLevel: number;
+  /** E[ASA] over the volumes the agents can keep stable, seconds (Infinity if none) */
+  expectedASA: number;
+  /** P(volume overloads evaluatedAgents, so ASA is unbounded), 0-1, on the quadrature grid */
+  probabilityUnstable: number;
+  /** P(target met) at evaluatedAgents, 0-1, on the quadrature grid (1/41 resolution) */
+  probabilityMeetingTarget: number;
+}
+
+/**
+ * Standard normal quantile Φ⁻¹(p), Acklam's rational approximation
+ * (relative error < 1.2e-9).
+ *
+ * @param p - Probability in (0, 1)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  const tail = (q: number): number =>
+    (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+    ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+
+  if (p < pLow) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - pLow) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
+
+/**
+ * Reduce a volume distribution to mean and standard deviation.
+ *
+ * @returns null for negative means, inverted bounds or levels outside (0, 1)
+ */
+export function resolveVolumeDistribution(
+  distribution: VolumeDistribution
+): { mean: number; standardDeviation: number } | null {
+  if (distribution.type === 'normal') {
+    if (distribution.mean < 0 || distribution.standardDeviation < 0) return null;
+    return { mean: distribution.mean, standardDeviation: distribution.standardDeviation };
+  }
+
+  const { lower, upper } = distribution;
+  const level = distribution.level ?? DEFAULT_PREDICTION_INTERVAL_LEVEL;
+  const mean = distribution.mean ?? (lower + upper) / 2;
+  if (upper < lower || mean < lower || mean > upper || mean < 0 || level <= 0 || level >= 1) return null;
+
+  const z = normalQuantile((1 + level) / 2);
+  // Upper half-width: forecast lower bounds are clamped at zero.
+  const halfWidth = upper > mean ? upper - mean : mean - lower;
+  return { mean, standardDeviation: halfWidth / z };
+}
+
+/**
+ * Build an interval-level volume distribution from a daily forecast point,
+ * keeping its relative uncertainty.
+ *
+ * @param point - Forecast point from `advancedForecasting`
+ * @param intervalVolume - Interval mean to scale to (default: the point value)
+ * @param level - Coverage of the forecast bounds (default 0.95)
+ */
+export function volumeDistributionFromForecast(
+  point: Pick<ForecastPoint, 'value' | 'lower' | 'upper'>,
+  intervalVolume: number = point.value,
+  level: number = DEFAULT_PREDICTION_INTERVAL_LEVEL
+): VolumeDistribution {
+  if (point.lower === undefined || point.upper === undefined || point.value <= 0) {
+    return { type: 'normal', mean: intervalVolume, standardDeviation: 0 };
+  }
+  const scale = intervalVolume / point.value;
+  return {
+    type: 'interval',
+    mean: intervalVolume,
+    lower: point.lower * scale,
+    upper: point.upper * scale,
+    level,
+  };
+}
+
+/**
+ * Build an interval-level volume distribution from a whole forecast horizon:
+ * the average point forecast and the average bounds, scaled to the interval.
+ * Points without bounds are ignored for the spread.
+ *
+ * @param points - `ForecastResult.forecasts` from `advancedForecasting`
+ * @param intervalVolume - Interval mean to scale to (default: the average point value)
+ * @param level - Coverage of the forecast bounds (default 0.95)
+ */
+export function volumeDistributionFromForecastHorizon(
+  points: ReadonlyArray<Pick<ForecastPoint, 'value' | 'lower' | 'upper'>>,
+  intervalVolume?: number,
+  level: number = DEFAULT_PREDICTION_INTERVAL_LEVEL
+): VolumeDistribution {
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+  const bounded = points.filter(p => p.lower !== undefined && p.upper !== undefined);
+  const value = average(points.map(p => p.value));
+  const summary = bounded.length > 0
+    ? {
+        value: average(bounded.map(p => p.value)),
+        lower: average(bounded.map(p => p.lower!)),
+        upper: average(bounded.map(p => p.upper!)),
+      }
+    : { value };
+  return volumeDistributionFromForecast(summary, intervalVolume ?? value, level);
+}
+
+/**
+ * Size staffing for an uncertain interval volume.
+ *
+ * @returns null when the distribution or the engine input is invalid
+ *
+ * @example
+ * const result = calculateStochasticStaffing({
+ *   model: 'C',
+ *   workload: { aht: 240, intervalMinutes: 30 },
+ *   volume: { type: 'normal', mean: 150, standardDeviation: 20 },
+ *   confidence: 0.9,
+ *   constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 90 },
+ *   behavior: { shrinkagePercent: 30 },
+ * });
+ * result?.bufferAgents; // agents added for 90% confidence
+ */
+export function calculateStochasticStaffing(input: StochasticStaffingInput): StochasticStaffingOutput | null {
+  const { volume, confidence, workload, agents, ...rest } = input;
+  const moments = resolveVolumeDistribution(volume);
+  if (!moments || confidence <= 0 || confidence >= 1) return null;
+  const target = resolveServiceTarget(input.constraints);
+  if (!target) return null;
+
+  const { mean, standardDeviation } = moments;
+  const volumeAt = (p: number): number => Math.max(0, mean + standardDeviation * normalQuantile(p));
+  const staffFor = (v: number) => calculateStaffing({ ...rest, workload: { ...workload, volume: v } });
+
+  const designVolume = volumeAt(confidence);
+  const meanStaffing = staffFor(mean);
+  const confidenceStaffing = staffFor(designVolume);
+  if (!meanStaffing || !confidenceStaffing) return null;
+
+  const evaluatedAgents = agents ?? confidenceStaffing.requiredAgents;
+  const targetSL = input.constraints.targetSLPercent / 100;
+
+  let slSum = 0;
+  let asaSum = 0;
+  let stableCount = 0;
+  let metCount = 0;
+  for (let i = 0; i < QUADRATURE_POINTS; i++) {
+    const v = volumeAt((i + 0.5) / QUADRATURE_POINTS);
+    const metrics = evaluatedAgents > 0
+      ? calculateAchievableMetrics({
+          ...rest,
+          fixedAgents: evaluatedAgents,
+          workload: { ...workload, volume: v },
+          // No occupancy penalty: expected SL at fixed agents is the raw queue.
+          constraints: { ...rest.constraints, maxOccupancy: 100 },
+        })
+      : null;
+    const serviceLevel = metrics ? metrics.serviceLevel / 100 : v > 0 ? 0 : 1;
+    const asa = metrics ? metrics.asa : v > 0 ? Infinity : 0;
+
+    slSum += serviceLevel;
+    if (asa < UNSTABLE_ASA_SECONDS) {
+      asaSum += asa;
+      stableCount++;
+    }
+    if (meetsServiceTarget(target, { serviceLevel, asa, abandonmentRate: metrics?.abandonmentRate }, targetSL)) {
+      metCount++;
+    }
+  }
+
+  return {
+    meanVolume: mean,
+    standardDeviation,
+    designVolume,
+    confidence,
+    meanStaffing,
+    confidenceStaffing,
+    bufferAgents: confidenceStaffing.requiredAgents - meanStaffing.requiredAgents,
+    evaluatedAgents,
+    expectedServiceLevel: (slSum / QUADRATURE_POINTS) * 100,
+    expectedASA: stableCount > 0 ? asaSum / stableCount : Infinity,
+    probabilityUnstable: 1 - stableCount / QUADRATURE_POINTS,
+    probabilityMeetingTarget: metCount / QUADRATURE_POINTS,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTimeVaryingStaffing,
+  laggedVolumes,
+  modifiedOfferedLoadVolumes,
+  type TimeVaryingStaffingInput,
+} from './timeVaryingStaffing';
+
+// Ramp up then down; 300 s AHT against 30-minute intervals.
+const volumes = [40, 40, 160, 160, 40, 40];
+const ahts = volumes.map(() => 300);
+
+const baseInput: TimeVaryingStaffingInput = {
+  model: 'C',
+  intervalMinutes: 30,
+  intervals: volumes.map(volume => ({ volume, aht: 300 })),
+  constraints: { targetSLPercent: 80, thresholdSeconds: 20, maxOccupancy: 95 },
+  behavior: { shrinkagePercent: 30 },
+  method: 'mol',
+};
+
+describe('Time-varying staffing - effective volumes', () => {
+  it('constant volume is unchanged by either correction', () => {
+    const flat = [100, 100, 100];
+    const flatAht = [240, 240, 240];
+    laggedVolumes(flat, flatAht, 30).forEach(v => expect(v).toBeCloseTo(100, 9));
+    modifiedOfferedLoadVolumes(flat, flatAht, 30).forEach(v => expect(v).toBeCloseTo(100, 9));
+  });
+
+  it('the lag mixes in one handle time of the previous interval', () => {
+    const lagged = laggedVolumes(volumes, ahts, 30);
+    // 300 s of 1800 s comes from the previous interval.
+    expect(lagged[2]).toBeCloseTo((5 / 6) * 160 + (1 / 6) * 40, 9);
+    expect(lagged[4]).toBeCloseTo((5 / 6) * 40 + (1 / 6) * 160, 9);
+    // Volume is shifted, not lost: the tail of the last interval moves past the horizon.
+    const total = volumes.reduce((s, v) => s + v, 0);
+    expect(lagged.reduce((s, v) => s + v, 0)).toBeCloseTo(total + (volumes[0]! - volumes[5]!) / 6, 9);
+  });
+
+  it('MOL matches a numerical integration of the infinite-server load', () => {
+    const mol = modifiedOfferedLoadVolumes(volumes, ahts, 30);
+    const steps = 1800;
+    let m = (40 / 1800) * 300;
+    volumes.forEach((volume, k) => {
+      const lambda = volume / 1800;
+      let area = 0;
+      for (let i = 0; i < steps; i++) {
+        const next = m + (lambda - m / 300);
+        area += (m + next) / 2;
+        m = next;
+      }
+      expect((area / steps) * 1800 / 300).toBeCloseTo(mol[k]!, 0);
+    });
+  });
+});
+
+describe('Time-varying staffing - requirement', () => {
+  it('returns both the stationary and corrected requirement', () => {
+    const result = calculateTimeVaryingStaffing(baseInput);
+    expect(result.intervals).toHaveLength(6);
+    result.intervals.forEach(row => {
+      expect(row.agentDelta).toBe(row.corrected.requiredAgents - row.stationary.requiredAgents);
+    });
+  });
+
+  it('staffs below stationary on the ramp-up and above on the ramp-down', () => {
+    for (const method of ['lagged', 'mol'] as const) {
+      const result = calculateTimeVaryingStaffing({ ...baseInput, method });
+      expect(result.intervals[2]!.agentDelta).toBeLessThan(0);
+      expect(result.intervals[4]!.agentDelta).toBeGreaterThan(0);
+      expect(result.intervals[0]!.agentDelta).toBe(0);
+    }
+  });
+
+  it('reports daily totals for both passes', () => {
+    const result = calculateTimeVaryingStaffing(baseInput);
+    const stationaryHours = result.intervals.reduce((s, r) => s + r.stationary.requiredAgents * 0.5, 0);
+    const correctedHours = result.intervals.reduce((s, r) => s + r.corrected.requiredAgents * 0.5, 0);
+    expect(result.stationaryTotals.agentHours).toBeCloseTo(stationaryHours, 9);
+    expect(result.correctedTotals.agentHours).toBeCloseTo(correctedHours, 9);
+  });
+});
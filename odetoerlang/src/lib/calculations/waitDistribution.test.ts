@@ -0,0 +1,111 @@
+import { describe, test, expect } from 'vitest'
+import { calculateWaitTimeDistribution, buildThresholdGrid } from './waitDistribution'
+import { calculateServiceLevel, calculateASA, erlangC } from './erlangC'
+import { calculateServiceLevelWithAbandonment } from './erlangA'
+import { calculateErlangXPerformance } from './erlangX'
+import { calculateWaitDistribution } from './erlangEngine'
+
+const AHT = 240
+
+describe('Wait-time distribution - Erlang C', () => {
+  const dist = calculateWaitTimeDistribution({ model: 'C', agents: 14, trafficIntensity: 10, aht: AHT, thresholds: [0, 20, 60] })!
+
+  test('CDF matches the Erlang C service level at every threshold', () => {
+    for (const point of dist.curve) {
+      expect(point.answeredWithin).toBeCloseTo(calculateServiceLevel(14, 10, AHT, point.seconds), 10)
+      expect(point.probabilityWaitAtMost).toBeCloseTo(point.answeredWithin, 10)
+    }
+  })
+
+  test('reports P(wait > 0) and mean wait', () => {
+    expect(dist.probabilityOfWaiting).toBeCloseTo(erlangC(14, 10), 10)
+    expect(dist.meanWait).toBeCloseTo(calculateASA(14, 10, AHT), 8)
+  })
+
+  test('percentiles invert the CDF', () => {
+    const { p80, p90, p99 } = dist.percentiles
+    expect(calculateServiceLevel(14, 10, AHT, p90)).toBeCloseTo(0.9, 8)
+    expect(calculateServiceLevel(14, 10, AHT, p99)).toBeCloseTo(0.99, 8)
+    expect(p80).toBeLessThanOrEqual(p90)
+    expect(p90).toBeLessThan(p99)
+  })
+
+  test('percentiles below the no-wait share are zero', () => {
+    const light = calculateWaitTimeDistribution({ model: 'C', agents: 20, trafficIntensity: 5, aht: AHT })!
+    expect(light.percentiles.p50).toBe(0)
+  })
+
+  test('unstable queues return null', () => {
+    expect(calculateWaitTimeDistribution({ model: 'C', agents: 10, trafficIntensity: 10, aht: AHT })).toBeNull()
+  })
+})
+
+describe('Wait-time distribution - Erlang A', () => {
+  const dist = calculateWaitTimeDistribution({ model: 'A', agents: 12, trafficIntensity: 10, aht: AHT, averagePatience: 90 })!
+
+  test('answered curve matches Erlang A service level', () => {
+    for (const point of dist.curve) {
+      expect(point.answeredWithin).toBeCloseTo(calculateServiceLevelWithAbandonment(12, 10, AHT, point.seconds, 90), 10)
+    }
+  })
+
+  test('abandonment shortens queue waits versus Erlang C', () => {
+    const c = calculateWaitTimeDistribution({ model: 'C', agents: 12, trafficIntensity: 10, aht: AHT })!
+    expect(dist.percentiles.p95).toBeLessThan(c.percentiles.p95)
+  })
+
+  test('requires patience', () => {
+    expect(calculateWaitTimeDistribution({ model: 'A', agents: 12, trafficIntensity: 10, aht: AHT })).toBeNull()
+  })
+
+  test('stays defined in overload (agents < traffic)', () => {
+    const overload = calculateWaitTimeDistribution({
+      model: 'A', agents: 8, trafficIntensity: 10, aht: AHT, averagePatience: 90, thresholds: [0, 20, 60, 180],
+    })!
+    expect(overload).not.toBeNull()
+    expect(overload.probabilityOfWaiting).toBeGreaterThan(0.5)
+    expect(overload.probabilityOfWaiting).toBeLessThan(1)
+    // Everyone queued abandons at rate 1/patience, so waits stay well under a few patiences
+    expect(overload.meanWait).toBeGreaterThan(0)
+    expect(overload.meanWait).toBeLessThan(90)
+
+    for (const point of overload.curve) {
+      const exact = calculateErlangXPerformance(8, 10, AHT, point.seconds, 90)
+      expect(point.answeredWithin).toBeCloseTo(exact.serviceLevel, 8)
+      expect(point.answeredWithin).toBeLessThanOrEqual(point.probabilityWaitAtMost + 1e-12)
+    }
+
+    const { p50, p90, p99 } = overload.percentiles
+    const atP90 = calculateWaitTimeDistribution({
+      model: 'A', agents: 8, trafficIntensity: 10, aht: AHT, averagePatience: 90, thresholds: [p90],
+    })!
+    expect(atP90.curve[0]!.probabilityWaitAtMost).toBeCloseTo(0.9, 3)
+    expect(p50).toBeLessThan(p90)
+    expect(p90).toBeLessThan(p99)
+  })
+})
+
+describe('Wait-time distribution - helpers', () => {
+  test('threshold grid covers at least one minute and the requested max', () => {
+    const grid = buildThresholdGrid(10)
+    expect(grid[0]).toBe(0)
+    expect(grid[grid.length - 1]).toBeGreaterThanOrEqual(60)
+
+    const long = buildThresholdGrid(400)
+    expect(long[long.length - 1]).toBeGreaterThanOrEqual(400)
+    expect(long.length).toBeLessThanOrEqual(32)
+  })
+
+  test('engine entry point converts workload to traffic and rejects Erlang B', () => {
+    const base = {
+      fixedAgents: 24,
+      workload: { volume: 150, aht: AHT, intervalMinutes: 30 },
+      constraints: { thresholdSeconds: 20, maxOccupancy: 90 },
+      behavior: { shrinkagePercent: 25 },
+    }
+    const dist = calculateWaitDistribution({ ...base, model: 'C' })!
+    // 150 calls × 240s / 1800s = 20 Erlangs
+    expect(dist.probabilityOfWaiting).toBeCloseTo(erlangC(24, 20), 10)
+    expect(calculateWaitDistribution({ ...base, model: 'B' })).toBeNull()
+  })
+})
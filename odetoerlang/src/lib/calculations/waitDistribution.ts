@@ -0,0 +1,180 @@
+/**
+ * Waiting-Time Distribution
+ *
+ * Service level is one point on the waiting-time CDF. This module returns the
+ * whole curve plus percentiles, so planners can see how long callers really
+ * wait rather than a single 20-second check.
+ *
+ * Erlang C (M/M/c): the wait of a delayed caller is exponential with rate
+ * (c - A) / AHT, so
+ *   P(W > t) = C(c, A) × e^(-(c-A) × t / AHT)
+ *
+ * Erlang A (M/M/c+M, same approximation as `erlangA.ts`): a delayed caller
+ * leaves the queue (answered or abandoned) at combined rate
+ * γ = (c - A + θ×AHT) / AHT, so
+ *   P(W > t) = C(c, A) × e^(-γt)
+ * and the answered-within-t curve is `calculateServiceLevelWithAbandonment`,
+ * which plateaus at 1 - P(abandon).
+ *
+ * Percentiles invert P(W ≤ t) = p:
+ *   t_p = 0                                if 1 - C ≥ p
+ *   t_p = ln(C / (1 - p)) / rate           otherwise
+ *
+ * Erlang C needs c > A. Erlang A is stable at any load, but the approximation
+ * above needs c > A too, so overloaded Erlang A (c ≤ A) uses the exact
+ * M/M/c+M chain from `erlangX.ts` and finds percentiles by bisection.
+ */
+
+import { erlangC } from './erlangC';
+import { calculateServiceLevelWithAbandonment } from './erlangA';
+import { calculateQueueTimeProfile } from './erlangX';
+
+export const WAIT_PERCENTILES = [50, 80, 90, 95, 99] as const;
+export type WaitPercentile = (typeof WAIT_PERCENTILES)[number];
+
+// Default grid resolution when the caller does not supply thresholds.
+const DEFAULT_GRID_POINTS = 30;
+const MIN_GRID_SECONDS = 60;
+
+// Percentile search for overloaded Erlang A.
+const PERCENTILE_BISECTION_STEPS = 60;
+const PERCENTILE_TOLERANCE_SECONDS = 0.01;
+
+export interface WaitTimePoint {
+  seconds: number;
+  /** P(wait ≤ t) over all callers (queue exit by answer or abandonment), 0-1 */
+  probabilityWaitAtMost: number;
+  /** P(answered within t), 0-1. Equals probabilityWaitAtMost for Erlang C. */
+  answeredWithin: number;
+}
+
+export interface WaitTimeDistribution {
+  model: 'A' | 'C';
+  agents: number;
+  /** P(wait > 0), 0-1 */
+  probabilityOfWaiting: number;
+  /** Mean time in queue over all callers, seconds */
+  meanWait: number;
+  percentiles: Record<`p${WaitPercentile}`, number>;
+  curve: WaitTimePoint[];
+}
+
+export interface WaitTimeDistributionInput {
+  model: 'A' | 'C' | string;
+  agents: number;
+  trafficIntensity: number;
+  aht: number;
+  /** Required for Erlang A */
+  averagePatience?: number | undefined;
+  /** Allen-Cunneen factor for Erlang C (default 1). See `allenCunneen.ts`. */
+  variabilityFactor?: number | undefined;
+  /** Threshold grid in seconds. Generated from P99 when omitted. */
+  thresholds?: number[] | undefined;
+}
+
+/** The curves and summary figures every model has to supply. */
+interface WaitProfile {
+  pWait: number;
+  meanWait: number;
+  waitAtMost: (t: number) => number;
+  answeredWithin: (t: number) => number;
+  percentile: (p: number) => number;
+}
+
+/**
+ * Calculate the waiting-time distribution for a fixed agent count.
+ *
+ * @returns The distribution, or null for unstable Erlang C queues (c ≤ A),
+ *   missing patience under Erlang A, or models other than A/C
+ *
+ * @example
+ * const dist = calculateWaitTimeDistribution({ model: 'C', agents: 14, trafficIntensity: 10, aht: 240 });
+ * dist?.percentiles.p90; // seconds
+ */
+export function calculateWaitTimeDistribution(input: WaitTimeDistributionInput): WaitTimeDistribution | null {
+  const { agents, trafficIntensity, aht } = input;
+  const model = input.model === 'A' ? 'A' : input.model === 'C' ? 'C' : null;
+  if (!model || agents <= 0 || aht <= 0 || trafficIntensity < 0) return null;
+  if (model === 'A' && (input.averagePatience === undefined || input.averagePatience <= 0)) return null;
+
+  const overloaded = trafficIntensity > 0 && agents <= trafficIntensity;
+  if (model === 'C' && overloaded) return null;
+
+  const profile = model === 'A' && overloaded
+    ? overloadedErlangAProfile(agents, trafficIntensity, aht, input.averagePatience!)
+    : stableProfile(model, input);
+
+  const percentiles = Object.fromEntries(
+    WAIT_PERCENTILES.map(p => [`p${p}`, profile.percentile(p / 100)])
+  ) as WaitTimeDistribution['percentiles'];
+
+  const thresholds = input.thresholds ?? buildThresholdGrid(percentiles.p99);
+  const curve = thresholds.map(seconds => ({
+    seconds,
+    probabilityWaitAtMost: profile.waitAtMost(seconds),
+    answeredWithin: profile.answeredWithin(seconds),
+  }));
+
+  return {
+    model,
+    agents,
+    probabilityOfWaiting: profile.pWait,
+    meanWait: profile.meanWait,
+    percentiles,
+    curve,
+  };
+}
+
+/** Closed forms for Erlang C and the Erlang A approximation (c > A). */
+function stableProfile(model: 'A' | 'C', input: WaitTimeDistributionInput): WaitProfile {
+  const { agents, trafficIntensity, aht } = input;
+  const pWait = trafficIntensity > 0 ? erlangC(agents, trafficIntensity) : 0;
+  const exitRate = model === 'A'
+    ? (agents - trafficIntensity + aht / input.averagePatience!) / aht
+    : (agents - trafficIntensity) / (aht * Math.max(input.variabilityFactor ?? 1, Number.EPSILON));
+
+  const waitAtMost = (t: number): number => Math.min(1, Math.max(0, 1 - pWait * Math.exp(-exitRate * t)));
+  return {
+    pWait,
+    meanWait: pWait / exitRate,
+    waitAtMost,
+    answeredWithin: (t) => model === 'A'
+      ? calculateServiceLevelWithAbandonment(agents, trafficIntensity, aht, t, input.averagePatience!)
+      : waitAtMost(t),
+    percentile: (p) => (1 - pWait >= p ? 0 : Math.log(pWait / (1 - p)) / exitRate),
+  };
+}
+
+/** Exact M/M/c+M for Erlang A at or beyond c = A. */
+function overloadedErlangAProfile(agents: number, trafficIntensity: number, aht: number, patience: number): WaitProfile {
+  const queue = calculateQueueTimeProfile(agents, trafficIntensity, aht, patience)!;
+  const pWait = queue.probabilityOfWaiting;
+  const waitAtMost = (t: number): number => 1 - queue.queuedAfter(t);
+
+  const percentile = (p: number): number => {
+    if (1 - pWait >= p) return 0;
+    // Every queued caller abandons at rate 1/patience, so P(W > t) ≤ P(wait) × e^(-t/patience)
+    let low = 0;
+    let high = patience * Math.log(pWait / (1 - p));
+    for (let i = 0; i < PERCENTILE_BISECTION_STEPS && high - low > PERCENTILE_TOLERANCE_SECONDS; i++) {
+      const mid = (low + high) / 2;
+      if (waitAtMost(mid) >= p) high = mid;
+      else low = mid;
+    }
+    return high;
+  };
+
+  return { pWait, meanWait: queue.meanWait, waitAtMost, answeredWithin: queue.answeredWithin, percentile };
+}
+
+/**
+ * Evenly spaced threshold grid from 0 to at least `maxSeconds` (rounded up
+ * to a whole step, never shorter than one minute).
+ */
+export function buildThresholdGrid(maxSeconds: number, points: number = DEFAULT_GRID_POINTS): number[] {
+  const span = Math.max(MIN_GRID_SECONDS, Number.isFinite(maxSeconds) ? maxSeconds : MIN_GRID_SECONDS);
+  const step = Math.max(1, Math.ceil(span / points));
+  const grid: number[] = [];
+  for (let t = 0; t <= span + step - 1; t += step) grid.push(t);
+  return grid;
+}
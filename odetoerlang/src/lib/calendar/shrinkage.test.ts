@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { applyCalendarShrinkage, calendarShrinkageForDate } from './shrinkage';
+import type { ShrinkageCategory } from '../../types';
+import type { CalendarEvent } from '../database/dataAccess';
+
+function evt(partial: Partial<CalendarEvent>): CalendarEvent {
+  return {
+    id: 1,
+    event_type: 'Training',
+    event_name: 'Test',
+    start_datetime: '2026-03-10T09:00:00',
+    end_datetime: '2026-03-10T11:00:00',
+    all_day: false,
+    productivity_modifier: 0,
+    applies_to_filter: null,
+    campaign_id: null,
+    created_at: '2026-03-01T00:00:00',
+    ...partial,
+  };
+}
+
+describe('calendarShrinkageForDate', () => {
+  it('returns nothing without Training or Holiday events', () => {
+    expect(calendarShrinkageForDate('2026-03-10', [])).toEqual([]);
+    expect(calendarShrinkageForDate('2026-03-10', [evt({ event_type: 'Meeting' })])).toEqual([]);
+  });
+
+  it('counts part-day events against an 8-hour paid day', () => {
+    const [training] = calendarShrinkageForDate('2026-03-10', [evt({})]);
+    expect(training).toEqual({ category: 'Training', kind: 'planned', percent: 25, source: 'calendar' });
+  });
+
+  it('scales by the productivity lost', () => {
+    const [training] = calendarShrinkageForDate('2026-03-10', [evt({ productivity_modifier: 0.5 })]);
+    expect(training!.percent).toBeCloseTo(12.5, 9);
+  });
+
+  it('treats all-day events as the whole day and adds events of a type', () => {
+    const events = [
+      evt({ event_type: 'Holiday', all_day: true, start_datetime: '2026-03-10T00:00:00', end_datetime: '2026-03-10T23:59:59', productivity_modifier: 0.8 }),
+      evt({ id: 2 }),
+      evt({ id: 3, start_datetime: '2026-03-10T13:00:00', end_datetime: '2026-03-10T15:00:00' }),
+    ];
+    const result = calendarShrinkageForDate('2026-03-10', events);
+    expect(result.map(c => c.category)).toEqual(['Training', 'Holiday']);
+    expect(result[0]!.percent).toBeCloseTo(50, 9);
+    expect(result[1]!.percent).toBeCloseTo(20, 9);
+  });
+
+  it('ignores events on other dates', () => {
+    const events = [evt({ start_datetime: '2026-03-11T09:00:00', end_datetime: '2026-03-11T17:00:00' })];
+    expect(calendarShrinkageForDate('2026-03-10', events)).toEqual([]);
+  });
+});
+
+describe('applyCalendarShrinkage', () => {
+  const holiday: ShrinkageCategory = { category: 'Holiday', kind: 'planned', percent: 10, source: 'assumption' };
+  const sickness: ShrinkageCategory = { category: 'Sickness', kind: 'unplanned', percent: 5, source: 'assumption' };
+  const calendarHoliday: ShrinkageCategory = { category: 'Holiday', kind: 'planned', percent: 20, source: 'calendar' };
+  const calendarTraining: ShrinkageCategory = { category: 'Training', kind: 'planned', percent: 25, source: 'calendar' };
+
+  it('replaces the same-named category instead of adding to it', () => {
+    const result = applyCalendarShrinkage([holiday, sickness], [calendarHoliday]);
+    expect(result).toEqual([{ ...calendarHoliday, replaced: holiday }, sickness]);
+  });
+
+  it('appends categories with no same-named row', () => {
+    const result = applyCalendarShrinkage([holiday, sickness], [calendarTraining]);
+    expect(result).toEqual([holiday, sickness, calendarTraining]);
+  });
+
+  it('drops the previous date\'s calendar rows and restores what they replaced', () => {
+    const previous = applyCalendarShrinkage([holiday, sickness], [calendarHoliday, calendarTraining]);
+    expect(applyCalendarShrinkage(previous, [])).toEqual([holiday, sickness]);
+    expect(applyCalendarShrinkage(previous, [calendarTraining])).toEqual([holiday, sickness, calendarTraining]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { CalendarEvent } from '../database/dataAccess';
+import type { ShrinkageCategory } from '../../types';
+import { CALENDAR_SHRINKAGE_EVENT_TYPES, WORK_HOURS_PER_DAY } from '../../utils/constants';
+
+const MS_PER_HOUR = 3600 * 1000;
+
+/**
+ * Planned shrinkage for a local date from Training / Holiday calendar events.
+ *
+ * An event removes (1 - productivity_modifier) of the paid time it covers:
+ * the whole day when it is all-day or spans the date, otherwise its hours
+ * on the date out of a `paidHoursPerDay` day. Events of the same type add
+ * up (capped at 100%), one category per event type.
+ *
+ * Pure function: deterministic, no I/O.
+ */
+export function calendarShrinkageForDate(
+  date: string,
+  events: readonly CalendarEvent[],
+  paidHoursPerDay: number = WORK_HOURS_PER_DAY
+): ShrinkageCategory[] {
+  const dayStart = new Date(date + 'T00:00:00').getTime();
+  const dayEnd = dayStart + 24 * MS_PER_HOUR;
+  const percentByType = new Map<string, number>();
+
+  for (const event of events) {
+    if (!CALENDAR_SHRINKAGE_EVENT_TYPES.includes(event.event_type)) continue;
+    const start = new Date(event.start_datetime).getTime();
+    const end = new Date(event.end_datetime).getTime();
+    if (start >= dayEnd || end < dayStart) continue;
+
+    const coversDay = event.all_day || (start <= dayStart && end >= dayEnd - 1000);
+    const hours = (Math.min(end, dayEnd) - Math.max(start, dayStart)) / MS_PER_HOUR;
+    const share = coversDay ? 1 : Math.min(1, Math.max(0, hours) / paidHoursPerDay);
+    const lost = 1 - Math.min(1, Math.max(0, event.productivity_modifier));
+    percentByType.set(event.event_type, (percentByType.get(event.event_type) ?? 0) + lost * share * 100);
+  }
+
+  return CALENDAR_SHRINKAGE_EVENT_TYPES
+    .filter(type => (percentByType.get(type) ?? 0) > 0)
+    .map(type => ({
+      category: type,
+      kind: 'planned',
+      percent: Math.min(100, percentByType.get(type)!),
+      source: 'calendar',
+    }));
+}
+
+/**
+ * Put a date's calendar categories into a category list. A calendar category
+ * replaces the same-named category for the date (a public holiday stands in
+ * for the Holiday budget rather than adding to it) and keeps the row it
+ * replaced; other calendar categories are added on top. Calendar rows from
+ * an earlier date are removed first and replaced rows restored, so the list
+ * can be re-derived whenever the date changes.
+ *
+ * Pure function: deterministic, no I/O.
+ */
+export function applyCalendarShrinkage(
+  categories: readonly ShrinkageCategory[],
+  calendarCategories: readonly ShrinkageCategory[]
+): ShrinkageCategory[] {
+  const result = categories.flatMap(c => (c.source === 'calendar' ? (c.replaced ? [c.replaced] : []) : [c]));
+  for (const calendar of calendarCategories) {
+    const index = result.findIndex(c => c.category === calendar.category);
+    if (index >= 0) {
+      result[index] = { ...calendar, replaced: result[index] };
+    } else {
+      result.push(calendar);
+    }
+  }
+  return result;
+}
@@ -146,6 +146,7 @@ describe('dataAccess - Campaigns', () => {
       campaign_name: 'New Campaign',
       client_id: 1,
       channel_type: 'voice',
+      channel_behavior: 'inbound',
       start_date: '2024-01-01',
       end_date: null,
       sla_target_percent: 80,
@@ -378,7 +379,7 @@ describe('dataAccess - Assumptions', () => {
     const id = upsertAssumption('shrinkage', 25, 'percent', '2024-01-01', null, null);
 
     expect(mockPrepare).toHaveBeenCalled();
-    expect(mockBind).toHaveBeenCalledWith(['shrinkage', null, 1, '2024-01-01']);
+    expect(mockBind).toHaveBeenCalledWith(['shrinkage', null, 1, null, 1, null, 1, null, 1, null, 1, '2024-01-01']);
     expect(mockRun).toHaveBeenCalled();
     expect(mockRun.mock.calls[0]![0]!).toContain('INSERT INTO Assumptions');
     expect(id).toBe(10);
@@ -405,6 +406,42 @@ describe('dataAccess - Assumptions', () => {
     expect(mockRun.mock.calls[0]![0]!).toContain('UPDATE Assumptions');
     expect(id).toBe(5);
   });
+
+  test('upsertAssumption keys shrinkage rows by category', () => {
+    const mockBind = vi.fn();
+    mockPrepare.mockReturnValueOnce({
+      bind: mockBind,
+      step: vi.fn().mockReturnValue(false),
+      getAsObject: vi.fn(),
+      free: vi.fn(),
+    });
+    mockExec.mockReturnValueOnce([{ values: [[11]] }]);
+
+    upsertAssumption('Shrinkage', 4, 'percent', '2024-01-01', 3, null, 'Sickness');
+
+    expect(mockBind).toHaveBeenCalledWith(['Shrinkage', 3, 0, 'Sickness', 0, null, 1, null, 1, null, 1, '2024-01-01']);
+    expect(mockRun.mock.calls[0]![1]).toContain('Sickness');
+  });
+
+  test('upsertAssumption keys service target rows by schedule', () => {
+    const mockBind = vi.fn();
+    mockPrepare.mockReturnValueOnce({
+      bind: mockBind,
+      step: vi.fn().mockReturnValue(false),
+      getAsObject: vi.fn(),
+      free: vi.fn(),
+    });
+    mockExec.mockReturnValueOnce([{ values: [[12]] }]);
+
+    upsertAssumption('SLA', 90, 'percent', '2024-01-01', 3, null, null, {
+      days_of_week: '1,2,3,4,5',
+      time_from: '08:00',
+      time_to: '18:00',
+    });
+
+    expect(mockBind).toHaveBeenCalledWith(['SLA', 3, 0, null, 1, '1,2,3,4,5', 0, '08:00', 0, '18:00', 0, '2024-01-01']);
+    expect(mockRun.mock.calls[0]![1]).toEqual(expect.arrayContaining(['1,2,3,4,5', '08:00', '18:00']));
+  });
 });
 
 describe('dataAccess - Clients', () => {
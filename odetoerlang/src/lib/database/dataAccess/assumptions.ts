@@ -17,10 +17,24 @@ export interface Assumption {
   valid_from: string;
   valid_to: string | null;
   campaign_id: number | null;
+  /** Shrinkage only: the category this row covers; null = total shrinkage */
+  shrinkage_category?: string | null;
+  /** SLA / SLThreshold only: comma-separated days, 0 = Sunday ... 6 = Saturday; null = every day */
+  days_of_week?: string | null;
+  /** SLA / SLThreshold only: 'HH:MM' window [time_from, time_to); null = whole day */
+  time_from?: string | null;
+  time_to?: string | null;
   created_at: string;
   created_by: string | null;
 }
 
+/** When in the week and day an assumption applies (service targets only). */
+export interface AssumptionSchedule {
+  days_of_week: string | null;
+  time_from: string | null;
+  time_to: string | null;
+}
+
 export function getAssumptions(campaignId: number | null = null): Assumption[] {
   const db = getDatabase();
 
@@ -66,17 +80,34 @@ export function upsertAssumption(
   unit: string,
   validFrom: string,
   campaignId: number | null = null,
-  validTo: string | null = null
+  validTo: string | null = null,
+  shrinkageCategory: string | null = null,
+  schedule: AssumptionSchedule | null = null
 ): number {
   const db = getDatabase();
+  const days = schedule?.days_of_week ?? null;
+  const timeFrom = schedule?.time_from ?? null;
+  const timeTo = schedule?.time_to ?? null;
 
   const stmt = db.prepare(
     `SELECT id FROM Assumptions
      WHERE assumption_type = ?
        AND (campaign_id = ? OR (campaign_id IS NULL AND ?))
+       AND (shrinkage_category = ? OR (shrinkage_category IS NULL AND ?))
+       AND (days_of_week = ? OR (days_of_week IS NULL AND ?))
+       AND (time_from = ? OR (time_from IS NULL AND ?))
+       AND (time_to = ? OR (time_to IS NULL AND ?))
        AND valid_from = ?`
   );
-  stmt.bind([type, campaignId, campaignId === null ? 1 : 0, validFrom]);
+  stmt.bind([
+    type,
+    campaignId, campaignId === null ? 1 : 0,
+    shrinkageCategory, shrinkageCategory === null ? 1 : 0,
+    days, days === null ? 1 : 0,
+    timeFrom, timeFrom === null ? 1 : 0,
+    timeTo, timeTo === null ? 1 : 0,
+    validFrom,
+  ]);
   const existingRow = stmtToObject<{ id: number }>(stmt);
 
   if (existingRow) {
@@ -90,9 +121,10 @@ export function upsertAssumption(
   }
 
   db.run(
-    `INSERT INTO Assumptions (assumption_type, value, unit, valid_from, valid_to, campaign_id, created_by)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
-    [type, value, unit, validFrom, validTo, campaignId, 'system']
+    `INSERT INTO Assumptions (assumption_type, value, unit, valid_from, valid_to, campaign_id, shrinkage_category,
+       days_of_week, time_from, time_to, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [type, value, unit, validFrom, validTo, campaignId, shrinkageCategory, days, timeFrom, timeTo, 'system']
   );
 
   const id = getLastInsertId();
@@ -1,4 +1,5 @@
 /** Campaigns: lines of work an outsourcer or contact centre delivers. */
+import type { ChannelBehavior } from '../../../types';
 import {
   buildUpdateClause,
   execToArray,
@@ -13,6 +14,8 @@ export interface Campaign {
   campaign_name: string;
   client_id: number;
   channel_type: string;
+  /** Inbound queue or outbound dialer (default 'inbound') */
+  channel_behavior: ChannelBehavior;
   start_date: string;
   end_date: string | null;
   sla_target_percent: number;
@@ -40,13 +43,14 @@ export function getCampaignById(id: number): Campaign | null {
 export function createCampaign(campaign: Omit<Campaign, 'id' | 'created_at'>): number {
   const db = getDatabase();
   db.run(
-    `INSERT INTO Campaigns (campaign_name, client_id, channel_type, start_date, end_date,
+    `INSERT INTO Campaigns (campaign_name, client_id, channel_type, channel_behavior, start_date, end_date,
      sla_target_percent, sla_threshold_seconds, concurrency_allowed, active)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       campaign.campaign_name,
       campaign.client_id,
       campaign.channel_type,
+      campaign.channel_behavior,
       campaign.start_date,
       campaign.end_date,
       campaign.sla_target_percent,
@@ -13,7 +13,7 @@ export interface Scenario {
   scenario_name: string;
   description: string | null;
   is_baseline: boolean;
-  erlang_model: 'B' | 'C' | 'A';
+  erlang_model: 'B' | 'C' | 'A' | 'X' | 'EB' | 'EC';
   created_at: string;
   updated_at: string;
   created_by: string | null;
@@ -47,7 +47,7 @@ export function createScenario(
   name: string,
   description?: string,
   isBaseline: boolean = false,
-  erlangModel: 'B' | 'C' | 'A' = 'C'
+  erlangModel: 'B' | 'C' | 'A' | 'X' | 'EB' | 'EC' = 'C'
 ): number {
   const db = getDatabase();
 
@@ -56,7 +56,7 @@ export async function initDatabase(): Promise<Database> {
 }
 
 // Current schema version - increment when adding migrations
-const CURRENT_SCHEMA_VERSION = 4;
+const CURRENT_SCHEMA_VERSION = 7;
 
 /**
  * Run a single migration inside a transaction. If any statement (including
@@ -331,6 +331,37 @@ async function runMigrations(): Promise<void> {
       );
     }
 
+    // Migration 4 → 5: Campaign channel behaviour (inbound queue / outbound dialer)
+    if (currentVersion < 5) {
+      runMigrationInTransaction(
+        5,
+        `ALTER TABLE Campaigns ADD COLUMN channel_behavior TEXT DEFAULT 'inbound'`,
+        'Add channel_behavior column to Campaigns',
+      );
+    }
+
+    // Migration 5 → 6: Shrinkage assumptions by category
+    if (currentVersion < 6) {
+      runMigrationInTransaction(
+        6,
+        `ALTER TABLE Assumptions ADD COLUMN shrinkage_category TEXT NULL`,
+        'Add shrinkage_category column to Assumptions',
+      );
+    }
+
+    // Migration 6 → 7: Day-of-week / time-of-day service target profiles
+    if (currentVersion < 7) {
+      runMigrationInTransaction(
+        7,
+        `
+        ALTER TABLE Assumptions ADD COLUMN days_of_week TEXT NULL;
+        ALTER TABLE Assumptions ADD COLUMN time_from TEXT NULL;
+        ALTER TABLE Assumptions ADD COLUMN time_to TEXT NULL;
+        `,
+        'Add service target profile columns to Assumptions',
+      );
+    }
+
     await saveDatabase();
 
   }
@@ -133,6 +133,7 @@ CREATE TABLE IF NOT EXISTS Campaigns (
   campaign_name TEXT UNIQUE NOT NULL,        -- Globally unique (includes client name)
   client_id INTEGER NOT NULL,
   channel_type TEXT NOT NULL,                -- 'Voice', 'Chat', 'Email', 'Video', 'Social', 'WhatsApp'
+  channel_behavior TEXT DEFAULT 'inbound',   -- 'inbound' (queue) or 'outbound' (predictive dialer) (v5+)
   start_date DATE NOT NULL,
   end_date DATE,
   sla_target_percent REAL DEFAULT 80.0,     -- Numeric for calculations
@@ -192,12 +193,16 @@ CREATE INDEX IF NOT EXISTS idx_billingrules_dates ON BillingRules(valid_from, va
 -- 11. ASSUMPTIONS - Time-bound planning parameters
 CREATE TABLE IF NOT EXISTS Assumptions (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
-  assumption_type TEXT NOT NULL,  -- 'AHT', 'Shrinkage', 'Occupancy', 'SLA', 'AveragePatience'
+  assumption_type TEXT NOT NULL,  -- 'AHT', 'Shrinkage', 'Occupancy', 'SLA', 'SLThreshold', 'AveragePatience', 'TargetASA', 'TargetAbandonRate', 'TargetWaitPercentile'
   value REAL NOT NULL,             -- CUSTOMISABLE
   unit TEXT,                       -- 'seconds', 'percent', 'ratio'
   valid_from DATE NOT NULL,        -- Time-bound (no permanent settings)
   valid_to DATE,
   campaign_id INTEGER,             -- NULL = global
+  shrinkage_category TEXT,         -- Shrinkage only: 'Holiday', 'Sickness', ... NULL = total shrinkage (v6+)
+  days_of_week TEXT,               -- SLA / SLThreshold only: '1,2,3,4,5' (0 = Sunday), NULL = every day (v7+)
+  time_from TEXT,                  -- SLA / SLThreshold only: 'HH:MM' window start, NULL = whole day (v7+)
+  time_to TEXT,                    -- 'HH:MM' window end (exclusive); earlier than time_from = past midnight (v7+)
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   created_by TEXT,
   FOREIGN KEY (campaign_id) REFERENCES Campaigns(id)
@@ -270,7 +275,7 @@ CREATE TABLE IF NOT EXISTS Scenarios (
   scenario_name TEXT UNIQUE NOT NULL,
   description TEXT,
   is_baseline BOOLEAN DEFAULT 0,
-  erlang_model TEXT DEFAULT 'C',  -- 'B', 'C', or 'A' - which Erlang model to use
+  erlang_model TEXT DEFAULT 'C',  -- 'B', 'C', 'A', 'X', 'EB' or 'EC' - which Erlang/Engset model to use
   created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
   created_by TEXT,
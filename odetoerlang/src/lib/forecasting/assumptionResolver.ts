@@ -1,4 +1,9 @@
-import { getCurrentAssumptions, type Campaign } from '../database/dataAccess';
+import type { ChannelBehavior, ServiceTargetType, ShrinkageCategory } from '../../types';
+import { getCalendarEvents, getCurrentAssumptions, type Campaign } from '../database/dataAccess';
+import { applyCalendarShrinkage, calendarShrinkageForDate } from '../calendar/shrinkage';
+import { combineShrinkage } from '../calculations/shrinkage';
+import { SHRINKAGE_CATEGORY_KINDS } from '../../utils/constants';
+import { appliesOnDate, isServiceTargetAssumption, resolveServiceTargets } from './serviceTargetProfile';
 
 /**
  * Interface for normalized inputs to the ErlangMathEngine.
@@ -11,9 +16,14 @@ export interface ErlangMathInputs {
   targetSLPercent: number;     // Target Service Level percentage (e.g., 80 for 80%)
   thresholdSeconds: number;    // Service Level threshold in seconds (e.g., 20 for 80/20)
   shrinkagePercent: number;    // Shrinkage percentage (e.g., 25 for 25%)
+  shrinkageCategories?: ShrinkageCategory[]; // Breakdown behind shrinkagePercent, when categorised or calendar-driven
   maxOccupancy: number;        // Maximum Occupancy percentage (e.g., 90 for 90%)
   averagePatience: number;     // Average customer patience in seconds (for Erlang A/X)
   concurrency?: number;        // Concurrency allowed for multi-channel (e.g., chat)
+  targetType?: ServiceTargetType;   // Staffing target (default: service level)
+  targetASASeconds?: number;        // Max ASA when targetType = 'asa'
+  targetAbandonPercent?: number;    // Max abandonment % when targetType = 'abandonRate'
+  channelBehavior?: ChannelBehavior; // Inbound queue or outbound dialer, from the campaign
 }
 
 /**
@@ -45,38 +55,98 @@ export function resolveAssumptionsForDate(
     maxOccupancy: 90,
     averagePatience: 120, // 2 minutes
     concurrency: defaultCampaign.concurrency_allowed ?? 1,
+    channelBehavior: defaultCampaign.channel_behavior === 'outbound' ? 'outbound' : 'inbound',
   };
 
+  // SLA and SLThreshold rows can be day-of-week / time-of-day profiles; the
+  // calculator takes the daily value, coverage generation the intraday profile.
+  const serviceTargets = resolveServiceTargets(assumptions, asOfDate, {
+    targetSLPercent: resolvedInputs.targetSLPercent,
+    thresholdSeconds: resolvedInputs.thresholdSeconds,
+  });
+  resolvedInputs.targetSLPercent = serviceTargets.daily.targetSLPercent;
+  resolvedInputs.thresholdSeconds = serviceTargets.daily.thresholdSeconds;
+
+  // Campaign rows come first, so the first row per category wins.
+  const shrinkageRows = new Map<string, number>();
+
   // Apply assumptions, overriding defaults
   assumptions.forEach(assumption => {
+    if (isServiceTargetAssumption(assumption.assumption_type) || !appliesOnDate(assumption, asOfDate)) return;
     switch (assumption.assumption_type) {
       case 'AHT':
         resolvedInputs.aht = assumption.value;
         break;
       case 'Shrinkage':
-        resolvedInputs.shrinkagePercent = assumption.value;
+        // Categorised rows are combined below; a row without a category is the total.
+        if (assumption.shrinkage_category) {
+          if (!shrinkageRows.has(assumption.shrinkage_category)) {
+            shrinkageRows.set(assumption.shrinkage_category, assumption.value);
+          }
+        } else {
+          resolvedInputs.shrinkagePercent = assumption.value;
+        }
         break;
       case 'Occupancy':
         resolvedInputs.maxOccupancy = assumption.value;
         break;
-      case 'SLA':
-        // Assuming 'SLA' assumption type can set both percent and threshold
-        // Or we might need separate assumption types like 'SL_PERCENT' and 'SL_THRESHOLD'
-        // For now, let's assume 'SLA' assumption type primarily affects targetSLPercent
-        resolvedInputs.targetSLPercent = assumption.value;
-        break;
       case 'AveragePatience':
         resolvedInputs.averagePatience = assumption.value;
         break;
-      // Note: Volume, Interval, ThresholdSeconds need separate assumption types or derivation
-      // ThresholdSeconds could be tied to SLA assumption or be a separate 'SLA_THRESHOLD' type
+      // Alternative contract targets. Each one also selects the target type.
+      case 'TargetASA':
+        resolvedInputs.targetType = 'asa';
+        resolvedInputs.targetASASeconds = assumption.value;
+        break;
+      case 'TargetAbandonRate':
+        resolvedInputs.targetType = 'abandonRate';
+        resolvedInputs.targetAbandonPercent = assumption.value;
+        break;
+      case 'TargetWaitPercentile':
+        // Nth percentile wait ≤ threshold: N is stored in targetSLPercent.
+        resolvedInputs.targetType = 'waitPercentile';
+        resolvedInputs.targetSLPercent = assumption.value;
+        break;
+      // Note: Volume and Interval need separate assumption types or derivation
       // For this resolver, we are focused on calculation parameters.
     }
   });
 
-  // Special handling for SLA threshold - it's often paired with SLA percent.
-  // If we have a specific 'SLA_THRESHOLD' assumption type, it would be processed above.
-  // Otherwise, defaultCampaign.sla_threshold_seconds is the best source.
+  const categories = resolveShrinkageCategories(campaignId, asOfDate, shrinkageRows, resolvedInputs.shrinkagePercent);
+  if (categories) {
+    resolvedInputs.shrinkageCategories = categories;
+    resolvedInputs.shrinkagePercent = combineShrinkage(categories).totalPercent;
+  }
 
   return resolvedInputs;
 }
+
+/**
+ * Shrinkage categories for the date: categorised assumptions (which replace
+ * the total shrinkage assumption) with Training / Holiday calendar events as
+ * planned shrinkage. A calendar category replaces the assumption category of
+ * the same name for the date; without one (or with only an uncategorised
+ * total) it is added on top. Returns undefined when neither exists, leaving
+ * the single shrinkage value as is.
+ */
+function resolveShrinkageCategories(
+  campaignId: number | null,
+  asOfDate: string,
+  shrinkageRows: Map<string, number>,
+  totalShrinkagePercent: number
+): ShrinkageCategory[] | undefined {
+  const events = getCalendarEvents(`${asOfDate}T00:00:00`, `${asOfDate}T23:59:59`, campaignId);
+  const calendarCategories = calendarShrinkageForDate(asOfDate, events);
+  if (shrinkageRows.size === 0 && calendarCategories.length === 0) return undefined;
+
+  const assumptionCategories: ShrinkageCategory[] = shrinkageRows.size > 0
+    ? [...shrinkageRows].map(([category, percent]) => ({
+      category,
+      kind: SHRINKAGE_CATEGORY_KINDS[category] ?? 'unplanned',
+      percent,
+      source: 'assumption',
+    }))
+    : [{ category: 'Uncategorised', kind: 'unplanned', percent: totalShrinkagePercent, source: 'assumption' }];
+
+  return applyCalendarShrinkage(assumptionCategories, calendarCategories);
+}
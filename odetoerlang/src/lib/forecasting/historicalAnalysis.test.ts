@@ -8,7 +8,8 @@ import {
   analyzeMonthly,
   analyzeTrend,
   analyzeHistoricalData,
-  getForecastFromPatterns
+  getForecastFromPatterns,
+  fitAHTOccupancyCurve
 } from './historicalAnalysis';
 import type { HistoricalData } from '../database/dataAccess';
 
@@ -341,3 +342,70 @@ describe('getForecastFromPatterns', () => {
     expect(mondayForecast).toBeGreaterThan(saturdayForecast);
   });
 });
+
+// ============================================================================
+// fitAHTOccupancyCurve Tests
+// ============================================================================
+
+describe('fitAHTOccupancyCurve', () => {
+  // AHT = 100 + 2 × occupancy, 30-minute intervals with 20 agents. Occupancy
+  // is measured at the volume-weighted mean AHT, which for volumes
+  // proportional to occupancy is Σ occupancy × AHT / Σ occupancy.
+  const occupancies = [60, 70, 75, 80, 90];
+  const ahtAt = (occupancy: number) => 100 + 2 * occupancy;
+  const meanAHT = occupancies.reduce((sum, o) => sum + o * ahtAt(o), 0) / occupancies.reduce((sum, o) => sum + o, 0);
+  const records: HistoricalData[] = occupancies.map((occupancy, i) => ({
+    campaign_id: 1,
+    date: '2024-01-01',
+    interval_start: `${String(9 + i).padStart(2, '0')}:00:00`,
+    interval_end: `${String(9 + i).padStart(2, '0')}:30:00`,
+    volume: (occupancy / 100) * 1800 * 20 / meanAHT,
+    aht: ahtAt(occupancy),
+    actual_agents: 20,
+  }));
+
+  test('recovers a linear AHT-occupancy relationship', () => {
+    const fit = fitAHTOccupancyCurve(records)!;
+    expect(fit.sampleSize).toBe(5);
+    expect(fit.slope).toBeCloseTo(2, 9);
+    expect(fit.rSquared).toBeCloseTo(1, 9);
+    expect(fit.referenceAHT).toBeCloseTo(100 + 2 * fit.referenceOccupancy, 6);
+  });
+
+  test('expresses the curve as multipliers over the observed range', () => {
+    const fit = fitAHTOccupancyCurve(records)!;
+    expect(fit.curve.map(p => p.occupancy)).toEqual([expect.closeTo(60, 9), expect.closeTo(90, 9)]);
+    expect(fit.curve[0]!.ahtMultiplier).toBeCloseTo(220 / fit.referenceAHT, 9);
+    expect(fit.curve[1]!.ahtMultiplier).toBeCloseTo(280 / fit.referenceAHT, 9);
+  });
+
+  test('uses the default interval length when records have no bounds', () => {
+    const hourly = records.map(r => ({ campaign_id: 1, date: r.date, volume: r.volume * 2, aht: r.aht!, actual_agents: 20 }));
+    expect(fitAHTOccupancyCurve(hourly, 60)!.slope).toBeCloseTo(2, 9);
+  });
+
+  test('finds no relationship when AHT is independent of workload', () => {
+    let seed = 11;
+    const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const noisy: HistoricalData[] = Array.from({ length: 200 }, () => ({
+      campaign_id: 1,
+      date: '2024-01-01',
+      volume: 80 + 60 * next(),
+      aht: 240 * (0.7 + 0.6 * next()),
+      actual_agents: 20,
+    }));
+    const fit = fitAHTOccupancyCurve(noisy)!;
+    expect(fit.rSquared).toBeLessThan(0.05);
+    expect(Math.abs(fit.slope)).toBeLessThan(0.5);
+    for (const point of fit.curve) {
+      expect(point.ahtMultiplier).toBeGreaterThan(0.95);
+      expect(point.ahtMultiplier).toBeLessThan(1.05);
+    }
+  });
+
+  test('skips records without agents and needs three usable records', () => {
+    const sparse = records.map((r, i) => (i < 3 ? { ...r, actual_agents: 0 } : r));
+    expect(fitAHTOccupancyCurve(sparse)).toBeNull();
+    expect(fitAHTOccupancyCurve([])).toBeNull();
+  });
+});
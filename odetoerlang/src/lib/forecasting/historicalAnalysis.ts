@@ -6,11 +6,13 @@
  * - Seasonality detection (day-of-week, monthly patterns)
  * - Variance and percentile calculations
  * - Performance metrics aggregation
+ * - AHT-versus-occupancy fitting
  */
 
 import { parseDateDow, parseDateMonth } from '../dateUtils';
 
 import type { HistoricalData } from '../database/dataAccess';
+import type { AHTOccupancyPoint } from '../../types';
 
 // ============================================================================
 // TYPES
@@ -81,6 +83,19 @@ export interface HistoricalInsights {
   slaStats: StatisticalSummary;
 }
 
+export interface AHTOccupancyFit {
+  /** Multipliers relative to the fitted AHT at the reference occupancy */
+  curve: AHTOccupancyPoint[];
+  /** Volume-weighted mean occupancy (%), at the campaign-mean AHT */
+  referenceOccupancy: number;
+  /** Fitted AHT at the reference occupancy, seconds */
+  referenceAHT: number;
+  /** Seconds of AHT per occupancy point */
+  slope: number;
+  rSquared: number;
+  sampleSize: number;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -426,3 +441,78 @@ export function getForecastFromPatterns(
 
   return Math.round(baseVolume);
 }
+
+// ============================================================================
+// AHT VS OCCUPANCY
+// ============================================================================
+
+/** Seconds between HH:MM:SS interval bounds, or null when missing or not increasing. */
+function intervalSeconds(record: HistoricalData): number | null {
+  if (!record.interval_start || !record.interval_end) return null;
+  const toSeconds = (time: string): number => {
+    const [h = 0, m = 0, sec = 0] = time.split(':').map(Number);
+    return h * 3600 + m * 60 + sec;
+  };
+  const length = toSeconds(record.interval_end) - toSeconds(record.interval_start);
+  return Number.isFinite(length) && length > 0 ? length : null;
+}
+
+/**
+ * Fit AHT against occupancy from interval records.
+ *
+ * Occupancy per record = volume × mean AHT / (interval length × actual
+ * agents), where the mean is the volume-weighted AHT over all usable records.
+ * Using the record's own AHT would put the regressand inside the regressor
+ * and give a positive slope even for AHT that is pure noise; at a fixed AHT
+ * occupancy only moves with workload per agent. Records without AHT or
+ * agents, or above 100% occupancy (agent counts that cannot have handled the
+ * volume), are skipped. A straight line
+ * AHT = a + b × occupancy is fitted and expressed as multipliers on its value
+ * at the volume-weighted mean occupancy, at the lowest and highest observed
+ * occupancy. The engine holds the curve flat outside that range rather than
+ * extrapolating.
+ *
+ * @param data - Historical records; interval bounds set the length when present
+ * @param defaultIntervalMinutes - Length for records without interval bounds
+ * @returns null with fewer than 3 usable records, no spread in occupancy,
+ *   or a fit that gives a non-positive AHT
+ */
+export function fitAHTOccupancyCurve(data: HistoricalData[], defaultIntervalMinutes: number = 30): AHTOccupancyFit | null {
+  const usable = data.flatMap(record => {
+    const length = intervalSeconds(record) ?? defaultIntervalMinutes * 60;
+    const { volume, aht, actual_agents: agents } = record;
+    if (!aht || aht <= 0 || !agents || agents <= 0 || volume <= 0 || length <= 0) return [];
+    return [{ workload: volume / (length * agents), aht, volume }];
+  });
+  const meanAHT = usable.reduce((sum, s) => sum + s.aht * s.volume, 0)
+    / usable.reduce((sum, s) => sum + s.volume, 0);
+  const samples = usable.flatMap(({ workload, aht, volume }) => {
+    const occupancy = workload * meanAHT * 100;
+    return occupancy <= 100 ? [{ occupancy, aht, volume }] : [];
+  });
+  if (samples.length < 3) return null;
+
+  const occupancies = samples.map(s => s.occupancy);
+  const minOccupancy = Math.min(...occupancies);
+  const maxOccupancy = Math.max(...occupancies);
+  if (maxOccupancy - minOccupancy < 1e-9) return null;
+
+  const { slope, intercept, rSquared } = linearRegression(occupancies, samples.map(s => s.aht));
+  const totalVolume = samples.reduce((sum, s) => sum + s.volume, 0);
+  const referenceOccupancy = samples.reduce((sum, s) => sum + s.occupancy * s.volume, 0) / totalVolume;
+  const fitted = (occupancy: number): number => intercept + slope * occupancy;
+  const referenceAHT = fitted(referenceOccupancy);
+  if (referenceAHT <= 0 || fitted(minOccupancy) <= 0 || fitted(maxOccupancy) <= 0) return null;
+
+  return {
+    curve: [minOccupancy, maxOccupancy].map(occupancy => ({
+      occupancy,
+      ahtMultiplier: fitted(occupancy) / referenceAHT,
+    })),
+    referenceOccupancy,
+    referenceAHT,
+    slope,
+    rSquared,
+    sampleSize: samples.length,
+  };
+}
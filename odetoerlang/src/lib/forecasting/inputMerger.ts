@@ -23,8 +23,14 @@ export function mergeCalculationInputs(
     targetSLPercent: assumptionInputs.targetSLPercent,
     thresholdSeconds: assumptionInputs.thresholdSeconds,
     shrinkagePercent: assumptionInputs.shrinkagePercent,
+    // After shrinkagePercent: the store drops categories when the percent is set on its own.
+    shrinkageCategories: assumptionInputs.shrinkageCategories,
     maxOccupancy: assumptionInputs.maxOccupancy,
     averagePatience: assumptionInputs.averagePatience,
     concurrency: assumptionInputs.concurrency ?? 1, // Concurrency from assumption or default
+    ...(assumptionInputs.targetType !== undefined && { targetType: assumptionInputs.targetType }),
+    ...(assumptionInputs.targetASASeconds !== undefined && { targetASASeconds: assumptionInputs.targetASASeconds }),
+    ...(assumptionInputs.targetAbandonPercent !== undefined && { targetAbandonPercent: assumptionInputs.targetAbandonPercent }),
+    ...(assumptionInputs.channelBehavior !== undefined && { channelBehavior: assumptionInputs.channelBehavior }),
   };
 }
@@ -0,0 +1,126 @@
+import { describe, test, expect } from 'vitest';
+import {
+  parseDaysOfWeek,
+  parseTimeOfDay,
+  resolveServiceTargets,
+  serviceTargetAt,
+  serviceTargetFor,
+} from './serviceTargetProfile';
+import type { Assumption } from '../database/dataAccess';
+
+// ============================================================================
+// TEST DATA
+// ============================================================================
+
+const MONDAY = '2025-03-03';
+const SATURDAY = '2025-03-08';
+const FALLBACK = { targetSLPercent: 80, thresholdSeconds: 20 };
+
+let nextId = 1;
+function row(
+  type: string,
+  value: number,
+  schedule: Partial<Pick<Assumption, 'days_of_week' | 'time_from' | 'time_to' | 'campaign_id'>> = {}
+): Assumption {
+  return {
+    id: nextId++,
+    assumption_type: type,
+    value,
+    unit: null,
+    valid_from: '2025-01-01',
+    valid_to: null,
+    campaign_id: null,
+    created_at: '2025-01-01',
+    created_by: null,
+    ...schedule,
+  };
+}
+
+// Weekdays 08:00-18:00 at 90/15, evenings and weekends at 70/60.
+const contract: Assumption[] = [
+  row('SLA', 70),
+  row('SLThreshold', 60),
+  row('SLA', 90, { days_of_week: '1,2,3,4,5', time_from: '08:00', time_to: '18:00' }),
+  row('SLThreshold', 15, { days_of_week: '1,2,3,4,5', time_from: '08:00', time_to: '18:00' }),
+];
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+describe('serviceTargetProfile - parsing', () => {
+  test('parses times of day and rejects malformed values', () => {
+    expect(parseTimeOfDay('08:30')).toBe(510);
+    expect(parseTimeOfDay('18:00:00')).toBe(1080);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+    expect(parseTimeOfDay('8h')).toBeNull();
+    expect(parseTimeOfDay('10:75')).toBeNull();
+    expect(parseTimeOfDay(null)).toBeNull();
+  });
+
+  test('parses days of week, null meaning every day', () => {
+    expect(parseDaysOfWeek('1, 2,5')).toEqual(new Set([1, 2, 5]));
+    expect(parseDaysOfWeek('')).toBeNull();
+    expect(parseDaysOfWeek('9')).toBeNull();
+  });
+});
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+describe('serviceTargetProfile - resolveServiceTargets', () => {
+  test('falls back when no service target rows apply', () => {
+    const targets = resolveServiceTargets([row('AHT', 300)], MONDAY, FALLBACK);
+    expect(targets.daily).toEqual(FALLBACK);
+    expect(targets.profile).toEqual([]);
+    expect(serviceTargetAt(targets, 600)).toEqual(FALLBACK);
+  });
+
+  test('builds a weekday profile from time windows', () => {
+    const targets = resolveServiceTargets(contract, MONDAY, FALLBACK);
+    expect(targets.daily).toEqual({ targetSLPercent: 70, thresholdSeconds: 60 });
+    expect(targets.profile).toEqual([
+      { startMinute: 0, endMinute: 480, targetSLPercent: 70, thresholdSeconds: 60 },
+      { startMinute: 480, endMinute: 1080, targetSLPercent: 90, thresholdSeconds: 15 },
+      { startMinute: 1080, endMinute: 1440, targetSLPercent: 70, thresholdSeconds: 60 },
+    ]);
+    expect(serviceTargetAt(targets, 9 * 60)).toEqual({ targetSLPercent: 90, thresholdSeconds: 15 });
+    expect(serviceTargetAt(targets, 18 * 60)).toEqual({ targetSLPercent: 70, thresholdSeconds: 60 });
+  });
+
+  test('skips weekday windows at the weekend', () => {
+    const targets = resolveServiceTargets(contract, SATURDAY, FALLBACK);
+    expect(targets.profile).toEqual([]);
+    expect(serviceTargetAt(targets, 9 * 60)).toEqual({ targetSLPercent: 70, thresholdSeconds: 60 });
+  });
+
+  test('prefers campaign rows, then day-of-week rows, over global every-day rows', () => {
+    const rows = [
+      row('SLA', 75),
+      row('SLA', 65, { days_of_week: '0,6' }),
+      row('SLA', 85, { campaign_id: 4 }),
+    ];
+    expect(resolveServiceTargets(rows.slice(0, 2), SATURDAY, FALLBACK).daily.targetSLPercent).toBe(65);
+    expect(resolveServiceTargets(rows.slice(0, 2), MONDAY, FALLBACK).daily.targetSLPercent).toBe(75);
+    expect(resolveServiceTargets(rows, SATURDAY, FALLBACK).daily.targetSLPercent).toBe(85);
+  });
+
+  test('handles windows that run past midnight', () => {
+    const targets = resolveServiceTargets([row('SLA', 60, { time_from: '22:00', time_to: '06:00' })], MONDAY, FALLBACK);
+    expect(serviceTargetAt(targets, 23 * 60).targetSLPercent).toBe(60);
+    expect(serviceTargetAt(targets, 5 * 60).targetSLPercent).toBe(60);
+    expect(serviceTargetAt(targets, 12 * 60).targetSLPercent).toBe(80);
+    expect(serviceTargetAt(targets, 12 * 60).thresholdSeconds).toBe(20);
+  });
+
+  test('only a service-level target takes the profile SL %', () => {
+    const evening = { targetSLPercent: 70, thresholdSeconds: 60 };
+    expect(serviceTargetFor(evening, { targetSLPercent: 80 })).toEqual(evening);
+    expect(serviceTargetFor(evening, { targetType: 'serviceLevel', targetSLPercent: 80 })).toEqual(evening);
+    expect(serviceTargetFor(evening, { targetType: 'waitPercentile', targetSLPercent: 90 }))
+      .toEqual({ targetSLPercent: 90, thresholdSeconds: 60 });
+    expect(serviceTargetFor(evening, { targetType: 'asa', targetSLPercent: 80 }))
+      .toEqual({ targetSLPercent: 80, thresholdSeconds: 60 });
+  });
+});
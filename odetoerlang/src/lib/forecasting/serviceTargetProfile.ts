@@ -0,0 +1,179 @@
+/**
+ * Service-level target profiles.
+ *
+ * 'SLA' (target %) and 'SLThreshold' (seconds) assumptions can be limited
+ * to days of the week and a time-of-day window, so a contract such as
+ * "80/20 weekdays 08:00-18:00, 70/60 evenings and weekends" is a handful of
+ * time-bound rows. For each interval the most specific row wins:
+ *
+ *   campaign before global, then
+ *   time window before day-of-week only before every day
+ *
+ * with rows of equal rank kept in query order. Windows are [from, to) in
+ * local time; a window with from > to runs past midnight.
+ */
+
+import type { Assumption } from '../database/dataAccess';
+import type { ServiceTargetType } from '../../types';
+import { parseDateDow } from '../dateUtils';
+
+export interface ServiceTarget {
+  /** Target Service Level percentage (e.g., 80 for 80%) */
+  targetSLPercent: number;
+  /** Service Level threshold in seconds */
+  thresholdSeconds: number;
+}
+
+export interface ServiceTargetWindow extends ServiceTarget {
+  /** Minutes from midnight, inclusive */
+  startMinute: number;
+  /** Minutes from midnight, exclusive */
+  endMinute: number;
+}
+
+export interface ResolvedServiceTargets {
+  /** Targets for the day as a whole (rows without a time window) */
+  daily: ServiceTarget;
+  /** Back-to-back windows covering the day; empty when no row has a time window */
+  profile: ServiceTargetWindow[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const TARGET_FIELDS: Readonly<Record<string, keyof ServiceTarget>> = {
+  SLA: 'targetSLPercent',
+  SLThreshold: 'thresholdSeconds',
+};
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+/** True for assumption types that can carry a service-target profile. */
+export function isServiceTargetAssumption(type: string): boolean {
+  return type in TARGET_FIELDS;
+}
+
+/** 'HH:MM' (or 'HH:MM:SS') to minutes from midnight; null when malformed. */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(value.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= MINUTES_PER_DAY ? minutes : null;
+}
+
+/** '1,2,3,4,5' to a set of days (0 = Sunday ... 6 = Saturday); null = every day. */
+export function parseDaysOfWeek(value: string | null | undefined): Set<number> | null {
+  if (!value) return null;
+  const days = value.split(',')
+    .map(part => Number(part.trim()))
+    .filter(day => Number.isInteger(day) && day >= 0 && day <= 6);
+  return days.length > 0 ? new Set(days) : null;
+}
+
+/** Whether the row's day-of-week filter includes the local date. */
+export function appliesOnDate(assumption: Assumption, date: string): boolean {
+  const days = parseDaysOfWeek(assumption.days_of_week);
+  return !days || days.has(parseDateDow(date));
+}
+
+function timeWindowOf(assumption: Assumption): TimeWindow | null {
+  const start = parseTimeOfDay(assumption.time_from);
+  const end = parseTimeOfDay(assumption.time_to);
+  if (start === null && end === null) return null;
+  return { start: start ?? 0, end: end ?? MINUTES_PER_DAY };
+}
+
+function covers(window: TimeWindow, minute: number): boolean {
+  return window.start <= window.end
+    ? minute >= window.start && minute < window.end
+    : minute >= window.start || minute < window.end;
+}
+
+/**
+ * Daily targets and the intraday profile for a local date.
+ *
+ * @param assumptions - Rows active on the date (as from getCurrentAssumptions)
+ * @param date - Local date, YYYY-MM-DD
+ * @param fallback - Targets used where no row applies
+ */
+export function resolveServiceTargets(
+  assumptions: readonly Assumption[],
+  date: string,
+  fallback: ServiceTarget
+): ResolvedServiceTargets {
+  const rows = assumptions
+    .filter(a => isServiceTargetAssumption(a.assumption_type) && appliesOnDate(a, date))
+    .map((assumption, index) => {
+      const window = timeWindowOf(assumption);
+      const rank = (assumption.campaign_id !== null ? 0 : 3)
+        + (window ? 0 : parseDaysOfWeek(assumption.days_of_week) ? 1 : 2);
+      return { assumption, window, rank, index };
+    })
+    .sort((a, b) => a.rank - b.rank || a.index - b.index);
+
+  const targetAt = (minute: number | null): ServiceTarget => {
+    const valueOf = (field: keyof ServiceTarget): number => rows.find(r =>
+      TARGET_FIELDS[r.assumption.assumption_type] === field
+      && (r.window === null || (minute !== null && covers(r.window, minute)))
+    )?.assumption.value ?? fallback[field];
+    return { targetSLPercent: valueOf('targetSLPercent'), thresholdSeconds: valueOf('thresholdSeconds') };
+  };
+
+  const daily = targetAt(null);
+  const windows = rows.flatMap(r => (r.window ? [r.window] : []));
+  if (windows.length === 0) return { daily, profile: [] };
+
+  const breakpoints = [...new Set([0, MINUTES_PER_DAY, ...windows.flatMap(w => [w.start, w.end])])]
+    .filter(m => m >= 0 && m <= MINUTES_PER_DAY)
+    .sort((a, b) => a - b);
+
+  const profile: ServiceTargetWindow[] = [];
+  for (let i = 0; i < breakpoints.length - 1; i++) {
+    const startMinute = breakpoints[i]!;
+    const endMinute = breakpoints[i + 1]!;
+    const target = targetAt(startMinute);
+    const previous = profile[profile.length - 1];
+    if (previous && previous.targetSLPercent === target.targetSLPercent && previous.thresholdSeconds === target.thresholdSeconds) {
+      previous.endMinute = endMinute;
+    } else {
+      profile.push({ startMinute, endMinute, ...target });
+    }
+  }
+  return { daily, profile };
+}
+
+/**
+ * Targets for the interval starting at `minute` (minutes from midnight).
+ *
+ * @example
+ * serviceTargetAt(resolveServiceTargets(rows, '2025-03-03', { targetSLPercent: 80, thresholdSeconds: 20 }), 19 * 60);
+ */
+export function serviceTargetAt(targets: ResolvedServiceTargets, minute: number): ServiceTarget {
+  const m = ((Math.floor(minute) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const window = targets.profile.find(w => m >= w.startMinute && m < w.endMinute);
+  return window
+    ? { targetSLPercent: window.targetSLPercent, thresholdSeconds: window.thresholdSeconds }
+    : targets.daily;
+}
+
+/**
+ * A profile target as staffing inputs for the given target type. Only
+ * service-level staffing (the default) takes the profile's SL %; other types
+ * keep their own targetSLPercent, which for a wait percentile is the N.
+ * Every type takes the threshold.
+ *
+ * @example
+ * serviceTargetFor({ targetSLPercent: 70, thresholdSeconds: 60 }, { targetType: 'waitPercentile', targetSLPercent: 90 });
+ * // { targetSLPercent: 90, thresholdSeconds: 60 }
+ */
+export function serviceTargetFor(
+  target: ServiceTarget,
+  inputs: { targetType?: ServiceTargetType | undefined; targetSLPercent: number }
+): ServiceTarget {
+  return (inputs.targetType ?? 'serviceLevel') === 'serviceLevel'
+    ? target
+    : { targetSLPercent: inputs.targetSLPercent, thresholdSeconds: target.thresholdSeconds };
+}
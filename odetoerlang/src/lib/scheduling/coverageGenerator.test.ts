@@ -0,0 +1,86 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { generateCoverageRequirements } from './coverageGenerator';
+import { createDefaultInputs } from '../../tests/fixtures/calculatorInputs';
+import type { Assumption, CoverageRequirement } from '../database/dataAccess';
+
+const db = vi.hoisted(() => ({
+  assumptions: [] as unknown[],
+  saved: [] as unknown[],
+}));
+
+vi.mock('../database/dataAccess', () => ({
+  getSchedulePlanById: (id: number) => ({
+    id,
+    campaign_id: 1,
+    scenario_id: null,
+    start_date: '2025-03-03',
+    end_date: '2025-03-03',
+    interval_minutes: 30,
+  }),
+  getCampaignById: (id: number) => ({ id, channel_type: 'Voice' }),
+  getScenarioById: () => null,
+  getForecastsByScenarioAndDateRange: () => [],
+  getCurrentAssumptions: () => db.assumptions,
+  getSkills: () => [{ id: 7, skill_name: 'Voice', skill_type: 'Voice', description: null, created_at: '' }],
+  replaceCoverageRequirements: (_planId: number, requirements: unknown[]) => {
+    db.saved = requirements;
+  },
+}));
+
+type SavedRequirement = Omit<CoverageRequirement, 'id' | 'created_at'>;
+
+let nextId = 1;
+function row(type: string, value: number, schedule: Partial<Assumption> = {}): Assumption {
+  return {
+    id: nextId++,
+    assumption_type: type,
+    value,
+    unit: null,
+    valid_from: '2025-01-01',
+    valid_to: null,
+    campaign_id: null,
+    created_at: '2025-01-01',
+    created_by: null,
+    ...schedule,
+  };
+}
+
+/** Required agents by interval start for one generated day */
+function generate(assumptions: Assumption[], overrides = {}): Map<string, number> {
+  db.assumptions = assumptions;
+  generateCoverageRequirements(1, createDefaultInputs(overrides));
+  return new Map((db.saved as SavedRequirement[]).map(r => [r.interval_start, r.required_agents]));
+}
+
+// 95/20 from 09:00 to 12:00 on top of the 80/20 base target
+const morningWindow = [row('SLA', 95, { time_from: '09:00', time_to: '12:00' })];
+
+describe('generateCoverageRequirements - service targets', () => {
+  beforeEach(() => {
+    db.assumptions = [];
+    db.saved = [];
+  });
+
+  test('staffs each interval to its own time-of-day target', () => {
+    const base = generate([]);
+    const profiled = generate(morningWindow);
+
+    expect(profiled.size).toBe(base.size);
+    for (const [start, agents] of profiled) {
+      if (start < '12:00:00') {
+        expect(agents).toBeGreaterThan(base.get(start)!);
+      } else {
+        expect(agents).toBe(base.get(start));
+      }
+    }
+  });
+
+  test('keeps the percentile N of a wait-percentile target', () => {
+    const inputs = { targetType: 'waitPercentile', targetSLPercent: 90 } as const;
+    expect(generate(morningWindow, inputs)).toEqual(generate([], inputs));
+
+    // The threshold still follows the profile
+    const longer = generate([row('SLThreshold', 60, { time_from: '09:00', time_to: '12:00' })], inputs);
+    expect(longer.get('09:00:00')).toBeLessThan(generate([], inputs).get('09:00:00')!);
+  });
+});
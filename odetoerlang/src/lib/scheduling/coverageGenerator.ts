@@ -1,12 +1,15 @@
 import { CalculationService } from '../services/CalculationService';
 import { normalizeModel } from '../calculations/erlangEngine';
+import { calculateStaffingBatch, StaffingCache, type BatchInterval } from '../calculations/erlangBatch';
 import { enumerateLocalDates } from '../dateUtils';
+import { resolveServiceTargets, serviceTargetAt, serviceTargetFor } from '../forecasting/serviceTargetProfile';
 import type { CalculationInputs, ErlangVariant } from '../../types';
 import {
   getSchedulePlanById,
   getCampaignById,
   getScenarioById,
   getForecastsByScenarioAndDateRange,
+  getCurrentAssumptions,
   getSkills,
   replaceCoverageRequirements,
   type CoverageRequirement,
@@ -17,18 +20,6 @@ import {
 const DEFAULT_SHIFT_START_MIN = 9 * 60;
 const DEFAULT_SHIFT_DURATION_MIN = 9 * 60;
 
-const DEFAULT_SHIFT_TYPES = [
-  { hours: 8, enabled: true, proportion: 100 },
-];
-
-const DEFAULT_STAFFING_MODEL = {
-  totalHeadcount: 0,
-  operatingHoursPerDay: 0,
-  daysOpenPerWeek: 5,
-  shiftTypes: DEFAULT_SHIFT_TYPES,
-  useAsConstraint: false,
-};
-
 export interface CoverageGenerationResult {
   requirements: number;
   dates: number;
@@ -77,7 +68,8 @@ const selectForecastByDate = (forecasts: Forecast[]) => {
 };
 
 const resolveModel = (scenarioModel: string | null, baseModel: CalculationInputs['model']): ErlangVariant => {
-  if (scenarioModel && (scenarioModel === 'A' || scenarioModel === 'B' || scenarioModel === 'C')) {
+  if (scenarioModel && (scenarioModel === 'A' || scenarioModel === 'B' || scenarioModel === 'C' || scenarioModel === 'X'
+    || scenarioModel === 'EB' || scenarioModel === 'EC')) {
     return scenarioModel;
   }
   return normalizeModel(baseModel);
@@ -115,6 +107,9 @@ export function generateCoverageRequirements(
     : [];
   const forecastLookup = selectForecastByDate(forecasts);
   const model = resolveModel(scenario?.erlang_model ?? null, baseInputs.model);
+  const { constraints, behavior } = CalculationService.toEngineInput(baseInputs);
+  // Quiet days and repeated forecasts hit the same volume/AHT pairs; share one cache across the plan.
+  const cache = new StaffingCache();
 
   const requirements: Array<Omit<CoverageRequirement, 'id' | 'created_at'>> = [];
 
@@ -123,40 +118,44 @@ export function generateCoverageRequirements(
     const dailyVolume = forecast?.forecasted_volume ?? baseInputs.volume * intervalsPerDay;
     const aht = forecast?.forecasted_aht ?? baseInputs.aht;
     const sourceForecastId = forecast?.id ?? null;
-
-    for (let i = 0; i < intervalsPerDay; i += 1) {
+    // SLA / SLThreshold assumptions for the date; baseInputs where none apply.
+    const serviceTargets = resolveServiceTargets(getCurrentAssumptions(plan.campaign_id, date), date, {
+      targetSLPercent: baseInputs.targetSLPercent,
+      thresholdSeconds: baseInputs.thresholdSeconds,
+    });
+
+    // Skills split the interval volume evenly, so one batch serves every skill.
+    const intervals: BatchInterval[] = intervalPattern.map((share, i) => {
+      const { targetSLPercent, thresholdSeconds } = serviceTargetFor(
+        serviceTargetAt(serviceTargets, DEFAULT_SHIFT_START_MIN + i * intervalMinutes),
+        baseInputs
+      );
+      return {
+        volume: (dailyVolume * share) / planSkills.length,
+        aht,
+        targetSLPercent,
+        thresholdSeconds,
+      };
+    });
+    const day = calculateStaffingBatch({ model, intervalMinutes, intervals, constraints, behavior }, cache);
+
+    day.intervals.forEach((interval, i) => {
       const intervalStartMin = DEFAULT_SHIFT_START_MIN + i * intervalMinutes;
-      const intervalEndMin = intervalStartMin + intervalMinutes;
-      const intervalVolume = dailyVolume * intervalPattern[i]!;
-      const volumePerSkill = planSkills.length > 0 ? intervalVolume / planSkills.length : 0;
+      const agents = interval.requiredAgents;
+      const requiredAgents = agents > 0 ? Math.max(1, Math.ceil(agents)) : 0;
 
       planSkills.forEach((skill) => {
-        const inputs: CalculationInputs = {
-          ...baseInputs,
-          volume: volumePerSkill,
-          aht,
-          intervalMinutes,
-          model,
-        };
-
-        const result = CalculationService.calculate(inputs, DEFAULT_STAFFING_MODEL);
-        let requiredAgents = 0;
-        if (result.results) {
-          const agents = result.results.requiredAgents ?? 0;
-          requiredAgents = agents > 0 ? Math.max(1, Math.ceil(agents)) : 0;
-        }
-
         requirements.push({
           schedule_plan_id: plan.id,
           requirement_date: date,
           interval_start: formatMinutes(intervalStartMin),
-          interval_end: formatMinutes(intervalEndMin),
+          interval_end: formatMinutes(intervalStartMin + intervalMinutes),
           skill_id: skill.id,
           required_agents: requiredAgents,
           source_forecast_id: sourceForecastId,
         });
       });
-    }
+    });
   });
 
   replaceCoverageRequirements(schedulePlanId, requirements);
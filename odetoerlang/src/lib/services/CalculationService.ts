@@ -4,6 +4,7 @@ import {
   type ErlangEngineInput,
   type ErlangAchievableInput,
 } from '../calculations/erlangEngine';
+import { calculateCallbackOffer } from '../calculations/callbackOffer';
 import { validateCalculationInputs, type ValidationResult } from '../validation/inputValidation';
 import type { CalculationInputs, CalculationResults } from '../../types';
 
@@ -80,6 +81,25 @@ export interface AchievableMetrics {
   occupancyPenalty?: number | undefined;
 }
 
+/** Virtual hold: live-call performance once callers can take a callback. */
+export interface CallbackMetrics {
+  liveServiceLevel: number;
+  liveAsa: number;
+  /** Live-call abandonment (Erlang A/X only) */
+  abandonmentRate?: number | undefined;
+  expectedAbandonments?: number | undefined;
+  offerRate: number;
+  callbackRate: number;
+  callbackVolume: number;
+  /** Callbacks started within the deadline, 0-1 */
+  callbackCompletionRate: number;
+  callbackAverageWait: number;
+  liveAgents: number;
+  requiredAgents: number;
+  totalFTE: number;
+  canAchieveTarget: boolean;
+}
+
 interface CalculationServiceResult {
   results: CalculationResults | null;
   achievableMetrics?: AchievableMetrics | null | undefined; // What you can achieve with your staff
@@ -90,10 +110,45 @@ interface CalculationServiceResult {
     retrialProbability?: number | undefined;
     virtualTraffic?: number | undefined;
   } | null | undefined;
+  callbackMetrics?: CallbackMetrics | null | undefined;
   validation: ValidationResult;
 }
 
 export class CalculationService {
+  /**
+   * Map calculator inputs onto the Erlang engine's input shape. Shared with
+   * callers that go straight to the engine (e.g. batch coverage generation).
+   */
+  public static toEngineInput(inputs: CalculationInputs): ErlangEngineInput {
+    return {
+      model: inputs.model,
+      workload: {
+        volume: inputs.volume,
+        aht: inputs.aht,
+        intervalMinutes: inputs.intervalMinutes,
+      },
+      constraints: {
+        targetSLPercent: inputs.targetSLPercent,
+        thresholdSeconds: inputs.thresholdSeconds,
+        maxOccupancy: inputs.maxOccupancy,
+        lines: inputs.lines || undefined,
+        population: inputs.population,
+        targetType: inputs.targetType,
+        targetASASeconds: inputs.targetASASeconds,
+        targetAbandonPercent: inputs.targetAbandonPercent,
+      },
+      behavior: {
+        shrinkagePercent: inputs.shrinkagePercent,
+        averagePatience: inputs.averagePatience,
+        concurrency: inputs.concurrency,
+        retrialPercent: inputs.retrialPercent,
+        ahtCV: inputs.ahtCV,
+        arrivalCV: inputs.arrivalCV,
+        ahtOccupancyCurve: inputs.ahtOccupancyCurve,
+      },
+    };
+  }
+
   public static calculate(
     inputs: CalculationInputs,
     staffingModel: StaffingModel,
@@ -108,6 +163,7 @@ export class CalculationService {
         results: null,
         achievableMetrics: null,
         abandonmentMetrics: null,
+        callbackMetrics: null,
         validation: validationResult,
       };
     }
@@ -120,26 +176,10 @@ export class CalculationService {
     let results: CalculationResults | null = null;
     let abandonmentMetrics: CalculationServiceResult['abandonmentMetrics'] = null;
     let achievableMetrics: AchievableMetrics | null = null;
+    let callbackMetrics: CallbackMetrics | null = null;
 
     // --- Always calculate optimal staffing (what's REQUIRED for the workload) ---
-    const erlangEngineInput: ErlangEngineInput = {
-      model: inputs.model,
-      workload: {
-        volume: inputs.volume,
-        aht: inputs.aht,
-        intervalMinutes: inputs.intervalMinutes,
-      },
-      constraints: {
-        targetSLPercent: inputs.targetSLPercent,
-        thresholdSeconds: inputs.thresholdSeconds,
-        maxOccupancy: inputs.maxOccupancy,
-      },
-      behavior: {
-        shrinkagePercent: inputs.shrinkagePercent,
-        averagePatience: inputs.averagePatience,
-        concurrency: inputs.concurrency,
-      },
-    };
+    const erlangEngineInput = CalculationService.toEngineInput(inputs);
 
     const engineResult = calculateStaffing(erlangEngineInput);
 
@@ -153,16 +193,39 @@ export class CalculationService {
         occupancy: engineResult.occupancy,
         canAchieveTarget: engineResult.canAchieveTarget,
         assumesStationary: engineResult.diagnostics.assumesStationary,
+        occupancyAdjustedAHT: engineResult.ahtFeedback?.aht,
       };
       abandonmentMetrics = engineResult.abandonmentRate !== undefined ? {
         abandonmentRate: engineResult.abandonmentRate,
         expectedAbandonments: engineResult.expectedAbandonments || 0,
-        answeredContacts: inputs.volume - (engineResult.expectedAbandonments || 0),
+        answeredContacts: engineResult.answeredContacts ?? inputs.volume - (engineResult.expectedAbandonments || 0),
         retrialProbability: engineResult.retrialProbability,
         virtualTraffic: engineResult.virtualTraffic,
       } : null;
     }
 
+    // --- Virtual hold: split off the callers who take a callback ---
+    if (engineResult && inputs.callback) {
+      const offer = calculateCallbackOffer({ ...erlangEngineInput, callback: inputs.callback });
+      if (offer) {
+        callbackMetrics = {
+          liveServiceLevel: offer.live.serviceLevel,
+          liveAsa: offer.live.asa,
+          abandonmentRate: offer.live.abandonmentRate,
+          expectedAbandonments: offer.live.expectedAbandonments,
+          offerRate: offer.offerRate,
+          callbackRate: offer.callbackRate,
+          callbackVolume: offer.callbackVolume,
+          callbackCompletionRate: offer.callbackCompletionRate,
+          callbackAverageWait: offer.callbackAverageWait,
+          liveAgents: offer.liveAgents,
+          requiredAgents: offer.requiredAgents,
+          totalFTE: offer.totalFTE,
+          canAchieveTarget: offer.canAchieveTarget,
+        };
+      }
+    }
+
     // --- Achievable-with-your-staff branch ---
     // If solveFor='sl', use the simple currentHeadcount input; otherwise fall
     // back to the detailed staffing model. Productivity multiplies headcount:
@@ -189,11 +252,17 @@ export class CalculationService {
         constraints: {
           thresholdSeconds: inputs.thresholdSeconds,
           maxOccupancy: inputs.maxOccupancy,
+          lines: inputs.lines || undefined,
+          population: inputs.population,
         },
         behavior: {
           shrinkagePercent: inputs.shrinkagePercent,
           averagePatience: inputs.averagePatience,
           concurrency: inputs.concurrency,
+          retrialPercent: inputs.retrialPercent,
+          ahtCV: inputs.ahtCV,
+          arrivalCV: inputs.arrivalCV,
+          ahtOccupancyCurve: inputs.ahtOccupancyCurve,
         },
       };
 
@@ -216,6 +285,6 @@ export class CalculationService {
       }
     }
 
-    return { results, achievableMetrics, abandonmentMetrics, validation: validationResult };
+    return { results, achievableMetrics, abandonmentMetrics, callbackMetrics, validation: validationResult };
   }
 }
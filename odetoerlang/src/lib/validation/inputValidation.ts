@@ -83,6 +83,117 @@ export function validateCalculationInputs(inputs: CalculationInputs): Validation
     }
   }
 
+  // Redial and trunk validation (Erlang X)
+  if (inputs.model === 'X') {
+    if (inputs.retrialPercent !== undefined) {
+      if (inputs.retrialPercent < VALIDATION.retrialPercent.min) {
+        errors.push({ field: 'retrialPercent', message: 'Redial probability cannot be negative' });
+      }
+      if (inputs.retrialPercent > VALIDATION.retrialPercent.max) {
+        errors.push({ field: 'retrialPercent', message: `Redial probability cannot exceed ${VALIDATION.retrialPercent.max}%` });
+      }
+    }
+    if (inputs.lines !== undefined && inputs.lines !== 0) {
+      if (inputs.lines < VALIDATION.lines.min || !Number.isInteger(inputs.lines)) {
+        errors.push({ field: 'lines', message: 'Lines must be a whole number of at least 1 (0 = unlimited)' });
+      }
+      if (inputs.lines > VALIDATION.lines.max) {
+        errors.push({ field: 'lines', message: `Lines cannot exceed ${VALIDATION.lines.max}` });
+      }
+    }
+  }
+
+  // Population validation (Engset)
+  if (inputs.model === 'EB' || inputs.model === 'EC') {
+    const population = inputs.population;
+    if (population === undefined || population < VALIDATION.population.min || !Number.isInteger(population)) {
+      errors.push({ field: 'population', message: 'Population must be a whole number of at least 1' });
+    } else if (population > VALIDATION.population.max) {
+      errors.push({ field: 'population', message: `Population cannot exceed ${VALIDATION.population.max}` });
+    }
+  }
+
+  // Outbound dialer validation
+  if (inputs.channelBehavior === 'outbound' && inputs.outbound) {
+    const o = inputs.outbound;
+    if (o.records < VALIDATION.outboundRecords.min || o.records > VALIDATION.outboundRecords.max) {
+      errors.push({ field: 'outbound', message: `Records must be between 0 and ${VALIDATION.outboundRecords.max.toLocaleString()}` });
+    } else if (o.dialingHours < VALIDATION.dialingHours.min || o.dialingHours > VALIDATION.dialingHours.max) {
+      errors.push({ field: 'outbound', message: 'Dialling hours must be between 0.25 and 24' });
+    } else if (o.contactRatePercent <= 0 || o.contactRatePercent > 100 || o.rightPartyPercent <= 0 || o.rightPartyPercent > 100) {
+      errors.push({ field: 'outbound', message: 'Contact and right-party rates must be between 0% and 100%' });
+    } else if (o.talkSeconds < 0 || o.wrapSeconds < 0 || o.talkSeconds + o.wrapSeconds <= 0) {
+      errors.push({ field: 'outbound', message: 'Talk plus wrap time must be positive' });
+    } else if (o.maxNuisancePercent < VALIDATION.maxNuisancePercent.min || o.maxNuisancePercent > VALIDATION.maxNuisancePercent.max) {
+      errors.push({ field: 'outbound', message: `Nuisance rate cap must be between ${VALIDATION.maxNuisancePercent.min}% and ${VALIDATION.maxNuisancePercent.max}%` });
+    }
+  }
+
+  // Callback offer validation
+  if (inputs.callback) {
+    const c = inputs.callback;
+    if (c.offerThresholdSeconds < 0 || c.offerThresholdSeconds > VALIDATION.thresholdSeconds.max) {
+      errors.push({ field: 'callback', message: `Offer threshold must be between 0 and ${VALIDATION.thresholdSeconds.max} seconds` });
+    } else if (c.takeUpPercent < 0 || c.takeUpPercent > 100 || c.completionTargetPercent <= 0 || c.completionTargetPercent > 100) {
+      errors.push({ field: 'callback', message: 'Take-up and completion target must be between 0% and 100%' });
+    } else if (c.deadlineMinutes < VALIDATION.callbackDeadlineMinutes.min || c.deadlineMinutes > VALIDATION.callbackDeadlineMinutes.max) {
+      errors.push({ field: 'callback', message: `Callback deadline must be between ${VALIDATION.callbackDeadlineMinutes.min} and ${VALIDATION.callbackDeadlineMinutes.max} minutes` });
+    }
+  }
+
+  // AHT-versus-occupancy curve validation
+  if (inputs.ahtOccupancyCurve) {
+    const { min, max } = VALIDATION.ahtMultiplier;
+    if (inputs.ahtOccupancyCurve.some(p => p.occupancy < 0 || p.occupancy > 100)) {
+      errors.push({ field: 'ahtOccupancyCurve', message: 'Curve occupancy must be between 0% and 100%' });
+    } else if (inputs.ahtOccupancyCurve.some(p => p.ahtMultiplier < min || p.ahtMultiplier > max)) {
+      errors.push({ field: 'ahtOccupancyCurve', message: `AHT multipliers must be between ${min} and ${max}` });
+    }
+  }
+
+  // Shrinkage category validation
+  if (inputs.shrinkageCategories) {
+    const categoryTotal = inputs.shrinkageCategories.reduce((sum, c) => sum + c.percent, 0);
+    if (inputs.shrinkageCategories.some(c => c.percent < 0 || c.percent > 100)) {
+      errors.push({ field: 'shrinkageCategories', message: 'Each shrinkage category must be between 0% and 100%' });
+    } else if (categoryTotal > VALIDATION.shrinkagePercent.max) {
+      errors.push({ field: 'shrinkageCategories', message: `Shrinkage categories add up to ${categoryTotal.toFixed(1)}%; the maximum is ${VALIDATION.shrinkagePercent.max}%` });
+    }
+  }
+
+  // Alternative target validation
+  if (inputs.targetType === 'asa') {
+    const asa = inputs.targetASASeconds;
+    if (asa === undefined || asa < VALIDATION.targetASASeconds.min) {
+      errors.push({ field: 'targetASASeconds', message: 'Target ASA must be at least 1 second' });
+    } else if (asa > VALIDATION.targetASASeconds.max) {
+      errors.push({ field: 'targetASASeconds', message: 'Target ASA cannot exceed 1 hour' });
+    }
+  }
+  if (inputs.targetType === 'abandonRate') {
+    const abandon = inputs.targetAbandonPercent;
+    if (inputs.model !== 'A' && inputs.model !== 'X') {
+      errors.push({ field: 'targetType', message: 'Abandon-rate targets need Erlang A or Erlang X' });
+    }
+    if (abandon === undefined || abandon < VALIDATION.targetAbandonPercent.min) {
+      errors.push({ field: 'targetAbandonPercent', message: 'Target abandon rate must be greater than 0%' });
+    } else if (abandon > VALIDATION.targetAbandonPercent.max) {
+      errors.push({ field: 'targetAbandonPercent', message: 'Target abandon rate cannot exceed 100%' });
+    }
+  }
+
+  // Variability validation (M/G/c mode)
+  for (const field of ['ahtCV', 'arrivalCV'] as const) {
+    const cv = inputs[field];
+    if (cv === undefined) continue;
+    if (cv < VALIDATION.coefficientOfVariation.min) {
+      errors.push({ field, message: 'Coefficient of variation cannot be negative' });
+    }
+    if (cv > VALIDATION.coefficientOfVariation.max) {
+      errors.push({ field, message: `Coefficient of variation cannot exceed ${VALIDATION.coefficientOfVariation.max}` });
+    }
+  }
+
   // Concurrency validation
   if (inputs.concurrency !== undefined) {
     if (inputs.concurrency < VALIDATION.concurrency.min) {
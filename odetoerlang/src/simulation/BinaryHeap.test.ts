@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import { BinaryHeap } from './BinaryHeap';
+
+describe('BinaryHeap', () => {
+  test('pops in order', () => {
+    const heap = new BinaryHeap<number>((a, b) => a < b);
+    const values = [5, 3, 9, 1, 7, 3, 8, 2, 6, 4, 0];
+    values.forEach(v => heap.push(v));
+    expect(heap.size).toBe(values.length);
+    expect(heap.peek()).toBe(0);
+
+    const popped: number[] = [];
+    while (heap.size > 0) popped.push(heap.pop()!);
+    expect(popped).toEqual([...values].sort((a, b) => a - b));
+    expect(heap.pop()).toBeUndefined();
+  });
+
+  test('keeps order when pushes and pops interleave', () => {
+    const heap = new BinaryHeap<number>((a, b) => a < b);
+    let seed = 7;
+    const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const reference: number[] = [];
+    for (let i = 0; i < 2000; i++) {
+      if (reference.length > 0 && next() < 0.4) {
+        reference.sort((a, b) => a - b);
+        expect(heap.pop()).toBe(reference.shift());
+      } else {
+        const value = Math.floor(next() * 100);
+        heap.push(value);
+        reference.push(value);
+      }
+    }
+    expect(heap.size).toBe(reference.length);
+  });
+
+  test('breaks ties with the comparator and clears', () => {
+    const heap = new BinaryHeap<{ time: number; seq: number }>((a, b) =>
+      a.time < b.time || (a.time === b.time && a.seq < b.seq));
+    [3, 1, 1, 2, 1].forEach((time, seq) => heap.push({ time, seq }));
+    expect([heap.pop(), heap.pop(), heap.pop()].map(e => e!.seq)).toEqual([1, 2, 4]);
+    heap.clear();
+    expect(heap.size).toBe(0);
+    expect(heap.peek()).toBeUndefined();
+  });
+});
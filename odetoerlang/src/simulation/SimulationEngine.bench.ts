@@ -0,0 +1,33 @@
+/**
+ * Wall-clock benchmarks for the simulation engine. Not part of the test
+ * run (timings depend on the machine); run with `npm run bench`.
+ */
+
+import { bench, describe } from 'vitest';
+import { SimulationEngine } from './SimulationEngine';
+import type { ScenarioConfig } from './types';
+
+const MONTH = 30 * 86400;
+
+function run(config: ScenarioConfig): void {
+  const engine = new SimulationEngine(config);
+  engine.processUntil(config.maxTime);
+}
+
+describe('SimulationEngine - a month of arrivals', () => {
+  // 5-minute AHT at ρ = 0.9, time in seconds
+  bench('2000 agents', () => {
+    run({ arrivalRate: 6, serviceRate: 1 / 300, servers: 2000, maxTime: MONTH, seed: 3 });
+  }, { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 });
+
+  bench('2000 agents, impatient customers', () => {
+    run({
+      arrivalRate: 7, serviceRate: 1 / 300, servers: 2000, maxTime: MONTH, seed: 3,
+      patience: { type: 'exponential', mean: 120 },
+    });
+  }, { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 });
+
+  bench('2000 chat agents with 3 slots', () => {
+    run({ arrivalRate: 18, serviceRate: 1 / 300, servers: 2000, slots: 3, maxTime: MONTH, seed: 3, channel: 'chat' });
+  }, { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 });
+});
@@ -1,6 +1,10 @@
 import { describe, test, expect } from 'vitest';
 import { SimulationEngine } from './SimulationEngine';
-import type { ScenarioConfig } from './types';
+import { DEFAULT_SL_THRESHOLD_SECONDS, type ScenarioConfig } from './types';
+import { PRESET_SCENARIOS, scenarioInSeconds, serviceLevelThreshold } from './presets';
+import { calculateChatSlotMetrics } from '../lib/calculations/chatSlots';
+import { calculateAbandonmentProbability } from '../lib/calculations/erlangA';
+import { calculateASA, calculateServiceLevel } from '../lib/calculations/erlangC';
 
 /**
  * SimulationEngine Test Suite
@@ -1023,3 +1027,397 @@ describe('SimulationEngine - Channel Types', () => {
     expect(records.every(r => r.concurrentContacts === 1)).toBe(true);
   });
 });
+
+describe('SimulationEngine - Chat Slots', () => {
+  // 6-minute sessions, 3 slots per agent, 15% overhead per extra session.
+  const chatConfig = createConfig({
+    arrivalRate: 3.3,
+    serviceRate: 1 / 6,
+    servers: 10,
+    maxTime: 20000,
+    channel: 'chat',
+    seed: 7,
+    slots: 3,
+    sessionOverhead: 0.15,
+    maxRecords: 100000,
+  });
+
+  test('never opens more sessions than slots', () => {
+    const engine = new SimulationEngine({ ...chatConfig, maxTime: 200 });
+    for (let t = 10; t <= 200; t += 10) {
+      engine.processUntil(t);
+      expect(engine.getServers().every(s => (s.sessions?.length ?? 0) <= 3)).toBe(true);
+      expect(engine.getSnapshot().inService).toBeLessThanOrEqual(30);
+    }
+    const records = engine.getContactRecords();
+    expect(records.some(r => (r.concurrentContacts ?? 1) > 1)).toBe(true);
+    expect(records.every(r => (r.concurrentContacts ?? 1) <= 3)).toBe(true);
+  });
+
+  test('only queues when every slot is full', () => {
+    const engine = new SimulationEngine({ ...chatConfig, maxTime: 500 });
+    for (let t = 5; t <= 500; t += 5) {
+      engine.processUntil(t);
+      if (engine.getWaitingQueue().length > 0) {
+        expect(engine.getSnapshot().inService).toBe(30);
+      }
+    }
+  });
+
+  test('matches the analytic slot model', () => {
+    const engine = new SimulationEngine(chatConfig);
+    engine.processUntil(chatConfig.maxTime);
+    // Drop the warm-up.
+    const records = engine.getContactRecords().filter(r => r.arrivalTime > 500);
+    const waited = records.filter(r => r.queueWaitTime > 0).length / records.length;
+    const withinThreshold = records.filter(r => r.queueWaitTime <= 0.5).length / records.length;
+    const handleTime = records.reduce((s, r) => s + r.serviceTime, 0) / records.length;
+
+    const model = calculateChatSlotMetrics({
+      volume: 3.3, aht: 6, intervalSeconds: 1, agents: 10, slots: 3, sessionOverhead: 0.15, thresholdSeconds: 0.5,
+    })!;
+    expect(waited).toBeCloseTo(model.waitProbability, 1);
+    expect(withinThreshold).toBeCloseTo(model.serviceLevel, 1);
+    expect(Math.abs(handleTime / model.averageHandleTime - 1)).toBeLessThan(0.03);
+  });
+});
+
+describe('SimulationEngine - Abandonment', () => {
+  // 45 Erlangs on 50 agents, 6-unit handle time, mean patience = handle time.
+  const impatientConfig = createConfig({
+    arrivalRate: 7.5,
+    serviceRate: 1 / 6,
+    servers: 50,
+    maxTime: 8000,
+    seed: 11,
+    maxRecords: 100000,
+    patience: { type: 'exponential', mean: 6 },
+  });
+
+  // Exact M/M/c+M: birth-death chain with death rate min(n, c)μ + max(0, n - c)θ.
+  function exactAbandonProbability(lambda: number, mu: number, c: number, theta: number): number {
+    const weights = [1];
+    for (let n = 1; n < 1000; n++) {
+      weights.push(weights[n - 1]! * lambda / (Math.min(n, c) * mu + Math.max(0, n - c) * theta));
+    }
+    const total = weights.reduce((s, w) => s + w, 0);
+    const queued = weights.reduce((s, w, n) => s + Math.max(0, n - c) * w, 0) / total;
+    return (theta * queued) / lambda;
+  }
+
+  test('never abandons without a patience distribution', () => {
+    const engine = new SimulationEngine(createConfig({ arrivalRate: 3, servers: 1, maxTime: 200, seed: 1 }));
+    engine.processUntil(200);
+    const snapshot = engine.getSnapshot();
+    expect(snapshot.queueLength + snapshot.maxQueueLength).toBeGreaterThan(0);
+    expect(snapshot.abandonedCount).toBe(0);
+    expect(snapshot.abandonRate).toBe(0);
+    expect(engine.getContactRecords().every(r => r.abandoned === false)).toBe(true);
+  });
+
+  test('fixed patience: abandoners wait exactly that long, answered contacts no longer', () => {
+    const engine = new SimulationEngine(createConfig({
+      arrivalRate: 3, servers: 1, maxTime: 500, seed: 3, patience: { type: 'fixed', value: 2 },
+    }));
+    engine.processUntil(500);
+    const records = engine.getContactRecords();
+    const abandoned = records.filter(r => r.abandoned);
+
+    expect(abandoned.length).toBeGreaterThan(0);
+    for (const r of abandoned) {
+      expect(r.queueWaitTime).toBeCloseTo(2, 10);
+      expect(r.abandonTime).toBeCloseTo(r.arrivalTime + 2, 10);
+      expect(r.serverId).toBe(-1);
+    }
+    expect(records.filter(r => !r.abandoned).every(r => r.queueWaitTime <= 2 + 1e-9)).toBe(true);
+    expect(engine.getSnapshot().avgAbandonWaitTime).toBeCloseTo(2, 10);
+    expect(engine.exportContactRecordsAsCSV().split('\n').filter(l => l.endsWith(',Yes,1'))).toHaveLength(abandoned.length);
+  });
+
+  test('empirical patience draws from the samples', () => {
+    const engine = new SimulationEngine(createConfig({
+      arrivalRate: 3, servers: 1, maxTime: 500, seed: 5, patience: { type: 'empirical', samples: [0.5, 1.5] },
+    }));
+    engine.processUntil(500);
+    const waits = new Set(engine.getContactRecords().filter(r => r.abandoned).map(r => r.queueWaitTime.toFixed(6)));
+    expect([...waits].sort()).toEqual(['0.500000', '1.500000']);
+  });
+
+  test('exponential patience matches the exact M/M/c+M abandonment probability', () => {
+    const engine = new SimulationEngine(impatientConfig);
+    engine.processUntil(impatientConfig.maxTime);
+    const snapshot = engine.getSnapshot();
+    const exact = exactAbandonProbability(7.5, 1 / 6, 50, 1 / 6);
+
+    expect(Math.abs(snapshot.abandonRate / exact - 1)).toBeLessThan(0.1);
+    expect(snapshot.avgAbandonWaitTime).toBeGreaterThan(0);
+    expect(snapshot.avgAbandonWaitTime).toBeLessThan(6);
+  });
+
+  test('erlangA abandonment approximation is conservative against simulation', () => {
+    const engine = new SimulationEngine(impatientConfig);
+    engine.processUntil(impatientConfig.maxTime);
+    // The heavy-traffic approximation overstates abandonment at this load.
+    expect(calculateAbandonmentProbability(50, 45, 1)).toBeGreaterThan(engine.getSnapshot().abandonRate);
+  });
+});
+
+describe('SimulationEngine - Distributions', () => {
+  // M/G/1 at ρ = 0.8, mean service 1: Pollaczek-Khinchine gives
+  // Wq = ρ / (1 - ρ) × (1 + CV²) / 2 × E[S], i.e. 4 × (1 + CV²) / 2.
+  const mg1 = (overrides: Partial<ScenarioConfig>) => {
+    const config = createConfig({ arrivalRate: 0.8, serviceRate: 1, servers: 1, maxTime: 100000, seed: 17, ...overrides });
+    const engine = new SimulationEngine(config);
+    engine.processUntil(config.maxTime);
+    return engine.getSnapshot().avgWaitTime;
+  };
+
+  test('deterministic service halves the M/M/1 wait (M/D/1)', () => {
+    const exponential = mg1({});
+    const deterministic = mg1({ serviceDistribution: { type: 'deterministic' } });
+    expect(Math.abs(exponential / 4 - 1)).toBeLessThan(0.15);
+    expect(Math.abs(deterministic / 2 - 1)).toBeLessThan(0.15);
+  });
+
+  test('long-tailed lognormal service queues longer than M/M/1', () => {
+    const lognormal = mg1({ serviceDistribution: { type: 'lognormal', cv: 1.5 } });
+    expect(Math.abs(lognormal / 6.5 - 1)).toBeLessThan(0.2);
+  });
+
+  test('deterministic arrivals and service never queue below capacity (D/D/1)', () => {
+    const engine = new SimulationEngine(createConfig({
+      arrivalRate: 0.5, serviceRate: 1, servers: 1, maxTime: 200,
+      arrivalDistribution: { type: 'deterministic' },
+      serviceDistribution: { type: 'deterministic' },
+    }));
+    engine.processUntil(200);
+    const records = engine.getContactRecords();
+
+    expect(records.length).toBeGreaterThan(90);
+    expect(records.every(r => r.queueWaitTime === 0 && r.serviceTime === 1)).toBe(true);
+    expect(records.slice(1).every((r, i) => Math.abs(r.arrivalTime - records[i]!.arrivalTime - 2) < 1e-9)).toBe(true);
+  });
+
+  test('empirical service resamples the historical handle times', () => {
+    const engine = new SimulationEngine(createConfig({
+      maxTime: 200, seed: 9, serviceDistribution: { type: 'empirical', samples: [0.25, 0.75] },
+    }));
+    engine.processUntil(200);
+    const durations = new Set(engine.getContactRecords().map(r => r.serviceTime.toFixed(6)));
+    expect([...durations].sort()).toEqual(['0.250000', '0.750000']);
+  });
+});
+
+describe('SimulationEngine - Arrival Profile', () => {
+  // Quiet, peak and empty intervals of 600 time units
+  const profileConfig = (overrides: Partial<ScenarioConfig> = {}) => createConfig({
+    arrivalRate: 1,
+    serviceRate: 1 / 10,
+    servers: 12,
+    maxTime: 1800,
+    seed: 21,
+    serviceLevelThreshold: 5,
+    arrivalProfile: { intervalLength: 600, volumes: [300, 700, 0], labels: ['09:00', '09:30', '10:00'] },
+    ...overrides,
+  });
+
+  test('offers each interval its profile volume and reports per-interval stats', () => {
+    const engine = new SimulationEngine(profileConfig());
+    engine.processUntil(1800);
+    const intervals = engine.getSnapshot().intervals;
+
+    expect(intervals.map(i => [i.label, i.start, i.end])).toEqual([
+      ['09:00', 0, 600], ['09:30', 600, 1200], ['10:00', 1200, 1800],
+    ]);
+    expect(Math.abs(intervals[0]!.offered - 300)).toBeLessThan(4 * Math.sqrt(300));
+    expect(Math.abs(intervals[1]!.offered - 700)).toBeLessThan(4 * Math.sqrt(700));
+    expect(intervals[2]!.offered).toBe(0);
+    expect(intervals[2]!.serviceLevel).toBe(1);
+    for (const i of intervals) {
+      expect(i.answered + i.abandoned).toBeLessThanOrEqual(i.offered);
+      expect(i.avgQueueLength).toBeLessThanOrEqual(i.maxQueueLength);
+    }
+    // 5 Erlangs on 12 agents, then 11.7 Erlangs: the peak queues.
+    expect(intervals[1]!.serviceLevel).toBeLessThan(intervals[0]!.serviceLevel);
+    expect(intervals[1]!.asa).toBeGreaterThan(intervals[0]!.asa);
+    expect(intervals[1]!.avgQueueLength).toBeGreaterThan(intervals[0]!.avgQueueLength);
+    expect(engine.getSnapshot().servicedCount).toBe(intervals[0]!.answered + intervals[1]!.answered);
+  });
+
+  test('interval stats agree with the contact records', () => {
+    const engine = new SimulationEngine(profileConfig({ patience: { type: 'exponential', mean: 30 } }));
+    engine.processUntil(1800);
+    const records = engine.getContactRecords();
+    const intervals = engine.getSnapshot().intervals;
+
+    intervals.forEach((interval, index) => {
+      const inInterval = records.filter(r => Math.floor(r.arrivalTime / 600) === index);
+      const answered = inInterval.filter(r => !r.abandoned);
+      expect(interval.abandoned).toBe(inInterval.length - answered.length);
+      expect(interval.answered).toBe(answered.length);
+      if (answered.length > 0) {
+        expect(interval.asa).toBeCloseTo(answered.reduce((s, r) => s + r.queueWaitTime, 0) / answered.length, 9);
+        expect(interval.serviceLevel).toBeCloseTo(answered.filter(r => r.queueWaitTime <= 5).length / inInterval.length, 9);
+      }
+    });
+  });
+
+  test('a flat profile matches Erlang C service level', () => {
+    // 9 Erlangs on 11 agents over a long single interval
+    const engine = new SimulationEngine(profileConfig({
+      servers: 11, maxTime: 200000, serviceLevelThreshold: 2,
+      arrivalProfile: { intervalLength: 200000, volumes: [180000] },
+    }));
+    engine.processUntil(200000);
+    const [interval] = engine.getSnapshot().intervals;
+
+    expect(interval!.serviceLevel).toBeCloseTo(calculateServiceLevel(11, 9, 10, 2), 1);
+  });
+
+  test('queue time accrues up to the current time between events', () => {
+    const engine = new SimulationEngine(createConfig({
+      servers: 1, serviceRate: 1e-6, maxTime: 100, seed: 4,
+      arrivalProfile: { intervalLength: 50, volumes: [5, 0] },
+    }));
+    engine.processUntil(100);
+    const [busy, empty] = engine.getSnapshot().intervals;
+
+    // Nobody is served, so the queue never shrinks after the first wait.
+    expect(busy!.maxQueueLength).toBeGreaterThan(0);
+    expect(empty!.offered).toBe(0);
+    expect(empty!.avgQueueLength).toBe(busy!.maxQueueLength);
+  });
+
+  test('snapshot intervals are empty without a profile', () => {
+    const engine = new SimulationEngine(createConfig());
+    engine.processUntil(10);
+    expect(engine.getSnapshot().intervals).toEqual([]);
+  });
+});
+
+describe('SimulationEngine - Performance', () => {
+  // Work is counted rather than timed: heap comparisons and waiting-queue
+  // slots are deterministic for a seed, where wall time depends on the
+  // machine. Timings of a month-long run live in SimulationEngine.bench.ts
+  // (npm run bench).
+
+  // ρ = 0.9 with a 5-minute AHT (time in seconds)
+  const scaledConfig = (servers: number, contacts: number, slots = 1) => {
+    const arrivalRate = (0.9 * servers * slots) / 300;
+    return createConfig({
+      arrivalRate, serviceRate: 1 / 300, servers, slots, maxTime: contacts / arrivalRate, seed: 8, maxRecords: 0,
+    });
+  };
+
+  /** Heap comparisons per contact answered */
+  const workPerContact = (config: ScenarioConfig) => {
+    const engine = new SimulationEngine(config);
+    engine.processUntil(config.maxTime);
+    return engine.getWorkCounts().heapComparisons / engine.getTotals().answered;
+  };
+
+  test('work per contact grows with log(agents), not agents', () => {
+    const small = workPerContact(scaledConfig(20, 20000));
+    const large = workPerContact(scaledConfig(5000, 20000));
+    // O(log n) calendar and free pool: about 3.6x for 250x the agents.
+    // A sorted-array calendar or a server scan would grow about 250x.
+    expect(large / small).toBeLessThan(2 * Math.log2(5000) / Math.log2(20));
+  });
+
+  test('chat mode finds the least-loaded server in O(log agents)', () => {
+    const small = workPerContact(scaledConfig(20, 20000, 3));
+    const large = workPerContact(scaledConfig(2000, 20000, 3));
+    expect(large / small).toBeLessThan(2 * Math.log2(2000) / Math.log2(20));
+  });
+
+  test('dequeues and abandonments cost O(1) in the queue length', () => {
+    // One agent at ρ = 2 with patient customers: thousands queue, and
+    // many abandon from the middle of the queue
+    const engine = new SimulationEngine(createConfig({
+      arrivalRate: 2, serviceRate: 1, servers: 1, maxTime: 5000, seed: 4, maxRecords: 0,
+      patience: { type: 'exponential', mean: 2000 },
+    }));
+    engine.processUntil(5000);
+    const totals = engine.getTotals();
+    const snapshot = engine.getSnapshot();
+
+    expect(snapshot.maxQueueLength).toBeGreaterThan(1000);
+    expect(totals.abandoned).toBeGreaterThan(1000);
+    // Each queued contact's slot is passed at most once
+    expect(engine.getWorkCounts().queueSlotsVisited).toBeLessThanOrEqual(totals.answered + totals.abandoned);
+    expect(engine.getWaitingQueue()).toHaveLength(snapshot.queueLength);
+  });
+
+  test('2000 agents over a month of arrivals finishes with memory bounded', () => {
+    // About 20 s on one core; the timeout leaves room for slow CI machines
+    const config = createConfig({ arrivalRate: 6, serviceRate: 1 / 300, servers: 2000, maxTime: 30 * 86400, seed: 3 });
+    const engine = new SimulationEngine(config);
+    engine.processUntil(config.maxTime);
+    const snapshot = engine.getSnapshot();
+
+    expect(snapshot.servicedCount).toBeGreaterThan(15000000);
+    expect(snapshot.timeSeries.length).toBeLessThan(8000);
+    expect(engine.getRecordStats().currentRecords).toBe(10000);
+    expect(engine.getRecordStats().recordsDropped).toBe(snapshot.servicedCount - 10000);
+  }, 180000);
+
+  test('same-time events run in scheduling order', () => {
+    // Deterministic arrivals and service on one agent: each completion
+    // coincides with the next arrival and must free the agent first.
+    const engine = new SimulationEngine(createConfig({
+      arrivalRate: 1, serviceRate: 1, servers: 1, maxTime: 50,
+      arrivalDistribution: { type: 'deterministic' },
+      serviceDistribution: { type: 'deterministic' },
+    }));
+    engine.processUntil(50);
+    expect(engine.getContactRecords().every(r => r.queueWaitTime === 0)).toBe(true);
+  });
+});
+
+describe('SimulationEngine - Totals', () => {
+  test('accrue busy and queue time up to the processed time', () => {
+    const engine = new SimulationEngine(createConfig({
+      arrivalRate: 4, serviceRate: 1, servers: 5, maxTime: 5000, seed: 12, serviceLevelThreshold: 0.2,
+    }));
+    engine.processUntil(2500.5);
+    const halfway = engine.getTotals();
+    engine.processUntil(5000);
+    const totals = engine.getTotals();
+
+    expect(halfway.time).toBe(2500.5);
+    expect(totals.time).toBe(5000);
+    // Offered load 4 Erlangs on 5 agents
+    expect(totals.busyTime / (5 * totals.time)).toBeCloseTo(0.8, 1);
+    expect(totals.queueTime).toBeGreaterThan(halfway.queueTime);
+    expect(totals.answeredWithinThreshold).toBeLessThanOrEqual(totals.answered);
+    expect(totals.totalAnswerWaitTime / totals.answered)
+      .toBeCloseTo(calculateASA(5, 4, 1), 1);
+  });
+});
+
+describe('SimulationEngine - Time Units', () => {
+  test('the default threshold is 20 seconds in the scenario\'s unit', () => {
+    expect(serviceLevelThreshold(createConfig())).toBe(DEFAULT_SL_THRESHOLD_SECONDS);
+    expect(serviceLevelThreshold(createConfig({ timeUnit: 'minutes' }))).toBeCloseTo(1 / 3, 12);
+    expect(serviceLevelThreshold(createConfig({ timeUnit: 'minutes', serviceLevelThreshold: 0.5 }))).toBe(0.5);
+  });
+
+  test('a minute-based preset and its conversion to seconds give the same run', () => {
+    const minutes: ScenarioConfig = { ...PRESET_SCENARIOS.find(p => p.name === 'Near Capacity')!.config, seed: 8 };
+    const seconds = scenarioInSeconds(minutes);
+    expect(seconds.maxTime).toBe(minutes.maxTime * 60);
+    expect(seconds.timeUnit).toBeUndefined();
+
+    const inMinutes = new SimulationEngine(minutes);
+    inMinutes.processUntil(minutes.maxTime);
+    const inSeconds = new SimulationEngine(seconds);
+    inSeconds.processUntil(seconds.maxTime);
+
+    const a = inMinutes.getTotals();
+    const b = inSeconds.getTotals();
+    expect(b.answered).toBe(a.answered);
+    expect(b.answeredWithinThreshold).toBe(a.answeredWithinThreshold);
+    expect(a.answeredWithinThreshold).toBeLessThan(a.answered);
+    expect(b.totalAnswerWaitTime).toBeCloseTo(a.totalAnswerWaitTime * 60, 6);
+  });
+});
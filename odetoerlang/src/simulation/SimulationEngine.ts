@@ -4,9 +4,33 @@
  * This implements a classical queueing system with:
  * - Poisson arrivals (exponentially distributed inter-arrival times)
  * - Exponential service times
+ *   (either can be swapped for another distribution with the same mean,
+ *   making the model G/G/c; see distributions.ts)
  * - c identical servers
  * - Infinite waiting room
  * - FIFO discipline
+ *
+ * With a patience distribution (`patience`), each customer who has to queue
+ * draws a patience time and abandons if service has not started by then:
+ * with exponential patience this is the M/M/c+M (Erlang A) queue.
+ *
+ * An arrival profile (`arrivalProfile`) replaces the constant arrival rate
+ * with a piecewise-constant one (non-homogeneous Poisson arrivals; see
+ * arrivalProfile.ts), and the snapshot then reports service level, ASA and
+ * queue length per profile interval.
+ *
+ * Chat mode (`slots` > 1) gives each server several concurrent sessions.
+ * A server with k sessions completes one after Exp(k × μ / (1 + (k - 1) × o))
+ * and the finishing session is picked uniformly; because service is
+ * memoryless, the pending completion is redrawn whenever k changes.
+ *
+ * Events are kept in a binary-heap calendar (ties in scheduling order),
+ * idle servers in a heap of ids, and in chat mode open servers in a heap
+ * keyed by open sessions. Waiting customers sit in a FIFO that forgets
+ * abandoned ones lazily. An event therefore costs O(log n) in the number of
+ * pending events or servers and O(1) amortised in the queue length. Contact
+ * records and the time series are bounded, so long runs (thousands of
+ * agents, a month of arrivals) stay in memory.
  */
 
 import {
@@ -18,8 +42,15 @@ import {
   type SimulationStats,
   type Snapshot,
   type ContactRecord,
+  type IntervalStats,
+  type SimulationTotals,
 } from './types';
 import { toLocalDateString } from '../lib/dateUtils';
+import { sampleDuration } from './distributions';
+import { nextProfileArrival, profileIntervalAt } from './arrivalProfile';
+import { BinaryHeap } from './BinaryHeap';
+import { WaitingQueue } from './WaitingQueue';
+import { serviceLevelThreshold } from './presets';
 
 /**
  * Simple seeded pseudo-random number generator (Mulberry32)
@@ -38,12 +69,49 @@ function createSeededRng(seed: number): () => number {
 // Default maximum records to prevent memory exhaustion
 const DEFAULT_MAX_RECORDS = 10000;
 
+// Time series: initial sampling step, and the point count that halves it
+const TIME_SERIES_STEP = 0.5;
+const MAX_TIME_SERIES_POINTS = 4000;
+
+/** Calendar entry: sequence breaks ties between events at the same time */
+interface ScheduledEvent {
+  event: Event;
+  sequence: number;
+}
+
+const createEventCalendar = () => new BinaryHeap<ScheduledEvent>((a, b) =>
+  a.event.time < b.event.time || (a.event.time === b.event.time && a.sequence < b.sequence));
+
+/** Chat mode: a server's open sessions when the entry was pushed */
+interface SlotEntry {
+  id: number;
+  open: number;
+}
+
+// Least-loaded server first, then the lowest id
+const createSlotPool = () => new BinaryHeap<SlotEntry>((a, b) => a.open < b.open || (a.open === b.open && a.id < b.id));
+
+/** Running totals for one arrival-profile interval */
+interface IntervalTotals {
+  offered: number;
+  answered: number;
+  abandoned: number;
+  answeredWithinThreshold: number;
+  totalWaitTime: number;
+  queueTime: number; // Integral of queue length over time
+  maxQueueLength: number;
+}
+
 export class SimulationEngine {
   private config: ScenarioConfig;
   private now: number = 0;
-  private eventQueue: Event[] = [];
-  private waitingQueue: Customer[] = [];
+  private eventQueue = createEventCalendar();
+  private eventSequence: number = 0;
+  private readonly waitingQueue = new WaitingQueue<Customer>();
   private servers: Server[] = [];
+  private freeServers = new BinaryHeap<number>((a, b) => a < b); // Idle server ids, lowest first
+  private readonly openSlots = createSlotPool(); // Chat mode: entries go stale when a server's session count changes
+  private inServiceCount: number = 0;
   private customers: Map<number, Customer> = new Map();
   private nextCustomerId: number = 1;
   private stats: SimulationStats;
@@ -51,6 +119,10 @@ export class SimulationEngine {
   private random: () => number; // Seeded or unseeded RNG
   private maxRecords: number;
   private recordsDropped: number = 0;
+  private slotVersions: number[] = []; // Chat mode: bumps invalidate pending completions
+  private timeSeriesStep: number = TIME_SERIES_STEP;
+  private intervals: IntervalTotals[] = [];
+  private accruedUntil: number = 0; // Queue and busy time are accrued up to here
 
   constructor(config: ScenarioConfig) {
     this.config = { ...config };
@@ -58,7 +130,8 @@ export class SimulationEngine {
     this.random = config.seed !== undefined ? createSeededRng(config.seed) : Math.random;
     this.stats = this.initStats();
     this.initServers();
-    this.scheduleFirstArrival();
+    this.initIntervals();
+    this.scheduleNextArrival();
   }
 
   /**
@@ -73,15 +146,18 @@ export class SimulationEngine {
     }
 
     this.now = 0;
-    this.eventQueue = [];
-    this.waitingQueue = [];
+    this.eventQueue.clear();
+    this.eventSequence = 0;
+    this.waitingQueue.clear();
     this.customers.clear();
     this.nextCustomerId = 1;
     this.stats = this.initStats();
     this.contactRecords = [];
     this.recordsDropped = 0;
+    this.timeSeriesStep = TIME_SERIES_STEP;
     this.initServers();
-    this.scheduleFirstArrival();
+    this.initIntervals();
+    this.scheduleNextArrival();
   }
 
   /**
@@ -91,25 +167,31 @@ export class SimulationEngine {
     // Clamp to simulation horizon
     const targetTime = Math.min(tMax, this.config.maxTime);
 
-    while (this.eventQueue.length > 0 && this.eventQueue[0]!.time <= targetTime) {
+    while (this.eventQueue.size > 0 && this.eventQueue.peek()!.event.time <= targetTime) {
       const event = this.popNextEvent();
       if (!event) break;
 
+      this.accrueTime(event.time);
       this.now = event.time;
 
       if (event.type === EventType.ARRIVAL) {
         this.handleArrival(event);
       } else if (event.type === EventType.SERVICE_END) {
         this.handleServiceEnd(event);
+      } else if (event.type === EventType.ABANDON) {
+        this.handleAbandon(event);
       }
 
       // Record time series snapshot (sample every so often to avoid too many points)
       if (this.stats.timeSeries.length === 0 ||
-          this.now - this.stats.timeSeries[this.stats.timeSeries.length - 1]!.time >= 0.5) {
+          this.now - this.stats.timeSeries[this.stats.timeSeries.length - 1]!.time >= this.timeSeriesStep) {
         this.recordTimeSeriesPoint();
       }
     }
 
+    // Nothing happens between the last event and the target time
+    this.accrueTime(targetTime);
+
     // If we've advanced time, record final snapshot
     if (this.now === targetTime && this.stats.timeSeries.length > 0) {
       const last = this.stats.timeSeries[this.stats.timeSeries.length - 1]!;
@@ -123,22 +205,55 @@ export class SimulationEngine {
    * Get current simulation snapshot for rendering
    */
   getSnapshot(): Snapshot {
-    const inService = this.servers.filter(s => s.busy).length;
+    const inService = this.contactsInService();
     const avgWaitTime = this.stats.servicedCount > 0
       ? this.stats.totalWaitTime / this.stats.servicedCount
       : 0;
+    const decided = this.stats.abandonedCount + this.stats.answeredCount;
 
     return {
       now: this.now,
-      queueLength: this.waitingQueue.length,
+      queueLength: this.waitingQueue.size,
       inService,
       servicedCount: this.stats.servicedCount,
       avgWaitTime,
       maxQueueLength: this.stats.maxQueueLength,
+      abandonedCount: this.stats.abandonedCount,
+      abandonRate: decided > 0 ? this.stats.abandonedCount / decided : 0,
+      avgAbandonWaitTime: this.stats.abandonedCount > 0
+        ? this.stats.totalAbandonWaitTime / this.stats.abandonedCount
+        : 0,
+      intervals: this.getIntervalStats(),
       timeSeries: [...this.stats.timeSeries],
     };
   }
 
+  /**
+   * Cumulative totals up to the last processUntil target
+   */
+  getTotals(): SimulationTotals {
+    return {
+      time: this.accruedUntil,
+      answered: this.stats.answeredCount,
+      answeredWithinThreshold: this.stats.answeredWithinThreshold,
+      totalAnswerWaitTime: this.stats.totalAnswerWaitTime,
+      abandoned: this.stats.abandonedCount,
+      queueTime: this.stats.queueTime,
+      busyTime: this.stats.busyTime,
+    };
+  }
+
+  /**
+   * Work done so far: heap comparisons (event calendar and server pools) and
+   * waiting-queue slots passed. Exposed for complexity tests.
+   */
+  getWorkCounts(): { heapComparisons: number; queueSlotsVisited: number } {
+    return {
+      heapComparisons: this.eventQueue.comparisons + this.freeServers.comparisons + this.openSlots.comparisons,
+      queueSlotsVisited: this.waitingQueue.visited,
+    };
+  }
+
   /**
    * Check if simulation has reached the time horizon
    */
@@ -150,28 +265,29 @@ export class SimulationEngine {
    * Get current servers state (for visualization)
    */
   getServers(): Server[] {
-    return this.servers.map(s => ({ ...s }));
+    return this.servers.map(s => ({ ...s, ...(s.sessions && { sessions: [...s.sessions] }) }));
   }
 
   /**
    * Get waiting queue (for visualization)
    */
   getWaitingQueue(): Customer[] {
-    return [...this.waitingQueue];
+    return this.waitingQueue.toArray();
   }
 
   /**
    * Get all contact records (completed customers)
    */
   getContactRecords(): ContactRecord[] {
-    return [...this.contactRecords];
+    return [...this.keptRecords()];
   }
 
   /**
    * Export contact records as CSV
    */
   exportContactRecordsAsCSV(): string {
-    if (this.contactRecords.length === 0) {
+    const records = this.keptRecords();
+    if (records.length === 0) {
       return '';
     }
 
@@ -196,7 +312,7 @@ export class SimulationEngine {
     ];
 
     // CSV rows
-    const rows = this.contactRecords.map(record => [
+    const rows = records.map(record => [
       record.customerId,
       record.channel,
       record.campaignId || '',
@@ -249,11 +365,12 @@ export class SimulationEngine {
    * Compatible with the WFM database schema
    */
   exportAsHistoricalDataSQL(): string[] {
-    if (this.contactRecords.length === 0) {
+    const records = this.keptRecords();
+    if (records.length === 0) {
       return [];
     }
 
-    return this.contactRecords.map(record => {
+    return records.map(record => {
       // Generate a timestamp for the contact (assuming simulation time is in minutes)
       const contactDate = new Date();
       contactDate.setMinutes(contactDate.getMinutes() + record.arrivalTime);
@@ -305,12 +422,13 @@ export class SimulationEngine {
    * Get simulation metadata
    */
   getSimulationMetadata() {
+    const records = this.keptRecords();
     return {
       config: this.config,
-      totalContacts: this.contactRecords.length,
-      channels: [...new Set(this.contactRecords.map(r => r.channel))],
-      campaigns: [...new Set(this.contactRecords.map(r => r.campaignId).filter(Boolean))],
-      skills: [...new Set(this.contactRecords.map(r => r.skillId).filter(Boolean))],
+      totalContacts: records.length,
+      channels: [...new Set(records.map(r => r.channel))],
+      campaigns: [...new Set(records.map(r => r.campaignId).filter(Boolean))],
+      skills: [...new Set(records.map(r => r.skillId).filter(Boolean))],
     };
   }
 
@@ -318,11 +436,12 @@ export class SimulationEngine {
    * Get record statistics including dropped count
    */
   getRecordStats() {
+    const currentRecords = this.keptRecords().length;
     return {
-      currentRecords: this.contactRecords.length,
+      currentRecords,
       maxRecords: this.maxRecords,
       recordsDropped: this.recordsDropped,
-      isAtLimit: this.contactRecords.length >= this.maxRecords,
+      isAtLimit: currentRecords >= this.maxRecords,
     };
   }
 
@@ -334,6 +453,13 @@ export class SimulationEngine {
     return {
       servicedCount: 0,
       totalWaitTime: 0,
+      answeredCount: 0,
+      answeredWithinThreshold: 0,
+      totalAnswerWaitTime: 0,
+      abandonedCount: 0,
+      totalAbandonWaitTime: 0,
+      queueTime: 0,
+      busyTime: 0,
       maxQueueLength: 0,
       timeSeries: [],
     };
@@ -343,17 +469,139 @@ export class SimulationEngine {
     this.servers = Array.from({ length: this.config.servers }, (_, i) => ({
       id: i,
       busy: false,
+      ...(this.isSlotMode() && { sessions: [] }),
+    }));
+    this.slotVersions = this.servers.map(() => 0);
+    this.inServiceCount = 0;
+    this.freeServers.clear();
+    this.openSlots.clear();
+    if (this.isSlotMode()) this.servers.forEach(s => this.openSlots.push({ id: s.id, open: 0 }));
+    else this.servers.forEach(s => this.freeServers.push(s.id));
+  }
+
+  private initIntervals(): void {
+    this.accruedUntil = 0;
+    this.intervals = (this.config.arrivalProfile?.volumes ?? []).map(() => ({
+      offered: 0,
+      answered: 0,
+      abandoned: 0,
+      answeredWithinThreshold: 0,
+      totalWaitTime: 0,
+      queueTime: 0,
+      maxQueueLength: 0,
     }));
   }
 
+  /** Totals for the profile interval containing `time`, if any */
+  private intervalAt(time: number): IntervalTotals | undefined {
+    const profile = this.config.arrivalProfile;
+    const index = profile ? profileIntervalAt(profile, time) : undefined;
+    return index !== undefined ? this.intervals[index] : undefined;
+  }
+
+  /**
+   * Add queue length and contacts in service × elapsed time up to `until`,
+   * splitting queue time across profile intervals; both are constant
+   * between events
+   */
+  private accrueTime(until: number): void {
+    if (until <= this.accruedUntil) return;
+    const queueLength = this.waitingQueue.size;
+    this.stats.queueTime += queueLength * (until - this.accruedUntil);
+    this.stats.busyTime += this.inServiceCount * (until - this.accruedUntil);
+
+    const length = this.config.arrivalProfile?.intervalLength ?? 0;
+    if (length > 0 && queueLength > 0) {
+      let time = this.accruedUntil;
+      while (time < until) {
+        const totals = this.intervalAt(time);
+        if (!totals) break;
+        const end = Math.min(until, (Math.floor(time / length) + 1) * length);
+        totals.queueTime += queueLength * (end - time);
+        totals.maxQueueLength = Math.max(totals.maxQueueLength, queueLength); // Backlog carried in
+        time = end;
+      }
+    }
+    this.accruedUntil = until;
+  }
+
+  private getIntervalStats(): IntervalStats[] {
+    const profile = this.config.arrivalProfile;
+    if (!profile) return [];
+    const length = profile.intervalLength;
+
+    return this.intervals.map((totals, index) => {
+      const start = index * length;
+      const end = start + length;
+      const elapsed = Math.min(end, this.accruedUntil) - start;
+      const decided = totals.answered + totals.abandoned;
+      return {
+        index,
+        label: profile.labels?.[index],
+        start,
+        end,
+        offered: totals.offered,
+        answered: totals.answered,
+        abandoned: totals.abandoned,
+        serviceLevel: decided > 0 ? totals.answeredWithinThreshold / decided : 1,
+        asa: totals.answered > 0 ? totals.totalWaitTime / totals.answered : 0,
+        avgQueueLength: elapsed > 0 ? totals.queueTime / elapsed : 0,
+        maxQueueLength: totals.maxQueueLength,
+      };
+    });
+  }
+
+  private isSlotMode(): boolean {
+    return (this.config.slots ?? 1) > 1;
+  }
+
+  /** Contacts being served: sessions in chat mode, busy servers otherwise. */
+  private contactsInService(): number {
+    return this.inServiceCount;
+  }
+
+  /**
+   * Server that takes the next contact: lowest-numbered idle server, taken
+   * out of the free pool, or the least-loaded open server in chat mode
+   * (lowest-numbered among ties)
+   */
+  private takeFreeServer(): Server | undefined {
+    if (!this.isSlotMode()) {
+      const id = this.freeServers.pop();
+      return id !== undefined ? this.servers[id] : undefined;
+    }
+    for (let entry = this.openSlots.pop(); entry; entry = this.openSlots.pop()) {
+      const server = this.servers[entry.id]!;
+      if (entry.open === server.sessions!.length) return server;
+    }
+    return undefined;
+  }
+
+  /**
+   * Chat mode: after a server's session count changes, make it available at
+   * its new count if it has a free slot. Stale entries are skipped when
+   * popped; the pool is rebuilt once they outnumber the servers three to one.
+   */
+  private offerSlots(server: Server): void {
+    if (this.openSlots.size > 4 * this.servers.length) {
+      this.openSlots.clear();
+      for (const s of this.servers) {
+        if (s.sessions!.length < this.config.slots! && s !== server) {
+          this.openSlots.push({ id: s.id, open: s.sessions!.length });
+        }
+      }
+    }
+    const open = server.sessions!.length;
+    if (open < this.config.slots!) this.openSlots.push({ id: server.id, open });
+  }
+
   /**
-   * Schedule the first customer arrival
+   * Schedule the next customer arrival, if it falls within the horizon
    */
-  private scheduleFirstArrival(): void {
-    const interArrivalTime = this.exponential(this.config.arrivalRate);
-    const arrivalTime = this.now + interArrivalTime;
+  private scheduleNextArrival(): void {
+    const arrivalTime = this.nextArrivalTime();
 
-    if (arrivalTime <= this.config.maxTime) {
+    if (arrivalTime !== undefined && arrivalTime <= this.config.maxTime) {
       this.scheduleEvent({
         time: arrivalTime,
         type: EventType.ARRIVAL,
@@ -372,9 +620,11 @@ export class SimulationEngine {
       arrivalTime: this.now,
     };
     this.customers.set(customer.id, customer);
+    const interval = this.intervalAt(this.now);
+    if (interval) interval.offered++;
 
     // Try to find a free server
-    const freeServer = this.servers.find(s => !s.busy);
+    const freeServer = this.takeFreeServer();
 
     if (freeServer) {
       // Start service immediately
@@ -384,40 +634,56 @@ export class SimulationEngine {
       this.waitingQueue.push(customer);
 
       // Update max queue length
-      if (this.waitingQueue.length > this.stats.maxQueueLength) {
-        this.stats.maxQueueLength = this.waitingQueue.length;
+      const queueLength = this.waitingQueue.size;
+      if (queueLength > this.stats.maxQueueLength) {
+        this.stats.maxQueueLength = queueLength;
+      }
+      if (interval && queueLength > interval.maxQueueLength) {
+        interval.maxQueueLength = queueLength;
       }
-    }
-
-    // Schedule next arrival (Poisson process)
-    const interArrivalTime = this.exponential(this.config.arrivalRate);
-    const nextArrivalTime = this.now + interArrivalTime;
 
-    if (nextArrivalTime <= this.config.maxTime) {
-      this.scheduleEvent({
-        time: nextArrivalTime,
-        type: EventType.ARRIVAL,
-        customerId: this.nextCustomerId++,
-      });
+      // Impatient customers leave if service has not started by then
+      const patience = this.samplePatience();
+      if (patience !== undefined) {
+        this.scheduleEvent({
+          time: this.now + patience,
+          type: EventType.ABANDON,
+          customerId: customer.id,
+        });
+      }
     }
+
+    // Schedule next arrival (Poisson process by default)
+    this.scheduleNextArrival();
   }
 
   /**
    * Handle service completion event
    */
   private handleServiceEnd(event: Event): void {
+    // Chat mode: skip completions drawn before the server's session count changed
+    if (this.isSlotMode() && (event.serverId === undefined || event.version !== this.slotVersions[event.serverId])) return;
+
     const customer = this.customers.get(event.customerId);
     if (!customer) return;
+    this.customers.delete(customer.id);
 
     // Mark service end
     customer.serviceEndTime = this.now;
 
-    // Free the server
-    const server = this.servers.find(s => s.customerId === customer.id);
+    // Free the server (or the session's slot)
+    const server = event.serverId !== undefined ? this.servers[event.serverId] : undefined;
     if (!server) return;
+    this.inServiceCount--;
 
-    server.busy = false;
-    server.customerId = undefined;
+    if (server.sessions) {
+      server.sessions = server.sessions.filter(id => id !== customer.id);
+      server.busy = server.sessions.length > 0;
+      server.customerId = server.sessions[server.sessions.length - 1];
+    } else {
+      server.busy = false;
+      server.customerId = undefined;
+    }
     server.releaseTime = this.now;
 
     // Update stats
@@ -448,74 +714,203 @@ export class SimulationEngine {
         channel: this.config.channel || 'voice',
         campaignId: this.config.campaignId,
         skillId: this.config.skillId,
-        concurrentContacts: this.config.channel === 'chat' || this.config.channel === 'email' ? 1 : undefined,
+        concurrentContacts: customer.concurrentContacts
+          ?? (this.config.channel === 'chat' || this.config.channel === 'email' ? 1 : undefined),
         abandoned: false,
       };
 
-      // Enforce record cap - drop oldest records if at limit
-      if (this.contactRecords.length >= this.maxRecords) {
-        this.contactRecords.shift(); // Remove oldest record
-        this.recordsDropped++;
-      }
-      this.contactRecords.push(contactRecord);
+      this.pushContactRecord(contactRecord);
     }
 
     // If there are customers waiting, start service for the next one
-    if (this.waitingQueue.length > 0) {
-      const nextCustomer = this.waitingQueue.shift()!;
+    const nextCustomer = this.waitingQueue.shift();
+    if (nextCustomer) {
       this.startService(nextCustomer, server);
+    } else if (server.sessions) {
+      this.scheduleSlotCompletion(server);
+      this.offerSlots(server);
+    } else {
+      this.freeServers.push(server.id);
     }
   }
 
+  /**
+   * Handle abandonment: ignored if the customer was answered in the meantime
+   */
+  private handleAbandon(event: Event): void {
+    const customer = this.customers.get(event.customerId);
+    if (!customer || !this.waitingQueue.remove(customer)) return;
+
+    this.customers.delete(customer.id);
+    const queueWaitTime = this.now - customer.arrivalTime;
+    this.stats.abandonedCount++;
+    this.stats.totalAbandonWaitTime += queueWaitTime;
+    const interval = this.intervalAt(customer.arrivalTime);
+    if (interval) interval.abandoned++;
+
+    this.pushContactRecord({
+      customerId: customer.id,
+      arrivalTime: customer.arrivalTime,
+      queueJoinTime: customer.arrivalTime,
+      queueWaitTime,
+      serviceStartTime: this.now,
+      serviceEndTime: this.now,
+      totalTimeInSystem: queueWaitTime,
+      serverId: -1,
+      wasQueued: true,
+      serviceTime: 0,
+      timeToAnswer: queueWaitTime,
+      channel: this.config.channel || 'voice',
+      campaignId: this.config.campaignId,
+      skillId: this.config.skillId,
+      abandoned: true,
+      abandonTime: this.now,
+    });
+  }
+
+  /**
+   * Keep a contact record, dropping the oldest once at the cap. The array
+   * may hold up to twice the cap and is trimmed in one go, so dropping is
+   * O(1) amortised.
+   */
+  private pushContactRecord(record: ContactRecord): void {
+    this.contactRecords.push(record);
+    if (this.contactRecords.length > this.maxRecords) {
+      this.recordsDropped++;
+      if (this.contactRecords.length >= 2 * this.maxRecords) this.keptRecords();
+    }
+  }
+
+  /**
+   * Contact records within the cap (trims the dropped ones)
+   */
+  private keptRecords(): ContactRecord[] {
+    const excess = this.contactRecords.length - this.maxRecords;
+    if (excess > 0) this.contactRecords.splice(0, excess);
+    return this.contactRecords;
+  }
+
   /**
    * Start service for a customer on a server
    */
   private startService(customer: Customer, server: Server): void {
     customer.serviceStartTime = this.now;
+    this.stats.answeredCount++;
+    this.inServiceCount++;
+    const waitTime = this.now - customer.arrivalTime;
+    const withinThreshold = waitTime <= serviceLevelThreshold(this.config);
+    this.stats.totalAnswerWaitTime += waitTime;
+    if (withinThreshold) this.stats.answeredWithinThreshold++;
+    const interval = this.intervalAt(customer.arrivalTime);
+    if (interval) {
+      interval.answered++;
+      interval.totalWaitTime += waitTime;
+      if (withinThreshold) interval.answeredWithinThreshold++;
+    }
     server.busy = true;
     server.customerId = customer.id;
 
+    if (server.sessions) {
+      server.sessions.push(customer.id);
+      customer.concurrentContacts = server.sessions.length;
+      this.scheduleSlotCompletion(server);
+      this.offerSlots(server);
+      return;
+    }
+
     // Schedule service completion
-    const serviceTime = this.exponential(this.config.serviceRate);
+    const serviceTime = sampleDuration(this.config.serviceDistribution, 1 / this.config.serviceRate, this.random);
     const endTime = this.now + serviceTime;
 
     this.scheduleEvent({
       time: endTime,
       type: EventType.SERVICE_END,
       customerId: customer.id,
+      serverId: server.id,
+    });
+  }
+
+  /**
+   * Chat mode: draw the server's next completion at its current session
+   * count, superseding any pending one
+   */
+  private scheduleSlotCompletion(server: Server): void {
+    const version = ++this.slotVersions[server.id]!;
+    const sessions = server.sessions!;
+    if (sessions.length === 0) return;
+
+    const k = sessions.length;
+    const overhead = Math.max(0, this.config.sessionOverhead ?? 0);
+    const rate = (k * this.config.serviceRate) / (1 + (k - 1) * overhead);
+    const finishing = sessions[Math.floor(this.random() * k)]!;
+
+    this.scheduleEvent({
+      time: this.now + this.exponential(rate),
+      type: EventType.SERVICE_END,
+      customerId: finishing,
+      serverId: server.id,
+      version,
     });
   }
 
   /**
-   * Schedule an event (maintains sorted order by time)
+   * Schedule an event (events at the same time run in scheduling order)
    */
   private scheduleEvent(event: Event): void {
-    // Insert in sorted order (simple insertion sort for small queues)
-    const insertIndex = this.eventQueue.findIndex(e => e.time > event.time);
-    if (insertIndex === -1) {
-      this.eventQueue.push(event);
-    } else {
-      this.eventQueue.splice(insertIndex, 0, event);
-    }
+    this.eventQueue.push({ event, sequence: this.eventSequence++ });
   }
 
   /**
    * Pop the next event from the queue
    */
   private popNextEvent(): Event | undefined {
-    return this.eventQueue.shift();
+    return this.eventQueue.pop()?.event;
   }
 
   /**
    * Record current state in time series
    */
   private recordTimeSeriesPoint(): void {
-    const inService = this.servers.filter(s => s.busy).length;
+    const inService = this.contactsInService();
     this.stats.timeSeries.push({
       time: this.now,
-      queueLength: this.waitingQueue.length,
+      queueLength: this.waitingQueue.size,
       inService,
     });
+
+    // Long runs: keep every other point and sample half as often
+    if (this.stats.timeSeries.length >= 2 * MAX_TIME_SERIES_POINTS) {
+      this.stats.timeSeries = this.stats.timeSeries.filter((_, i) => i % 2 === 0);
+      this.timeSeriesStep *= 2;
+    }
+  }
+
+  /**
+   * Time of the next arrival: from the arrival profile when there is one,
+   * otherwise one inter-arrival time from now
+   */
+  private nextArrivalTime(): number | undefined {
+    const profile = this.config.arrivalProfile;
+    if (profile) return nextProfileArrival(profile, this.now, this.random);
+    return this.now + sampleDuration(this.config.arrivalDistribution, 1 / this.config.arrivalRate, this.random);
+  }
+
+  /**
+   * Draw a queued customer's patience; undefined when nobody abandons
+   */
+  private samplePatience(): number | undefined {
+    const patience = this.config.patience;
+    if (!patience) return undefined;
+
+    switch (patience.type) {
+      case 'exponential':
+        return patience.mean > 0 ? this.exponential(1 / patience.mean) : 0;
+      case 'fixed':
+        return Math.max(0, patience.value);
+      case 'empirical':
+        if (patience.samples.length === 0) return undefined;
+        return Math.max(0, patience.samples[Math.floor(this.random() * patience.samples.length)]!);
+    }
   }
 
   /**
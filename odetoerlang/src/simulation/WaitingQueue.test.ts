@@ -0,0 +1,44 @@
+import { describe, test, expect } from 'vitest';
+import { WaitingQueue } from './WaitingQueue';
+
+describe('WaitingQueue', () => {
+  test('is first in, first out', () => {
+    const queue = new WaitingQueue<number>();
+    [1, 2, 3].forEach(v => queue.push(v));
+    expect(queue.size).toBe(3);
+    expect(queue.shift()).toBe(1);
+    queue.push(4);
+    expect(queue.toArray()).toEqual([2, 3, 4]);
+    expect([queue.shift(), queue.shift(), queue.shift(), queue.shift()]).toEqual([2, 3, 4, undefined]);
+    expect(queue.size).toBe(0);
+  });
+
+  test('removes from the middle and skips removed items', () => {
+    const queue = new WaitingQueue<{ id: number }>();
+    const items = [1, 2, 3, 4].map(id => ({ id }));
+    items.forEach(item => queue.push(item));
+
+    expect(queue.remove(items[1]!)).toBe(true);
+    expect(queue.remove(items[1]!)).toBe(false);
+    expect(queue.size).toBe(3);
+    expect(queue.toArray().map(i => i.id)).toEqual([1, 3, 4]);
+    expect(queue.shift()!.id).toBe(1);
+    expect(queue.shift()!.id).toBe(3);
+    expect(queue.remove(items[0]!)).toBe(false);
+  });
+
+  test('passes each slot once, however long the queue gets', () => {
+    const queue = new WaitingQueue<number>();
+    let next = 0;
+    for (let round = 0; round < 50; round++) {
+      for (let i = 0; i < 200; i++) queue.push(next++);
+      // Abandon every third, serve half of the rest
+      for (let v = next - 200; v < next; v += 3) queue.remove(v);
+      for (let i = 0; i < 70; i++) queue.shift();
+    }
+    const waiting = queue.toArray();
+    expect(waiting).toHaveLength(queue.size);
+    expect(waiting.every((v, i) => i === 0 || v > waiting[i - 1]!)).toBe(true);
+    expect(queue.visited).toBeLessThanOrEqual(next);
+  });
+});
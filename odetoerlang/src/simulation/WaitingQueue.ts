@@ -0,0 +1,71 @@
+/**
+ * FIFO queue with O(1) removal from the middle: an array read from a head
+ * index, where removed items are only forgotten and skipped once the head
+ * reaches them. Used for the engine's waiting customers, who can abandon
+ * from anywhere in the queue.
+ */
+
+// Drop the consumed prefix once it is this long and half the array
+const COMPACT_AFTER = 1024;
+
+export class WaitingQueue<T> {
+  private items: T[] = [];
+  private head = 0;
+  private readonly waiting = new Set<T>();
+  private slotsVisited = 0;
+
+  /** Items still waiting */
+  get size(): number {
+    return this.waiting.size;
+  }
+
+  /** Array slots the head has passed, removed ones included (each slot once) */
+  get visited(): number {
+    return this.slotsVisited;
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    this.waiting.add(item);
+  }
+
+  /** Longest-waiting item, taken out of the queue */
+  shift(): T | undefined {
+    while (this.head < this.items.length) {
+      const item = this.items[this.head++]!;
+      this.slotsVisited++;
+      if (this.waiting.delete(item)) {
+        this.compact();
+        return item;
+      }
+    }
+    this.compact();
+    return undefined;
+  }
+
+  /** Take an item out wherever it is; false when it is not waiting */
+  remove(item: T): boolean {
+    return this.waiting.delete(item);
+  }
+
+  /** Waiting items, longest-waiting first */
+  toArray(): T[] {
+    return this.items.slice(this.head).filter(item => this.waiting.has(item));
+  }
+
+  clear(): void {
+    this.items = [];
+    this.head = 0;
+    this.waiting.clear();
+  }
+
+  private compact(): void {
+    if (this.head === this.items.length) {
+      this.items.length = 0;
+      this.head = 0;
+    } else if (this.head >= COMPACT_AFTER && 2 * this.head >= this.items.length) {
+      this.items = this.items.slice(this.head);
+      this.head = 0;
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, test, expect } from 'vitest';
+import {
+  arrivalProfileFromHistorical,
+  nextProfileArrival,
+  profileDuration,
+  profileIntervalAt,
+  profileMeanRate,
+  profilePeakRate,
+} from './arrivalProfile';
+import type { ArrivalProfile } from './types';
+
+// Mulberry32, as in SimulationEngine
+function seededRng(seed: number): () => number {
+  return () => {
+    let t = (seed += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const profile: ArrivalProfile = { intervalLength: 100, volumes: [50, 200, 0, 100] };
+
+describe('arrivalProfile - summary', () => {
+  test('duration, rates and interval lookup', () => {
+    expect(profileDuration(profile)).toBe(400);
+    expect(profileMeanRate(profile)).toBeCloseTo(350 / 400, 12);
+    expect(profilePeakRate(profile)).toBe(2);
+    expect(profileIntervalAt(profile, 0)).toBe(0);
+    expect(profileIntervalAt(profile, 250)).toBe(2);
+    expect(profileIntervalAt(profile, 400)).toBeUndefined();
+    expect(profileIntervalAt(profile, -1)).toBeUndefined();
+  });
+});
+
+describe('arrivalProfile - nextProfileArrival', () => {
+  test('generates each interval\'s volume and nothing after the profile', () => {
+    const random = seededRng(11);
+    const counts = [0, 0, 0, 0];
+    const days = 200;
+    for (let day = 0; day < days; day++) {
+      let time: number | undefined = 0;
+      while ((time = nextProfileArrival(profile, time, random)) !== undefined) {
+        expect(time).toBeLessThan(400);
+        counts[Math.floor(time / 100)]!++;
+      }
+    }
+    profile.volumes.forEach((volume, i) => {
+      const mean = counts[i]! / days;
+      // Poisson: standard error of the mean is √(volume / days)
+      expect(Math.abs(mean - volume)).toBeLessThanOrEqual(4 * Math.sqrt(volume / days));
+    });
+  });
+
+  test('skips empty intervals and ends with the profile', () => {
+    const random = seededRng(2);
+    const sparse: ArrivalProfile = { intervalLength: 10, volumes: [0, 0, 5] };
+    const first = nextProfileArrival(sparse, 0, random)!;
+    expect(first).toBeGreaterThanOrEqual(20);
+    expect(nextProfileArrival({ intervalLength: 10, volumes: [0, 0] }, 0, random)).toBeUndefined();
+    expect(nextProfileArrival(sparse, 30, random)).toBeUndefined();
+  });
+});
+
+describe('arrivalProfile - historical', () => {
+  test('averages volume per interval across dates, in seconds', () => {
+    const result = arrivalProfileFromHistorical([
+      { date: '2025-03-03', interval_start: '08:00:00', volume: 40 },
+      { date: '2025-03-03', interval_start: '08:30:00', volume: 90 },
+      { date: '2025-03-04', interval_start: '08:00:00', volume: 60 },
+      { date: '2025-03-04', interval_start: '09:30:00', volume: 20 },
+      { date: '2025-03-04', volume: 500 },
+    ]);
+    expect(result).toEqual({
+      intervalLength: 1800,
+      volumes: [50, 45, 0, 10],
+      labels: ['08:00', '08:30', '09:00', '09:30'],
+    });
+    expect(arrivalProfileFromHistorical([{ date: '2025-03-03', volume: 10 }])).toBeUndefined();
+  });
+});
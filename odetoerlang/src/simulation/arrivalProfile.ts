@@ -0,0 +1,103 @@
+/**
+ * Intraday arrival profiles
+ *
+ * Arrivals follow a non-homogeneous Poisson process with piecewise-constant
+ * rate λ(t) = volumes[i] / L in interval i of length L. With cumulative rate
+ * Λ(t) = ∫₀ᵗ λ(u) du, the next arrival after s is at
+ *
+ *   Λ⁻¹(Λ(s) + E),  E ~ Exp(1)
+ *
+ * which is exact (no thinning) and skips empty intervals. The process ends
+ * with the profile.
+ */
+
+import type { ArrivalProfile } from './types';
+import type { HistoricalData } from '../lib/database/dataAccess';
+
+/** Length of the whole profile in time units. */
+export function profileDuration(profile: ArrivalProfile): number {
+  return profile.volumes.length * profile.intervalLength;
+}
+
+/** Index of the interval containing `time`, or undefined outside the profile. */
+export function profileIntervalAt(profile: ArrivalProfile, time: number): number | undefined {
+  if (!(profile.intervalLength > 0) || time < 0) return undefined;
+  const index = Math.floor(time / profile.intervalLength);
+  return index < profile.volumes.length ? index : undefined;
+}
+
+/** Mean arrival rate over the profile (total volume / duration). */
+export function profileMeanRate(profile: ArrivalProfile): number {
+  const duration = profileDuration(profile);
+  return duration > 0 ? profile.volumes.reduce((sum, v) => sum + v, 0) / duration : 0;
+}
+
+/** Arrival rate of the busiest interval. */
+export function profilePeakRate(profile: ArrivalProfile): number {
+  return profile.intervalLength > 0 ? Math.max(0, ...profile.volumes) / profile.intervalLength : 0;
+}
+
+/**
+ * Time of the next arrival after `from`; undefined once the profile ends
+ *
+ * @param random - Uniform [0, 1) generator (seeded for reproducibility)
+ */
+export function nextProfileArrival(
+  profile: ArrivalProfile,
+  from: number,
+  random: () => number
+): number | undefined {
+  const length = profile.intervalLength;
+  if (!(length > 0)) return undefined;
+
+  let remaining = -Math.log(random()); // Exp(1) of cumulative rate to use up
+  let time = Math.max(0, from);
+  for (let i = Math.floor(time / length); i < profile.volumes.length; i++) {
+    const rate = Math.max(0, profile.volumes[i]!) / length;
+    const end = (i + 1) * length;
+    const available = rate * (end - time);
+    if (remaining < available) return time + remaining / rate;
+    remaining -= available;
+    time = end;
+  }
+  return undefined;
+}
+
+/**
+ * Average day from HistoricalData: mean volume for each interval of the day
+ * across the dates in `rows` (a date without a row counts as zero). Time is
+ * in seconds from the first interval; undefined without interval rows.
+ */
+export function arrivalProfileFromHistorical(
+  rows: ReadonlyArray<Pick<HistoricalData, 'date' | 'interval_start' | 'volume'>>
+): ArrivalProfile | undefined {
+  const minuteOf = (time: string | undefined): number | undefined => {
+    const match = time ? /^(\d{1,2}):(\d{2})/.exec(time) : null;
+    return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+  };
+
+  const totals = new Map<number, number>();
+  const dates = new Set<string>();
+  for (const row of rows) {
+    const minute = minuteOf(row.interval_start);
+    if (minute === undefined) continue;
+    totals.set(minute, (totals.get(minute) ?? 0) + Math.max(0, row.volume));
+    dates.add(row.date);
+  }
+  if (totals.size === 0) return undefined;
+
+  const starts = [...totals.keys()].sort((a, b) => a - b);
+  const gaps = starts.slice(1).map((start, i) => start - starts[i]!);
+  const step = gaps.length > 0 ? Math.min(...gaps) : 30;
+  const first = starts[0]!;
+  const count = Math.round((starts[starts.length - 1]! - first) / step) + 1;
+
+  const volumes: number[] = [];
+  const labels: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const minute = first + i * step;
+    volumes.push((totals.get(minute) ?? 0) / dates.size);
+    labels.push(`${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`);
+  }
+  return { intervalLength: step * 60, volumes, labels };
+}
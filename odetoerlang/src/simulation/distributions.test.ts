@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import {
+  distributionCV,
+  empiricalFromHistoricalAHT,
+  empiricalMean,
+  sampleDuration,
+} from './distributions';
+import type { DurationDistribution } from './types';
+
+// Mulberry32, as in SimulationEngine
+function seededRng(seed: number): () => number {
+  return () => {
+    let t = (seed += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function moments(distribution: DurationDistribution | undefined, mean: number, n = 40000) {
+  const random = seededRng(42);
+  const draws = Array.from({ length: n }, () => sampleDuration(distribution, mean, random));
+  const m = draws.reduce((s, x) => s + x, 0) / n;
+  const variance = draws.reduce((s, x) => s + (x - m) ** 2, 0) / n;
+  return { mean: m, cv: Math.sqrt(variance) / m, min: Math.min(...draws) };
+}
+
+describe('distributions - sampleDuration', () => {
+  const cases: Array<[string, DurationDistribution | undefined]> = [
+    ['exponential (default)', undefined],
+    ['lognormal', { type: 'lognormal', cv: 0.8 }],
+    ['gamma', { type: 'gamma', shape: 2.5 }],
+    ['gamma below shape 1', { type: 'gamma', shape: 0.5 }],
+    ['erlang', { type: 'erlang', k: 4 }],
+  ];
+
+  test.each(cases)('%s keeps the mean and its CV', (_name, distribution) => {
+    const m = moments(distribution, 300);
+    expect(Math.abs(m.mean / 300 - 1)).toBeLessThan(0.03);
+    expect(Math.abs(m.cv - distributionCV(distribution))).toBeLessThan(0.06 * Math.max(1, distributionCV(distribution)));
+    expect(m.min).toBeGreaterThan(0);
+  });
+
+  test('deterministic always returns the mean', () => {
+    const random = seededRng(1);
+    expect(sampleDuration({ type: 'deterministic' }, 7, random)).toBe(7);
+    expect(distributionCV({ type: 'deterministic' })).toBe(0);
+  });
+
+  test('empirical resamples the observed values and ignores the mean', () => {
+    const samples = [120, 240, 600];
+    const random = seededRng(3);
+    const draws = new Set(Array.from({ length: 200 }, () => sampleDuration({ type: 'empirical', samples }, 1, random)));
+    expect([...draws].sort((a, b) => a - b)).toEqual(samples);
+    expect(empiricalMean(samples)).toBe(320);
+    expect(empiricalMean([])).toBeUndefined();
+  });
+});
+
+describe('distributions - historical AHT', () => {
+  test('uses intervals with contacts and an AHT, weighted by volume', () => {
+    expect(empiricalFromHistoricalAHT([
+      { volume: 10, aht: 300 },
+      { volume: 0, aht: 250 },
+      { volume: 5 },
+      { volume: 8, aht: 420 },
+    ])).toEqual({ type: 'empirical', samples: [300, 420], weights: [10, 8] });
+    expect(empiricalFromHistoricalAHT([{ volume: 0, aht: 300 }])).toBeUndefined();
+  });
+
+  test('busy intervals count for their contacts, so the mean is the per-contact AHT', () => {
+    const distribution = empiricalFromHistoricalAHT([{ volume: 90, aht: 200 }, { volume: 10, aht: 600 }])!;
+    expect(distribution.type === 'empirical' && empiricalMean(distribution.samples, distribution.weights)).toBe(240);
+
+    const random = seededRng(11);
+    const draws = Array.from({ length: 20000 }, () => sampleDuration(distribution, 1, random));
+    expect(draws.filter(d => d === 600).length / draws.length).toBeCloseTo(0.1, 2);
+    expect(distributionCV(distribution)).toBeCloseTo(120 / 240, 9);
+  });
+});
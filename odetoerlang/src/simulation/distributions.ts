@@ -0,0 +1,168 @@
+/**
+ * Random durations for the simulation engine
+ *
+ * Every distribution except `empirical` is scaled to a given mean, so the
+ * arrival and service rates in ScenarioConfig keep their meaning and only
+ * the shape changes:
+ *
+ *   exponential     CV = 1 (the "M" in M/M/c)
+ *   lognormal       CV as given; σ² = ln(1 + CV²), μ = ln(mean) - σ²/2
+ *   gamma           shape k, CV = 1/√k (Marsaglia-Tsang sampler)
+ *   erlang          k exponential phases, CV = 1/√k
+ *   deterministic   CV = 0
+ *   empirical       bootstrap: each draw is a sample picked uniformly, or in
+ *                   proportion to its weight
+ */
+
+import type { DurationDistribution } from './types';
+import type { HistoricalData } from '../lib/database/dataAccess';
+
+/** Weights that apply to the samples: matching length and a positive total. */
+function usableWeights(samples: readonly number[], weights: readonly number[] | undefined): readonly number[] | undefined {
+  if (!weights || weights.length !== samples.length) return undefined;
+  return weights.reduce((sum, w) => sum + Math.max(0, w), 0) > 0 ? weights : undefined;
+}
+
+/** (Weighted) mean of the samples, or undefined when there are none. */
+export function empiricalMean(samples: readonly number[], weights?: readonly number[]): number | undefined {
+  if (samples.length === 0) return undefined;
+  const w = usableWeights(samples, weights);
+  if (!w) return samples.reduce((sum, s) => sum + s, 0) / samples.length;
+  const total = w.reduce((sum, x) => sum + Math.max(0, x), 0);
+  return samples.reduce((sum, s, i) => sum + s * Math.max(0, w[i]!), 0) / total;
+}
+
+/**
+ * Coefficient of variation (standard deviation / mean) of a distribution
+ */
+export function distributionCV(distribution: DurationDistribution | undefined): number {
+  if (!distribution) return 1;
+  switch (distribution.type) {
+    case 'exponential':
+      return 1;
+    case 'lognormal':
+      return Math.max(0, distribution.cv);
+    case 'gamma':
+      return 1 / Math.sqrt(distribution.shape);
+    case 'erlang':
+      return 1 / Math.sqrt(Math.max(1, Math.round(distribution.k)));
+    case 'deterministic':
+      return 0;
+    case 'empirical': {
+      const { samples } = distribution;
+      const weights = usableWeights(samples, distribution.weights) ?? samples.map(() => 1);
+      const mean = empiricalMean(samples, weights);
+      if (!mean) return 0;
+      const total = weights.reduce((sum, w) => sum + Math.max(0, w), 0);
+      const variance = samples.reduce((sum, s, i) => sum + Math.max(0, weights[i]!) * (s - mean) ** 2, 0) / total;
+      return Math.sqrt(variance) / mean;
+    }
+  }
+}
+
+// Running weight totals per weights array, built on first draw
+const cumulativeWeights = new WeakMap<readonly number[], number[]>();
+
+/** Index drawn in proportion to the weights (binary search on running totals). */
+function weightedIndex(weights: readonly number[], random: () => number): number {
+  let cumulative = cumulativeWeights.get(weights);
+  if (!cumulative) {
+    let total = 0;
+    cumulative = weights.map(w => (total += Math.max(0, w)));
+    cumulativeWeights.set(weights, cumulative);
+  }
+  const target = random() * cumulative[cumulative.length - 1]!;
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cumulative[mid]! > target) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+/** Standard normal draw (Box-Muller). */
+function standardNormal(random: () => number): number {
+  const u = 1 - random(); // (0, 1]
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/** Gamma(shape, 1) draw (Marsaglia & Tsang, 2000). */
+function standardGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    // Boost: Gamma(k) = Gamma(k + 1) × U^(1/k)
+    return standardGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = standardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/**
+ * Draw a duration with the given mean
+ *
+ * @param distribution - Shape of the distribution (default exponential)
+ * @param mean - Mean duration; ignored by `empirical`
+ * @param random - Uniform [0, 1) generator (seeded for reproducibility)
+ */
+export function sampleDuration(
+  distribution: DurationDistribution | undefined,
+  mean: number,
+  random: () => number
+): number {
+  switch (distribution?.type) {
+    case 'lognormal': {
+      const sigma2 = Math.log(1 + Math.max(0, distribution.cv) ** 2);
+      return Math.exp(Math.log(mean) - sigma2 / 2 + Math.sqrt(sigma2) * standardNormal(random));
+    }
+    case 'gamma':
+      return (mean / distribution.shape) * standardGamma(distribution.shape, random);
+    case 'erlang': {
+      const k = Math.max(1, Math.round(distribution.k));
+      let product = 1;
+      for (let i = 0; i < k; i++) product *= 1 - random();
+      return (-Math.log(product) * mean) / k;
+    }
+    case 'deterministic':
+      return mean;
+    case 'empirical': {
+      const { samples } = distribution;
+      if (samples.length === 0) return mean;
+      const weights = usableWeights(samples, distribution.weights);
+      const index = weights ? weightedIndex(weights, random) : Math.floor(random() * samples.length);
+      return Math.max(0, samples[index]!);
+    }
+    default:
+      // Exponential: -ln(U) × mean where U ~ Uniform(0,1)
+      return -Math.log(random()) * mean;
+  }
+}
+
+/**
+ * Handle-time distribution of interval averages from HistoricalData: one
+ * sample per interval with contacts and a recorded AHT (seconds), weighted by
+ * its contacts so the mean is the per-contact AHT.
+ *
+ * HistoricalData holds no per-call handle times, so this is not the handle
+ * time distribution: averaging over an interval's calls removes most of the
+ * call-to-call spread, and its CV is far below that of individual calls.
+ * Pick a lognormal or gamma shape for realistic variability.
+ */
+export function empiricalFromHistoricalAHT(
+  rows: ReadonlyArray<Pick<HistoricalData, 'volume' | 'aht'>>
+): DurationDistribution | undefined {
+  const intervals = rows.filter(r => r.volume > 0 && (r.aht ?? 0) > 0);
+  if (intervals.length === 0) return undefined;
+  return { type: 'empirical', samples: intervals.map(r => r.aht!), weights: intervals.map(r => r.volume) };
+}
@@ -2,57 +2,80 @@
  * Preset scenarios for quick testing
  */
 
-import { type PresetScenario, type ScenarioConfig } from './types';
+import {
+  DEFAULT_SL_THRESHOLD_SECONDS,
+  type ArrivalProfile,
+  type DurationDistribution,
+  type PresetScenario,
+  type ScenarioConfig,
+} from './types';
+import { profileDuration, profileMeanRate } from './arrivalProfile';
+
+// Calls per half-hour, 08:00-20:00, peaking mid-morning
+const TRADING_DAY_PROFILE: ArrivalProfile = {
+  intervalLength: 1800, // seconds
+  volumes: [
+    60, 110, 160, 200, 210, 195, 170, 150, 140, 150, 160, 150,
+    135, 120, 110, 100, 95, 90, 80, 70, 60, 50, 40, 30,
+  ],
+  labels: Array.from({ length: 24 }, (_, i) =>
+    `${String(8 + Math.floor(i / 2)).padStart(2, '0')}:${i % 2 === 0 ? '00' : '30'}`),
+};
 
 export const PRESET_SCENARIOS: PresetScenario[] = [
   {
     name: 'Low Load',
     description: 'Light traffic, servers mostly idle (ρ ≈ 0.5)',
     config: {
-      arrivalRate: 5,    // 5 customers per time unit
-      serviceRate: 2,    // Each server serves 2 per time unit
+      arrivalRate: 5,    // 5 customers per minute
+      serviceRate: 2,    // Each server serves 2 per minute (30-second AHT)
       servers: 5,        // 5 servers → utilisation = 5/(5*2) = 0.5
       maxTime: 100,
+      timeUnit: 'minutes',
     },
   },
   {
     name: 'Balanced',
     description: 'Moderate load, good service levels (ρ ≈ 0.75)',
     config: {
-      arrivalRate: 15,   // 15 customers per time unit
-      serviceRate: 2,    // Each server serves 2 per time unit
+      arrivalRate: 15,   // 15 customers per minute
+      serviceRate: 2,    // Each server serves 2 per minute (30-second AHT)
       servers: 10,       // 10 servers → utilisation = 15/(10*2) = 0.75
       maxTime: 100,
+      timeUnit: 'minutes',
     },
   },
   {
     name: 'Near Capacity',
     description: 'High utilisation, queues forming (ρ ≈ 0.90)',
     config: {
-      arrivalRate: 18,   // 18 customers per time unit
-      serviceRate: 2,    // Each server serves 2 per time unit
+      arrivalRate: 18,   // 18 customers per minute
+      serviceRate: 2,    // Each server serves 2 per minute (30-second AHT)
       servers: 10,       // 10 servers → utilisation = 18/(10*2) = 0.90
       maxTime: 100,
+      timeUnit: 'minutes',
     },
   },
   {
     name: 'Overloaded',
     description: 'Unstable queue, arrival rate > service capacity (ρ > 1.0)',
     config: {
-      arrivalRate: 25,   // 25 customers per time unit
-      serviceRate: 2,    // Each server serves 2 per time unit
+      arrivalRate: 25,   // 25 customers per minute
+      serviceRate: 2,    // Each server serves 2 per minute (30-second AHT)
       servers: 10,       // 10 servers → utilisation = 25/(10*2) = 1.25 (UNSTABLE!)
       maxTime: 50,       // Shorter horizon as queue explodes
+      timeUnit: 'minutes',
     },
   },
   {
     name: 'Single Server',
     description: 'Classic M/M/1 queue (ρ ≈ 0.8)',
     config: {
-      arrivalRate: 0.8,  // 0.8 customers per time unit
-      serviceRate: 1,    // 1 customer per time unit
+      arrivalRate: 0.8,  // 0.8 customers per minute
+      serviceRate: 1,    // 1 customer per minute
       servers: 1,        // Single server → utilisation = 0.8
       maxTime: 100,
+      timeUnit: 'minutes',
     },
   },
   {
@@ -63,6 +86,7 @@ export const PRESET_SCENARIOS: PresetScenario[] = [
       serviceRate: 2,    // Average 30 seconds per call = 2 calls/min
       servers: 30,       // 30 agents → utilisation = 48/(30*2) = 0.80
       maxTime: 60,       // 1 hour simulation
+      timeUnit: 'minutes',
       channel: 'voice' as const,
     },
   },
@@ -74,6 +98,7 @@ export const PRESET_SCENARIOS: PresetScenario[] = [
       serviceRate: 1.5,  // ~40 seconds per chat
       servers: 10,       // 10 agents → utilisation = 15/(10*1.5) = 1.0
       maxTime: 60,       // 1 hour simulation
+      timeUnit: 'minutes',
       channel: 'chat' as const,
     },
   },
@@ -85,11 +110,66 @@ export const PRESET_SCENARIOS: PresetScenario[] = [
       serviceRate: 0.5,  // 2 minutes per email
       servers: 5,        // 5 agents → utilisation = 5/(5*0.5) = 2.0 (overloaded)
       maxTime: 120,      // 2 hours simulation
+      timeUnit: 'minutes',
       channel: 'email' as const,
     },
   },
+  {
+    name: 'Trading Day',
+    description: 'Twelve-hour day with a morning peak (34 agents, 5-minute AHT)',
+    config: {
+      arrivalRate: profileMeanRate(TRADING_DAY_PROFILE), // Daily average, per second
+      serviceRate: 1 / 300, // 5-minute AHT
+      servers: 34,          // Short at the 10:00 peak (35 Erlangs), idle by evening
+      maxTime: profileDuration(TRADING_DAY_PROFILE),
+      channel: 'voice' as const,
+      arrivalProfile: TRADING_DAY_PROFILE,
+      serviceLevelThreshold: 20,
+    },
+  },
 ];
 
+/** Seconds per simulation time unit */
+export function secondsPerTimeUnit(config: Pick<ScenarioConfig, 'timeUnit'>): number {
+  return config.timeUnit === 'minutes' ? 60 : 1;
+}
+
+/**
+ * Service-level threshold in the scenario's time units: the configured one,
+ * or DEFAULT_SL_THRESHOLD_SECONDS scaled to the unit (1/3 in minutes)
+ */
+export function serviceLevelThreshold(config: Pick<ScenarioConfig, 'serviceLevelThreshold' | 'timeUnit'>): number {
+  return config.serviceLevelThreshold ?? DEFAULT_SL_THRESHOLD_SECONDS / secondsPerTimeUnit(config);
+}
+
+/**
+ * The same scenario measured in seconds (HistoricalData handle times and
+ * arrival profiles are in seconds)
+ */
+export function scenarioInSeconds(config: ScenarioConfig): ScenarioConfig {
+  const scale = secondsPerTimeUnit(config);
+  if (scale === 1) return config;
+
+  const durations = (d: DurationDistribution): DurationDistribution =>
+    d.type === 'empirical' ? { ...d, samples: d.samples.map(x => x * scale) } : d;
+  const scaled: ScenarioConfig = {
+    ...config,
+    arrivalRate: config.arrivalRate / scale,
+    serviceRate: config.serviceRate / scale,
+    maxTime: config.maxTime * scale,
+  };
+  delete scaled.timeUnit;
+  if (config.serviceLevelThreshold !== undefined) scaled.serviceLevelThreshold = config.serviceLevelThreshold * scale;
+  if (config.arrivalProfile) scaled.arrivalProfile = { ...config.arrivalProfile, intervalLength: config.arrivalProfile.intervalLength * scale };
+  if (config.arrivalDistribution) scaled.arrivalDistribution = durations(config.arrivalDistribution);
+  if (config.serviceDistribution) scaled.serviceDistribution = durations(config.serviceDistribution);
+  const patience = config.patience;
+  if (patience?.type === 'exponential') scaled.patience = { type: 'exponential', mean: patience.mean * scale };
+  if (patience?.type === 'fixed') scaled.patience = { type: 'fixed', value: patience.value * scale };
+  if (patience?.type === 'empirical') scaled.patience = { type: 'empirical', samples: patience.samples.map(x => x * scale) };
+  return scaled;
+}
+
 /**
  * Calculate theoretical utilisation (rho)
  */
@@ -124,5 +204,56 @@ export function validateConfig(config: Partial<ScenarioConfig>): string[] {
     errors.push('Simulation time must be positive');
   }
 
+  const patience = config.patience;
+  if (patience) {
+    if (patience.type === 'exponential' && !(patience.mean > 0)) {
+      errors.push('Mean patience must be positive');
+    }
+    if (patience.type === 'fixed' && !(patience.value >= 0)) {
+      errors.push('Patience cannot be negative');
+    }
+    if (patience.type === 'empirical' && patience.samples.length === 0) {
+      errors.push('Empirical patience needs at least one sample');
+    }
+  }
+
+  const profile = config.arrivalProfile;
+  if (profile) {
+    if (!(profile.intervalLength > 0)) {
+      errors.push('Arrival profile interval length must be positive');
+    }
+    if (profile.volumes.length === 0) {
+      errors.push('Arrival profile needs at least one interval');
+    }
+    if (profile.volumes.some(v => !(v >= 0) || !Number.isFinite(v))) {
+      errors.push('Arrival profile volumes cannot be negative');
+    }
+  }
+
+  if (config.serviceLevelThreshold !== undefined && !(config.serviceLevelThreshold >= 0)) {
+    errors.push('Service level threshold cannot be negative');
+  }
+
+  for (const [label, distribution] of [
+    ['Inter-arrival', config.arrivalDistribution],
+    ['Service', config.serviceDistribution],
+  ] as const) {
+    if (distribution?.type === 'lognormal' && !(distribution.cv >= 0)) {
+      errors.push(`${label} CV cannot be negative`);
+    }
+    if (distribution?.type === 'gamma' && !(distribution.shape > 0)) {
+      errors.push(`${label} gamma shape must be positive`);
+    }
+    if (distribution?.type === 'erlang' && !(Number.isInteger(distribution.k) && distribution.k >= 1)) {
+      errors.push(`${label} Erlang k must be a whole number of at least 1`);
+    }
+    if (distribution?.type === 'empirical' && distribution.samples.length === 0) {
+      errors.push(`${label} empirical distribution needs at least one sample`);
+    }
+    if (distribution?.type === 'empirical' && distribution.weights && distribution.weights.length !== distribution.samples.length) {
+      errors.push(`${label} empirical weights must match the samples`);
+    }
+  }
+
   return errors;
 }
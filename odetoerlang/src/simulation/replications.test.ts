@@ -0,0 +1,170 @@
+import { describe, test, expect } from 'vitest';
+import {
+  METRIC_KEYS,
+  analyticMetrics,
+  confidenceInterval,
+  replicationSteps,
+  runReplications,
+  type ReplicationProgress,
+} from './replications';
+import { calculateServiceLevel } from '../lib/calculations/erlangC';
+import { DEFAULT_SL_THRESHOLD_SECONDS, type ScenarioConfig } from './types';
+
+// M/M/5 at 4 Erlangs, mean service 1, SL threshold 0.2
+const mmc: ScenarioConfig = {
+  arrivalRate: 4,
+  serviceRate: 1,
+  servers: 5,
+  maxTime: 3000,
+  seed: 100,
+  channel: 'voice',
+  serviceLevelThreshold: 0.2,
+};
+
+describe('replications - confidenceInterval', () => {
+  test('uses the t distribution', () => {
+    const ci = confidenceInterval([1, 2, 3, 4, 5]);
+    expect(ci.mean).toBe(3);
+    // s = √2.5, t(0.975, 4) = 2.776
+    expect(ci.halfWidth).toBeCloseTo(2.776 * Math.sqrt(2.5 / 5), 10);
+    expect(ci.lower).toBeCloseTo(3 - ci.halfWidth, 12);
+    expect(confidenceInterval(Array.from({ length: 100 }, (_, i) => i % 2)).halfWidth)
+      .toBeCloseTo(1.984 * Math.sqrt(0.25 * 100 / 99 / 100), 3);
+  });
+
+  test('has no interval with fewer than two observations', () => {
+    expect(confidenceInterval([7])).toEqual({ mean: 7, halfWidth: Infinity, lower: -Infinity, upper: Infinity });
+  });
+});
+
+describe('replications - runReplications', () => {
+  test('independent runs bracket the Erlang C answer', () => {
+    const result = runReplications(mmc, { replications: 10 })!;
+    const analytic = analyticMetrics(mmc)!;
+
+    expect(result.method).toBe('replications');
+    expect(result.warmUp).toBe(300);
+    expect(result.observations).toHaveLength(10);
+    expect(analytic.model).toBe('Erlang C');
+    for (const key of ['serviceLevel', 'asa', 'occupancy', 'avgQueueLength'] as const) {
+      const { lower, upper } = result.estimates[key];
+      expect(analytic.metrics[key]).toBeGreaterThanOrEqual(lower);
+      expect(analytic.metrics[key]).toBeLessThanOrEqual(upper);
+    }
+    expect(result.estimates.abandonRate.mean).toBe(0);
+  });
+
+  test('batch means over one run agree with Erlang C', () => {
+    const result = runReplications({ ...mmc, maxTime: 30000 }, { method: 'batchMeans', batches: 20, warmUp: 500 })!;
+    const analytic = analyticMetrics(mmc)!;
+
+    expect(result.observations).toHaveLength(20);
+    expect(result.warmUp).toBe(500);
+    for (const key of ['serviceLevel', 'asa', 'occupancy'] as const) {
+      const { lower, upper } = result.estimates[key];
+      expect(analytic.metrics[key]).toBeGreaterThanOrEqual(lower);
+      expect(analytic.metrics[key]).toBeLessThanOrEqual(upper);
+    }
+  });
+
+  test('is reproducible for a seeded scenario and narrows with more runs', () => {
+    const a = runReplications(mmc, { replications: 5 })!;
+    expect(runReplications(mmc, { replications: 5 })).toEqual(a);
+    const b = runReplications(mmc, { replications: 30 })!;
+    expect(b.estimates.asa.halfWidth).toBeLessThan(a.estimates.asa.halfWidth);
+    expect(METRIC_KEYS.every(key => Number.isFinite(b.estimates[key].halfWidth))).toBe(true);
+  });
+
+  test('measures abandonment with exponential patience', () => {
+    const config = { ...mmc, servers: 4, patience: { type: 'exponential' as const, mean: 1 } };
+    const result = runReplications(config)!;
+    expect(analyticMetrics(config)!.model).toBe('Erlang A');
+    expect(result.estimates.abandonRate.mean).toBeGreaterThan(0);
+    expect(result.estimates.abandonRate.upper).toBeLessThan(1);
+  });
+
+  test('measures and models service level against the same default threshold', () => {
+    // Minutes: 20 seconds is a third of a time unit
+    const unset: ScenarioConfig = { ...mmc };
+    delete unset.serviceLevelThreshold;
+    const minutes: ScenarioConfig = { ...unset, timeUnit: 'minutes' };
+    const result = runReplications(minutes, { replications: 10 })!;
+    const analytic = analyticMetrics(minutes)!;
+
+    expect(result.serviceLevelThreshold).toBeCloseTo(DEFAULT_SL_THRESHOLD_SECONDS / 60, 12);
+    expect(analytic.metrics.serviceLevel).toBeCloseTo(calculateServiceLevel(5, 4, 1, 1 / 3), 12);
+    expect(analytic.metrics.serviceLevel).toBeGreaterThanOrEqual(result.estimates.serviceLevel.lower);
+    expect(analytic.metrics.serviceLevel).toBeLessThanOrEqual(result.estimates.serviceLevel.upper);
+    expect(runReplications(unset, { replications: 2 })!.serviceLevelThreshold).toBe(DEFAULT_SL_THRESHOLD_SECONDS);
+  });
+
+  test('steps report progress and end with the same result', () => {
+    for (const options of [{ replications: 4 }, { method: 'batchMeans' as const, batches: 5 }]) {
+      const steps = replicationSteps(mmc, options);
+      const progress: ReplicationProgress[] = [];
+      let step = steps.next();
+      while (!step.done) {
+        progress.push(step.value);
+        step = steps.next();
+      }
+      expect(step.value).toEqual(runReplications(mmc, options));
+      expect(progress.length).toBeGreaterThanOrEqual(100);
+      expect(progress[0]!.completed).toBe(0);
+      expect(progress[progress.length - 1]!.completed).toBe(progress[0]!.total - 1);
+    }
+  });
+
+  test('returns null for invalid options', () => {
+    expect(runReplications(mmc, { replications: 1 })).toBeNull();
+    expect(runReplications(mmc, { warmUp: 3000 })).toBeNull();
+    expect(runReplications(mmc, { warmUp: -1 })).toBeNull();
+    expect(runReplications({ ...mmc, servers: 0 })).toBeNull();
+  });
+});
+
+describe('replications - analyticMetrics', () => {
+  // Patience equal to the AHT, one time unit
+  const impatient = (servers: number): ScenarioConfig => ({
+    arrivalRate: 45,
+    serviceRate: 1,
+    servers,
+    maxTime: 300,
+    seed: 7,
+    channel: 'voice',
+    serviceLevelThreshold: 0.1,
+    patience: { type: 'exponential', mean: 1 },
+  });
+
+  const expectInBand = (config: ScenarioConfig) => {
+    const result = runReplications(config, { replications: 10, warmUp: 20 })!;
+    const analytic = analyticMetrics(config)!;
+    expect(analytic.model).toBe('Erlang A');
+    for (const key of METRIC_KEYS) {
+      const { lower, upper } = result.estimates[key];
+      expect(analytic.metrics[key]).toBeGreaterThanOrEqual(lower);
+      expect(analytic.metrics[key]).toBeLessThanOrEqual(upper);
+    }
+    return analytic.metrics;
+  };
+
+  test('exact Erlang A falls inside the simulated band at 45 Erlangs on 50 agents', () => {
+    const metrics = expectInBand(impatient(50));
+    expect(metrics.abandonRate).toBeCloseTo(0.0204, 3);
+  });
+
+  test('exact Erlang A covers overload, where the approximation has no answer', () => {
+    const metrics = expectInBand(impatient(40));
+    expect(Number.isFinite(metrics.asa)).toBe(true);
+    expect(metrics.occupancy).toBeGreaterThan(0.9);
+    expect(metrics.abandonRate).toBeGreaterThan(1 - 40 / 45);
+  });
+
+  test('only covers scenarios Erlang C/A model', () => {
+    expect(analyticMetrics({ ...mmc, serviceDistribution: { type: 'lognormal', cv: 2 } })).toBeNull();
+    expect(analyticMetrics({ ...mmc, slots: 3 })).toBeNull();
+    expect(analyticMetrics({ ...mmc, patience: { type: 'fixed', value: 1 } })).toBeNull();
+    expect(analyticMetrics({ ...mmc, arrivalProfile: { intervalLength: 100, volumes: [400] } })).toBeNull();
+    expect(analyticMetrics({ ...mmc, servers: 4 })).toBeNull();
+    expect(analyticMetrics({ ...mmc, serviceDistribution: { type: 'exponential' } })!.metrics.occupancy).toBeCloseTo(0.8, 12);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Replication runner: confidence intervals for simulated performance
+ *
+ * One run gives one noisy answer. Two ways to get several independent-ish
+ * observations of each metric:
+ *
+ *   replications   N runs with seeds s, s+1, ..., s+N-1
+ *   batchMeans     one long run cut into k equal batches
+ *
+ * Both delete a warm-up period first (the system starts empty, which
+ * biases waits low). For n observations x₁..xₙ the 95% interval is
+ *
+ *   x̄ ± t(0.975, n-1) × s / √n
+ *
+ * with s the sample standard deviation. Batch means assume batches long
+ * enough to be nearly uncorrelated; use fewer, longer batches when in doubt.
+ *
+ * `replicationSteps` does the same work as `runReplications` in short steps
+ * of simulated time, so a UI can spread a long run over several timer ticks.
+ *
+ * The Erlang C/A answer for the same scenario is available from
+ * `analyticMetrics` when the scenario matches the model (Poisson arrivals,
+ * exponential service, no chat slots, no or exponential patience). Erlang A
+ * is the exact M/M/c+M chain from erlangX.ts rather than the heavy-traffic
+ * approximation in erlangA.ts, which is biased at moderate loads and has no
+ * answer in overload.
+ *
+ * References:
+ * - Law, A.M. (2015). Simulation Modeling and Analysis (5th ed.), ch. 9.
+ */
+
+import type { ScenarioConfig, SimulationTotals } from './types';
+import { SimulationEngine } from './SimulationEngine';
+import { serviceLevelThreshold, validateConfig } from './presets';
+import { normalQuantile } from '../lib/calculations/stochasticStaffing';
+import { calculateASA, calculateServiceLevel } from '../lib/calculations/erlangC';
+import { calculateErlangXPerformance } from '../lib/calculations/erlangX';
+
+export type ReplicationMethod = 'replications' | 'batchMeans';
+
+export interface ReplicationOptions {
+  /** Default 'replications' */
+  method?: ReplicationMethod;
+  /** Independent runs (default 10) */
+  replications?: number;
+  /** Batches for batch means (default 20) */
+  batches?: number;
+  /** Time deleted from the start of each run (default 10% of maxTime; 0 with an arrival profile) */
+  warmUp?: number;
+}
+
+export interface ReplicationMetrics {
+  /** Answered within threshold / (answered + abandoned), 0-1 */
+  serviceLevel: number;
+  /** Mean wait of answered contacts */
+  asa: number;
+  /** Abandoned / (answered + abandoned), 0-1 */
+  abandonRate: number;
+  /** Contacts in service / capacity (slot utilisation in chat mode), 0-1 */
+  occupancy: number;
+  /** Time-weighted mean queue length */
+  avgQueueLength: number;
+}
+
+export interface ConfidenceInterval {
+  mean: number;
+  halfWidth: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ReplicationResult {
+  method: ReplicationMethod;
+  warmUp: number;
+  /** Answer-time target behind serviceLevel, in time units (as analyticMetrics uses) */
+  serviceLevelThreshold: number;
+  /** Metrics of each run or batch */
+  observations: ReplicationMetrics[];
+  estimates: Record<keyof ReplicationMetrics, ConfidenceInterval>;
+}
+
+/** Observations finished so far, yielded by `replicationSteps` */
+export interface ReplicationProgress {
+  completed: number;
+  total: number;
+}
+
+export interface AnalyticMetrics {
+  model: 'Erlang C' | 'Erlang A';
+  metrics: ReplicationMetrics;
+}
+
+export const METRIC_KEYS: ReadonlyArray<keyof ReplicationMetrics> = [
+  'serviceLevel', 'asa', 'abandonRate', 'occupancy', 'avgQueueLength',
+];
+
+// t(0.975, df) for df = 1..30
+const T_975 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+/** Student t 97.5% quantile; Cornish-Fisher expansion beyond the table. */
+function tQuantile975(df: number): number {
+  if (df <= T_975.length) return T_975[Math.max(1, Math.round(df)) - 1]!;
+  const z = normalQuantile(0.975);
+  return z + (z ** 3 + z) / (4 * df) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2);
+}
+
+/**
+ * 95% confidence interval for the mean of independent observations
+ */
+export function confidenceInterval(values: readonly number[]): ConfidenceInterval {
+  const n = values.length;
+  const mean = n > 0 ? values.reduce((sum, v) => sum + v, 0) / n : 0;
+  if (n < 2) return { mean, halfWidth: Infinity, lower: -Infinity, upper: Infinity };
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const halfWidth = tQuantile975(n - 1) * Math.sqrt(variance / n);
+  return { mean, halfWidth, lower: mean - halfWidth, upper: mean + halfWidth };
+}
+
+// Each step simulates at most this many expected arrivals, or this fraction
+// of the horizon, whichever is shorter
+const STEP_ARRIVALS = 2000;
+const STEPS_PER_HORIZON = 100;
+
+/** Metrics for the period between two totals readings */
+function metricsBetween(from: SimulationTotals, to: SimulationTotals, capacity: number): ReplicationMetrics {
+  const answered = to.answered - from.answered;
+  const abandoned = to.abandoned - from.abandoned;
+  const decided = answered + abandoned;
+  const duration = to.time - from.time;
+  return {
+    serviceLevel: decided > 0 ? (to.answeredWithinThreshold - from.answeredWithinThreshold) / decided : 1,
+    asa: answered > 0 ? (to.totalAnswerWaitTime - from.totalAnswerWaitTime) / answered : 0,
+    abandonRate: decided > 0 ? abandoned / decided : 0,
+    occupancy: duration > 0 ? (to.busyTime - from.busyTime) / (duration * capacity) : 0,
+    avgQueueLength: duration > 0 ? (to.queueTime - from.queueTime) / duration : 0,
+  };
+}
+
+/**
+ * Run a scenario several times (or in batches) and estimate its metrics
+ *
+ * @param config - Scenario; an unseeded one gets a random base seed
+ * @param options - Method, number of runs or batches, and warm-up
+ * @returns Per-observation metrics and 95% intervals, or null for an invalid
+ *   scenario, fewer than 2 observations, or a warm-up outside [0, maxTime)
+ *
+ * @example
+ * const result = runReplications(config, { replications: 20, warmUp: 600 });
+ * result?.estimates.serviceLevel; // { mean, halfWidth, lower, upper }
+ */
+export function runReplications(
+  config: ScenarioConfig,
+  options: ReplicationOptions = {}
+): ReplicationResult | null {
+  const steps = replicationSteps(config, options);
+  let step = steps.next();
+  while (!step.done) step = steps.next();
+  return step.value;
+}
+
+/**
+ * `runReplications` as a generator: each `next()` advances the simulation by
+ * a short step and yields progress; the generator returns the same result.
+ *
+ * @example
+ * const steps = replicationSteps(config, { replications: 20 });
+ * let step = steps.next();
+ * while (!step.done) step = steps.next(); // or spread over timer ticks
+ */
+export function* replicationSteps(
+  config: ScenarioConfig,
+  options: ReplicationOptions = {}
+): Generator<ReplicationProgress, ReplicationResult | null, void> {
+  const method = options.method ?? 'replications';
+  const count = method === 'replications' ? options.replications ?? 10 : options.batches ?? 20;
+  const warmUp = options.warmUp ?? (config.arrivalProfile ? 0 : config.maxTime * 0.1);
+
+  if (validateConfig(config).length > 0) return null;
+  if (!Number.isInteger(count) || count < 2) return null;
+  if (!(warmUp >= 0 && warmUp < config.maxTime)) return null;
+
+  const capacity = config.servers * Math.max(1, config.slots ?? 1);
+  const baseSeed = config.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const observations: ReplicationMetrics[] = [];
+  const stepLength = Math.min(config.maxTime / STEPS_PER_HORIZON, STEP_ARRIVALS / config.arrivalRate);
+
+  // Process from one time to another a step at a time (at least one step,
+  // so events at the start time run even over an empty interval)
+  function* advance(engine: SimulationEngine, from: number, to: number): Generator<ReplicationProgress, void, void> {
+    let time = from;
+    do {
+      time = Math.min(to, time + stepLength);
+      engine.processUntil(time);
+      yield { completed: observations.length, total: count };
+    } while (time < to);
+  }
+
+  if (method === 'replications') {
+    for (let i = 0; i < count; i++) {
+      const engine = new SimulationEngine({ ...config, seed: baseSeed + i, maxRecords: 0 });
+      yield* advance(engine, 0, warmUp);
+      const start = engine.getTotals();
+      yield* advance(engine, warmUp, config.maxTime);
+      observations.push(metricsBetween(start, engine.getTotals(), capacity));
+    }
+  } else {
+    const engine = new SimulationEngine({ ...config, seed: baseSeed, maxRecords: 0 });
+    const batchLength = (config.maxTime - warmUp) / count;
+    yield* advance(engine, 0, warmUp);
+    let previous = engine.getTotals();
+    for (let i = 1; i <= count; i++) {
+      const end = i === count ? config.maxTime : warmUp + i * batchLength;
+      yield* advance(engine, previous.time, end);
+      const current = engine.getTotals();
+      observations.push(metricsBetween(previous, current, capacity));
+      previous = current;
+    }
+  }
+
+  const estimates = Object.fromEntries(
+    METRIC_KEYS.map(key => [key, confidenceInterval(observations.map(o => o[key]))])
+  ) as Record<keyof ReplicationMetrics, ConfidenceInterval>;
+
+  return { method, warmUp, serviceLevelThreshold: serviceLevelThreshold(config), observations, estimates };
+}
+
+/**
+ * Erlang C (no patience) or exact Erlang A (exponential patience) answer for
+ * a scenario, or null when the scenario is outside those models or unstable
+ * under Erlang C. Erlang A is stable at any load, overload included.
+ */
+export function analyticMetrics(config: ScenarioConfig): AnalyticMetrics | null {
+  const exponential = (d: ScenarioConfig['serviceDistribution']) => !d || d.type === 'exponential';
+  if (config.arrivalProfile || (config.slots ?? 1) > 1) return null;
+  if (!exponential(config.arrivalDistribution) || !exponential(config.serviceDistribution)) return null;
+  if (config.patience && config.patience.type !== 'exponential') return null;
+  if (!(config.arrivalRate > 0 && config.serviceRate > 0 && config.servers >= 1)) return null;
+
+  const c = config.servers;
+  const aht = 1 / config.serviceRate;
+  const A = config.arrivalRate * aht;
+  // The threshold the engine measures against, so both sides compare like with like
+  const threshold = serviceLevelThreshold(config);
+
+  if (!config.patience) {
+    if (A >= c) return null;
+    const asa = calculateASA(c, A, aht);
+    return {
+      model: 'Erlang C',
+      metrics: {
+        serviceLevel: calculateServiceLevel(c, A, aht, threshold),
+        asa,
+        abandonRate: 0,
+        occupancy: A / c,
+        // Little's law: Lq = λ × Wq
+        avgQueueLength: config.arrivalRate * asa,
+      },
+    };
+  }
+
+  // M/M/c+M with unlimited lines and no redials; the chain only uses ratios
+  // to the AHT, so time units need no conversion
+  const patience = config.patience.mean;
+  const exact = calculateErlangXPerformance(c, A, aht, threshold, patience);
+  const abandonRate = exact.abandonmentProbability;
+  return {
+    model: 'Erlang A',
+    metrics: {
+      serviceLevel: exact.serviceLevel,
+      asa: exact.asa,
+      abandonRate,
+      occupancy: Math.min(1, (A * (1 - abandonRate)) / c),
+      // Abandonment rate θ × Lq equals λ × P(abandon)
+      avgQueueLength: config.arrivalRate * abandonRate * patience,
+    },
+  };
+}
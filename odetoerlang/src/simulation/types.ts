@@ -2,21 +2,95 @@
  * Core types for the discrete-event simulation engine
  */
 
+/**
+ * Default answer-time target for service level, in seconds (the 20 of
+ * 80/20). Scenarios in other time units scale it; see serviceLevelThreshold.
+ */
+export const DEFAULT_SL_THRESHOLD_SECONDS = 20;
+
+/**
+ * What one simulation time unit is. ControlsPanel shows rates per minute and
+ * times in seconds whatever the unit.
+ */
+export type TimeUnit = 'seconds' | 'minutes';
+
 /**
  * Channel types for contact center simulation
  */
 type ChannelType = 'voice' | 'chat' | 'email' | 'video' | 'social' | 'sms';
 
+/**
+ * How long a queued customer waits before abandoning (simulation time units)
+ * - exponential: mean patience, the M/M/c+M assumption behind Erlang A
+ * - fixed: every customer waits exactly `value`
+ * - empirical: drawn uniformly from observed patience samples
+ */
+export type PatienceDistribution =
+  | { type: 'exponential'; mean: number }
+  | { type: 'fixed'; value: number }
+  | { type: 'empirical'; samples: number[] };
+
+/**
+ * Shape of a random duration (inter-arrival or service time). All but
+ * `empirical` are scaled to the mean implied by the configured rate.
+ * - exponential: CV 1 (default)
+ * - lognormal: cv = standard deviation / mean
+ * - gamma: shape k, CV 1/√k
+ * - erlang: k exponential phases
+ * - deterministic: always the mean
+ * - empirical: bootstrap from observed values (e.g. historical AHT), drawn
+ *   in proportion to `weights` when given (e.g. contacts behind each value)
+ */
+export type DurationDistribution =
+  | { type: 'exponential' }
+  | { type: 'lognormal'; cv: number }
+  | { type: 'gamma'; shape: number }
+  | { type: 'erlang'; k: number }
+  | { type: 'deterministic' }
+  | { type: 'empirical'; samples: number[]; weights?: number[] | undefined };
+
+/**
+ * Piecewise-constant arrival profile, e.g. the 48 half-hour volumes of a
+ * day: `volumes[i]` arrivals are expected in [i × intervalLength,
+ * (i + 1) × intervalLength). Arrivals stop after the last interval.
+ */
+export interface ArrivalProfile {
+  intervalLength: number;  // Time units per interval (e.g. 1800 for half-hours in seconds)
+  volumes: number[];       // Expected arrivals per interval
+  labels?: string[];       // Display labels per interval (e.g. '08:30')
+}
+
 export interface ScenarioConfig {
   arrivalRate: number;  // lambda (arrivals per time unit)
   serviceRate: number;  // mu (service rate per server per time unit)
   servers: number;      // c (number of servers)
   maxTime: number;      // simulation horizon
+  timeUnit?: TimeUnit;  // What the rates and times are measured in (default 'seconds')
   channel?: ChannelType; // Channel type (defaults to 'voice')
   campaignId?: number;   // Optional campaign ID for database integration
   skillId?: number;      // Optional skill ID for database integration
   seed?: number;        // Random seed for reproducible simulations (optional)
   maxRecords?: number;  // Maximum contact records to retain (default: 10000)
+  /**
+   * Chat mode: concurrent sessions per server (default 1). Above 1, new
+   * contacts go to the least-loaded server and each session's service rate
+   * is serviceRate / (1 + (k - 1) × sessionOverhead) with k sessions open.
+   */
+  slots?: number;
+  sessionOverhead?: number; // Chat mode: extra handle time per additional open session (default 0)
+  patience?: PatienceDistribution; // Queued customers abandon after their patience runs out (default: never)
+  arrivalDistribution?: DurationDistribution; // Inter-arrival times, mean 1 / arrivalRate (default: exponential = Poisson)
+  /**
+   * Service times, mean 1 / serviceRate (default exponential). Chat mode
+   * (slots > 1) keeps exponential service.
+   */
+  serviceDistribution?: DurationDistribution;
+  /**
+   * Time-varying arrivals as a non-homogeneous Poisson process; replaces
+   * arrivalRate and arrivalDistribution for generating arrivals
+   */
+  arrivalProfile?: ArrivalProfile;
+  serviceLevelThreshold?: number; // Answer-time target in time units (default DEFAULT_SL_THRESHOLD_SECONDS, scaled)
 }
 
 export interface Customer {
@@ -24,19 +98,23 @@ export interface Customer {
   arrivalTime: number;
   serviceStartTime?: number;
   serviceEndTime?: number;
+  concurrentContacts?: number; // Chat mode: sessions open on the server when service started
 }
 
-export type EventType = 'ARRIVAL' | 'SERVICE_END';
+export type EventType = 'ARRIVAL' | 'SERVICE_END' | 'ABANDON';
 
 export const EventType = {
   ARRIVAL: 'ARRIVAL' as const,
   SERVICE_END: 'SERVICE_END' as const,
+  ABANDON: 'ABANDON' as const,
 };
 
 export interface Event {
   time: number;
   type: EventType;
   customerId: number;
+  serverId?: number;  // Service end: server being freed (chat mode: whose next completion this is)
+  version?: number;   // Chat mode: superseded when the server's session count changes
 }
 
 export interface Server {
@@ -44,6 +122,7 @@ export interface Server {
   busy: boolean;
   customerId?: number | undefined;
   releaseTime?: number | undefined;
+  sessions?: number[] | undefined; // Chat mode: customers in service on this server
 }
 
 export interface TimeSeriesPoint {
@@ -55,10 +134,50 @@ export interface TimeSeriesPoint {
 export interface SimulationStats {
   servicedCount: number;
   totalWaitTime: number;
+  answeredCount: number;
+  answeredWithinThreshold: number;
+  totalAnswerWaitTime: number;   // Waits of answered customers, counted when answered
+  abandonedCount: number;
+  totalAbandonWaitTime: number;
+  queueTime: number;             // Integral of queue length over time
+  busyTime: number;              // Integral of contacts in service over time
   maxQueueLength: number;
   timeSeries: TimeSeriesPoint[];
 }
 
+/**
+ * Cumulative totals from time 0 to `time`. The difference between two
+ * readings gives the statistics of the period between them (warm-up
+ * deletion, batch means).
+ */
+export interface SimulationTotals {
+  time: number;
+  answered: number;
+  answeredWithinThreshold: number;
+  totalAnswerWaitTime: number;
+  abandoned: number;
+  queueTime: number;
+  busyTime: number;
+}
+
+/**
+ * Statistics for one interval of the arrival profile. Contacts count in the
+ * interval they arrived in; queue length is by clock time.
+ */
+export interface IntervalStats {
+  index: number;
+  label?: string | undefined;
+  start: number;
+  end: number;
+  offered: number;
+  answered: number;
+  abandoned: number;
+  serviceLevel: number;     // Answered within threshold / (answered + abandoned)
+  asa: number;              // Mean wait of answered contacts
+  avgQueueLength: number;   // Time-weighted over the elapsed part of the interval
+  maxQueueLength: number;
+}
+
 export interface Snapshot {
   now: number;
   queueLength: number;
@@ -66,6 +185,10 @@ export interface Snapshot {
   servicedCount: number;
   avgWaitTime: number;
   maxQueueLength: number;
+  abandonedCount: number;
+  abandonRate: number;          // Abandoned / (abandoned + answered); customers still queued are not counted
+  avgAbandonWaitTime: number;   // Mean time abandoned customers waited before leaving
+  intervals: IntervalStats[];   // Per arrival-profile interval; empty without a profile
   timeSeries: TimeSeriesPoint[];
 }
 
@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, vi, afterEach } from 'vitest';
-import { useCalculatorStore } from './calculatorStore';
+import { setCalendarShrinkageProvider, useCalculatorStore } from './calculatorStore';
 import { createDefaultInputs } from '../tests/fixtures/calculatorInputs';
+import type { ShrinkageCategory } from '../types';
 
 /**
  * calculatorStore.ts Test Suite
@@ -119,6 +120,40 @@ describe('calculatorStore - Input Mutations', () => {
     expect(useCalculatorStore.getState().inputs.shrinkagePercent).toBe(30);
   });
 
+  test('setInput with shrinkage categories sets the combined shrinkage', () => {
+    useCalculatorStore.getState().setInput('shrinkageCategories', [
+      { category: 'Holiday', kind: 'planned', percent: 12 },
+      { category: 'Sickness', kind: 'unplanned', percent: 6 },
+    ]);
+    expect(useCalculatorStore.getState().inputs.shrinkagePercent).toBe(18);
+
+    useCalculatorStore.getState().setInput('shrinkagePercent', 30);
+    expect(useCalculatorStore.getState().inputs.shrinkagePercent).toBe(30);
+    expect(useCalculatorStore.getState().inputs.shrinkageCategories).toBeUndefined();
+  });
+
+  test('setDate re-derives calendar shrinkage for the new date', () => {
+    const byDate: Record<string, ShrinkageCategory[]> = {
+      '2026-03-10': [{ category: 'Holiday', kind: 'planned', percent: 20, source: 'calendar' }],
+    };
+    setCalendarShrinkageProvider((date) => byDate[date] ?? []);
+    try {
+      useCalculatorStore.getState().setInput('shrinkageCategories', [
+        { category: 'Holiday', kind: 'planned', percent: 12 },
+        { category: 'Sickness', kind: 'unplanned', percent: 6 },
+      ]);
+
+      useCalculatorStore.getState().setDate('2026-03-10');
+      expect(useCalculatorStore.getState().inputs.shrinkagePercent).toBe(26);
+
+      useCalculatorStore.getState().setDate('2026-03-11');
+      expect(useCalculatorStore.getState().inputs.shrinkageCategories?.map(c => c.percent)).toEqual([12, 6]);
+      expect(useCalculatorStore.getState().inputs.shrinkagePercent).toBe(18);
+    } finally {
+      setCalendarShrinkageProvider(() => []);
+    }
+  });
+
   test('setUseAssumptions updates flag', () => {
     useCalculatorStore.getState().setUseAssumptions(false);
     expect(useCalculatorStore.getState().useAssumptions).toBe(false);
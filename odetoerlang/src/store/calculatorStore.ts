@@ -1,23 +1,37 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { CalculationInputs, CalculationResults } from '../types';
-import { CalculationService, type AchievableMetrics } from '../lib/services/CalculationService';
+import type { CalculationInputs, CalculationResults, ShrinkageCategory } from '../types';
+import { CalculationService, type AchievableMetrics, type CallbackMetrics } from '../lib/services/CalculationService';
 import type { ValidationResult } from '../lib/validation/inputValidation';
 import { toLocalDateString } from '../lib/dateUtils';
+import { combineShrinkage } from '../lib/calculations/shrinkage';
+import { applyCalendarShrinkage } from '../lib/calendar/shrinkage';
 
 /**
  * Calculator does not know about the database. A productivity getter is
  * injected once at app boot via setProductivityProvider(); tests can stub it
  * to return any value. Default is 1.0 (no modifier), which is also what the
  * pre-decoupling behaviour returned when no calendar events were present.
+ * Event types already counted as shrinkage are passed as `excludeEventTypes`.
  */
-type ProductivityProvider = (date: string) => number;
+type ProductivityProvider = (date: string, excludeEventTypes?: readonly string[]) => number;
 let productivityProvider: ProductivityProvider = () => 1.0;
 
 export function setProductivityProvider(provider: ProductivityProvider): void {
   productivityProvider = provider;
 }
 
+/**
+ * Training / Holiday calendar shrinkage for a date, injected the same way.
+ * Default is none, so categories carry no calendar rows.
+ */
+type CalendarShrinkageProvider = (date: string) => ShrinkageCategory[];
+let calendarShrinkageProvider: CalendarShrinkageProvider = () => [];
+
+export function setCalendarShrinkageProvider(provider: CalendarShrinkageProvider): void {
+  calendarShrinkageProvider = provider;
+}
+
 /** Lightweight debounce so we don't pull in lodash for a single helper. */
 function debounce<T extends (...args: unknown[]) => void>(fn: T, delay: number): T {
   let timeoutId: ReturnType<typeof setTimeout> | null = null;
@@ -59,6 +73,7 @@ interface CalculatorState {
     retrialProbability?: number | undefined;
     virtualTraffic?: number | undefined;
   } | null | undefined;
+  callbackMetrics?: CallbackMetrics | null | undefined;
   setInput: <K extends keyof CalculationInputs>(key: K, value: CalculationInputs[K]) => void;
   setDate: (date: string) => void; // Add setDate action
   setStaffingModel: <K extends keyof StaffingModel>(key: K, value: StaffingModel[K]) => void;
@@ -151,6 +166,38 @@ export function calculateProductiveAgents(
   return { staffPerShift, productiveAgents, shiftsToFillDay, shiftBreakdown };
 }
 
+/**
+ * Apply one input. Shrinkage categories and the shrinkage percent stay in
+ * step: setting categories sets the percent to their combined value, and
+ * setting the percent directly drops the categories.
+ */
+function withInput<K extends keyof CalculationInputs>(
+  inputs: CalculationInputs,
+  key: K,
+  value: CalculationInputs[K]
+): CalculationInputs {
+  if (key === 'shrinkageCategories') {
+    const categories = value as ShrinkageCategory[] | undefined;
+    if (!categories || categories.length === 0) return { ...inputs, shrinkageCategories: undefined };
+    return { ...inputs, shrinkageCategories: categories, shrinkagePercent: combineShrinkage(categories).totalPercent };
+  }
+  if (key === 'shrinkagePercent' && inputs.shrinkageCategories) {
+    return { ...inputs, shrinkagePercent: value as number, shrinkageCategories: undefined };
+  }
+  return { ...inputs, [key]: value };
+}
+
+/**
+ * Re-derive the calendar rows of the shrinkage categories for a date, so
+ * rows from the previous date never linger. Inputs without categories are
+ * left alone (calendar events then act through the productivity modifier).
+ */
+function withCalendarShrinkage(inputs: CalculationInputs, date: string): CalculationInputs {
+  if (!inputs.shrinkageCategories) return inputs;
+  const categories = applyCalendarShrinkage(inputs.shrinkageCategories, calendarShrinkageProvider(date));
+  return withInput(inputs, 'shrinkageCategories', categories);
+}
+
 export const useCalculatorStore = create<CalculatorState>()(
   persist(
     (set, get) => ({
@@ -162,16 +209,17 @@ export const useCalculatorStore = create<CalculatorState>()(
       useAssumptions: true,
       achievableMetrics: null,
       abandonmentMetrics: null,
+      callbackMetrics: null,
 
       setInput: (key, value) => {
         set((state) => ({
-          inputs: { ...state.inputs, [key]: value }
+          inputs: withInput(state.inputs, key, value)
         }));
         get().calculate();
       },
 
       setDate: (date) => {
-        set({ date });
+        set((state) => ({ date, inputs: withCalendarShrinkage(state.inputs, date) }));
         get().calculate();
       },
 
@@ -200,13 +248,18 @@ export const useCalculatorStore = create<CalculatorState>()(
 
       calculate: debounce(() => {
         const { inputs, staffingModel, date } = get();
-        const productivityModifier = productivityProvider(date);
+        // Calendar events already in the shrinkage categories don't also cut productivity.
+        const calendarShrinkageTypes = (inputs.shrinkageCategories ?? [])
+          .filter(c => c.source === 'calendar')
+          .map(c => c.category);
+        const productivityModifier = productivityProvider(date, calendarShrinkageTypes);
         const serviceResult = CalculationService.calculate(inputs, staffingModel, productivityModifier);
 
         set({
           results: serviceResult.results,
           achievableMetrics: serviceResult.achievableMetrics,
           abandonmentMetrics: serviceResult.abandonmentMetrics,
+          callbackMetrics: serviceResult.callbackMetrics,
           validation: serviceResult.validation,
           activeProductivityModifier: productivityModifier,
         });
@@ -218,6 +271,7 @@ export const useCalculatorStore = create<CalculatorState>()(
           date: toLocalDateString(),
           results: null, 
           abandonmentMetrics: null, 
+          callbackMetrics: null,
           activeProductivityModifier: 1.0,
           validation: { valid: true, errors: [] } 
         });
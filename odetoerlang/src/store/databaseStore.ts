@@ -31,6 +31,7 @@ import {
   type Scenario,
   type Client,
   type Assumption,
+  type AssumptionSchedule,
   type CalendarEvent,
   type SchedulePlan,
   type ScheduleRun,
@@ -38,6 +39,8 @@ import {
   type OptimizationMethod,
 } from '../lib/database/dataAccess';
 import { getProductivityForDateFromEvents } from '../lib/calendar/productivity';
+import { calendarShrinkageForDate } from '../lib/calendar/shrinkage';
+import type { ShrinkageCategory } from '../types';
 
 interface DatabaseState {
   // Data
@@ -110,7 +113,9 @@ interface DatabaseState {
     unit: string,
     validFrom: string,
     campaignId?: number | null,
-    validTo?: string | null
+    validTo?: string | null,
+    shrinkageCategory?: string | null,
+    schedule?: AssumptionSchedule | null
   ) => number;
 
   // Actions - Forecasts
@@ -131,7 +136,10 @@ interface DatabaseState {
   getTableStats: () => Record<string, number>;
 
   // Selectors (pure reads of cached state)
-  getProductivityForDate: (date: string) => number;
+  /** Event types in `excludeEventTypes` are skipped (counted as shrinkage instead) */
+  getProductivityForDate: (date: string, excludeEventTypes?: readonly string[]) => number;
+  /** Training / Holiday events on the date as planned shrinkage categories */
+  getCalendarShrinkageForDate: (date: string) => ShrinkageCategory[];
 }
 
 const TAB_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
@@ -476,9 +484,9 @@ export const useDatabaseStore = create<DatabaseState>((set, get) => ({
   },
 
   // Assumptions
-  saveAssumption: (type, value, unit, validFrom, campaignId = null, validTo = null) => {
+  saveAssumption: (type, value, unit, validFrom, campaignId = null, validTo = null, shrinkageCategory = null, schedule = null) => {
     try {
-      const id = upsertAssumption(type, value, unit, validFrom, campaignId, validTo);
+      const id = upsertAssumption(type, value, unit, validFrom, campaignId, validTo, shrinkageCategory, schedule);
       get().fetchAssumptions(); // Refresh ALL assumptions
       return id;
     } catch (err) {
@@ -534,7 +542,10 @@ export const useDatabaseStore = create<DatabaseState>((set, get) => ({
   },
 
   // Selectors
-  getProductivityForDate: (date) => {
-    return getProductivityForDateFromEvents(date, get().calendarEvents);
+  getProductivityForDate: (date, excludeEventTypes = []) => {
+    const events = get().calendarEvents.filter(e => !excludeEventTypes.includes(e.event_type));
+    return getProductivityForDateFromEvents(date, events);
   },
+
+  getCalendarShrinkageForDate: (date) => calendarShrinkageForDate(date, get().calendarEvents),
 }));
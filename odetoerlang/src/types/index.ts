@@ -2,7 +2,93 @@
  * Type definitions for OdeToErlangAndBromley
  */
 
-export type ErlangVariant = 'A' | 'B' | 'C';
+/**
+ * Staffing model. EB / EC are the Engset finite-source counterparts of
+ * Erlang B (blocking) and Erlang C (delay).
+ */
+export type ErlangVariant = 'A' | 'B' | 'C' | 'X' | 'EB' | 'EC';
+
+/**
+ * How a campaign's contacts reach agents. Inbound contacts queue for an
+ * agent; outbound contacts are placed by a predictive dialer.
+ */
+export type ChannelBehavior = 'inbound' | 'outbound';
+
+/** Predictive-dialer inputs. Rates are percentages like the other calculator inputs. */
+export interface OutboundSettings {
+  /** Records to dial (one attempt each) */
+  records: number;
+  /** Hours available to work the list */
+  dialingHours: number;
+  /** Live answers per dial (%) */
+  contactRatePercent: number;
+  /** Right-party contacts per live answer (%) */
+  rightPartyPercent: number;
+  talkSeconds: number;
+  wrapSeconds: number;
+  /** Maximum live answers dropped for lack of an agent (%) */
+  maxNuisancePercent: number;
+}
+
+/**
+ * Virtual hold: callers facing a long wait are offered a callback that keeps
+ * their place in line. Rates are percentages like the other calculator inputs.
+ */
+export interface CallbackSettings {
+  /** Offer a callback when the predicted wait exceeds this many seconds */
+  offerThresholdSeconds: number;
+  /** Offered callers who accept (%) */
+  takeUpPercent: number;
+  /** Callbacks must be started within this many minutes of acceptance */
+  deadlineMinutes: number;
+  /** Callbacks that must meet the deadline (%) */
+  completionTargetPercent: number;
+}
+
+/**
+ * One point of an AHT-versus-occupancy curve. Handle time at `occupancy`
+ * is the base AHT × `ahtMultiplier`; between points the multiplier is
+ * interpolated linearly and held flat beyond the ends.
+ */
+export interface AHTOccupancyPoint {
+  /** Agent occupancy (%) */
+  occupancy: number;
+  /** AHT relative to the entered AHT (1 = unchanged) */
+  ahtMultiplier: number;
+}
+
+/** Planned shrinkage is scheduled in advance (holiday, training); unplanned is not (sickness, lateness). */
+export type ShrinkageKind = 'planned' | 'unplanned';
+
+/** One named slice of shrinkage. Percentages are of paid time and add up to the total. */
+export interface ShrinkageCategory {
+  category: string;
+  kind: ShrinkageKind;
+  /** Share of paid time lost (%) */
+  percent: number;
+  /** 'calendar' when derived from calendar events rather than an assumption */
+  source?: 'assumption' | 'calendar' | undefined;
+  /** Calendar rows: the same-named category this row stands in for on its date */
+  replaced?: ShrinkageCategory | undefined;
+}
+
+/**
+ * What the staffing solver must achieve.
+ * - serviceLevel:   X% answered within Y seconds (targetSLPercent / thresholdSeconds)
+ * - asa:            average speed of answer ≤ targetASASeconds
+ * - abandonRate:    abandonment ≤ targetAbandonPercent (Erlang A/X only)
+ * - waitPercentile: Nth percentile wait ≤ T, with N = targetSLPercent and
+ *                   T = thresholdSeconds. P(wait ≤ T) ≥ N% is the same
+ *                   inequality as a service-level target; only the framing differs.
+ */
+export type ServiceTargetType = 'serviceLevel' | 'asa' | 'abandonRate' | 'waitPercentile';
+
+/** Solver target. Probabilities are decimals (0-1) like the other calc-layer inputs. */
+export type ServiceTarget =
+  | { type: 'serviceLevel' }
+  | { type: 'waitPercentile' }
+  | { type: 'asa'; maxASASeconds: number }
+  | { type: 'abandonRate'; maxAbandonRate: number };
 
 export interface CalculationInputs {
   volume: number;
@@ -11,10 +97,39 @@ export interface CalculationInputs {
   targetSLPercent: number;
   thresholdSeconds: number;
   shrinkagePercent: number;
+  /**
+   * Shrinkage by category; when set, shrinkagePercent is their combined
+   * value (the calculator store keeps the two in step)
+   */
+  shrinkageCategories?: ShrinkageCategory[] | undefined;
   maxOccupancy: number;
   model: ErlangVariant | string;
   averagePatience: number;
   concurrency: number;
+  /** Erlang X: % of blocked/abandoned callers who redial (default 40) */
+  retrialPercent?: number;
+  /** Erlang X: lines/trunks available; undefined or 0 = unlimited */
+  lines?: number;
+  /** Engset (EB/EC): number of sources that can raise contacts */
+  population?: number;
+  /** Erlang C: AHT coefficient of variation; enables the M/G/c (Allen-Cunneen) mode */
+  ahtCV?: number;
+  /** Erlang C: inter-arrival coefficient of variation (default 1 = Poisson) */
+  arrivalCV?: number;
+  /** Staffing target type (default 'serviceLevel') */
+  targetType?: ServiceTargetType;
+  /** Maximum ASA in seconds when targetType = 'asa' */
+  targetASASeconds?: number;
+  /** Maximum abandonment % when targetType = 'abandonRate' */
+  targetAbandonPercent?: number;
+  /** Inbound queue (default) or outbound predictive dialer */
+  channelBehavior?: ChannelBehavior;
+  /** Dialer inputs when channelBehavior = 'outbound' */
+  outbound?: OutboundSettings;
+  /** Virtual hold / callback offer; undefined = callbacks not offered */
+  callback?: CallbackSettings | undefined;
+  /** AHT-versus-occupancy curve; undefined = AHT does not depend on occupancy */
+  ahtOccupancyCurve?: AHTOccupancyPoint[] | undefined;
   solveFor?: 'agents' | 'sl';
   currentHeadcount?: number;
 }
@@ -34,6 +149,8 @@ export interface CalculationResults {
    * forecasts where bursty intraday volume would violate the assumption.
    */
   assumesStationary?: boolean;
+  /** AHT (seconds) at the staffed occupancy when an AHT-versus-occupancy curve is set */
+  occupancyAdjustedAHT?: number | undefined;
 }
 
 export interface TooltipContent {
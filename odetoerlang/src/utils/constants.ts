@@ -3,6 +3,8 @@
  * All business logic constants extracted here for maintainability.
  */
 
+import type { AHTOccupancyPoint, CallbackSettings, OutboundSettings, ShrinkageCategory, ShrinkageKind } from '../types';
+
 // Time constants
 export const SECONDS_PER_MINUTE = 60;
 export const SECONDS_PER_HOUR = 3600;
@@ -18,6 +20,63 @@ export const DEFAULT_THRESHOLD_SECONDS = 20;
 export const DEFAULT_SHRINKAGE_PERCENT = 25;
 export const DEFAULT_MAX_OCCUPANCY_PERCENT = 90;
 export const DEFAULT_AVERAGE_PATIENCE_SECONDS = 120; // 2 minutes
+export const DEFAULT_TARGET_ASA_SECONDS = 30;
+export const DEFAULT_TARGET_ABANDON_PERCENT = 5;
+export const DEFAULT_ENGSET_POPULATION = 400;
+
+// Outbound dialer defaults
+export const DEFAULT_WRONG_PARTY_SECONDS = 30; // Wrong person answers: brief explanation, then hang up
+export const DEFAULT_MAX_NUISANCE_PERCENT = 3; // Ofcom persistent-misuse limit on abandoned live calls
+export const DEFAULT_OUTBOUND_SETTINGS: OutboundSettings = {
+  records: 12000,
+  dialingHours: 8,
+  contactRatePercent: 35,
+  rightPartyPercent: 60,
+  talkSeconds: 180,
+  wrapSeconds: 30,
+  maxNuisancePercent: DEFAULT_MAX_NUISANCE_PERCENT,
+};
+
+// Virtual hold / callback defaults
+export const DEFAULT_CALLBACK_SETTINGS: CallbackSettings = {
+  offerThresholdSeconds: 60,
+  takeUpPercent: 40,
+  deadlineMinutes: 30,
+  completionTargetPercent: 95,
+};
+
+// AHT vs occupancy: handle time creeps up as agents get busier (fatigue,
+// longer wrap). Multipliers are on the entered AHT.
+export const DEFAULT_AHT_OCCUPANCY_CURVE: AHTOccupancyPoint[] = [
+  { occupancy: 70, ahtMultiplier: 1 },
+  { occupancy: 85, ahtMultiplier: 1.03 },
+  { occupancy: 95, ahtMultiplier: 1.08 },
+];
+
+// Shrinkage categories and whether each is planned or unplanned
+export const SHRINKAGE_CATEGORY_KINDS: Record<string, ShrinkageKind> = {
+  Holiday: 'planned',
+  Training: 'planned',
+  Coaching: 'planned',
+  Breaks: 'planned',
+  Sickness: 'unplanned',
+  Lateness: 'unplanned',
+};
+// Starting split for the shrinkage builder; adds up to DEFAULT_SHRINKAGE_PERCENT
+export const DEFAULT_SHRINKAGE_CATEGORIES: ShrinkageCategory[] = [
+  { category: 'Holiday', kind: 'planned', percent: 10 },
+  { category: 'Training', kind: 'planned', percent: 3 },
+  { category: 'Coaching', kind: 'planned', percent: 2 },
+  { category: 'Breaks', kind: 'planned', percent: 5 },
+  { category: 'Sickness', kind: 'unplanned', percent: 4 },
+  { category: 'Lateness', kind: 'unplanned', percent: 1 },
+];
+// Calendar event types counted as planned shrinkage (instead of a productivity modifier)
+export const CALENDAR_SHRINKAGE_EVENT_TYPES = ['Training', 'Holiday'];
+
+// Typical intraday shape (multiplier on the interval volume), morning peak
+// and lunch dip, used where the calculator needs a day profile.
+export const INTRADAY_VOLUME_PATTERN = [0.7, 1.0, 1.2, 1.1, 0.8, 0.7, 0.9, 1.0, 0.8, 0.6];
 
 // Occupancy thresholds
 export const OCCUPANCY_MIN_OPTIMAL = 0.7;
@@ -31,11 +90,11 @@ export const DEFAULT_OVERHEAD_MULTIPLIER = 1.3; // 30% overhead
 // Erlang formula constraints
 export const MAX_AGENTS_MULTIPLIER = 3; // Max agents = traffic * 3
 export const MIN_AGENTS_FOR_LOW_TRAFFIC = 10; // Minimum search range for traffic < 1
-export const EQUILIBRIUM_TOLERANCE = 0.0001; // Convergence threshold
+export const EQUILIBRIUM_TOLERANCE = 0.0001; // Convergence threshold (Erlang X redial fixed point)
 export const EQUILIBRIUM_MAX_ITERATIONS = 100;
 
-// Retrial / time-varying model constants (currently unused; kept for future experimentation)
-export const BASE_RETRIAL_RATE = 0.4; // 40% of abandoned customers retry
+// Retrial model constants
+export const BASE_RETRIAL_RATE = 0.4; // 40% of blocked/abandoned customers retry (Erlang X default)
 export const MAX_RETRIAL_RATE = 0.7; // Maximum 70% retrial rate
 export const DEFAULT_PATIENCE_SHAPE = 1.2; // Weibull shape parameter
 
@@ -58,6 +117,17 @@ export const VALIDATION = {
   maxOccupancyPercent: { min: 50, max: 100 },
   averagePatienceSeconds: { min: 10, max: 1800 }, // 10 seconds to 30 minutes
   concurrency: { min: 1, max: 10 }, // 1 (voice) to 10 (chat/email)
+  retrialPercent: { min: 0, max: 99 }, // Erlang X redial probability
+  lines: { min: 1, max: 100000 }, // Erlang X trunks (agents + waiting positions)
+  population: { min: 1, max: 100000 }, // Engset sources
+  coefficientOfVariation: { min: 0, max: 5 }, // M/G/c AHT / arrival variability
+  targetASASeconds: { min: 1, max: 3600 },
+  targetAbandonPercent: { min: 0.1, max: 100 },
+  outboundRecords: { min: 0, max: 10000000 },
+  dialingHours: { min: 0.25, max: 24 },
+  maxNuisancePercent: { min: 0.1, max: 50 },
+  callbackDeadlineMinutes: { min: 1, max: 1440 },
+  ahtMultiplier: { min: 0.25, max: 4 },
 } as const;
 
 // Channel types